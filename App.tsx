@@ -1,12 +1,30 @@
-import React, { useEffect, useState } from 'react';
-import { StatusBar, View, ActivityIndicator, StyleSheet } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useEffect, useRef, useState } from 'react';
+import { StatusBar, View, ActivityIndicator, StyleSheet, AppState } from 'react-native';
+import { NavigationContainer, LinkingOptions } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
 
 import { AuthProvider, useAuth } from './src/context/AuthContext';
 import { initDatabase } from './src/database/database';
+import { generateDueLogs } from './src/services/scheduleService';
+import { sweepMissedDoses } from './src/services/missedDoseService';
+import { listenForReminderActions, registerReminderActions } from './src/services/reminderActionService';
+import {
+  defineBackgroundTasks,
+  registerMissedDoseSweep,
+  registerReminderActionTask,
+} from './src/services/backgroundTaskService';
+import { runEscalations } from './src/services/escalationService';
+import { updateAdherenceStats } from './src/services/medicineService';
+import {
+  requestNotificationPermissions,
+  reconcileReminders,
+  registerNotificationChannels,
+  addProfileNotificationListener,
+} from './src/services/notificationService';
+import { setNotifier } from './src/notifications/notifier';
+import { createExpoNotifier, registerNotificationHandler } from './src/notifications/expoNotifier';
 import { colors } from './src/utils/theme';
 
 // Auth Screens
@@ -16,6 +34,9 @@ import {
   CaregiverRegisterScreen,
   DoctorRegisterScreen,
   LoginScreen,
+  SetPinScreen,
+  ProfilePickerScreen,
+  AuthorizePinSetupScreen,
 } from './src/screens/Auth';
 
 // Patient Screens
@@ -27,13 +48,35 @@ import {
   PatientAdherenceScreen,
   MedicineDetailScreen,
   FaceScanScreen,
+  BackupScreen,
+  ChangePinScreen,
+  InvitationsScreen,
+  CareTeamScreen,
+  PatientAppointmentsScreen,
+  PatientConsultationsScreen,
+  NotificationSettingsScreen,
 } from './src/screens/Patient';
 
 // Caregiver Screens
-import { CaregiverDashboardScreen, CaregiverMedicinesScreen, CaregiverAdherenceScreen } from './src/screens/Caregiver';
+import {
+  CaregiverDashboardScreen,
+  CaregiverMedicinesScreen,
+  CaregiverAdherenceScreen,
+  LinkPatientScreen,
+} from './src/screens/Caregiver';
 
 // Doctor Screens
-import { DoctorDashboardScreen, PatientListScreen, PatientDetailScreen, DoctorAlertsScreen, AppointmentsScreen } from './src/screens/Doctor';
+import {
+  DoctorDashboardScreen,
+  PatientListScreen,
+  PatientDetailScreen,
+  DoctorAlertsScreen,
+  AppointmentsScreen,
+  AddPatientScreen,
+  BookAppointmentScreen,
+  ConsultationsScreen,
+  ConsultationNoteScreen,
+} from './src/screens/Doctor';
 
 // Types
 import {
@@ -42,27 +85,75 @@ import {
   CaregiverStackParamList,
   DoctorStackParamList,
   RootTabParamList,
+  UserRole,
 } from './src/types';
 
+// Before the first render: the OS may launch the app just to run a background
+// task or deliver a notification response
+setNotifier(createExpoNotifier());
+registerNotificationHandler();
+defineBackgroundTasks();
+listenForReminderActions();
+
 const AuthStack = createNativeStackNavigator<AuthStackParamList>();
 const PatientStack = createNativeStackNavigator<PatientStackParamList>();
 const CaregiverStack = createNativeStackNavigator<CaregiverStackParamList>();
 const DoctorStack = createNativeStackNavigator<DoctorStackParamList>();
 const Tab = createBottomTabNavigator<RootTabParamList>();
 
+type InvitationLinkParamList = AuthStackParamList & CaregiverStackParamList & DoctorStackParamList;
+
+// Invitation QR codes open the matching registration screen with the code filled in
+const invitationLinking: LinkingOptions<InvitationLinkParamList> = {
+  prefixes: ['ownmedicare://'],
+  config: {
+    screens: {
+      CaregiverRegister: 'invite/caregiver/:inviteCode',
+      DoctorRegister: 'invite/doctor/:inviteCode',
+    },
+  },
+};
+
+// A signed-in caregiver or doctor opening another patient's invitation links that patient to their account
+const signedInLinking: Partial<Record<UserRole, LinkingOptions<InvitationLinkParamList>>> = {
+  caregiver: {
+    prefixes: ['ownmedicare://'],
+    config: {
+      initialRouteName: 'CaregiverDashboard',
+      screens: {
+        LinkPatient: 'invite/caregiver/:inviteCode',
+      },
+    },
+  },
+  doctor: {
+    prefixes: ['ownmedicare://'],
+    config: {
+      initialRouteName: 'DoctorDashboard',
+      screens: {
+        AddPatient: 'invite/doctor/:inviteCode',
+      },
+    },
+  },
+};
+
 const AuthNavigator = () => {
+  const { profiles } = useAuth();
+
   return (
     <AuthStack.Navigator
+      initialRouteName={profiles.length > 0 ? 'ProfilePicker' : 'RoleSelection'}
       screenOptions={{
         headerShown: false,
         contentStyle: { backgroundColor: colors.background },
       }}
     >
+      <AuthStack.Screen name="ProfilePicker" component={ProfilePickerScreen} />
       <AuthStack.Screen name="RoleSelection" component={RoleSelectionScreen} />
       <AuthStack.Screen name="PatientRegister" component={PatientRegisterScreen} />
       <AuthStack.Screen name="CaregiverRegister" component={CaregiverRegisterScreen} />
       <AuthStack.Screen name="DoctorRegister" component={DoctorRegisterScreen} />
       <AuthStack.Screen name="Login" component={LoginScreen} />
+      <AuthStack.Screen name="AuthorizePinSetup" component={AuthorizePinSetupScreen} />
     </AuthStack.Navigator>
   );
 };
@@ -140,6 +231,13 @@ const PatientNavigator = () => {
       <PatientStack.Screen name="AddMedicine" component={AddMedicineScreen} />
       <PatientStack.Screen name="MedicineDetail" component={MedicineDetailScreen} />
       <PatientStack.Screen name="FaceScan" component={FaceScanScreen} />
+      <PatientStack.Screen name="Backup" component={BackupScreen} />
+      <PatientStack.Screen name="ChangePin" component={ChangePinScreen} />
+      <PatientStack.Screen name="Invitations" component={InvitationsScreen} />
+      <PatientStack.Screen name="CareTeam" component={CareTeamScreen} />
+      <PatientStack.Screen name="PatientAppointments" component={PatientAppointmentsScreen} />
+      <PatientStack.Screen name="PatientConsultations" component={PatientConsultationsScreen} />
+      <PatientStack.Screen name="NotificationSettings" component={NotificationSettingsScreen} />
     </PatientStack.Navigator>
   );
 };
@@ -155,6 +253,8 @@ const CaregiverNavigator = () => {
       <CaregiverStack.Screen name="CaregiverDashboard" component={CaregiverDashboardScreen} />
       <CaregiverStack.Screen name="PatientMedicines" component={CaregiverMedicinesScreen} />
       <CaregiverStack.Screen name="CaregiverAdherence" component={CaregiverAdherenceScreen} />
+      <CaregiverStack.Screen name="LinkPatient" component={LinkPatientScreen} />
+      <CaregiverStack.Screen name="NotificationSettings" component={NotificationSettingsScreen} />
     </CaregiverStack.Navigator>
   );
 };
@@ -173,18 +273,29 @@ const DoctorNavigator = () => {
       <DoctorStack.Screen name="PatientAdherenceReport" component={PatientAdherenceScreen} />
       <DoctorStack.Screen name="DoctorAlerts" component={DoctorAlertsScreen} />
       <DoctorStack.Screen name="Appointments" component={AppointmentsScreen} />
+      <DoctorStack.Screen name="AddPatient" component={AddPatientScreen} />
+      <DoctorStack.Screen name="BookAppointment" component={BookAppointmentScreen} />
+      <DoctorStack.Screen name="Consultations" component={ConsultationsScreen} />
+      <DoctorStack.Screen name="ConsultationNote" component={ConsultationNoteScreen} />
+      <DoctorStack.Screen name="NotificationSettings" component={NotificationSettingsScreen} />
     </DoctorStack.Navigator>
   );
 };
 
 const AppContent = () => {
-  const { user, isLoading } = useAuth();
+  const { user, isLoading, openProfile } = useAuth();
   const [dbInitialized, setDbInitialized] = useState(false);
+  const openProfileRef = useRef(openProfile);
+  openProfileRef.current = openProfile;
 
   useEffect(() => {
     const init = async () => {
       try {
         await initDatabase();
+        await registerMissedDoseSweep();
+        await registerReminderActions();
+        await registerReminderActionTask();
+        await registerNotificationChannels();
         setDbInitialized(true);
       } catch (error) {
         console.error('Database initialization error:', error);
@@ -194,6 +305,45 @@ const AppContent = () => {
     init();
   }, []);
 
+  // Tapping a notification opens the profile it was sent for
+  useEffect(() => {
+    if (isLoading) return;
+
+    const subscription = addProfileNotificationListener((profileId) => {
+      openProfileRef.current(profileId);
+    });
+    return () => subscription.remove();
+  }, [isLoading]);
+
+  // Keep today's dose logs (and any days the app was closed) generated,
+  // close out doses whose grace window has passed, roll up the adherence
+  // charts and reconcile the scheduled reminders with the medicines
+  useEffect(() => {
+    if (!dbInitialized || !user || user.role !== 'patient') return;
+
+    const syncSchedule = async () => {
+      try {
+        await generateDueLogs(user.id);
+        await runEscalations(user.id);
+        await sweepMissedDoses(user.id);
+        await updateAdherenceStats(user.id);
+
+        if (await requestNotificationPermissions()) {
+          await reconcileReminders(user.id);
+        }
+      } catch (error) {
+        console.error('Dose schedule sync error:', error);
+      }
+    };
+
+    syncSchedule();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') syncSchedule();
+    });
+
+    return () => subscription.remove();
+  }, [dbInitialized, user]);
+
   if (isLoading || !dbInitialized) {
     return (
       <View style={styles.loadingContainer}>
@@ -203,10 +353,12 @@ const AppContent = () => {
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={(user?.pinHash && signedInLinking[user.role]) || invitationLinking}>
       <StatusBar barStyle="dark-content" backgroundColor={colors.background} />
       {!user ? (
         <AuthNavigator />
+      ) : !user.pinHash ? (
+        <SetPinScreen />
       ) : (
         <>
           {user.role === 'patient' && <PatientNavigator />}
@@ -0,0 +1,88 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ViewStyle } from 'react-native';
+import { colors, spacing, borderRadius, fontSize } from '../utils/theme';
+import { Card } from './Card';
+import { APPOINTMENT_REMINDER_OPTIONS } from '../services/appointmentService';
+
+interface AppointmentRemindersCardProps {
+  selected: number[]; // minutes before the appointment
+  onChange: (minutes: number[]) => void;
+  style?: ViewStyle;
+}
+
+export const AppointmentRemindersCard: React.FC<AppointmentRemindersCardProps> = ({
+  selected,
+  onChange,
+  style,
+}) => {
+  const toggle = (minutes: number) => {
+    onChange(
+      selected.includes(minutes)
+        ? selected.filter(m => m !== minutes)
+        : [...selected, minutes]
+    );
+  };
+
+  return (
+    <Card style={style}>
+      <Text style={styles.title}>Remind Me</Text>
+      <View style={styles.options}>
+        {APPOINTMENT_REMINDER_OPTIONS.map((option) => {
+          const isSelected = selected.includes(option.minutes);
+          return (
+            <TouchableOpacity
+              key={option.minutes}
+              style={[styles.chip, isSelected && styles.chipSelected]}
+              onPress={() => toggle(option.minutes)}
+            >
+              <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {selected.length === 0 && (
+        <Text style={styles.hint}>No reminders before appointments.</Text>
+      )}
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.secondary,
+    borderColor: colors.secondary,
+  },
+  chipText: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+  },
+  chipTextSelected: {
+    color: colors.white,
+  },
+  hint: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: spacing.sm,
+  },
+});
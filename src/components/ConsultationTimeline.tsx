@@ -0,0 +1,130 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, fontSize } from '../utils/theme';
+import { ConsultationWithDoctor } from '../types';
+import { formatVitals, parseVitals } from '../services/consultationService';
+import { fromDateKey } from '../utils/dateUtils';
+
+interface ConsultationTimelineProps {
+  consultations: ConsultationWithDoctor[]; // newest first
+  onPressEntry?: (consultation: ConsultationWithDoctor) => void;
+  canEdit?: (consultation: ConsultationWithDoctor) => boolean;
+}
+
+export const ConsultationTimeline: React.FC<ConsultationTimelineProps> = ({
+  consultations,
+  onPressEntry,
+  canEdit = () => true,
+}) => {
+  const renderSection = (label: string, value?: string | null) =>
+    value ? (
+      <View style={styles.section}>
+        <Text style={styles.sectionLabel}>{label}</Text>
+        <Text style={styles.sectionText}>{value}</Text>
+      </View>
+    ) : null;
+
+  return (
+    <View>
+      {consultations.map((consultation, index) => {
+        const editable = !!onPressEntry && canEdit(consultation);
+        const vitals = formatVitals(parseVitals(consultation));
+
+        return (
+          <View key={consultation.id} style={styles.entry}>
+            <View style={styles.rail}>
+              <View style={styles.dot} />
+              {index < consultations.length - 1 && <View style={styles.line} />}
+            </View>
+
+            <TouchableOpacity
+              style={styles.content}
+              onPress={() => onPressEntry?.(consultation)}
+              disabled={!editable}
+              activeOpacity={0.7}
+            >
+              <View style={styles.entryHeader}>
+                <Text style={styles.date}>
+                  {fromDateKey(consultation.visitDate).toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric',
+                  })}
+                </Text>
+                {editable && <Ionicons name="create-outline" size={16} color={colors.textLight} />}
+              </View>
+              <Text style={styles.doctor}>
+                Dr. {consultation.doctorName}
+                {consultation.doctorSpecialization ? ` · ${consultation.doctorSpecialization}` : ''}
+              </Text>
+
+              {renderSection('Complaints', consultation.complaints)}
+              {renderSection('Observations', consultation.observations)}
+              {renderSection('Vitals', vitals)}
+              {renderSection('Plan', consultation.plan)}
+              {renderSection('Medication Changes', consultation.medicationChanges)}
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  entry: {
+    flexDirection: 'row',
+  },
+  rail: {
+    width: 20,
+    alignItems: 'center',
+  },
+  dot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: colors.secondary,
+    marginTop: 4,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: colors.border,
+    marginTop: spacing.xs,
+  },
+  content: {
+    flex: 1,
+    paddingLeft: spacing.sm,
+    paddingBottom: spacing.lg,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  date: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  doctor: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  section: {
+    marginTop: spacing.sm,
+  },
+  sectionLabel: {
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+    color: colors.textLight,
+    textTransform: 'uppercase',
+  },
+  sectionText: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,107 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ViewStyle } from 'react-native';
+import { colors, spacing, borderRadius, fontSize } from '../utils/theme';
+import { Card } from './Card';
+import {
+  ALERT_STYLE_OPTIONS,
+  formatQuietHours,
+  NotificationPreferences,
+  QUIET_HOURS_OPTIONS,
+  QuietHours,
+} from '../services/notificationSettingsService';
+
+interface NotificationPreferencesCardProps {
+  preferences: NotificationPreferences;
+  onChange: (preferences: NotificationPreferences) => void;
+  style?: ViewStyle;
+}
+
+export const NotificationPreferencesCard: React.FC<NotificationPreferencesCardProps> = ({
+  preferences,
+  onChange,
+  style,
+}) => {
+  const isQuietSelected = (option?: QuietHours) =>
+    option?.start === preferences.quietHours?.start && option?.end === preferences.quietHours?.end;
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Card style={style}>
+      <Text style={styles.title}>Alerts</Text>
+      <View style={styles.options}>
+        {ALERT_STYLE_OPTIONS.map((option) =>
+          renderChip(option.style, option.label, preferences.alertStyle === option.style, () =>
+            onChange({ ...preferences, alertStyle: option.style })
+          )
+        )}
+      </View>
+
+      <Text style={[styles.title, styles.sectionTitle]}>Quiet Hours</Text>
+      <View style={styles.options}>
+        {[undefined, ...QUIET_HOURS_OPTIONS].map((option) =>
+          renderChip(
+            option ? option.start : 'off',
+            formatQuietHours(option),
+            isQuietSelected(option),
+            () => onChange({ ...preferences, quietHours: option })
+          )
+        )}
+      </View>
+      <Text style={styles.hint}>
+        {preferences.quietHours
+          ? 'Notifications in quiet hours arrive silently. Critical medicines still alert.'
+          : 'Notifications alert at any time of day.'}
+      </Text>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  title: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  sectionTitle: {
+    marginTop: spacing.md,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.secondary,
+    borderColor: colors.secondary,
+  },
+  chipText: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+  },
+  chipTextSelected: {
+    color: colors.white,
+  },
+  hint: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: spacing.sm,
+  },
+});
@@ -2,3 +2,6 @@ export { Card, CardTitle, CardSubtitle, CardContent } from './Card';
 export { Button } from './Button';
 export { Input } from './Input';
 export { MedicineCard } from './MedicineCard';
+export { AppointmentRemindersCard } from './AppointmentRemindersCard';
+export { ConsultationTimeline } from './ConsultationTimeline';
+export { NotificationPreferencesCard } from './NotificationPreferencesCard';
@@ -1,23 +1,74 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
 import { User, UserRole } from '../types';
+import { getUserById } from '../services/authService';
+import {
+  forgetDeviceProfile,
+  getDeviceProfileIds,
+  rememberDeviceProfile,
+} from '../services/deviceProfileService';
+import { initDatabase } from '../database/database';
 
 interface AuthContextType {
   user: User | null;
+  profiles: User[];
+  pendingProfileId: number | null;
   isLoading: boolean;
   isFirstLaunch: boolean;
   login: (user: User) => Promise<void>;
   logout: () => Promise<void>;
+  forgetProfile: (userId: number) => Promise<void>;
+  openProfile: (userId: number) => Promise<void>;
   setFirstLaunchComplete: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const USER_STORAGE_KEY = '@ownmedicare_user';
+// Only the signed-in user's id is persisted, the profile itself stays in the encrypted database
+const SESSION_USER_ID_KEY = 'ownmedicare_session_user_id';
+// Older versions remembered the profiles on this device here, now in the database
+const LEGACY_PROFILE_IDS_KEY = 'ownmedicare_profile_ids';
+// Older versions stored the whole User JSON here in plaintext
+const LEGACY_USER_STORAGE_KEY = '@ownmedicare_user';
 const FIRST_LAUNCH_KEY = '@ownmedicare_first_launch';
 
+const loadSessionUserId = async (): Promise<number | null> => {
+  const legacyUser = await AsyncStorage.getItem(LEGACY_USER_STORAGE_KEY);
+  if (legacyUser) {
+    const { id } = JSON.parse(legacyUser) as User;
+    await SecureStore.setItemAsync(SESSION_USER_ID_KEY, String(id));
+    await AsyncStorage.removeItem(LEGACY_USER_STORAGE_KEY);
+    return id;
+  }
+
+  const storedId = await SecureStore.getItemAsync(SESSION_USER_ID_KEY);
+  return storedId ? Number(storedId) : null;
+};
+
+const loadProfileIds = async (sessionUserId: number | null): Promise<number[]> => {
+  const legacyIds = await SecureStore.getItemAsync(LEGACY_PROFILE_IDS_KEY);
+  if (legacyIds) {
+    for (const id of JSON.parse(legacyIds) as number[]) {
+      await rememberDeviceProfile(id);
+    }
+    await SecureStore.deleteItemAsync(LEGACY_PROFILE_IDS_KEY);
+  }
+
+  const ids = await getDeviceProfileIds();
+  // Sessions from before profiles were remembered
+  if (sessionUserId !== null && !ids.includes(sessionUserId)) {
+    await rememberDeviceProfile(sessionUserId);
+    ids.push(sessionUserId);
+  }
+  return ids;
+};
+
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [profiles, setProfiles] = useState<User[]>([]);
+  // Profile a notification was tapped for, waiting for its PIN
+  const [pendingProfileId, setPendingProfileId] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isFirstLaunch, setIsFirstLaunch] = useState(true);
 
@@ -27,13 +78,19 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const loadStoredData = async () => {
     try {
-      const [storedUser, firstLaunch] = await Promise.all([
-        AsyncStorage.getItem(USER_STORAGE_KEY),
+      // Profiles are kept in the database, so it has to be migrated first
+      await initDatabase();
+      const [userId, firstLaunch] = await Promise.all([
+        loadSessionUserId(),
         AsyncStorage.getItem(FIRST_LAUNCH_KEY),
       ]);
 
-      if (storedUser) {
-        setUser(JSON.parse(storedUser));
+      const profileIds = await loadProfileIds(userId);
+      const storedProfiles = await Promise.all(profileIds.map(id => getUserById(id)));
+      setProfiles(storedProfiles.filter((p): p is User => p !== null));
+
+      if (userId !== null) {
+        setUser(await getUserById(userId));
       }
 
       setIsFirstLaunch(firstLaunch === null);
@@ -46,7 +103,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const login = async (newUser: User) => {
     try {
-      await AsyncStorage.setItem(USER_STORAGE_KEY, JSON.stringify(newUser));
+      await SecureStore.setItemAsync(SESSION_USER_ID_KEY, String(newUser.id));
+      await rememberDeviceProfile(newUser.id);
+      setProfiles([...profiles.filter(p => p.id !== newUser.id), newUser]);
+      setPendingProfileId(null);
       setUser(newUser);
     } catch (error) {
       console.error('Error saving user:', error);
@@ -54,9 +114,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // Ends the session only, the profile stays on this device to switch back to
   const logout = async () => {
     try {
-      await AsyncStorage.removeItem(USER_STORAGE_KEY);
+      await SecureStore.deleteItemAsync(SESSION_USER_ID_KEY);
       setUser(null);
     } catch (error) {
       console.error('Error logging out:', error);
@@ -64,6 +125,33 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  const forgetProfile = async (userId: number) => {
+    try {
+      await forgetDeviceProfile(userId);
+      setProfiles(profiles.filter(p => p.id !== userId));
+      if (user?.id === userId) {
+        await logout();
+      }
+      if (pendingProfileId === userId) {
+        setPendingProfileId(null);
+      }
+    } catch (error) {
+      console.error('Error removing profile:', error);
+      throw error;
+    }
+  };
+
+  /**
+   * Bring up another remembered profile, e.g. from one of its notifications.
+   * The current session ends and the profile's PIN is asked for.
+   */
+  const openProfile = async (userId: number) => {
+    if (user?.id === userId || !profiles.some(p => p.id === userId)) return;
+
+    setPendingProfileId(userId);
+    await logout();
+  };
+
   const setFirstLaunchComplete = async () => {
     try {
       await AsyncStorage.setItem(FIRST_LAUNCH_KEY, 'false');
@@ -78,10 +166,14 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     <AuthContext.Provider
       value={{
         user,
+        profiles,
+        pendingProfileId,
         isLoading,
         isFirstLaunch,
         login,
         logout,
+        forgetProfile,
+        openProfile,
         setFirstLaunchComplete,
       }}
     >
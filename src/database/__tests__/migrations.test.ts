@@ -0,0 +1,200 @@
+import { setDriver, SqlDriver } from '../driver';
+import {
+  getSchemaVersion,
+  LATEST_SCHEMA_VERSION,
+  Migration,
+  migrations,
+  runMigrations,
+} from '../migrations';
+import { logsRepo, medicinesRepo, usersRepo } from '../../repositories';
+import { openTestDatabase } from '../../testing/testDatabase';
+
+// Table and index names with their columns, to compare an upgraded schema with a fresh one
+const describeSchema = async (db: SqlDriver): Promise<Record<string, string[]>> => {
+  const objects = await db.getAll<{ type: string; name: string; tbl_name: string }>(
+    "SELECT type, name, tbl_name FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY name"
+  );
+  const schema: Record<string, string[]> = {};
+
+  for (const object of objects) {
+    const columns = object.type === 'table'
+      ? await db.getAll<{ name: string }>(`PRAGMA table_info(${object.name})`)
+      : await db.getAll<{ name: string }>(`PRAGMA index_info(${object.name})`);
+    schema[`${object.type}:${object.name}`] = columns.map(column => column.name).sort();
+  }
+  return schema;
+};
+
+// Rows an install at this version could hold, written with that version's columns only
+const seed = async (db: SqlDriver, version: number): Promise<void> => {
+  await db.exec(`
+    INSERT INTO Users (name, age, username, role, uniqueCode) VALUES ('Pat', 72, 'pat', 'patient', 'PAT00001');
+    INSERT INTO Users (name, role, uniqueCode, relation) VALUES ('Carol', 'caregiver', 'CAR00001', 'Daughter');
+    INSERT INTO Users (name, role, uniqueCode, specialization) VALUES ('Dr. Dee', 'doctor', 'DOC00001', 'GP');
+
+    INSERT INTO Medicines (patientId, name, dosage, frequency, times, stock, instructions)
+    VALUES (1, 'Metformin', '500mg', 'Twice daily', '["08:00","20:00"]', 30, 'With food');
+
+    INSERT INTO MedicineLogs (medicineId, patientId, scheduledTime, takenAt, status)
+    VALUES (1, 1, '2025-01-01T08:00:00.000Z', '2025-01-01T08:05:00.000Z', 'taken');
+
+    INSERT INTO Relationships (patientId, caregiverId, relationshipType) VALUES (1, 2, 'caregiver');
+    INSERT INTO Relationships (patientId, doctorId, relationshipType) VALUES (1, 3, 'doctor');
+  `);
+
+  if (version >= 7) {
+    await db.exec(`
+      INSERT INTO Appointments (patientId, doctorId, date, time) VALUES (1, 3, '2025-02-01', '10:00');
+    `);
+  }
+};
+
+/**
+ * A database as it was left at the given version. Version 0 is an install from
+ * before migrations existed, whose tables match the initial schema.
+ */
+const databaseAt = async (version: number): Promise<SqlDriver> => {
+  const db = await openTestDatabase();
+  await runMigrations(db, migrations.slice(0, Math.max(version, 1)));
+  if (version === 0) {
+    await db.exec('PRAGMA user_version = 0');
+  }
+  return db;
+};
+
+describe('runMigrations', () => {
+  let freshSchema: Record<string, string[]>;
+
+  beforeAll(async () => {
+    const fresh = await openTestDatabase();
+    await runMigrations(fresh);
+    freshSchema = await describeSchema(fresh);
+  });
+
+  afterEach(() => {
+    setDriver(null);
+    jest.restoreAllMocks();
+  });
+
+  it('brings a new database to the latest version, and a second run changes nothing', async () => {
+    const db = await openTestDatabase();
+
+    expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(await describeSchema(db)).toEqual(freshSchema);
+  });
+
+  it('lists the steps in order without gaps', () => {
+    expect(migrations.map(m => m.version)).toEqual(migrations.map((_, i) => i + 1));
+  });
+
+  it.each(Array.from({ length: LATEST_SCHEMA_VERSION }, (_, version) => version))(
+    'upgrades a version %i database with data to the latest version',
+    async (version) => {
+      const db = await databaseAt(version);
+      expect(await getSchemaVersion(db)).toBe(version);
+      await seed(db, version);
+
+      expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+      expect(await describeSchema(db)).toEqual(freshSchema);
+
+      setDriver(db);
+      const patient = await usersRepo.findById(1);
+      expect(patient).toMatchObject({ name: 'Pat', age: 72, role: 'patient', uniqueCode: 'PAT00001' });
+
+      const medicine = await medicinesRepo.findById(1);
+      expect(medicine).toMatchObject({
+        name: 'Metformin',
+        times: '["08:00","20:00"]',
+        graceMinutes: 60,
+        status: 'active',
+        isPrn: 0,
+        isCritical: 0,
+      });
+
+      const logs = await logsRepo.listByMedicine(1);
+      expect(logs).toHaveLength(1);
+      expect(logs[0]).toMatchObject({ status: 'taken', takenAt: '2025-01-01T08:05:00.000Z', isPrn: 0 });
+
+      const relationships = await db.getAll<{ relationshipType: string; permissions: string | null }>(
+        'SELECT relationshipType, permissions FROM Relationships ORDER BY id'
+      );
+      expect(relationships).toHaveLength(2);
+      if (version < 10) {
+        // Links from before permission scopes keep what they could see
+        expect(JSON.parse(relationships[0].permissions!)).toEqual(['view_medicines', 'view_adherence']);
+        expect(JSON.parse(relationships[1].permissions!)).toEqual([
+          'view_medicines',
+          'view_adherence',
+          'view_face_scans',
+        ]);
+      }
+
+      if (version >= 7) {
+        const appointment = await db.getFirst<{ durationMinutes: number; status: string }>(
+          'SELECT durationMinutes, status FROM Appointments WHERE id = 1'
+        );
+        expect(appointment).toEqual({ durationMinutes: 30, status: 'scheduled' });
+      }
+    }
+  );
+
+  it('leaves a username shared by several accounts on the earliest one only', async () => {
+    const db = await databaseAt(17);
+    await db.exec(`
+      INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Pat', 'pat', 'patient', 'PAT00001');
+      INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Pat B', 'pat', 'patient', 'PAT00002');
+      INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Sam', 'sam', 'patient', 'SAM00001');
+    `);
+
+    await runMigrations(db);
+
+    const users = await db.getAll<{ uniqueCode: string; username: string | null }>(
+      'SELECT uniqueCode, username FROM Users ORDER BY id'
+    );
+    expect(users).toEqual([
+      { uniqueCode: 'PAT00001', username: 'pat' },
+      { uniqueCode: 'PAT00002', username: null },
+      { uniqueCode: 'SAM00001', username: 'sam' },
+    ]);
+    await expect(
+      db.run("INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Pat C', 'pat', 'patient', 'PAT00003')")
+    ).rejects.toThrow();
+  });
+
+  it('rolls back a failing step and stays at the previous version', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const db = await databaseAt(5);
+    const broken: Migration = {
+      version: 9,
+      name: 'broken_step',
+      up: async (stepDb) => {
+        await stepDb.exec('CREATE TABLE Scratch (id INTEGER PRIMARY KEY)');
+        await stepDb.exec('ALTER TABLE Users ADD COLUMN scratch TEXT');
+        throw new Error('step failed');
+      },
+    };
+
+    await expect(runMigrations(db, [...migrations.slice(0, 8), broken])).rejects.toThrow(
+      'Database migration 9 (broken_step) failed'
+    );
+
+    // Steps before the failing one stay applied
+    expect(await getSchemaVersion(db)).toBe(8);
+    expect(await db.getFirst("SELECT name FROM sqlite_master WHERE name = 'Scratch'")).toBeNull();
+    const userColumns = await db.getAll<{ name: string }>('PRAGMA table_info(Users)');
+    expect(userColumns.map(c => c.name)).not.toContain('scratch');
+
+    // The next launch carries on from there
+    expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+  });
+
+  it('refuses a database from a newer version of the app', async () => {
+    const db = await openTestDatabase();
+    await runMigrations(db);
+    await db.exec(`PRAGMA user_version = ${LATEST_SCHEMA_VERSION + 1}`);
+
+    await expect(runMigrations(db)).rejects.toThrow('newer than this app supports');
+    expect(await getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION + 1);
+  });
+});
@@ -1,93 +1,94 @@
-import * as SQLite from 'expo-sqlite';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getDriver, registerDriverFactory, closeDriver, SqlDriver } from './driver';
+import { createExpoDriver, encryptPlaintextDatabase } from './expoDriver';
+import {
+  createDatabaseKey,
+  getDatabaseKey,
+  getPendingDatabaseKey,
+  setPendingDatabaseKey,
+  promotePendingDatabaseKey,
+  discardPendingDatabaseKey,
+  toKeyLiteral,
+} from './encryption';
+import { runMigrations } from './migrations';
 
-let db: SQLite.SQLiteDatabase | null = null;
+const DATABASE_NAME = 'ownmedicare.secure.db';
+// Plaintext database used before encryption at rest
+const LEGACY_DATABASE_NAME = 'ownmedicare.db';
+const LEGACY_ENCRYPTED_FLAG = '@ownmedicare_legacy_db_encrypted';
 
-export const getDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
-  if (db) return db;
-  db = await SQLite.openDatabaseAsync('ownmedicare.db');
-  return db;
+const openEncryptedDatabase = async (): Promise<SqlDriver> => {
+  const key = await getDatabaseKey();
+
+  if ((await AsyncStorage.getItem(LEGACY_ENCRYPTED_FLAG)) === null) {
+    await encryptPlaintextDatabase(LEGACY_DATABASE_NAME, DATABASE_NAME, key);
+    await AsyncStorage.setItem(LEGACY_ENCRYPTED_FLAG, 'true');
+  }
+
+  const pendingKey = await getPendingDatabaseKey();
+
+  try {
+    const driver = await createExpoDriver(DATABASE_NAME, key);
+    // A rotation stopped before the rekey, the old key is still the right one
+    if (pendingKey) await discardPendingDatabaseKey();
+    return driver;
+  } catch (error) {
+    // A rotation stopped after the rekey but before the new key was saved
+    if (!pendingKey) throw error;
+    const driver = await createExpoDriver(DATABASE_NAME, pendingKey);
+    await promotePendingDatabaseKey(pendingKey);
+    return driver;
+  }
 };
 
-export const initDatabase = async (): Promise<void> => {
+registerDriverFactory(openEncryptedDatabase);
+
+export const getDatabase = (): Promise<SqlDriver> => getDriver();
+
+let initializing: Promise<void> | null = null;
+
+const migrateDatabase = async (): Promise<void> => {
   const database = await getDatabase();
   
-  await database.execAsync(`
-    PRAGMA journal_mode = WAL;
-    
-    CREATE TABLE IF NOT EXISTS Users (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      age INTEGER,
-      username TEXT,
-      role TEXT NOT NULL,
-      uniqueCode TEXT UNIQUE NOT NULL,
-      relation TEXT,
-      specialization TEXT,
-      createdAt TEXT DEFAULT CURRENT_TIMESTAMP
-    );
-    
-    CREATE TABLE IF NOT EXISTS Medicines (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      patientId INTEGER NOT NULL,
-      name TEXT NOT NULL,
-      dosage TEXT NOT NULL,
-      frequency TEXT NOT NULL,
-      times TEXT NOT NULL,
-      stock INTEGER DEFAULT 0,
-      instructions TEXT,
-      createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (patientId) REFERENCES Users(id)
-    );
-    
-    CREATE TABLE IF NOT EXISTS MedicineLogs (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      medicineId INTEGER NOT NULL,
-      patientId INTEGER NOT NULL,
-      scheduledTime TEXT NOT NULL,
-      takenAt TEXT,
-      status TEXT DEFAULT 'pending',
-      notes TEXT,
-      createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (medicineId) REFERENCES Medicines(id),
-      FOREIGN KEY (patientId) REFERENCES Users(id)
-    );
-    
-    CREATE TABLE IF NOT EXISTS AdherenceStats (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      patientId INTEGER NOT NULL,
-      date TEXT NOT NULL,
-      totalDoses INTEGER DEFAULT 0,
-      takenDoses INTEGER DEFAULT 0,
-      adherenceRate REAL DEFAULT 0,
-      FOREIGN KEY (patientId) REFERENCES Users(id)
-    );
-    
-    CREATE TABLE IF NOT EXISTS Relationships (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      patientId INTEGER NOT NULL,
-      caregiverId INTEGER,
-      doctorId INTEGER,
-      relationshipType TEXT NOT NULL,
-      linkedAt TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (patientId) REFERENCES Users(id),
-      FOREIGN KEY (caregiverId) REFERENCES Users(id),
-      FOREIGN KEY (doctorId) REFERENCES Users(id)
-    );
-    
-    CREATE TABLE IF NOT EXISTS FaceScanReports (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      patientId INTEGER NOT NULL,
-      scanResult TEXT NOT NULL,
-      confidence REAL DEFAULT 0,
-      scannedAt TEXT DEFAULT CURRENT_TIMESTAMP,
-      FOREIGN KEY (patientId) REFERENCES Users(id)
-    );
-  `);
+  // WAL can't be switched inside a transaction, so it stays out of the migrations
+  await database.exec('PRAGMA journal_mode = WAL;');
+  await runMigrations(database);
 };
 
-export const closeDatabase = async (): Promise<void> => {
-  if (db) {
-    await db.closeAsync();
-    db = null;
+/**
+ * Open and migrate the database. The app entry and the auth provider both wait
+ * for it, so it only runs once; a failed run is retried by the next call.
+ */
+export const initDatabase = (): Promise<void> => {
+  if (!initializing) {
+    initializing = migrateDatabase().catch((error) => {
+      initializing = null;
+      throw error;
+    });
   }
+  return initializing;
+};
+
+/**
+ * Re-encrypt the whole database under a new random key, on demand from the profile screen
+ */
+export const rotateEncryptionKey = async (): Promise<void> => {
+  const database = await getDatabase();
+  const newKey = createDatabaseKey();
+
+  await setPendingDatabaseKey(newKey);
+  try {
+    // SQLCipher rekeys page by page through the rollback journal, not the WAL
+    await database.exec('PRAGMA journal_mode = DELETE;');
+    await database.exec(`PRAGMA rekey = ${toKeyLiteral(newKey)};`);
+    await database.exec('PRAGMA journal_mode = WAL;');
+  } catch (error) {
+    await discardPendingDatabaseKey();
+    throw error;
+  }
+  await promotePendingDatabaseKey(newKey);
+};
+
+export const closeDatabase = async (): Promise<void> => {
+  await closeDriver();
 };
@@ -0,0 +1,61 @@
+export type SqlParam = string | number | null;
+
+export interface SqlRunResult {
+  lastInsertRowId: number;
+  changes: number;
+}
+
+/**
+ * The handful of SQLite operations the repositories need. The app runs on
+ * expo-sqlite (see expoDriver.ts); Node scripts and tests can plug in a
+ * better-sqlite3 style database instead (see nodeDriver.ts).
+ */
+export interface SqlDriver {
+  getAll<T>(sql: string, params?: SqlParam[]): Promise<T[]>;
+  getFirst<T>(sql: string, params?: SqlParam[]): Promise<T | null>;
+  run(sql: string, params?: SqlParam[]): Promise<SqlRunResult>;
+  exec(sql: string): Promise<void>;
+  transaction(task: () => Promise<void>): Promise<void>;
+  close(): Promise<void>;
+}
+
+let driver: SqlDriver | null = null;
+let opening: Promise<SqlDriver> | null = null;
+let driverFactory: (() => Promise<SqlDriver>) | null = null;
+
+/**
+ * Tell the data layer how to open the database on first use
+ */
+export const registerDriverFactory = (factory: () => Promise<SqlDriver>): void => {
+  driverFactory = factory;
+};
+
+/**
+ * Use an already opened driver, e.g. an in-memory database in tests
+ */
+export const setDriver = (nextDriver: SqlDriver | null): void => {
+  driver = nextDriver;
+  opening = null;
+};
+
+export const getDriver = async (): Promise<SqlDriver> => {
+  if (driver) return driver;
+  if (!driverFactory) {
+    throw new Error('No database driver registered');
+  }
+
+  if (!opening) {
+    opening = driverFactory().then(opened => {
+      driver = opened;
+      return opened;
+    });
+  }
+  return opening;
+};
+
+export const closeDriver = async (): Promise<void> => {
+  if (driver) {
+    await driver.close();
+    setDriver(null);
+  }
+};
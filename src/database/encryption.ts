@@ -0,0 +1,58 @@
+import * as SecureStore from 'expo-secure-store';
+import { randomHex } from '../utils/cryptoUtils';
+
+const DATABASE_KEY = 'ownmedicare_database_key';
+// Written before a rekey and promoted afterwards, so a crash mid-rotation
+// never leaves the database encrypted with a key we no longer have
+const PENDING_DATABASE_KEY = 'ownmedicare_database_key_pending';
+
+// The key's only protection is the platform keychain/keystore: background
+// tasks (missed dose sweep, reminders, caregiver alerts) open the database
+// while the phone is locked and nobody is signed in, and several profiles
+// with different PINs share one file, so it isn't derived from a PIN. PINs
+// guard who can open a profile in the app, not the file itself. It never
+// leaves this device in a backup.
+const STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+/**
+ * A new random 256-bit hex database key
+ */
+export const createDatabaseKey = (): string => randomHex(32);
+
+/**
+ * Current database key, created on first launch
+ */
+export const getDatabaseKey = async (): Promise<string> => {
+  const existing = await SecureStore.getItemAsync(DATABASE_KEY, STORE_OPTIONS);
+  if (existing) return existing;
+
+  const key = createDatabaseKey();
+  await SecureStore.setItemAsync(DATABASE_KEY, key, STORE_OPTIONS);
+  return key;
+};
+
+export const getPendingDatabaseKey = async (): Promise<string | null> =>
+  SecureStore.getItemAsync(PENDING_DATABASE_KEY, STORE_OPTIONS);
+
+export const setPendingDatabaseKey = async (key: string): Promise<void> => {
+  await SecureStore.setItemAsync(PENDING_DATABASE_KEY, key, STORE_OPTIONS);
+};
+
+/**
+ * Make the pending key the current one once the database has been re-encrypted with it
+ */
+export const promotePendingDatabaseKey = async (key: string): Promise<void> => {
+  await SecureStore.setItemAsync(DATABASE_KEY, key, STORE_OPTIONS);
+  await SecureStore.deleteItemAsync(PENDING_DATABASE_KEY, STORE_OPTIONS);
+};
+
+export const discardPendingDatabaseKey = async (): Promise<void> => {
+  await SecureStore.deleteItemAsync(PENDING_DATABASE_KEY, STORE_OPTIONS);
+};
+
+/**
+ * SQLCipher raw key literal, skips SQLCipher's own (slow) passphrase derivation
+ */
+export const toKeyLiteral = (key: string): string => `"x'${key}'"`;
@@ -0,0 +1,75 @@
+import * as SQLite from 'expo-sqlite';
+import { SqlDriver } from './driver';
+import { toKeyLiteral } from './encryption';
+
+/**
+ * Open a database through expo-sqlite, unlocking it with the SQLCipher key when given.
+ * Fails right away on a wrong key instead of on the first query.
+ */
+export const createExpoDriver = async (
+  databaseName: string,
+  encryptionKey?: string
+): Promise<SqlDriver> => {
+  const db = await SQLite.openDatabaseAsync(databaseName);
+
+  if (encryptionKey) {
+    try {
+      await db.execAsync(`PRAGMA key = ${toKeyLiteral(encryptionKey)};`);
+      await db.getFirstAsync('SELECT COUNT(*) FROM sqlite_master');
+    } catch (error) {
+      await db.closeAsync();
+      throw error;
+    }
+  }
+
+  return {
+    getAll: (sql, params = []) => db.getAllAsync(sql, params),
+    getFirst: (sql, params = []) => db.getFirstAsync(sql, params),
+    run: async (sql, params = []) => {
+      const result = await db.runAsync(sql, params);
+      return { lastInsertRowId: result.lastInsertRowId, changes: result.changes };
+    },
+    exec: (sql) => db.execAsync(sql),
+    transaction: (task) => db.withTransactionAsync(task),
+    close: () => db.closeAsync(),
+  };
+};
+
+const databasePath = (databaseName: string): string =>
+  `${String(SQLite.defaultDatabaseDirectory).replace(/^file:\/\//, '')}/${databaseName}`;
+
+/**
+ * Copy a plaintext database created before encryption into a new encrypted file,
+ * then delete the plaintext one. Safe to re-run after an interruption.
+ */
+export const encryptPlaintextDatabase = async (
+  plaintextName: string,
+  encryptedName: string,
+  encryptionKey: string
+): Promise<void> => {
+  const plaintext = await SQLite.openDatabaseAsync(plaintextName);
+
+  try {
+    const tables = await plaintext.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) as count FROM sqlite_master WHERE type = 'table'`
+    );
+
+    if (tables && tables.count > 0) {
+      const version = await plaintext.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+
+      // Left over from an export that didn't finish
+      await SQLite.deleteDatabaseAsync(encryptedName).catch(() => undefined);
+
+      await plaintext.execAsync(`
+        ATTACH DATABASE '${databasePath(encryptedName)}' AS encrypted KEY ${toKeyLiteral(encryptionKey)};
+        SELECT sqlcipher_export('encrypted');
+        PRAGMA encrypted.user_version = ${version?.user_version ?? 0};
+        DETACH DATABASE encrypted;
+      `);
+    }
+  } finally {
+    await plaintext.closeAsync();
+  }
+
+  await SQLite.deleteDatabaseAsync(plaintextName);
+};
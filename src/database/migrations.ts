@@ -0,0 +1,415 @@
+import { SqlDriver } from './driver';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SqlDriver) => Promise<void>;
+}
+
+/**
+ * Add a column unless it is already there. Installs that ran development
+ * builds before migrations existed may have some of these columns already.
+ */
+const addColumn = async (
+  db: SqlDriver,
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> => {
+  const columns = await db.getAll<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (columns.some(c => c.name === column)) return;
+  await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+};
+
+/**
+ * Schema history, oldest first. Each step runs in its own transaction together
+ * with the PRAGMA user_version bump, so a failing step leaves the database at
+ * the previous version. Never edit a shipped step, append a new one instead.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS Users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          age INTEGER,
+          username TEXT,
+          role TEXT NOT NULL,
+          uniqueCode TEXT UNIQUE NOT NULL,
+          relation TEXT,
+          specialization TEXT,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS Medicines (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          patientId INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          dosage TEXT NOT NULL,
+          frequency TEXT NOT NULL,
+          times TEXT NOT NULL,
+          stock INTEGER DEFAULT 0,
+          instructions TEXT,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (patientId) REFERENCES Users(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS MedicineLogs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          medicineId INTEGER NOT NULL,
+          patientId INTEGER NOT NULL,
+          scheduledTime TEXT NOT NULL,
+          takenAt TEXT,
+          status TEXT DEFAULT 'pending',
+          notes TEXT,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (medicineId) REFERENCES Medicines(id),
+          FOREIGN KEY (patientId) REFERENCES Users(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS AdherenceStats (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          patientId INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          totalDoses INTEGER DEFAULT 0,
+          takenDoses INTEGER DEFAULT 0,
+          adherenceRate REAL DEFAULT 0,
+          FOREIGN KEY (patientId) REFERENCES Users(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS Relationships (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          patientId INTEGER NOT NULL,
+          caregiverId INTEGER,
+          doctorId INTEGER,
+          relationshipType TEXT NOT NULL,
+          linkedAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (patientId) REFERENCES Users(id),
+          FOREIGN KEY (caregiverId) REFERENCES Users(id),
+          FOREIGN KEY (doctorId) REFERENCES Users(id)
+        );
+
+        CREATE TABLE IF NOT EXISTS FaceScanReports (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          patientId INTEGER NOT NULL,
+          scanResult TEXT NOT NULL,
+          confidence REAL DEFAULT 0,
+          scannedAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (patientId) REFERENCES Users(id)
+        );
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'missed_dose_grace_windows',
+    up: async (db) => {
+      await addColumn(db, 'Medicines', 'graceMinutes', 'INTEGER DEFAULT 60');
+      await addColumn(db, 'MedicineLogs', 'statusSource', 'TEXT');
+      await addColumn(db, 'MedicineLogs', 'statusChangedBy', 'INTEGER');
+      await addColumn(db, 'MedicineLogs', 'statusChangedAt', 'TEXT');
+    },
+  },
+  {
+    version: 3,
+    name: 'medicine_recurrence',
+    up: async (db) => {
+      await addColumn(db, 'Medicines', 'recurrence', 'TEXT');
+    },
+  },
+  {
+    version: 4,
+    name: 'dose_plans',
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS DosePlanSteps (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          medicineId INTEGER NOT NULL,
+          stepOrder INTEGER NOT NULL,
+          dosage TEXT NOT NULL,
+          startDate TEXT NOT NULL,
+          endDate TEXT NOT NULL,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (medicineId) REFERENCES Medicines(id)
+        );
+      `);
+      await addColumn(db, 'Medicines', 'endDate', 'TEXT');
+    },
+  },
+  {
+    version: 5,
+    name: 'medicine_courses',
+    up: async (db) => {
+      await addColumn(db, 'Medicines', 'startDate', 'TEXT');
+      await addColumn(db, 'Medicines', 'status', "TEXT DEFAULT 'active'");
+      await addColumn(db, 'Medicines', 'completedAt', 'TEXT');
+    },
+  },
+  {
+    version: 6,
+    name: 'prn_medicines',
+    up: async (db) => {
+      await addColumn(db, 'Medicines', 'isPrn', 'INTEGER DEFAULT 0');
+      await addColumn(db, 'Medicines', 'minIntervalMinutes', 'INTEGER');
+      await addColumn(db, 'Medicines', 'maxDailyDoses', 'INTEGER');
+      await addColumn(db, 'MedicineLogs', 'isPrn', 'INTEGER DEFAULT 0');
+    },
+  },
+  {
+    version: 7,
+    name: 'appointments',
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS Appointments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          patientId INTEGER NOT NULL,
+          doctorId INTEGER NOT NULL,
+          date TEXT NOT NULL,
+          time TEXT NOT NULL,
+          notes TEXT,
+          status TEXT DEFAULT 'scheduled',
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (patientId) REFERENCES Users(id),
+          FOREIGN KEY (doctorId) REFERENCES Users(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_appointments_doctor ON Appointments(doctorId, date);
+        CREATE INDEX IF NOT EXISTS idx_appointments_patient ON Appointments(patientId, date);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'user_credentials',
+    up: async (db) => {
+      await addColumn(db, 'Users', 'linkingCode', 'TEXT');
+      await addColumn(db, 'Users', 'pinHash', 'TEXT');
+      await addColumn(db, 'Users', 'pinSalt', 'TEXT');
+      await addColumn(db, 'Users', 'failedLoginAttempts', 'INTEGER DEFAULT 0');
+      await addColumn(db, 'Users', 'lockedUntil', 'TEXT');
+      // The old patient code was both the login and the code shared with caregivers,
+      // so existing patients get a fresh linking code instead of reusing it
+      await db.exec(`
+        UPDATE Users SET linkingCode = 'OM' || substr(hex(randomblob(3)), 1, 6)
+        WHERE role = 'patient' AND linkingCode IS NULL;
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_users_linking_code ON Users(linkingCode);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'invitations',
+    // Single-use invitations replace the permanent linking code from version 8,
+    // Users.linkingCode is no longer read
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS Invitations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          patientId INTEGER NOT NULL,
+          role TEXT NOT NULL,
+          code TEXT UNIQUE NOT NULL,
+          status TEXT DEFAULT 'pending',
+          expiresAt TEXT NOT NULL,
+          acceptedBy INTEGER,
+          acceptedAt TEXT,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (patientId) REFERENCES Users(id),
+          FOREIGN KEY (acceptedBy) REFERENCES Users(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_invitations_patient ON Invitations(patientId, createdAt);
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'relationship_permissions',
+    up: async (db) => {
+      await addColumn(db, 'Relationships', 'permissions', 'TEXT');
+      // Existing links keep what they could do before scopes existed
+      await db.exec(`
+        UPDATE Relationships SET permissions = '["view_medicines","view_adherence"]'
+        WHERE caregiverId IS NOT NULL AND permissions IS NULL;
+
+        UPDATE Relationships SET permissions = '["view_medicines","view_adherence","view_face_scans"]'
+        WHERE doctorId IS NOT NULL AND permissions IS NULL;
+
+        CREATE INDEX IF NOT EXISTS idx_relationships_patient ON Relationships(patientId);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'appointment_duration',
+    // Needed to tell whether two visits with the same doctor overlap
+    up: async (db) => {
+      await addColumn(db, 'Appointments', 'durationMinutes', 'INTEGER DEFAULT 30');
+    },
+  },
+  {
+    version: 12,
+    name: 'appointment_reminders',
+    // NULL keeps the default reminder times
+    up: async (db) => {
+      await addColumn(db, 'Users', 'appointmentReminders', 'TEXT');
+    },
+  },
+  {
+    version: 13,
+    name: 'consultations',
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS Consultations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          patientId INTEGER NOT NULL,
+          doctorId INTEGER NOT NULL,
+          appointmentId INTEGER,
+          visitDate TEXT NOT NULL,
+          complaints TEXT,
+          observations TEXT,
+          vitals TEXT,
+          plan TEXT,
+          medicationChanges TEXT,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          updatedAt TEXT,
+          FOREIGN KEY (patientId) REFERENCES Users(id),
+          FOREIGN KEY (doctorId) REFERENCES Users(id),
+          FOREIGN KEY (appointmentId) REFERENCES Appointments(id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_consultations_patient ON Consultations(patientId, visitDate);
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'dose_escalation',
+    // NULL minutes leave that escalation step off
+    up: async (db) => {
+      await addColumn(db, 'Medicines', 'escalateRemindMinutes', 'INTEGER');
+      await addColumn(db, 'Medicines', 'escalateCaregiverMinutes', 'INTEGER');
+      await addColumn(db, 'MedicineLogs', 'escalationStage', 'TEXT');
+      await addColumn(db, 'MedicineLogs', 'escalatedAt', 'TEXT');
+    },
+  },
+  {
+    version: 15,
+    name: 'reminder_registry',
+    // Device-local notification ids, never part of a backup
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS ScheduledReminders (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          patientId INTEGER NOT NULL,
+          medicineId INTEGER NOT NULL,
+          slot TEXT NOT NULL,
+          notificationId TEXT NOT NULL,
+          signature TEXT NOT NULL,
+          createdAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          UNIQUE (medicineId, slot)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_scheduled_reminders_patient ON ScheduledReminders(patientId);
+      `);
+    },
+  },
+  {
+    version: 16,
+    name: 'notification_preferences',
+    // NULL quiet hours are off, a NULL alert style plays sound
+    up: async (db) => {
+      await addColumn(db, 'Users', 'quietHoursStart', 'TEXT');
+      await addColumn(db, 'Users', 'quietHoursEnd', 'TEXT');
+      await addColumn(db, 'Users', 'alertStyle', 'TEXT');
+      await addColumn(db, 'Medicines', 'isCritical', 'INTEGER DEFAULT 0');
+    },
+  },
+  {
+    version: 17,
+    name: 'grouped_reminders',
+    // NULL keeps the default grouping window, 0 turns grouping off
+    up: async (db) => {
+      await addColumn(db, 'Users', 'reminderGroupMinutes', 'INTEGER');
+    },
+  },
+  {
+    version: 18,
+    name: 'unique_usernames',
+    // Usernames sign in, so they have to point at one account. The earliest
+    // account keeps a duplicated username; later ones sign in with their account
+    // code, after choosing a PIN through vouchForPinSetup if they have none.
+    up: async (db) => {
+      await db.exec(`
+        UPDATE Users SET username = NULL
+        WHERE username IS NOT NULL
+        AND EXISTS (SELECT 1 FROM Users earlier WHERE earlier.username = Users.username AND earlier.id < Users.id);
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_users_username ON Users(username);
+      `);
+    },
+  },
+  {
+    version: 19,
+    name: 'device_profiles',
+    // Profiles remembered on this phone, read by background tasks too; never part of a backup
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS DeviceProfiles (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          userId INTEGER NOT NULL UNIQUE,
+          rememberedAt TEXT DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (userId) REFERENCES Users(id)
+        );
+      `);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export const getSchemaVersion = async (db: SqlDriver): Promise<number> => {
+  const row = await db.getFirst<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+};
+
+/**
+ * Bring the database up to the latest schema version, one step at a time.
+ * Stops at the first failing step; earlier steps stay applied and the
+ * failing one is rolled back, so the next launch retries from there.
+ * Returns the version the database ends up at.
+ */
+export const runMigrations = async (
+  db: SqlDriver,
+  steps: Migration[] = migrations
+): Promise<number> => {
+  let version = await getSchemaVersion(db);
+
+  if (version > steps[steps.length - 1].version) {
+    throw new Error(
+      `Database schema version ${version} is newer than this app supports. Please update the app.`
+    );
+  }
+
+  for (const migration of steps) {
+    if (migration.version <= version) continue;
+
+    try {
+      await db.transaction(async () => {
+        await migration.up(db);
+        // user_version lives in the database header, so it is rolled back with the step
+        await db.exec(`PRAGMA user_version = ${migration.version}`);
+      });
+    } catch (error) {
+      console.error(`Migration ${migration.version} (${migration.name}) failed:`, error);
+      throw new Error(`Database migration ${migration.version} (${migration.name}) failed`);
+    }
+
+    version = migration.version;
+  }
+
+  return version;
+};
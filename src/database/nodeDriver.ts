@@ -0,0 +1,45 @@
+import { SqlDriver, SqlParam } from './driver';
+
+/**
+ * Synchronous SQLite API shared by better-sqlite3 and node:sqlite's DatabaseSync.
+ * Declared here so the app bundle doesn't depend on either package.
+ */
+export interface NodeSqliteDatabase {
+  prepare(sql: string): {
+    all(...params: SqlParam[]): unknown[];
+    get(...params: SqlParam[]): unknown;
+    run(...params: SqlParam[]): { changes: number | bigint; lastInsertRowid: number | bigint };
+  };
+  exec(sql: string): unknown;
+  close(): unknown;
+}
+
+/**
+ * Run the repositories on Node, e.g.
+ *   setDriver(createNodeDriver(new Database(':memory:')))
+ */
+export const createNodeDriver = (db: NodeSqliteDatabase): SqlDriver => ({
+  getAll: async <T>(sql: string, params: SqlParam[] = []) => db.prepare(sql).all(...params) as T[],
+  getFirst: async <T>(sql: string, params: SqlParam[] = []) =>
+    (db.prepare(sql).get(...params) as T | undefined) ?? null,
+  run: async (sql, params = []) => {
+    const result = db.prepare(sql).run(...params);
+    return { lastInsertRowId: Number(result.lastInsertRowid), changes: Number(result.changes) };
+  },
+  exec: async (sql) => {
+    db.exec(sql);
+  },
+  transaction: async (task) => {
+    db.exec('BEGIN');
+    try {
+      await task();
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  },
+  close: async () => {
+    db.close();
+  },
+});
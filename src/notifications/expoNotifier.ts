@@ -0,0 +1,139 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import {
+  DEFAULT_ACTION,
+  NotificationContent,
+  NotificationRequest,
+  NotificationResponse,
+  Notifier,
+} from './notifier';
+
+const PRIORITIES = {
+  max: Notifications.AndroidNotificationPriority.MAX,
+  high: Notifications.AndroidNotificationPriority.HIGH,
+  low: Notifications.AndroidNotificationPriority.LOW,
+};
+
+const IMPORTANCES = {
+  max: Notifications.AndroidImportance.MAX,
+  high: Notifications.AndroidImportance.HIGH,
+  low: Notifications.AndroidImportance.LOW,
+};
+
+const toContentInput = (content: NotificationContent): Notifications.NotificationContentInput => ({
+  ...content,
+  priority: content.priority ? PRIORITIES[content.priority] : undefined,
+});
+
+const toRequestInput = ({ content, trigger, channelId }: NotificationRequest): Notifications.NotificationRequestInput => {
+  const channel = channelId ? { channelId } : {};
+
+  if (trigger?.type === 'date') {
+    return {
+      content: toContentInput(content),
+      trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date: trigger.date, ...channel },
+    };
+  }
+  if (trigger?.type === 'daily') {
+    return {
+      content: toContentInput(content),
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DAILY,
+        hour: trigger.hour,
+        minute: trigger.minute,
+        ...channel,
+      },
+    };
+  }
+  return { content: toContentInput(content), trigger: channelId ? { channelId } : null };
+};
+
+const fromContent = (content: Notifications.NotificationContent): NotificationContent => ({
+  title: content.title ?? '',
+  body: content.body ?? undefined,
+  data: content.data ?? {},
+  categoryIdentifier: content.categoryIdentifier ?? undefined,
+});
+
+export const fromExpoResponse = (response: Notifications.NotificationResponse): NotificationResponse => ({
+  actionIdentifier: response.actionIdentifier === Notifications.DEFAULT_ACTION_IDENTIFIER
+    ? DEFAULT_ACTION
+    : response.actionIdentifier,
+  notification: {
+    identifier: response.notification.request.identifier,
+    date: response.notification.date,
+    content: fromContent(response.notification.request.content),
+  },
+});
+
+export const createExpoNotifier = (): Notifier => ({
+  schedule: async (request) => await Notifications.scheduleNotificationAsync(toRequestInput(request)),
+  listScheduled: async () =>
+    (await Notifications.getAllScheduledNotificationsAsync()).map(request => ({
+      identifier: request.identifier,
+      content: fromContent(request.content),
+    })),
+  cancel: async (identifier) => {
+    await Notifications.cancelScheduledNotificationAsync(identifier);
+  },
+  cancelAll: async () => {
+    await Notifications.cancelAllScheduledNotificationsAsync();
+  },
+  dismiss: async (identifier) => {
+    await Notifications.dismissNotificationAsync(identifier);
+  },
+  hasPermission: async () => (await Notifications.getPermissionsAsync()).status === 'granted',
+  requestPermission: async () => {
+    const { status: existingStatus } = await Notifications.getPermissionsAsync();
+    if (existingStatus === 'granted') return true;
+
+    const { status } = await Notifications.requestPermissionsAsync();
+    return status === 'granted';
+  },
+  setCategory: async (identifier, actions) => {
+    await Notifications.setNotificationCategoryAsync(
+      identifier,
+      actions.map(action => ({
+        identifier: action.identifier,
+        buttonTitle: action.buttonTitle,
+        options: { opensAppToForeground: false, isDestructive: action.destructive },
+      }))
+    );
+  },
+  setChannel: async (channel) => {
+    if (Platform.OS !== 'android') return;
+
+    await Notifications.setNotificationChannelAsync(channel.id, {
+      name: channel.name,
+      importance: IMPORTANCES[channel.importance],
+      sound: channel.sound ? undefined : null,
+      enableVibrate: channel.vibrationPattern !== undefined,
+      vibrationPattern: channel.vibrationPattern,
+      bypassDnd: channel.bypassDnd,
+    });
+  },
+  addResponseListener: (listener) =>
+    Notifications.addNotificationResponseReceivedListener(response => listener(fromExpoResponse(response))),
+  getLastResponse: async () => {
+    const response = await Notifications.getLastNotificationResponseAsync();
+    return response ? fromExpoResponse(response) : null;
+  },
+});
+
+/**
+ * In the foreground, follow the alert mode the notification was booked with
+ */
+export const registerNotificationHandler = (): void => {
+  Notifications.setNotificationHandler({
+    handleNotification: async (notification) => {
+      const alert = notification.request.content.data?.alert;
+      return {
+        shouldShowAlert: alert !== 'silent',
+        shouldPlaySound: alert === undefined || alert === 'sound' || alert === 'critical',
+        shouldSetBadge: true,
+        shouldShowBanner: alert !== 'silent',
+        shouldShowList: true,
+      };
+    },
+  });
+};
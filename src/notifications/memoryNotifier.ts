@@ -0,0 +1,77 @@
+import {
+  NotificationAction,
+  NotificationChannel,
+  NotificationRequest,
+  NotificationResponse,
+  Notifier,
+  ScheduledNotification,
+} from './notifier';
+
+export interface MemoryNotifier extends Notifier {
+  scheduled: Map<string, ScheduledNotification & NotificationRequest>;
+  // Notifications shown right away, in order
+  delivered: NotificationRequest[];
+  categories: Map<string, NotificationAction[]>;
+  channels: Map<string, NotificationChannel>;
+  // Deliver a response to the listeners, as if the user had pressed the notification
+  respond(response: NotificationResponse): void;
+}
+
+/**
+ * Notifications kept in memory, for Node scripts and tests, e.g.
+ *   setNotifier(createMemoryNotifier())
+ */
+export const createMemoryNotifier = (permissionGranted = true): MemoryNotifier => {
+  const scheduled = new Map<string, ScheduledNotification & NotificationRequest>();
+  const delivered: NotificationRequest[] = [];
+  const categories = new Map<string, NotificationAction[]>();
+  const channels = new Map<string, NotificationChannel>();
+  const listeners = new Set<(response: NotificationResponse) => void>();
+  let lastResponse: NotificationResponse | null = null;
+  let nextId = 1;
+
+  return {
+    scheduled,
+    delivered,
+    categories,
+    channels,
+    schedule: async (request) => {
+      const identifier = `notification-${nextId++}`;
+      if (request.trigger) {
+        scheduled.set(identifier, { identifier, ...request });
+      } else {
+        delivered.push(request);
+      }
+      return identifier;
+    },
+    listScheduled: async () => Array.from(scheduled.values()),
+    cancel: async (identifier) => {
+      scheduled.delete(identifier);
+    },
+    cancelAll: async () => {
+      scheduled.clear();
+    },
+    dismiss: async () => {},
+    hasPermission: async () => permissionGranted,
+    requestPermission: async () => permissionGranted,
+    setCategory: async (identifier, actions) => {
+      categories.set(identifier, actions);
+    },
+    setChannel: async (channel) => {
+      channels.set(channel.id, channel);
+    },
+    addResponseListener: (listener) => {
+      listeners.add(listener);
+      return {
+        remove: () => {
+          listeners.delete(listener);
+        },
+      };
+    },
+    getLastResponse: async () => lastResponse,
+    respond: (response) => {
+      lastResponse = response;
+      listeners.forEach(listener => listener(response));
+    },
+  };
+};
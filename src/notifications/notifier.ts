@@ -0,0 +1,92 @@
+export type NotificationData = Record<string, unknown>;
+
+export interface NotificationContent {
+  title: string;
+  body?: string;
+  data?: NotificationData;
+  categoryIdentifier?: string;
+  sound?: boolean;
+  vibrate?: number[];
+  priority?: 'max' | 'high' | 'low'; // Android
+  interruptionLevel?: 'active' | 'passive' | 'timeSensitive'; // iOS
+}
+
+export type NotificationTrigger =
+  | { type: 'date'; date: Date }
+  | { type: 'daily'; hour: number; minute: number };
+
+export interface NotificationRequest {
+  content: NotificationContent;
+  trigger: NotificationTrigger | null; // null shows it right away
+  channelId?: string; // Android
+}
+
+export interface ScheduledNotification {
+  identifier: string;
+  content: NotificationContent;
+}
+
+// The actionIdentifier of a plain tap on a notification
+export const DEFAULT_ACTION = 'default';
+
+export interface NotificationResponse {
+  actionIdentifier: string;
+  notification: {
+    identifier: string;
+    date: number; // when it was delivered, in ms
+    content: NotificationContent;
+  };
+}
+
+// Action buttons never open the app
+export interface NotificationAction {
+  identifier: string;
+  buttonTitle: string;
+  destructive?: boolean;
+}
+
+// Android only, other platforms ignore channels
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  importance: 'max' | 'high' | 'low';
+  sound: boolean;
+  vibrationPattern?: number[];
+  bypassDnd?: boolean;
+}
+
+export interface NotificationSubscription {
+  remove(): void;
+}
+
+/**
+ * The local notification operations the services need. The app runs on
+ * expo-notifications (see expoNotifier.ts); Node scripts and tests can plug in
+ * the in-memory one instead (see memoryNotifier.ts).
+ */
+export interface Notifier {
+  schedule(request: NotificationRequest): Promise<string>;
+  listScheduled(): Promise<ScheduledNotification[]>;
+  cancel(identifier: string): Promise<void>;
+  cancelAll(): Promise<void>;
+  dismiss(identifier: string): Promise<void>;
+  hasPermission(): Promise<boolean>;
+  requestPermission(): Promise<boolean>;
+  setCategory(identifier: string, actions: NotificationAction[]): Promise<void>;
+  setChannel(channel: NotificationChannel): Promise<void>;
+  addResponseListener(listener: (response: NotificationResponse) => void): NotificationSubscription;
+  getLastResponse(): Promise<NotificationResponse | null>;
+}
+
+let notifier: Notifier | null = null;
+
+export const setNotifier = (nextNotifier: Notifier | null): void => {
+  notifier = nextNotifier;
+};
+
+export const getNotifier = (): Notifier => {
+  if (!notifier) {
+    throw new Error('No notifier registered');
+  }
+  return notifier;
+};
@@ -0,0 +1,39 @@
+import { getDriver } from '../database/driver';
+import { AdherenceStat } from '../types';
+
+export interface AdherenceStatsRepo {
+  upsert(stat: Omit<AdherenceStat, 'id'>): Promise<void>;
+  listSince(patientId: number, since: string): Promise<AdherenceStat[]>;
+  averageRateSince(patientId: number, since: string): Promise<number | null>;
+}
+
+export const adherenceStatsRepo: AdherenceStatsRepo = {
+  upsert: async (stat) => {
+    const db = await getDriver();
+    await db.run(
+      `INSERT OR REPLACE INTO AdherenceStats (patientId, date, totalDoses, takenDoses, adherenceRate)
+       VALUES (?, ?, ?, ?, ?)`,
+      [stat.patientId, stat.date, stat.totalDoses, stat.takenDoses, stat.adherenceRate]
+    );
+  },
+
+  listSince: async (patientId, since) => {
+    const db = await getDriver();
+    return await db.getAll<AdherenceStat>(
+      `SELECT * FROM AdherenceStats
+       WHERE patientId = ? AND date >= date(?)
+       ORDER BY date ASC`,
+      [patientId, since]
+    );
+  },
+
+  averageRateSince: async (patientId, since) => {
+    const db = await getDriver();
+    const result = await db.getFirst<{ avgRate: number | null }>(
+      `SELECT AVG(adherenceRate) as avgRate FROM AdherenceStats
+       WHERE patientId = ? AND date >= date(?)`,
+      [patientId, since]
+    );
+    return result?.avgRate ?? null;
+  },
+};
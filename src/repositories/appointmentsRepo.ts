@@ -0,0 +1,103 @@
+import { getDriver } from '../database/driver';
+import { Appointment, AppointmentStatus, AppointmentWithPeople } from '../types';
+
+export type NewAppointment = Pick<
+  Appointment,
+  'patientId' | 'doctorId' | 'date' | 'time' | 'durationMinutes' | 'notes'
+>;
+
+export type AppointmentChanges = Pick<Appointment, 'date' | 'time' | 'durationMinutes' | 'notes'>;
+
+export interface AppointmentsRepo {
+  insert(appointment: NewAppointment): Promise<number>;
+  findById(appointmentId: number): Promise<AppointmentWithPeople | null>;
+  listByDoctor(doctorId: number): Promise<AppointmentWithPeople[]>;
+  listByPatient(patientId: number): Promise<AppointmentWithPeople[]>;
+  listScheduledForDoctorOnDate(doctorId: number, date: string): Promise<Appointment[]>;
+  update(appointmentId: number, changes: AppointmentChanges): Promise<boolean>;
+  setStatus(appointmentId: number, status: AppointmentStatus): Promise<boolean>;
+}
+
+const SELECT_WITH_PEOPLE = `
+  SELECT a.*, p.name as patientName, d.name as doctorName, d.specialization as doctorSpecialization
+  FROM Appointments a
+  INNER JOIN Users p ON p.id = a.patientId
+  INNER JOIN Users d ON d.id = a.doctorId`;
+
+export const appointmentsRepo: AppointmentsRepo = {
+  insert: async (appointment) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `INSERT INTO Appointments (patientId, doctorId, date, time, durationMinutes, notes)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        appointment.patientId,
+        appointment.doctorId,
+        appointment.date,
+        appointment.time,
+        appointment.durationMinutes,
+        appointment.notes ?? null,
+      ]
+    );
+    return result.lastInsertRowId;
+  },
+
+  findById: async (appointmentId) => {
+    const db = await getDriver();
+    return await db.getFirst<AppointmentWithPeople>(
+      `${SELECT_WITH_PEOPLE} WHERE a.id = ?`,
+      [appointmentId]
+    );
+  },
+
+  listByDoctor: async (doctorId) => {
+    const db = await getDriver();
+    return await db.getAll<AppointmentWithPeople>(
+      `${SELECT_WITH_PEOPLE}
+       WHERE a.doctorId = ?
+       ORDER BY a.date ASC, a.time ASC`,
+      [doctorId]
+    );
+  },
+
+  listByPatient: async (patientId) => {
+    const db = await getDriver();
+    return await db.getAll<AppointmentWithPeople>(
+      `${SELECT_WITH_PEOPLE}
+       WHERE a.patientId = ?
+       ORDER BY a.date ASC, a.time ASC`,
+      [patientId]
+    );
+  },
+
+  listScheduledForDoctorOnDate: async (doctorId, date) => {
+    const db = await getDriver();
+    return await db.getAll<Appointment>(
+      `SELECT * FROM Appointments
+       WHERE doctorId = ? AND date = ? AND status = 'scheduled'
+       ORDER BY time ASC`,
+      [doctorId, date]
+    );
+  },
+
+  // Only scheduled visits can be moved
+  update: async (appointmentId, changes) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `UPDATE Appointments SET date = ?, time = ?, durationMinutes = ?, notes = ?
+       WHERE id = ? AND status = 'scheduled'`,
+      [changes.date, changes.time, changes.durationMinutes, changes.notes ?? null, appointmentId]
+    );
+    return result.changes === 1;
+  },
+
+  // Completed and cancelled are final
+  setStatus: async (appointmentId, status) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `UPDATE Appointments SET status = ? WHERE id = ? AND status = 'scheduled'`,
+      [status, appointmentId]
+    );
+    return result.changes === 1;
+  },
+};
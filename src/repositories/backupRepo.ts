@@ -0,0 +1,148 @@
+import { getDriver, SqlParam } from '../database/driver';
+import {
+  User,
+  Medicine,
+  MedicineLog,
+  AdherenceStat,
+  Relationship,
+  FaceScanReport,
+  DosePlanStep,
+  Appointment,
+  Consultation,
+} from '../types';
+
+// PINs and lockouts stay on the device; restored accounts choose a new PIN
+export type BackupUser = Omit<User, 'pinHash' | 'pinSalt' | 'failedLoginAttempts' | 'lockedUntil'>;
+
+/**
+ * Everything stored for one patient, as plain table rows
+ */
+export interface PatientDataset {
+  users: BackupUser[]; // the patient first, then linked caregivers and doctors
+  medicines: Medicine[];
+  medicineLogs: MedicineLog[];
+  adherenceStats: AdherenceStat[];
+  relationships: Relationship[];
+  faceScanReports: FaceScanReport[];
+  dosePlanSteps: DosePlanStep[];
+  appointments: Appointment[];
+  consultations: Consultation[];
+}
+
+export type BackupTable =
+  | 'Users'
+  | 'Medicines'
+  | 'MedicineLogs'
+  | 'AdherenceStats'
+  | 'Relationships'
+  | 'FaceScanReports'
+  | 'DosePlanSteps'
+  | 'Appointments'
+  | 'Consultations';
+
+// Columns restored from a backup; ids are always reassigned on insert
+export const BACKUP_COLUMNS: Record<BackupTable, string[]> = {
+  Users: [
+    'name', 'age', 'username', 'role', 'uniqueCode', 'relation', 'specialization',
+    'appointmentReminders', 'quietHoursStart', 'quietHoursEnd', 'alertStyle', 'reminderGroupMinutes',
+    'createdAt',
+  ],
+  Medicines: [
+    'patientId', 'name', 'dosage', 'frequency', 'times', 'recurrence', 'stock', 'instructions',
+    'graceMinutes', 'startDate', 'endDate', 'status', 'completedAt', 'isPrn', 'minIntervalMinutes',
+    'maxDailyDoses', 'escalateRemindMinutes', 'escalateCaregiverMinutes', 'isCritical', 'createdAt',
+  ],
+  MedicineLogs: [
+    'medicineId', 'patientId', 'scheduledTime', 'takenAt', 'status', 'notes', 'statusSource',
+    'statusChangedBy', 'statusChangedAt', 'isPrn', 'escalationStage', 'escalatedAt', 'createdAt',
+  ],
+  AdherenceStats: ['patientId', 'date', 'totalDoses', 'takenDoses', 'adherenceRate'],
+  Relationships: ['patientId', 'caregiverId', 'doctorId', 'relationshipType', 'permissions', 'linkedAt'],
+  FaceScanReports: ['patientId', 'scanResult', 'confidence', 'scannedAt'],
+  DosePlanSteps: ['medicineId', 'stepOrder', 'dosage', 'startDate', 'endDate', 'createdAt'],
+  Appointments: ['patientId', 'doctorId', 'date', 'time', 'durationMinutes', 'notes', 'status', 'createdAt'],
+  Consultations: [
+    'patientId', 'doctorId', 'appointmentId', 'visitDate', 'complaints', 'observations', 'vitals', 'plan',
+    'medicationChanges', 'createdAt', 'updatedAt',
+  ],
+};
+
+export interface BackupRepo {
+  readPatientDataset(patientId: number): Promise<PatientDataset>;
+  insertRecord(table: BackupTable, record: object): Promise<number>;
+  findMatchingId(table: BackupTable, match: Record<string, SqlParam>): Promise<number | null>;
+  deletePatientData(patientId: number): Promise<void>;
+}
+
+export const backupRepo: BackupRepo = {
+  readPatientDataset: async (patientId) => {
+    const db = await getDriver();
+    const byPatient = <T>(table: string) =>
+      db.getAll<T>(`SELECT * FROM ${table} WHERE patientId = ? ORDER BY id ASC`, [patientId]);
+
+    const userColumns = ['id', ...BACKUP_COLUMNS.Users].join(', ');
+    const patient = await db.getAll<BackupUser>(`SELECT ${userColumns} FROM Users WHERE id = ?`, [patientId]);
+    const linkedUsers = await db.getAll<BackupUser>(
+      `SELECT ${userColumns} FROM Users WHERE id IN (
+         SELECT caregiverId FROM Relationships WHERE patientId = ?
+         UNION SELECT doctorId FROM Relationships WHERE patientId = ?
+       ) ORDER BY id ASC`,
+      [patientId, patientId]
+    );
+
+    return {
+      users: [...patient, ...linkedUsers.filter(u => u.id !== patientId)],
+      medicines: await byPatient<Medicine>('Medicines'),
+      medicineLogs: await byPatient<MedicineLog>('MedicineLogs'),
+      adherenceStats: await byPatient<AdherenceStat>('AdherenceStats'),
+      relationships: await byPatient<Relationship>('Relationships'),
+      faceScanReports: await byPatient<FaceScanReport>('FaceScanReports'),
+      dosePlanSteps: await db.getAll<DosePlanStep>(
+        `SELECT * FROM DosePlanSteps
+         WHERE medicineId IN (SELECT id FROM Medicines WHERE patientId = ?)
+         ORDER BY id ASC`,
+        [patientId]
+      ),
+      appointments: await byPatient<Appointment>('Appointments'),
+      consultations: await byPatient<Consultation>('Consultations'),
+    };
+  },
+
+  insertRecord: async (table, record) => {
+    const db = await getDriver();
+    const values = record as Record<string, SqlParam | undefined>;
+    // Leave absent columns out so the table defaults apply
+    const columns = BACKUP_COLUMNS[table].filter(c => values[c] !== undefined);
+
+    const result = await db.run(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+      columns.map(c => values[c] as SqlParam)
+    );
+    return result.lastInsertRowId;
+  },
+
+  findMatchingId: async (table, match) => {
+    const db = await getDriver();
+    const columns = Object.keys(match);
+    // IS instead of = so NULL columns (e.g. a caregiver link's doctorId) match too
+    const row = await db.getFirst<{ id: number }>(
+      `SELECT id FROM ${table} WHERE ${columns.map(c => `${c} IS ?`).join(' AND ')} LIMIT 1`,
+      columns.map(c => match[c])
+    );
+    return row?.id ?? null;
+  },
+
+  deletePatientData: async (patientId) => {
+    const db = await getDriver();
+    await db.run(
+      'DELETE FROM DosePlanSteps WHERE medicineId IN (SELECT id FROM Medicines WHERE patientId = ?)',
+      [patientId]
+    );
+    for (const table of [
+      'MedicineLogs', 'Medicines', 'AdherenceStats', 'Relationships', 'FaceScanReports', 'Consultations',
+      'Appointments', 'ScheduledReminders',
+    ]) {
+      await db.run(`DELETE FROM ${table} WHERE patientId = ?`, [patientId]);
+    }
+  },
+};
@@ -0,0 +1,95 @@
+import { getDriver } from '../database/driver';
+import { Consultation, ConsultationWithDoctor } from '../types';
+
+export type ConsultationFields = Pick<
+  Consultation,
+  'visitDate' | 'complaints' | 'observations' | 'vitals' | 'plan' | 'medicationChanges'
+>;
+
+export type NewConsultation = ConsultationFields &
+  Pick<Consultation, 'patientId' | 'doctorId' | 'appointmentId'>;
+
+export interface ConsultationsRepo {
+  insert(consultation: NewConsultation): Promise<number>;
+  update(consultationId: number, doctorId: number, fields: ConsultationFields, now: string): Promise<boolean>;
+  findById(consultationId: number): Promise<ConsultationWithDoctor | null>;
+  findByAppointment(appointmentId: number): Promise<Consultation | null>;
+  listByPatient(patientId: number): Promise<ConsultationWithDoctor[]>;
+}
+
+const SELECT_WITH_DOCTOR = `
+  SELECT c.*, d.name as doctorName, d.specialization as doctorSpecialization
+  FROM Consultations c
+  INNER JOIN Users d ON d.id = c.doctorId`;
+
+export const consultationsRepo: ConsultationsRepo = {
+  insert: async (consultation) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `INSERT INTO Consultations
+         (patientId, doctorId, appointmentId, visitDate, complaints, observations, vitals, plan, medicationChanges)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        consultation.patientId,
+        consultation.doctorId,
+        consultation.appointmentId ?? null,
+        consultation.visitDate,
+        consultation.complaints ?? null,
+        consultation.observations ?? null,
+        consultation.vitals ?? null,
+        consultation.plan ?? null,
+        consultation.medicationChanges ?? null,
+      ]
+    );
+    return result.lastInsertRowId;
+  },
+
+  // Only the doctor who wrote the notes can change them
+  update: async (consultationId, doctorId, fields, now) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `UPDATE Consultations
+       SET visitDate = ?, complaints = ?, observations = ?, vitals = ?, plan = ?, medicationChanges = ?,
+           updatedAt = ?
+       WHERE id = ? AND doctorId = ?`,
+      [
+        fields.visitDate,
+        fields.complaints ?? null,
+        fields.observations ?? null,
+        fields.vitals ?? null,
+        fields.plan ?? null,
+        fields.medicationChanges ?? null,
+        now,
+        consultationId,
+        doctorId,
+      ]
+    );
+    return result.changes === 1;
+  },
+
+  findById: async (consultationId) => {
+    const db = await getDriver();
+    return await db.getFirst<ConsultationWithDoctor>(
+      `${SELECT_WITH_DOCTOR} WHERE c.id = ?`,
+      [consultationId]
+    );
+  },
+
+  findByAppointment: async (appointmentId) => {
+    const db = await getDriver();
+    return await db.getFirst<Consultation>(
+      'SELECT * FROM Consultations WHERE appointmentId = ?',
+      [appointmentId]
+    );
+  },
+
+  listByPatient: async (patientId) => {
+    const db = await getDriver();
+    return await db.getAll<ConsultationWithDoctor>(
+      `${SELECT_WITH_DOCTOR}
+       WHERE c.patientId = ?
+       ORDER BY c.visitDate DESC, c.id DESC`,
+      [patientId]
+    );
+  },
+};
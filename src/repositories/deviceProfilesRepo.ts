@@ -0,0 +1,29 @@
+import { getDriver } from '../database/driver';
+
+export interface DeviceProfilesRepo {
+  listUserIds(): Promise<number[]>;
+  remember(userId: number): Promise<void>;
+  forget(userId: number): Promise<void>;
+}
+
+export const deviceProfilesRepo: DeviceProfilesRepo = {
+  // Oldest first, a profile signed in to again moves to the end
+  listUserIds: async () => {
+    const db = await getDriver();
+    const rows = await db.getAll<{ userId: number }>(
+      'SELECT userId FROM DeviceProfiles ORDER BY id ASC'
+    );
+    return rows.map(row => row.userId);
+  },
+
+  remember: async (userId) => {
+    const db = await getDriver();
+    await db.run('DELETE FROM DeviceProfiles WHERE userId = ?', [userId]);
+    await db.run('INSERT INTO DeviceProfiles (userId) VALUES (?)', [userId]);
+  },
+
+  forget: async (userId) => {
+    const db = await getDriver();
+    await db.run('DELETE FROM DeviceProfiles WHERE userId = ?', [userId]);
+  },
+};
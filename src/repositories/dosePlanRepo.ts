@@ -0,0 +1,33 @@
+import { getDriver } from '../database/driver';
+import { DosePlanStep } from '../types';
+
+export interface DosePlanRepo {
+  insertStep(step: Omit<DosePlanStep, 'id' | 'createdAt'>): Promise<number>;
+  listByMedicine(medicineId: number): Promise<DosePlanStep[]>;
+  deleteByMedicine(medicineId: number): Promise<void>;
+}
+
+export const dosePlanRepo: DosePlanRepo = {
+  insertStep: async (step) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `INSERT INTO DosePlanSteps (medicineId, stepOrder, dosage, startDate, endDate)
+       VALUES (?, ?, ?, ?, ?)`,
+      [step.medicineId, step.stepOrder, step.dosage, step.startDate, step.endDate]
+    );
+    return result.lastInsertRowId;
+  },
+
+  listByMedicine: async (medicineId) => {
+    const db = await getDriver();
+    return await db.getAll<DosePlanStep>(
+      'SELECT * FROM DosePlanSteps WHERE medicineId = ? ORDER BY stepOrder ASC',
+      [medicineId]
+    );
+  },
+
+  deleteByMedicine: async (medicineId) => {
+    const db = await getDriver();
+    await db.run('DELETE FROM DosePlanSteps WHERE medicineId = ?', [medicineId]);
+  },
+};
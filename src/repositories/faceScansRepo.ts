@@ -0,0 +1,26 @@
+import { getDriver } from '../database/driver';
+import { FaceScanReport } from '../types';
+
+export interface FaceScansRepo {
+  insert(patientId: number, scanResult: string, confidence: number, scannedAt: string): Promise<number>;
+  listByPatient(patientId: number, limit: number): Promise<FaceScanReport[]>;
+}
+
+export const faceScansRepo: FaceScansRepo = {
+  insert: async (patientId, scanResult, confidence, scannedAt) => {
+    const db = await getDriver();
+    const result = await db.run(
+      'INSERT INTO FaceScanReports (patientId, scanResult, confidence, scannedAt) VALUES (?, ?, ?, ?)',
+      [patientId, scanResult, confidence, scannedAt]
+    );
+    return result.lastInsertRowId;
+  },
+
+  listByPatient: async (patientId, limit) => {
+    const db = await getDriver();
+    return await db.getAll<FaceScanReport>(
+      'SELECT * FROM FaceScanReports WHERE patientId = ? ORDER BY scannedAt DESC LIMIT ?',
+      [patientId, limit]
+    );
+  },
+};
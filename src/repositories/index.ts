@@ -0,0 +1,23 @@
+import { getDriver } from '../database/driver';
+
+export * from './medicinesRepo';
+export * from './logsRepo';
+export * from './usersRepo';
+export * from './relationshipsRepo';
+export * from './adherenceStatsRepo';
+export * from './dosePlanRepo';
+export * from './appointmentsRepo';
+export * from './consultationsRepo';
+export * from './remindersRepo';
+export * from './deviceProfilesRepo';
+export * from './invitationsRepo';
+export * from './faceScansRepo';
+export * from './backupRepo';
+
+/**
+ * Run several repository calls as one unit, rolled back together on failure
+ */
+export const withTransaction = async (task: () => Promise<void>): Promise<void> => {
+  const db = await getDriver();
+  await db.transaction(task);
+};
@@ -0,0 +1,61 @@
+import { getDriver } from '../database/driver';
+import { Invitation, InvitationRole } from '../types';
+
+export interface InvitationsRepo {
+  insert(patientId: number, role: InvitationRole, code: string, expiresAt: string): Promise<number>;
+  findById(invitationId: number): Promise<Invitation | null>;
+  findByCode(code: string): Promise<Invitation | null>;
+  listByPatient(patientId: number): Promise<Invitation[]>;
+  markAccepted(invitationId: number, userId: number, now: string): Promise<boolean>;
+  revoke(invitationId: number, patientId: number): Promise<boolean>;
+}
+
+export const invitationsRepo: InvitationsRepo = {
+  insert: async (patientId, role, code, expiresAt) => {
+    const db = await getDriver();
+    const result = await db.run(
+      'INSERT INTO Invitations (patientId, role, code, expiresAt) VALUES (?, ?, ?, ?)',
+      [patientId, role, code, expiresAt]
+    );
+    return result.lastInsertRowId;
+  },
+
+  findById: async (invitationId) => {
+    const db = await getDriver();
+    return await db.getFirst<Invitation>('SELECT * FROM Invitations WHERE id = ?', [invitationId]);
+  },
+
+  findByCode: async (code) => {
+    const db = await getDriver();
+    return await db.getFirst<Invitation>('SELECT * FROM Invitations WHERE code = ?', [code]);
+  },
+
+  listByPatient: async (patientId) => {
+    const db = await getDriver();
+    return await db.getAll<Invitation>(
+      'SELECT * FROM Invitations WHERE patientId = ? ORDER BY createdAt DESC, id DESC',
+      [patientId]
+    );
+  },
+
+  // Conditional so two redemptions of the same code can't both succeed
+  markAccepted: async (invitationId, userId, now) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `UPDATE Invitations SET status = 'accepted', acceptedBy = ?, acceptedAt = ?
+       WHERE id = ? AND status = 'pending' AND expiresAt > ?`,
+      [userId, now, invitationId, now]
+    );
+    return result.changes === 1;
+  },
+
+  revoke: async (invitationId, patientId) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `UPDATE Invitations SET status = 'revoked'
+       WHERE id = ? AND patientId = ? AND status = 'pending'`,
+      [invitationId, patientId]
+    );
+    return result.changes === 1;
+  },
+};
@@ -0,0 +1,346 @@
+import { getDriver, SqlParam } from '../database/driver';
+import { EscalationStage, MedicineLog, StatusActor } from '../types';
+
+type LogStatus = MedicineLog['status'];
+
+export interface DoseCounts {
+  total: number;
+  taken: number;
+}
+
+export interface EscalationCandidate extends MedicineLog {
+  medicineName: string;
+  escalateRemindMinutes: number | null;
+  escalateCaregiverMinutes: number | null;
+  isCritical: number;
+}
+
+export interface EscalatedDose extends MedicineLog {
+  medicineName: string;
+}
+
+// Pending doses only count towards adherence once they are due
+const DUE_FILTER =
+  "AND (status != 'pending' OR CAST(strftime('%s', scheduledTime) AS INTEGER) <= CAST(strftime('%s', ?) AS INTEGER))";
+
+/**
+ * Queries on scheduled doses ignore PRN (as-needed) logs, which never count towards adherence.
+ * The adherence queries take now to leave out doses that aren't due yet.
+ */
+export interface LogsRepo {
+  insertPending(medicineId: number, patientId: number, scheduledTime: string): Promise<number>;
+  insertPendingIfMissing(medicineId: number, patientId: number, scheduledTime: string): Promise<number>;
+  insertPrnDose(
+    medicineId: number,
+    patientId: number,
+    takenAt: string,
+    notes: string,
+    actor: StatusActor
+  ): Promise<number>;
+  findById(logId: number): Promise<MedicineLog | null>;
+  findByScheduledTime(medicineId: number, scheduledTime: string): Promise<MedicineLog | null>;
+  listByMedicine(medicineId: number): Promise<MedicineLog[]>;
+  listByPatientBetween(patientId: number, start: string, end: string): Promise<MedicineLog[]>;
+  listScheduledSince(patientId: number, since: string, now: string, statuses?: LogStatus[]): Promise<MedicineLog[]>;
+  listTakenSince(patientId: number, medicineId: number, since: string): Promise<MedicineLog[]>;
+  listRecentTaken(patientId: number, medicineId: number, limit: number): Promise<MedicineLog[]>;
+  listPrnDosesSince(medicineId: number, since: string): Promise<MedicineLog[]>;
+  getLastScheduledTime(medicineId: number): Promise<string | null>;
+  countScheduledBetween(patientId: number, start: string, end: string, now: string): Promise<DoseCounts>;
+  countScheduledSince(patientId: number, since: string, now: string): Promise<DoseCounts>;
+  countByStatusBetween(patientId: number, start: string, end: string, status: LogStatus): Promise<number>;
+  countMissedSince(medicineId: number, patientId: number, since: string): Promise<number>;
+  setTaken(logId: number, takenAt: string, notes: string, actor: StatusActor): Promise<void>;
+  setMissed(logId: number, changedAt: string, actor: StatusActor): Promise<void>;
+  setSkipped(logId: number, changedAt: string, notes: string, actor: StatusActor): Promise<void>;
+  sweepMissed(patientId: number | null, now: string, defaultGraceMinutes: number): Promise<number>;
+  listEscalationCandidates(patientId: number | null, since: string, now: string): Promise<EscalationCandidate[]>;
+  setEscalationStage(logId: number, stage: EscalationStage, escalatedAt: string): Promise<boolean>;
+  listCaregiverEscalationsSince(patientId: number, since: string): Promise<EscalatedDose[]>;
+  deletePendingAfter(medicineId: number, after: string): Promise<void>;
+  deleteByMedicine(medicineId: number): Promise<void>;
+}
+
+const toCounts = (result: { total: number; taken: number | null } | null): DoseCounts => ({
+  total: result?.total || 0,
+  taken: result?.taken || 0,
+});
+
+export const logsRepo: LogsRepo = {
+  insertPending: async (medicineId, patientId, scheduledTime) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `INSERT INTO MedicineLogs (medicineId, patientId, scheduledTime, status)
+       VALUES (?, ?, ?, ?)`,
+      [medicineId, patientId, scheduledTime, 'pending']
+    );
+    return result.lastInsertRowId;
+  },
+
+  insertPendingIfMissing: async (medicineId, patientId, scheduledTime) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `INSERT INTO MedicineLogs (medicineId, patientId, scheduledTime, status)
+       SELECT ?, ?, ?, 'pending'
+       WHERE NOT EXISTS (
+         SELECT 1 FROM MedicineLogs WHERE medicineId = ? AND scheduledTime = ?
+       )`,
+      [medicineId, patientId, scheduledTime, medicineId, scheduledTime]
+    );
+    return result.changes;
+  },
+
+  insertPrnDose: async (medicineId, patientId, takenAt, notes, actor) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `INSERT INTO MedicineLogs
+       (medicineId, patientId, scheduledTime, takenAt, status, notes, statusSource, statusChangedBy, statusChangedAt, isPrn)
+       VALUES (?, ?, ?, ?, 'taken', ?, ?, ?, ?, 1)`,
+      [medicineId, patientId, takenAt, takenAt, notes, actor.source, actor.userId ?? null, takenAt]
+    );
+    return result.lastInsertRowId;
+  },
+
+  findById: async (logId) => {
+    const db = await getDriver();
+    return await db.getFirst<MedicineLog>('SELECT * FROM MedicineLogs WHERE id = ?', [logId]);
+  },
+
+  findByScheduledTime: async (medicineId, scheduledTime) => {
+    const db = await getDriver();
+    return await db.getFirst<MedicineLog>(
+      'SELECT * FROM MedicineLogs WHERE medicineId = ? AND scheduledTime = ?',
+      [medicineId, scheduledTime]
+    );
+  },
+
+  listByMedicine: async (medicineId) => {
+    const db = await getDriver();
+    return await db.getAll<MedicineLog>(
+      'SELECT * FROM MedicineLogs WHERE medicineId = ? ORDER BY scheduledTime DESC',
+      [medicineId]
+    );
+  },
+
+  listByPatientBetween: async (patientId, start, end) => {
+    const db = await getDriver();
+    return await db.getAll<MedicineLog>(
+      `SELECT * FROM MedicineLogs
+       WHERE patientId = ? AND scheduledTime >= ? AND scheduledTime < ?
+       ORDER BY scheduledTime ASC`,
+      [patientId, start, end]
+    );
+  },
+
+  listScheduledSince: async (patientId, since, now, statuses) => {
+    const db = await getDriver();
+    const params: SqlParam[] = [patientId, since, now];
+    let statusFilter = '';
+
+    if (statuses && statuses.length > 0) {
+      statusFilter = `AND status IN (${statuses.map(() => '?').join(', ')})`;
+      params.push(...statuses);
+    }
+
+    return await db.getAll<MedicineLog>(
+      `SELECT * FROM MedicineLogs
+       WHERE patientId = ? AND isPrn = 0 AND date(scheduledTime) >= date(?) ${DUE_FILTER} ${statusFilter}
+       ORDER BY scheduledTime ASC`,
+      params
+    );
+  },
+
+  listTakenSince: async (patientId, medicineId, since) => {
+    const db = await getDriver();
+    return await db.getAll<MedicineLog>(
+      `SELECT * FROM MedicineLogs
+       WHERE patientId = ? AND medicineId = ? AND isPrn = 0
+       AND status = 'taken' AND takenAt IS NOT NULL
+       AND date(scheduledTime) >= date(?)
+       ORDER BY scheduledTime DESC`,
+      [patientId, medicineId, since]
+    );
+  },
+
+  listRecentTaken: async (patientId, medicineId, limit) => {
+    const db = await getDriver();
+    return await db.getAll<MedicineLog>(
+      `SELECT * FROM MedicineLogs
+       WHERE patientId = ? AND medicineId = ? AND isPrn = 0 AND status = 'taken' AND takenAt IS NOT NULL
+       ORDER BY takenAt DESC
+       LIMIT ?`,
+      [patientId, medicineId, limit]
+    );
+  },
+
+  listPrnDosesSince: async (medicineId, since) => {
+    const db = await getDriver();
+    return await db.getAll<MedicineLog>(
+      `SELECT * FROM MedicineLogs
+       WHERE medicineId = ? AND isPrn = 1 AND status = 'taken' AND takenAt > ?
+       ORDER BY takenAt DESC`,
+      [medicineId, since]
+    );
+  },
+
+  getLastScheduledTime: async (medicineId) => {
+    const db = await getDriver();
+    const result = await db.getFirst<{ lastScheduled: string | null }>(
+      'SELECT MAX(scheduledTime) as lastScheduled FROM MedicineLogs WHERE medicineId = ?',
+      [medicineId]
+    );
+    return result?.lastScheduled || null;
+  },
+
+  countScheduledBetween: async (patientId, start, end, now) => {
+    const db = await getDriver();
+    return toCounts(
+      await db.getFirst<{ total: number; taken: number | null }>(
+        `SELECT
+           COUNT(*) as total,
+           SUM(CASE WHEN status = 'taken' THEN 1 ELSE 0 END) as taken
+         FROM MedicineLogs
+         WHERE patientId = ? AND isPrn = 0 AND scheduledTime >= ? AND scheduledTime < ? ${DUE_FILTER}`,
+        [patientId, start, end, now]
+      )
+    );
+  },
+
+  countScheduledSince: async (patientId, since, now) => {
+    const db = await getDriver();
+    return toCounts(
+      await db.getFirst<{ total: number; taken: number | null }>(
+        `SELECT
+           COUNT(*) as total,
+           SUM(CASE WHEN status = 'taken' THEN 1 ELSE 0 END) as taken
+         FROM MedicineLogs
+         WHERE patientId = ? AND isPrn = 0 AND date(scheduledTime) >= date(?) ${DUE_FILTER}`,
+        [patientId, since, now]
+      )
+    );
+  },
+
+  countByStatusBetween: async (patientId, start, end, status) => {
+    const db = await getDriver();
+    const result = await db.getFirst<{ count: number }>(
+      `SELECT COUNT(*) as count FROM MedicineLogs
+       WHERE patientId = ? AND scheduledTime >= ? AND scheduledTime < ? AND status = ?`,
+      [patientId, start, end, status]
+    );
+    return result?.count || 0;
+  },
+
+  countMissedSince: async (medicineId, patientId, since) => {
+    const db = await getDriver();
+    const result = await db.getFirst<{ missedCount: number }>(
+      `SELECT COUNT(*) as missedCount
+       FROM MedicineLogs
+       WHERE medicineId = ?
+       AND patientId = ?
+       AND date(scheduledTime) >= date(?)
+       AND status = 'missed'`,
+      [medicineId, patientId, since]
+    );
+    return result?.missedCount || 0;
+  },
+
+  setTaken: async (logId, takenAt, notes, actor) => {
+    const db = await getDriver();
+    await db.run(
+      `UPDATE MedicineLogs
+       SET status = 'taken', takenAt = ?, notes = ?, statusSource = ?, statusChangedBy = ?, statusChangedAt = ?
+       WHERE id = ?`,
+      [takenAt, notes, actor.source, actor.userId ?? null, takenAt, logId]
+    );
+  },
+
+  setMissed: async (logId, changedAt, actor) => {
+    const db = await getDriver();
+    await db.run(
+      `UPDATE MedicineLogs
+       SET status = 'missed', statusSource = ?, statusChangedBy = ?, statusChangedAt = ?
+       WHERE id = ?`,
+      [actor.source, actor.userId ?? null, changedAt, logId]
+    );
+  },
+
+  setSkipped: async (logId, changedAt, notes, actor) => {
+    const db = await getDriver();
+    await db.run(
+      `UPDATE MedicineLogs
+       SET status = 'skipped', notes = ?, statusSource = ?, statusChangedBy = ?, statusChangedAt = ?
+       WHERE id = ?`,
+      [notes, actor.source, actor.userId ?? null, changedAt, logId]
+    );
+  },
+
+  // strftime returns text, which SQLite orders after any number, so the right-hand side is cast
+  sweepMissed: async (patientId, now, defaultGraceMinutes) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `UPDATE MedicineLogs
+       SET status = 'missed', statusSource = 'missed_dose_sweep', statusChangedBy = NULL, statusChangedAt = ?
+       WHERE status = 'pending'
+       AND (? IS NULL OR patientId = ?)
+       AND strftime('%s', scheduledTime) + 60 * COALESCE(
+         (SELECT graceMinutes FROM Medicines WHERE Medicines.id = MedicineLogs.medicineId), ?
+       ) <= CAST(strftime('%s', ?) AS INTEGER)`,
+      [now, patientId, patientId, defaultGraceMinutes, now]
+    );
+    return result.changes;
+  },
+
+  // Doses due since the given time that are still pending, whether or not their
+  // grace window has passed: the sweep may not have run since
+  listEscalationCandidates: async (patientId, since, now) => {
+    const db = await getDriver();
+    return await db.getAll<EscalationCandidate>(
+      `SELECT l.*, m.name AS medicineName, m.escalateRemindMinutes, m.escalateCaregiverMinutes, m.isCritical
+       FROM MedicineLogs l
+       JOIN Medicines m ON m.id = l.medicineId
+       WHERE l.status = 'pending' AND l.isPrn = 0
+       AND (? IS NULL OR l.patientId = ?)
+       AND (m.escalateRemindMinutes IS NOT NULL OR m.escalateCaregiverMinutes IS NOT NULL)
+       AND (l.escalationStage IS NULL OR l.escalationStage != 'caregivers_notified')
+       AND strftime('%s', l.scheduledTime) >= strftime('%s', ?)
+       AND strftime('%s', l.scheduledTime) <= strftime('%s', ?)
+       ORDER BY l.scheduledTime`,
+      [patientId, patientId, since, now]
+    );
+  },
+
+  setEscalationStage: async (logId, stage, escalatedAt) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `UPDATE MedicineLogs SET escalationStage = ?, escalatedAt = ? WHERE id = ? AND status = 'pending'`,
+      [stage, escalatedAt, logId]
+    );
+    return result.changes > 0;
+  },
+
+  listCaregiverEscalationsSince: async (patientId, since) => {
+    const db = await getDriver();
+    return await db.getAll<EscalatedDose>(
+      `SELECT l.*, m.name AS medicineName
+       FROM MedicineLogs l
+       JOIN Medicines m ON m.id = l.medicineId
+       WHERE l.patientId = ? AND l.escalationStage = 'caregivers_notified'
+       AND strftime('%s', l.escalatedAt) >= strftime('%s', ?)
+       ORDER BY l.escalatedAt DESC`,
+      [patientId, since]
+    );
+  },
+
+  deletePendingAfter: async (medicineId, after) => {
+    const db = await getDriver();
+    await db.run(
+      `DELETE FROM MedicineLogs WHERE medicineId = ? AND status = 'pending' AND scheduledTime > ?`,
+      [medicineId, after]
+    );
+  },
+
+  deleteByMedicine: async (medicineId) => {
+    const db = await getDriver();
+    await db.run('DELETE FROM MedicineLogs WHERE medicineId = ?', [medicineId]);
+  },
+};
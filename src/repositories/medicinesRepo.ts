@@ -0,0 +1,176 @@
+import { getDriver } from '../database/driver';
+import { Medicine } from '../types';
+
+export type NewMedicine = Omit<Medicine, 'id' | 'createdAt' | 'status' | 'completedAt'>;
+
+export interface MedicinesRepo {
+  insert(medicine: NewMedicine): Promise<number>;
+  findById(medicineId: number): Promise<Medicine | null>;
+  listActiveByPatient(patientId: number): Promise<Medicine[]>;
+  listPastByPatient(patientId: number): Promise<Medicine[]>;
+  listLowStock(patientId: number, threshold: number): Promise<Medicine[]>;
+  listOutOfStock(patientId: number): Promise<Medicine[]>;
+  countActive(patientId: number): Promise<number>;
+  countLowStock(patientId: number, threshold: number): Promise<number>;
+  sumStock(patientId: number): Promise<number>;
+  updateStock(medicineId: number, stock: number): Promise<void>;
+  decrementStock(medicineId: number): Promise<number>;
+  updateGraceMinutes(medicineId: number, graceMinutes: number): Promise<void>;
+  updateEscalation(medicineId: number, remindMinutes: number | null, caregiverMinutes: number | null): Promise<void>;
+  updateCritical(medicineId: number, isCritical: number): Promise<void>;
+  updateEndDate(medicineId: number, endDate: string | null): Promise<void>;
+  archive(medicineId: number, archivedAt: string, today: string): Promise<void>;
+  completeEnded(patientId: number, completedAt: string, today: string): Promise<number>;
+  delete(medicineId: number): Promise<void>;
+}
+
+export const medicinesRepo: MedicinesRepo = {
+  insert: async (medicine) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `INSERT INTO Medicines (patientId, name, dosage, frequency, times, recurrence, stock, instructions, graceMinutes, startDate, endDate, status, isPrn, minIntervalMinutes, maxDailyDoses, escalateRemindMinutes, escalateCaregiverMinutes, isCritical)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'active', ?, ?, ?, ?, ?, ?)`,
+      [
+        medicine.patientId, medicine.name, medicine.dosage, medicine.frequency, medicine.times,
+        medicine.recurrence ?? null, medicine.stock, medicine.instructions || '',
+        medicine.graceMinutes, medicine.startDate ?? null, medicine.endDate ?? null,
+        medicine.isPrn, medicine.minIntervalMinutes ?? null, medicine.maxDailyDoses ?? null,
+        medicine.escalateRemindMinutes ?? null, medicine.escalateCaregiverMinutes ?? null,
+        medicine.isCritical,
+      ]
+    );
+    return result.lastInsertRowId;
+  },
+
+  findById: async (medicineId) => {
+    const db = await getDriver();
+    return await db.getFirst<Medicine>('SELECT * FROM Medicines WHERE id = ?', [medicineId]);
+  },
+
+  listActiveByPatient: async (patientId) => {
+    const db = await getDriver();
+    return await db.getAll<Medicine>(
+      `SELECT * FROM Medicines WHERE patientId = ? AND status = 'active' ORDER BY createdAt DESC`,
+      [patientId]
+    );
+  },
+
+  listPastByPatient: async (patientId) => {
+    const db = await getDriver();
+    return await db.getAll<Medicine>(
+      `SELECT * FROM Medicines WHERE patientId = ? AND status != 'active'
+       ORDER BY COALESCE(completedAt, createdAt) DESC`,
+      [patientId]
+    );
+  },
+
+  listLowStock: async (patientId, threshold) => {
+    const db = await getDriver();
+    return await db.getAll<Medicine>(
+      `SELECT * FROM Medicines WHERE patientId = ? AND status = 'active' AND stock <= ? ORDER BY stock ASC`,
+      [patientId, threshold]
+    );
+  },
+
+  listOutOfStock: async (patientId) => {
+    const db = await getDriver();
+    return await db.getAll<Medicine>(
+      `SELECT * FROM Medicines WHERE patientId = ? AND status = 'active' AND stock = 0 ORDER BY name ASC`,
+      [patientId]
+    );
+  },
+
+  countActive: async (patientId) => {
+    const db = await getDriver();
+    const result = await db.getFirst<{ count: number }>(
+      `SELECT COUNT(*) as count FROM Medicines WHERE patientId = ? AND status = 'active'`,
+      [patientId]
+    );
+    return result?.count || 0;
+  },
+
+  countLowStock: async (patientId, threshold) => {
+    const db = await getDriver();
+    const result = await db.getFirst<{ count: number }>(
+      `SELECT COUNT(*) as count FROM Medicines WHERE patientId = ? AND status = 'active' AND stock <= ?`,
+      [patientId, threshold]
+    );
+    return result?.count || 0;
+  },
+
+  sumStock: async (patientId) => {
+    const db = await getDriver();
+    const result = await db.getFirst<{ total: number }>(
+      `SELECT SUM(stock) as total FROM Medicines WHERE patientId = ? AND status = 'active'`,
+      [patientId]
+    );
+    return result?.total || 0;
+  },
+
+  updateStock: async (medicineId, stock) => {
+    const db = await getDriver();
+    await db.run('UPDATE Medicines SET stock = ? WHERE id = ?', [stock, medicineId]);
+  },
+
+  decrementStock: async (medicineId) => {
+    const db = await getDriver();
+    await db.run(
+      'UPDATE Medicines SET stock = CASE WHEN stock > 0 THEN stock - 1 ELSE 0 END WHERE id = ?',
+      [medicineId]
+    );
+    const medicine = await db.getFirst<{ stock: number }>(
+      'SELECT stock FROM Medicines WHERE id = ?',
+      [medicineId]
+    );
+    return medicine?.stock || 0;
+  },
+
+  updateGraceMinutes: async (medicineId, graceMinutes) => {
+    const db = await getDriver();
+    await db.run('UPDATE Medicines SET graceMinutes = ? WHERE id = ?', [graceMinutes, medicineId]);
+  },
+
+  updateEscalation: async (medicineId, remindMinutes, caregiverMinutes) => {
+    const db = await getDriver();
+    await db.run(
+      'UPDATE Medicines SET escalateRemindMinutes = ?, escalateCaregiverMinutes = ? WHERE id = ?',
+      [remindMinutes, caregiverMinutes, medicineId]
+    );
+  },
+
+  updateCritical: async (medicineId, isCritical) => {
+    const db = await getDriver();
+    await db.run('UPDATE Medicines SET isCritical = ? WHERE id = ?', [isCritical, medicineId]);
+  },
+
+  updateEndDate: async (medicineId, endDate) => {
+    const db = await getDriver();
+    await db.run('UPDATE Medicines SET endDate = ? WHERE id = ?', [endDate, medicineId]);
+  },
+
+  archive: async (medicineId, archivedAt, today) => {
+    const db = await getDriver();
+    await db.run(
+      `UPDATE Medicines
+       SET status = 'archived', completedAt = ?,
+           endDate = CASE WHEN endDate IS NULL OR endDate > ? THEN ? ELSE endDate END
+       WHERE id = ?`,
+      [archivedAt, today, today, medicineId]
+    );
+  },
+
+  completeEnded: async (patientId, completedAt, today) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `UPDATE Medicines SET status = 'completed', completedAt = ?
+       WHERE patientId = ? AND status = 'active' AND endDate IS NOT NULL AND endDate < ?`,
+      [completedAt, patientId, today]
+    );
+    return result.changes;
+  },
+
+  delete: async (medicineId) => {
+    const db = await getDriver();
+    await db.run('DELETE FROM Medicines WHERE id = ?', [medicineId]);
+  },
+};
@@ -0,0 +1,114 @@
+import { getDriver } from '../database/driver';
+import { CareTeamMember, Relationship, User } from '../types';
+
+export interface RelationshipsRepo {
+  linkCaregiver(patientId: number, caregiverId: number, relationshipType: string, permissions: string): Promise<number>;
+  linkDoctor(patientId: number, doctorId: number, relationshipType: string, permissions: string): Promise<number>;
+  listByPatient(patientId: number): Promise<Relationship[]>;
+  listLinks(patientId: number, userId: number): Promise<Relationship[]>;
+  listPatientsOfCaregiver(caregiverId: number): Promise<User[]>;
+  listPatientsOfDoctor(doctorId: number): Promise<User[]>;
+  listCaregiversOfPatient(patientId: number): Promise<User[]>;
+  listCareTeam(patientId: number): Promise<CareTeamMember[]>;
+  updatePermissions(relationshipId: number, patientId: number, permissions: string): Promise<boolean>;
+  delete(relationshipId: number, patientId: number): Promise<boolean>;
+}
+
+export const relationshipsRepo: RelationshipsRepo = {
+  linkCaregiver: async (patientId, caregiverId, relationshipType, permissions) => {
+    const db = await getDriver();
+    const result = await db.run(
+      'INSERT INTO Relationships (patientId, caregiverId, relationshipType, permissions) VALUES (?, ?, ?, ?)',
+      [patientId, caregiverId, relationshipType, permissions]
+    );
+    return result.lastInsertRowId;
+  },
+
+  linkDoctor: async (patientId, doctorId, relationshipType, permissions) => {
+    const db = await getDriver();
+    const result = await db.run(
+      'INSERT INTO Relationships (patientId, doctorId, relationshipType, permissions) VALUES (?, ?, ?, ?)',
+      [patientId, doctorId, relationshipType, permissions]
+    );
+    return result.lastInsertRowId;
+  },
+
+  listByPatient: async (patientId) => {
+    const db = await getDriver();
+    return await db.getAll<Relationship>(
+      'SELECT * FROM Relationships WHERE patientId = ?',
+      [patientId]
+    );
+  },
+
+  listLinks: async (patientId, userId) => {
+    const db = await getDriver();
+    return await db.getAll<Relationship>(
+      'SELECT * FROM Relationships WHERE patientId = ? AND (caregiverId = ? OR doctorId = ?)',
+      [patientId, userId, userId]
+    );
+  },
+
+  listPatientsOfCaregiver: async (caregiverId) => {
+    const db = await getDriver();
+    return await db.getAll<User>(
+      `SELECT u.* FROM Users u
+       INNER JOIN Relationships r ON u.id = r.patientId
+       WHERE r.caregiverId = ?
+       ORDER BY r.id`,
+      [caregiverId]
+    );
+  },
+
+  listPatientsOfDoctor: async (doctorId) => {
+    const db = await getDriver();
+    return await db.getAll<User>(
+      `SELECT u.* FROM Users u
+       INNER JOIN Relationships r ON u.id = r.patientId
+       WHERE r.doctorId = ?
+       ORDER BY r.id`,
+      [doctorId]
+    );
+  },
+
+  listCaregiversOfPatient: async (patientId) => {
+    const db = await getDriver();
+    return await db.getAll<User>(
+      `SELECT u.* FROM Users u
+       INNER JOIN Relationships r ON u.id = r.caregiverId
+       WHERE r.patientId = ?`,
+      [patientId]
+    );
+  },
+
+  listCareTeam: async (patientId) => {
+    const db = await getDriver();
+    return await db.getAll<CareTeamMember>(
+      `SELECT r.id as relationshipId, u.id as userId, u.name, u.role, r.relationshipType,
+              r.permissions, r.linkedAt
+       FROM Relationships r
+       INNER JOIN Users u ON u.id = COALESCE(r.caregiverId, r.doctorId)
+       WHERE r.patientId = ?
+       ORDER BY u.role ASC, r.linkedAt ASC`,
+      [patientId]
+    );
+  },
+
+  updatePermissions: async (relationshipId, patientId, permissions) => {
+    const db = await getDriver();
+    const result = await db.run(
+      'UPDATE Relationships SET permissions = ? WHERE id = ? AND patientId = ?',
+      [permissions, relationshipId, patientId]
+    );
+    return result.changes === 1;
+  },
+
+  delete: async (relationshipId, patientId) => {
+    const db = await getDriver();
+    const result = await db.run(
+      'DELETE FROM Relationships WHERE id = ? AND patientId = ?',
+      [relationshipId, patientId]
+    );
+    return result.changes === 1;
+  },
+};
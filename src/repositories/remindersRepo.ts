@@ -0,0 +1,63 @@
+import { getDriver } from '../database/driver';
+import { ScheduledReminder } from '../types';
+
+export type NewScheduledReminder = Omit<ScheduledReminder, 'id' | 'createdAt'>;
+
+export interface RemindersRepo {
+  upsert(reminder: NewScheduledReminder): Promise<void>;
+  listByPatient(patientId: number): Promise<ScheduledReminder[]>;
+  listByMedicine(medicineId: number): Promise<ScheduledReminder[]>;
+  listPatientIds(): Promise<number[]>;
+  delete(reminderId: number): Promise<void>;
+  deleteByMedicine(medicineId: number): Promise<void>;
+}
+
+export const remindersRepo: RemindersRepo = {
+  upsert: async (reminder) => {
+    const db = await getDriver();
+    await db.run(
+      `INSERT INTO ScheduledReminders (patientId, medicineId, slot, notificationId, signature)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (medicineId, slot) DO UPDATE SET
+         patientId = excluded.patientId,
+         notificationId = excluded.notificationId,
+         signature = excluded.signature,
+         createdAt = CURRENT_TIMESTAMP`,
+      [reminder.patientId, reminder.medicineId, reminder.slot, reminder.notificationId, reminder.signature]
+    );
+  },
+
+  listByPatient: async (patientId) => {
+    const db = await getDriver();
+    return await db.getAll<ScheduledReminder>(
+      'SELECT * FROM ScheduledReminders WHERE patientId = ? ORDER BY medicineId, slot',
+      [patientId]
+    );
+  },
+
+  listByMedicine: async (medicineId) => {
+    const db = await getDriver();
+    return await db.getAll<ScheduledReminder>(
+      'SELECT * FROM ScheduledReminders WHERE medicineId = ? ORDER BY slot',
+      [medicineId]
+    );
+  },
+
+  listPatientIds: async () => {
+    const db = await getDriver();
+    const rows = await db.getAll<{ patientId: number }>(
+      'SELECT DISTINCT patientId FROM ScheduledReminders ORDER BY patientId'
+    );
+    return rows.map(row => row.patientId);
+  },
+
+  delete: async (reminderId) => {
+    const db = await getDriver();
+    await db.run('DELETE FROM ScheduledReminders WHERE id = ?', [reminderId]);
+  },
+
+  deleteByMedicine: async (medicineId) => {
+    const db = await getDriver();
+    await db.run('DELETE FROM ScheduledReminders WHERE medicineId = ?', [medicineId]);
+  },
+};
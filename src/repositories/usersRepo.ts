@@ -0,0 +1,107 @@
+import { getDriver } from '../database/driver';
+import { AlertStyle, User, UserRole } from '../types';
+
+export type NewUser = Omit<User, 'id' | 'createdAt' | 'failedLoginAttempts' | 'lockedUntil'>;
+
+export interface UsersRepo {
+  insert(user: NewUser): Promise<number>;
+  findById(userId: number): Promise<User | null>;
+  findByCode(uniqueCode: string, role?: UserRole): Promise<User | null>;
+  findByLoginId(loginId: string): Promise<User | null>;
+  findByUsername(username: string): Promise<User | null>;
+  setPin(userId: number, pinHash: string, pinSalt: string): Promise<void>;
+  recordFailedLogin(userId: number, attempts: number, lockedUntil: string | null): Promise<void>;
+  setAppointmentReminders(userId: number, reminders: string): Promise<void>;
+  setNotificationPreferences(
+    userId: number,
+    quietHoursStart: string | null,
+    quietHoursEnd: string | null,
+    alertStyle: AlertStyle
+  ): Promise<void>;
+  setReminderGroupMinutes(userId: number, minutes: number): Promise<void>;
+  resetFailedLogins(userId: number): Promise<void>;
+}
+
+export const usersRepo: UsersRepo = {
+  insert: async (user) => {
+    const db = await getDriver();
+    const result = await db.run(
+      `INSERT INTO Users (name, age, username, role, uniqueCode, pinHash, pinSalt, relation, specialization)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        user.name, user.age ?? null, user.username ?? null, user.role, user.uniqueCode,
+        user.pinHash ?? null, user.pinSalt ?? null, user.relation ?? null, user.specialization ?? null,
+      ]
+    );
+    return result.lastInsertRowId;
+  },
+
+  findById: async (userId) => {
+    const db = await getDriver();
+    return await db.getFirst<User>('SELECT * FROM Users WHERE id = ?', [userId]);
+  },
+
+  findByCode: async (uniqueCode, role) => {
+    const db = await getDriver();
+    return await db.getFirst<User>(
+      'SELECT * FROM Users WHERE uniqueCode = ? AND (? IS NULL OR role = ?)',
+      [uniqueCode, role ?? null, role ?? null]
+    );
+  },
+
+  // A username wins over an account code that happens to read the same
+  findByLoginId: async (loginId) => {
+    const db = await getDriver();
+    return await db.getFirst<User>(
+      'SELECT * FROM Users WHERE username = ? OR uniqueCode = ? ORDER BY username = ? DESC LIMIT 1',
+      [loginId, loginId.toUpperCase(), loginId]
+    );
+  },
+
+  findByUsername: async (username) => {
+    const db = await getDriver();
+    return await db.getFirst<User>('SELECT * FROM Users WHERE username = ?', [username]);
+  },
+
+  setPin: async (userId, pinHash, pinSalt) => {
+    const db = await getDriver();
+    await db.run(
+      'UPDATE Users SET pinHash = ?, pinSalt = ?, failedLoginAttempts = 0, lockedUntil = NULL WHERE id = ?',
+      [pinHash, pinSalt, userId]
+    );
+  },
+
+  recordFailedLogin: async (userId, attempts, lockedUntil) => {
+    const db = await getDriver();
+    await db.run(
+      'UPDATE Users SET failedLoginAttempts = ?, lockedUntil = ? WHERE id = ?',
+      [attempts, lockedUntil, userId]
+    );
+  },
+
+  setAppointmentReminders: async (userId, reminders) => {
+    const db = await getDriver();
+    await db.run('UPDATE Users SET appointmentReminders = ? WHERE id = ?', [reminders, userId]);
+  },
+
+  setNotificationPreferences: async (userId, quietHoursStart, quietHoursEnd, alertStyle) => {
+    const db = await getDriver();
+    await db.run(
+      'UPDATE Users SET quietHoursStart = ?, quietHoursEnd = ?, alertStyle = ? WHERE id = ?',
+      [quietHoursStart, quietHoursEnd, alertStyle, userId]
+    );
+  },
+
+  setReminderGroupMinutes: async (userId, minutes) => {
+    const db = await getDriver();
+    await db.run('UPDATE Users SET reminderGroupMinutes = ? WHERE id = ?', [minutes, userId]);
+  },
+
+  resetFailedLogins: async (userId) => {
+    const db = await getDriver();
+    await db.run(
+      'UPDATE Users SET failedLoginAttempts = 0, lockedUntil = NULL WHERE id = ?',
+      [userId]
+    );
+  },
+};
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { colors, spacing, fontSize } from '../../utils/theme';
+import { AuthStackParamList } from '../../types';
+import { Input, Button, Card } from '../../components';
+import { vouchForPinSetup } from '../../services/authService';
+import { useAuth } from '../../context/AuthContext';
+
+type AuthorizePinSetupScreenProps = {
+  navigation: NativeStackNavigationProp<AuthStackParamList, 'AuthorizePinSetup'>;
+  route: RouteProp<AuthStackParamList, 'AuthorizePinSetup'>;
+};
+
+// Another account signs in to let an account without a PIN choose one
+export const AuthorizePinSetupScreen: React.FC<AuthorizePinSetupScreenProps> = ({ navigation, route }) => {
+  const { accountId, name } = route.params;
+  const { login } = useAuth();
+  const [loginId, setLoginId] = useState('');
+  const [pin, setPin] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<{ loginId?: string; pin?: string }>({});
+
+  const validateForm = (): boolean => {
+    const newErrors: { loginId?: string; pin?: string } = {};
+
+    if (!loginId.trim()) {
+      newErrors.loginId = 'Username is required';
+    }
+
+    if (!pin) {
+      newErrors.pin = 'PIN is required';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleAuthorize = async () => {
+    if (!validateForm()) return;
+
+    setLoading(true);
+    try {
+      const result = await vouchForPinSetup(accountId, loginId.trim(), pin);
+
+      if (result.success && result.user) {
+        // Opens the account; App asks for its new PIN before anything else
+        await login(result.user);
+      } else {
+        setPin('');
+        Alert.alert('Not Authorized', result.error || 'Invalid username or PIN.');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to authorize. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.header}>
+            <Text style={styles.title}>Set Up {name}'s PIN</Text>
+            <Text style={styles.subtitle}>
+              Someone linked to {name}, or with their own profile on this phone, signs in to let {name} choose a PIN
+            </Text>
+          </View>
+
+          <Card style={styles.formCard}>
+            <Input
+              label="Your Username or Account Code"
+              placeholder="Enter your username or account code"
+              value={loginId}
+              onChangeText={setLoginId}
+              error={errors.loginId}
+              autoCapitalize="none"
+            />
+
+            <Input
+              label="Your PIN"
+              placeholder="Enter your PIN"
+              value={pin}
+              onChangeText={setPin}
+              error={errors.pin}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+
+            <Button
+              title="Authorize"
+              onPress={handleAuthorize}
+              loading={loading}
+              style={styles.authorizeButton}
+            />
+          </Card>
+
+          <Button
+            title="Back"
+            onPress={() => navigation.goBack()}
+            variant="outline"
+            style={styles.backButton}
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+    justifyContent: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+  },
+  title: {
+    fontSize: fontSize.header,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  subtitle: {
+    fontSize: fontSize.md,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+    textAlign: 'center',
+  },
+  formCard: {
+    marginBottom: spacing.md,
+  },
+  authorizeButton: {
+    marginTop: spacing.md,
+  },
+  backButton: {
+    marginTop: spacing.md,
+  },
+});
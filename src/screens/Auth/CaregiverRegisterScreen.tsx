@@ -11,14 +11,17 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
 import { colors, spacing, fontSize, borderRadius } from '../../utils/theme';
 import { AuthStackParamList } from '../../types';
 import { Input, Button, Card } from '../../components';
-import { createCaregiver } from '../../services/authService';
+import { createCaregiver, validatePin } from '../../services/authService';
+import { INVITATION_CODE_LENGTH } from '../../services/invitationService';
 import { useAuth } from '../../context/AuthContext';
 
 type CaregiverRegisterScreenProps = {
   navigation: NativeStackNavigationProp<AuthStackParamList, 'CaregiverRegister'>;
+  route: RouteProp<AuthStackParamList, 'CaregiverRegister'>;
 };
 
 const relations = [
@@ -33,17 +36,19 @@ const relations = [
   'Other',
 ];
 
-export const CaregiverRegisterScreen: React.FC<CaregiverRegisterScreenProps> = ({ navigation }) => {
+export const CaregiverRegisterScreen: React.FC<CaregiverRegisterScreenProps> = ({ navigation, route }) => {
   const { login, setFirstLaunchComplete } = useAuth();
   const [name, setName] = useState('');
   const [relation, setRelation] = useState('');
-  const [patientCode, setPatientCode] = useState('');
+  const [patientCode, setPatientCode] = useState(route.params?.inviteCode ?? '');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
   const [loading, setLoading] = useState(false);
-  const [errors, setErrors] = useState<{ name?: string; relation?: string; patientCode?: string }>({});
+  const [errors, setErrors] = useState<{ name?: string; relation?: string; patientCode?: string; pin?: string; confirmPin?: string }>({});
   const [showRelationPicker, setShowRelationPicker] = useState(false);
 
   const validateForm = (): boolean => {
-    const newErrors: { name?: string; relation?: string; patientCode?: string } = {};
+    const newErrors: { name?: string; relation?: string; patientCode?: string; pin?: string; confirmPin?: string } = {};
 
     if (!name.trim()) {
       newErrors.name = 'Name is required';
@@ -54,9 +59,16 @@ export const CaregiverRegisterScreen: React.FC<CaregiverRegisterScreenProps> = (
     }
 
     if (!patientCode.trim()) {
-      newErrors.patientCode = 'Patient code is required';
-    } else if (!patientCode.startsWith('OM') || patientCode.length !== 8) {
-      newErrors.patientCode = 'Invalid patient code format';
+      newErrors.patientCode = 'Invitation code is required';
+    } else if (patientCode.trim().length !== INVITATION_CODE_LENGTH) {
+      newErrors.patientCode = 'Invalid invitation code format';
+    }
+
+    const pinError = validatePin(pin);
+    if (pinError) {
+      newErrors.pin = pinError;
+    } else if (pin !== confirmPin) {
+      newErrors.confirmPin = 'PINs do not match';
     }
 
     setErrors(newErrors);
@@ -68,9 +80,13 @@ export const CaregiverRegisterScreen: React.FC<CaregiverRegisterScreenProps> = (
 
     setLoading(true);
     try {
-      const result = await createCaregiver(name.trim(), relation, patientCode.trim().toUpperCase());
+      const result = await createCaregiver(name.trim(), relation, patientCode.trim().toUpperCase(), pin);
       
       if (result.success && result.user) {
+        Alert.alert(
+          'Registration Successful',
+          `Your account code is ${result.user.uniqueCode}. Sign in with it and your PIN.`
+        );
         await login(result.user);
         await setFirstLaunchComplete();
       } else {
@@ -143,14 +159,34 @@ export const CaregiverRegisterScreen: React.FC<CaregiverRegisterScreenProps> = (
             </View>
 
             <Input
-              label="Patient's Unique Code"
-              placeholder="Enter patient code (e.g., OM4F7K9Q)"
+              label="Invitation Code"
+              placeholder="Enter the code the patient sent you"
               value={patientCode}
               onChangeText={(text) => setPatientCode(text.toUpperCase())}
               error={errors.patientCode}
               autoCapitalize="characters"
             />
 
+            <Input
+              label="PIN"
+              placeholder="At least 4 digits or a passphrase"
+              value={pin}
+              onChangeText={setPin}
+              error={errors.pin}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+
+            <Input
+              label="Confirm PIN"
+              placeholder="Enter the PIN again"
+              value={confirmPin}
+              onChangeText={setConfirmPin}
+              error={errors.confirmPin}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+
             <Button
               title="Register"
               onPress={handleRegister}
@@ -11,14 +11,17 @@ import {
   TouchableOpacity,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
 import { colors, spacing, fontSize, borderRadius } from '../../utils/theme';
 import { AuthStackParamList } from '../../types';
 import { Input, Button, Card } from '../../components';
-import { createDoctor } from '../../services/authService';
+import { createDoctor, validatePin } from '../../services/authService';
+import { INVITATION_CODE_LENGTH } from '../../services/invitationService';
 import { useAuth } from '../../context/AuthContext';
 
 type DoctorRegisterScreenProps = {
   navigation: NativeStackNavigationProp<AuthStackParamList, 'DoctorRegister'>;
+  route: RouteProp<AuthStackParamList, 'DoctorRegister'>;
 };
 
 const specializations = [
@@ -37,17 +40,19 @@ const specializations = [
   'Other',
 ];
 
-export const DoctorRegisterScreen: React.FC<DoctorRegisterScreenProps> = ({ navigation }) => {
+export const DoctorRegisterScreen: React.FC<DoctorRegisterScreenProps> = ({ navigation, route }) => {
   const { login, setFirstLaunchComplete } = useAuth();
   const [name, setName] = useState('');
   const [specialization, setSpecialization] = useState('');
-  const [patientCode, setPatientCode] = useState('');
+  const [patientCode, setPatientCode] = useState(route.params?.inviteCode ?? '');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
   const [loading, setLoading] = useState(false);
-  const [errors, setErrors] = useState<{ name?: string; specialization?: string; patientCode?: string }>({});
+  const [errors, setErrors] = useState<{ name?: string; specialization?: string; patientCode?: string; pin?: string; confirmPin?: string }>({});
   const [showSpecializationPicker, setShowSpecializationPicker] = useState(false);
 
   const validateForm = (): boolean => {
-    const newErrors: { name?: string; specialization?: string; patientCode?: string } = {};
+    const newErrors: { name?: string; specialization?: string; patientCode?: string; pin?: string; confirmPin?: string } = {};
 
     if (!name.trim()) {
       newErrors.name = 'Name is required';
@@ -58,9 +63,16 @@ export const DoctorRegisterScreen: React.FC<DoctorRegisterScreenProps> = ({ navi
     }
 
     if (!patientCode.trim()) {
-      newErrors.patientCode = 'Patient code is required';
-    } else if (!patientCode.startsWith('OM') || patientCode.length !== 8) {
-      newErrors.patientCode = 'Invalid patient code format';
+      newErrors.patientCode = 'Invitation code is required';
+    } else if (patientCode.trim().length !== INVITATION_CODE_LENGTH) {
+      newErrors.patientCode = 'Invalid invitation code format';
+    }
+
+    const pinError = validatePin(pin);
+    if (pinError) {
+      newErrors.pin = pinError;
+    } else if (pin !== confirmPin) {
+      newErrors.confirmPin = 'PINs do not match';
     }
 
     setErrors(newErrors);
@@ -72,9 +84,13 @@ export const DoctorRegisterScreen: React.FC<DoctorRegisterScreenProps> = ({ navi
 
     setLoading(true);
     try {
-      const result = await createDoctor(name.trim(), specialization, patientCode.trim().toUpperCase());
+      const result = await createDoctor(name.trim(), specialization, patientCode.trim().toUpperCase(), pin);
       
       if (result.success && result.user) {
+        Alert.alert(
+          'Registration Successful',
+          `Your account code is ${result.user.uniqueCode}. Sign in with it and your PIN.`
+        );
         await login(result.user);
         await setFirstLaunchComplete();
       } else {
@@ -147,14 +163,34 @@ export const DoctorRegisterScreen: React.FC<DoctorRegisterScreenProps> = ({ navi
             </View>
 
             <Input
-              label="Patient's Unique Code"
-              placeholder="Enter patient code (e.g., OM4F7K9Q)"
+              label="Invitation Code"
+              placeholder="Enter the code the patient sent you"
               value={patientCode}
               onChangeText={(text) => setPatientCode(text.toUpperCase())}
               error={errors.patientCode}
               autoCapitalize="characters"
             />
 
+            <Input
+              label="PIN"
+              placeholder="At least 4 digits or a passphrase"
+              value={pin}
+              onChangeText={setPin}
+              error={errors.pin}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+
+            <Input
+              label="Confirm PIN"
+              placeholder="Enter the PIN again"
+              value={confirmPin}
+              onChangeText={setConfirmPin}
+              error={errors.confirmPin}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+
             <Button
               title="Register"
               onPress={handleRegister}
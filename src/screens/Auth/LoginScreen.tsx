@@ -23,19 +23,19 @@ type LoginScreenProps = {
 export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
   const { login } = useAuth();
   const [username, setUsername] = useState('');
-  const [uniqueCode, setUniqueCode] = useState('');
+  const [pin, setPin] = useState('');
   const [loading, setLoading] = useState(false);
-  const [errors, setErrors] = useState<{ username?: string; uniqueCode?: string }>({});
+  const [errors, setErrors] = useState<{ username?: string; pin?: string }>({});
 
   const validateForm = (): boolean => {
-    const newErrors: { username?: string; uniqueCode?: string } = {};
+    const newErrors: { username?: string; pin?: string } = {};
 
     if (!username.trim()) {
       newErrors.username = 'Username is required';
     }
 
-    if (!uniqueCode.trim()) {
-      newErrors.uniqueCode = 'Unique code is required';
+    if (!pin) {
+      newErrors.pin = 'PIN is required';
     }
 
     setErrors(newErrors);
@@ -47,12 +47,20 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
 
     setLoading(true);
     try {
-      const user = await loginUser(username.trim(), uniqueCode.trim().toUpperCase());
+      const result = await loginUser(username.trim(), pin);
       
-      if (user) {
-        await login(user);
+      if (result.success && result.user) {
+        await login(result.user);
+      } else if (result.needsPinSetup) {
+        const account = result.needsPinSetup;
+        setPin('');
+        Alert.alert('No PIN Yet', result.error, [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Set Up PIN', onPress: () => navigation.navigate('AuthorizePinSetup', { accountId: account.id, name: account.name }) },
+        ]);
       } else {
-        Alert.alert('Login Failed', 'Invalid username or unique code.');
+        setPin('');
+        Alert.alert('Login Failed', result.error || 'Invalid username or PIN.');
       }
     } catch (error) {
       Alert.alert('Error', 'Failed to login. Please try again.');
@@ -80,8 +88,8 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
 
           <Card style={styles.formCard}>
             <Input
-              label="Username or Unique Code"
-              placeholder="Enter username or unique code"
+              label="Username or Account Code"
+              placeholder="Enter username or account code"
               value={username}
               onChangeText={setUsername}
               error={errors.username}
@@ -89,12 +97,12 @@ export const LoginScreen: React.FC<LoginScreenProps> = ({ navigation }) => {
             />
 
             <Input
-              label="Unique Code"
-              placeholder="Enter your unique code"
-              value={uniqueCode}
-              onChangeText={(text) => setUniqueCode(text.toUpperCase())}
-              error={errors.uniqueCode}
-              autoCapitalize="characters"
+              label="PIN"
+              placeholder="Enter your PIN"
+              value={pin}
+              onChangeText={setPin}
+              error={errors.pin}
+              autoCapitalize="none"
               secureTextEntry
             />
 
@@ -13,7 +13,7 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { colors, spacing, fontSize } from '../../utils/theme';
 import { AuthStackParamList, User } from '../../types';
 import { Input, Button, Card } from '../../components';
-import { createPatient } from '../../services/authService';
+import { createPatient, validatePin } from '../../services/authService';
 import { useAuth } from '../../context/AuthContext';
 
 type PatientRegisterScreenProps = {
@@ -25,12 +25,14 @@ export const PatientRegisterScreen: React.FC<PatientRegisterScreenProps> = ({ na
   const [name, setName] = useState('');
   const [age, setAge] = useState('');
   const [username, setUsername] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
   const [loading, setLoading] = useState(false);
-  const [errors, setErrors] = useState<{ name?: string; age?: string; username?: string }>({});
+  const [errors, setErrors] = useState<{ name?: string; age?: string; username?: string; pin?: string; confirmPin?: string }>({});
   const [registeredUser, setRegisteredUser] = useState<{ user: User; uniqueCode: string } | null>(null);
 
   const validateForm = (): boolean => {
-    const newErrors: { name?: string; age?: string; username?: string } = {};
+    const newErrors: { name?: string; age?: string; username?: string; pin?: string; confirmPin?: string } = {};
 
     if (!name.trim()) {
       newErrors.name = 'Name is required';
@@ -51,6 +53,13 @@ export const PatientRegisterScreen: React.FC<PatientRegisterScreenProps> = ({ na
       newErrors.username = 'Username must be at least 3 characters';
     }
 
+    const pinError = validatePin(pin);
+    if (pinError) {
+      newErrors.pin = pinError;
+    } else if (pin !== confirmPin) {
+      newErrors.confirmPin = 'PINs do not match';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -60,10 +69,15 @@ export const PatientRegisterScreen: React.FC<PatientRegisterScreenProps> = ({ na
 
     setLoading(true);
     try {
-      const result = await createPatient(name.trim(), parseInt(age), username.trim());
-      setRegisteredUser(result);
-      await login(result.user);
-      await setFirstLaunchComplete();
+      const result = await createPatient(name.trim(), parseInt(age), username.trim(), pin);
+      
+      if (result.success && result.user && result.uniqueCode) {
+        setRegisteredUser({ user: result.user, uniqueCode: result.uniqueCode });
+        await login(result.user);
+        await setFirstLaunchComplete();
+      } else {
+        setErrors({ username: result.error || 'Failed to register.' });
+      }
     } catch (error) {
       Alert.alert('Error', 'Failed to register. Please try again.');
     } finally {
@@ -81,13 +95,14 @@ export const PatientRegisterScreen: React.FC<PatientRegisterScreenProps> = ({ na
             </View>
             <Text style={styles.successTitle}>Registration Successful!</Text>
             <Text style={styles.successSubtitle}>
-              Your unique patient code is:
+              Your account code is:
             </Text>
             <View style={styles.codeContainer}>
               <Text style={styles.uniqueCode}>{registeredUser.uniqueCode}</Text>
             </View>
             <Text style={styles.codeInstructions}>
-              Share this code with your caregiver or doctor to let them monitor your health.
+              Sign in with your username or this code and your PIN. To let a caregiver or doctor
+              monitor your health, send them an invitation from your profile.
             </Text>
             <Button
               title="Continue to App"
@@ -148,6 +163,26 @@ export const PatientRegisterScreen: React.FC<PatientRegisterScreenProps> = ({ na
               autoCapitalize="none"
             />
 
+            <Input
+              label="PIN"
+              placeholder="At least 4 digits or a passphrase"
+              value={pin}
+              onChangeText={setPin}
+              error={errors.pin}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+
+            <Input
+              label="Confirm PIN"
+              placeholder="Enter the PIN again"
+              value={confirmPin}
+              onChangeText={setConfirmPin}
+              error={errors.confirmPin}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+
             <Button
               title="Register"
               onPress={handleRegister}
@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { colors, spacing, fontSize } from '../../utils/theme';
+import { AuthStackParamList, User } from '../../types';
+import { Input, Button, Card } from '../../components';
+import { unlockProfile } from '../../services/authService';
+import { useAuth } from '../../context/AuthContext';
+
+type ProfilePickerScreenProps = {
+  navigation: NativeStackNavigationProp<AuthStackParamList, 'ProfilePicker'>;
+};
+
+const roleIcons: Record<User['role'], keyof typeof Ionicons.glyphMap> = {
+  patient: 'person',
+  caregiver: 'people',
+  doctor: 'medkit',
+};
+
+export const ProfilePickerScreen: React.FC<ProfilePickerScreenProps> = ({ navigation }) => {
+  const { profiles, pendingProfileId, login, forgetProfile } = useAuth();
+  const [selectedId, setSelectedId] = useState<number | null>(pendingProfileId);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | undefined>();
+  const [loading, setLoading] = useState(false);
+
+  // A notification for another profile was tapped while the picker is open
+  useEffect(() => {
+    if (pendingProfileId !== null) {
+      setSelectedId(pendingProfileId);
+      setPin('');
+      setError(undefined);
+    }
+  }, [pendingProfileId]);
+
+  const handleSelect = (profile: User) => {
+    setSelectedId(profile.id === selectedId ? null : profile.id);
+    setPin('');
+    setError(undefined);
+  };
+
+  const handleUnlock = async () => {
+    if (selectedId === null) return;
+
+    const selected = profiles.find(profile => profile.id === selectedId);
+    if (selected && !selected.pinHash) {
+      navigation.navigate('AuthorizePinSetup', { accountId: selected.id, name: selected.name });
+      return;
+    }
+
+    if (!pin) {
+      setError('PIN is required');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await unlockProfile(selectedId, pin);
+
+      if (result.success && result.user) {
+        await login(result.user);
+      } else if (result.needsPinSetup) {
+        setPin('');
+        setError(undefined);
+        navigation.navigate('AuthorizePinSetup', { accountId: result.needsPinSetup.id, name: result.needsPinSetup.name });
+      } else {
+        setPin('');
+        setError(result.error || 'Incorrect PIN.');
+      }
+    } catch (unlockError) {
+      Alert.alert('Error', 'Failed to switch profile. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleForget = (profile: User) => {
+    Alert.alert(
+      'Remove Profile',
+      `${profile.name} will no longer be listed on this device. Their data is kept and they can sign in again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            if (selectedId === profile.id) setSelectedId(null);
+            forgetProfile(profile.id);
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.header}>
+            <Text style={styles.title}>Who's Using OwnMediCare?</Text>
+            <Text style={styles.subtitle}>Choose your profile and enter your PIN</Text>
+          </View>
+
+          {profiles.map((profile) => (
+            <Card
+              key={profile.id}
+              style={selectedId === profile.id ? styles.profileCardSelected : styles.profileCard}
+              onPress={() => handleSelect(profile)}
+            >
+              <View style={styles.profileRow}>
+                <View style={styles.profileIcon}>
+                  <Ionicons name={roleIcons[profile.role]} size={24} color={colors.primary} />
+                </View>
+                <View style={styles.profileInfo}>
+                  <Text style={styles.profileName}>{profile.name}</Text>
+                  <Text style={styles.profileRole}>{profile.role}</Text>
+                </View>
+                <TouchableOpacity onPress={() => handleForget(profile)} style={styles.forgetButton}>
+                  <Ionicons name="close-circle-outline" size={22} color={colors.textLight} />
+                </TouchableOpacity>
+              </View>
+
+              {selectedId === profile.id && (
+                <View style={styles.pinForm}>
+                  <Input
+                    label="PIN"
+                    placeholder="Enter your PIN"
+                    value={pin}
+                    onChangeText={setPin}
+                    error={error}
+                    keyboardType="numeric"
+                    secureTextEntry
+                  />
+                  <Button title="Continue" onPress={handleUnlock} loading={loading} />
+                </View>
+              )}
+            </Card>
+          ))}
+
+          <Button
+            title="Sign In to Another Account"
+            onPress={() => navigation.navigate('Login')}
+            variant="outline"
+            style={styles.otherButton}
+          />
+          <Button
+            title="Create New Account"
+            onPress={() => navigation.navigate('RoleSelection')}
+            variant="outline"
+            style={styles.otherButton}
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+    justifyContent: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+  },
+  title: {
+    fontSize: fontSize.header,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: fontSize.md,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  profileCard: {
+    marginBottom: spacing.md,
+  },
+  profileCardSelected: {
+    marginBottom: spacing.md,
+    borderWidth: 2,
+    borderColor: colors.primary,
+  },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  profileIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: colors.primary + '20',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.md,
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  profileName: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  profileRole: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    textTransform: 'capitalize',
+  },
+  forgetButton: {
+    padding: spacing.sm,
+  },
+  pinForm: {
+    marginTop: spacing.md,
+  },
+  otherButton: {
+    marginTop: spacing.md,
+  },
+});
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { colors, spacing, fontSize } from '../../utils/theme';
+import { Input, Button, Card } from '../../components';
+import { setUserPin, validatePin } from '../../services/authService';
+import { useAuth } from '../../context/AuthContext';
+
+/**
+ * Shown instead of the app to signed-in users without a PIN: accounts that
+ * predate PINs, accounts restored from a backup on this device, and accounts
+ * opened by another account on AuthorizePinSetupScreen
+ */
+export const SetPinScreen: React.FC = () => {
+  const { user, login, logout } = useAuth();
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<{ pin?: string; confirmPin?: string }>({});
+
+  const validateForm = (): boolean => {
+    const newErrors: { pin?: string; confirmPin?: string } = {};
+
+    const pinError = validatePin(pin);
+    if (pinError) {
+      newErrors.pin = pinError;
+    } else if (pin !== confirmPin) {
+      newErrors.confirmPin = 'PINs do not match';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSave = async () => {
+    if (!user || !validateForm()) return;
+
+    setLoading(true);
+    try {
+      const result = await setUserPin(user.id, pin);
+
+      if (result.success && result.user) {
+        await login(result.user);
+      } else {
+        Alert.alert('Error', result.error || 'Failed to set PIN.');
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to set PIN. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.header}>
+            <Text style={styles.title}>Choose a PIN</Text>
+            <Text style={styles.subtitle}>
+              Signing in to this profile needs a PIN only you know.
+            </Text>
+          </View>
+
+          <Card style={styles.formCard}>
+            <Input
+              label="PIN"
+              placeholder="At least 4 digits or a passphrase"
+              value={pin}
+              onChangeText={setPin}
+              error={errors.pin}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+
+            <Input
+              label="Confirm PIN"
+              placeholder="Enter the PIN again"
+              value={confirmPin}
+              onChangeText={setConfirmPin}
+              error={errors.confirmPin}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+
+            <Button
+              title="Save PIN"
+              onPress={handleSave}
+              loading={loading}
+              style={styles.saveButton}
+            />
+          </Card>
+
+          <Button
+            title="Logout"
+            onPress={logout}
+            variant="outline"
+          />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: spacing.lg,
+    justifyContent: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: spacing.xl,
+  },
+  title: {
+    fontSize: fontSize.header,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  subtitle: {
+    fontSize: fontSize.md,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+    textAlign: 'center',
+  },
+  formCard: {
+    marginBottom: spacing.md,
+  },
+  saveButton: {
+    marginTop: spacing.md,
+  },
+});
@@ -3,3 +3,6 @@ export { PatientRegisterScreen } from './PatientRegisterScreen';
 export { CaregiverRegisterScreen } from './CaregiverRegisterScreen';
 export { DoctorRegisterScreen } from './DoctorRegisterScreen';
 export { LoginScreen } from './LoginScreen';
+export { SetPinScreen } from './SetPinScreen';
+export { ProfilePickerScreen } from './ProfilePickerScreen';
+export { AuthorizePinSetupScreen } from './AuthorizePinSetupScreen';
@@ -11,53 +11,67 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { useFocusEffect } from '@react-navigation/native';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
 import { LineChart } from 'react-native-chart-kit';
 import { colors, spacing, fontSize, borderRadius } from '../../utils/theme';
 import { CaregiverStackParamList, AdherenceStat, AdherenceDetails } from '../../types';
 import { Card } from '../../components';
 import { useAuth } from '../../context/AuthContext';
 import { getWeeklyAdherence, getMonthlyAdherence, calculateAdherenceDetails } from '../../services/medicineService';
-import { getLinkedPatient } from '../../services/authService';
+import { getUserById } from '../../services/authService';
+import { actorFor, PermissionDeniedError } from '../../services/permissionService';
 
 type CaregiverAdherenceScreenProps = {
   navigation: NativeStackNavigationProp<CaregiverStackParamList, 'CaregiverAdherence'>;
+  route: RouteProp<CaregiverStackParamList, 'CaregiverAdherence'>;
 };
 
 const screenWidth = Dimensions.get('window').width;
 
-export const CaregiverAdherenceScreen: React.FC<CaregiverAdherenceScreenProps> = ({ navigation }) => {
+export const CaregiverAdherenceScreen: React.FC<CaregiverAdherenceScreenProps> = ({ navigation, route }) => {
+  const { patientId } = route.params;
   const { user } = useAuth();
   const [patient, setPatient] = useState<any>(null);
   const [period, setPeriod] = useState<'weekly' | 'monthly'>('weekly');
   const [stats, setStats] = useState<AdherenceStat[]>([]);
   const [adherenceDetails, setAdherenceDetails] = useState<AdherenceDetails | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [accessError, setAccessError] = useState<string | null>(null);
 
   const loadData = async () => {
     if (!user) return;
 
     try {
-      const linkedPatient = await getLinkedPatient(user.id, user.role);
+      const linkedPatient = await getUserById(patientId);
       if (linkedPatient) {
         setPatient(linkedPatient);
+        const actor = actorFor(user);
         const [weekly, details] = await Promise.all([
-          period === 'weekly' ? getWeeklyAdherence(linkedPatient.id) : getMonthlyAdherence(linkedPatient.id),
-          calculateAdherenceDetails(linkedPatient.id),
+          period === 'weekly'
+            ? getWeeklyAdherence(linkedPatient.id, actor)
+            : getMonthlyAdherence(linkedPatient.id, actor),
+          calculateAdherenceDetails(linkedPatient.id, actor),
         ]);
         
         setStats(weekly);
         setAdherenceDetails(details);
+        setAccessError(null);
       }
     } catch (error) {
-      console.error('Error loading data:', error);
+      if (error instanceof PermissionDeniedError) {
+        setStats([]);
+        setAdherenceDetails(null);
+        setAccessError(error.message);
+      } else {
+        console.error('Error loading data:', error);
+      }
     }
   };
 
   useFocusEffect(
     useCallback(() => {
       loadData();
-    }, [user, period])
+    }, [user, patientId, period])
   );
 
   const onRefresh = async () => {
@@ -122,9 +136,9 @@ export const CaregiverAdherenceScreen: React.FC<CaregiverAdherenceScreenProps> =
         </View>
 
         <View style={styles.infoContainer}>
-          <Ionicons name="eye-outline" size={16} color={colors.textSecondary} />
+          <Ionicons name={accessError ? 'lock-closed-outline' : 'eye-outline'} size={16} color={colors.textSecondary} />
           <Text style={styles.infoText}>
-            View-only - Monitoring patient's medication adherence
+            {accessError ?? "View-only - Monitoring patient's medication adherence"}
           </Text>
         </View>
 
@@ -7,6 +7,7 @@ import {
   ScrollView,
   TouchableOpacity,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -14,12 +15,19 @@ import { useFocusEffect } from '@react-navigation/native';
 import { LineChart } from 'react-native-chart-kit';
 import { Dimensions } from 'react-native';
 import { colors, spacing, fontSize, borderRadius, shadows } from '../../utils/theme';
-import { CaregiverStackParamList, Medicine, AdherenceStat, User } from '../../types';
-import { Card, Button } from '../../components';
+import { CaregiverStackParamList, AdherenceStat } from '../../types';
+import { EscalatedDose } from '../../repositories';
+import { Card, Button, NotificationPreferencesCard } from '../../components';
 import { useAuth } from '../../context/AuthContext';
-import { getMedicinesByPatient, calculateAdherenceRate, getWeeklyAdherence } from '../../services/medicineService';
-import { getLinkedPatient } from '../../services/authService';
-import { getCaregiverAlerts, Alert } from '../../services/alertService';
+import { getWeeklyAdherence } from '../../services/medicineService';
+import { actorFor } from '../../services/permissionService';
+import { getCaregiverOverview, CaregiverOverview, PatientSummary } from '../../services/caregiverService';
+import { getUserById } from '../../services/authService';
+import {
+  getNotificationPreferences,
+  NotificationPreferences,
+  setNotificationPreferences,
+} from '../../services/notificationSettingsService';
 
 type CaregiverDashboardScreenProps = {
   navigation: NativeStackNavigationProp<CaregiverStackParamList, 'CaregiverDashboard'>;
@@ -28,38 +36,38 @@ type CaregiverDashboardScreenProps = {
 const screenWidth = Dimensions.get('window').width;
 
 export const CaregiverDashboardScreen: React.FC<CaregiverDashboardScreenProps> = ({ navigation }) => {
-  const { user } = useAuth();
-  const [patient, setPatient] = useState<User | null>(null);
-const [medicines, setMedicines] = useState<Medicine[]>([]);
-  const [adherenceRate, setAdherenceRate] = useState(100);
+  const { user, logout } = useAuth();
+  const [overview, setOverview] = useState<CaregiverOverview | null>(null);
+  // null shows the combined view across all patients
+  const [selectedId, setSelectedId] = useState<number | null>(null);
   const [weeklyStats, setWeeklyStats] = useState<AdherenceStat[]>([]);
   const [refreshing, setRefreshing] = useState(false);
-  const [alerts, setAlerts] = useState<Alert[]>([]);
-  const [missedCount, setMissedCount] = useState(0);
-  const [lowStockCount, setLowStockCount] = useState(0);
-  const [lowAdherence, setLowAdherence] = useState(false);
+  const [preferences, setPreferences] = useState<NotificationPreferences>({ alertStyle: 'sound' });
 
   const loadData = async () => {
     if (!user) return;
 
     try {
-      const linkedPatient = await getLinkedPatient(user.id, user.role);
-      if (linkedPatient) {
-        setPatient(linkedPatient);
-const [meds, rate, weekly, caregiverAlerts] = await Promise.all([
-          getMedicinesByPatient(linkedPatient.id),
-          calculateAdherenceRate(linkedPatient.id),
-          getWeeklyAdherence(linkedPatient.id),
-          getCaregiverAlerts(linkedPatient.id),
-        ]);
-        setMedicines(meds);
-        setAdherenceRate(rate);
-        setWeeklyStats(weekly);
-        setAlerts(caregiverAlerts.alerts);
-        setMissedCount(caregiverAlerts.missedCount);
-        setLowStockCount(caregiverAlerts.lowStockCount);
-        setLowAdherence(caregiverAlerts.lowAdherence);
+      const data = await getCaregiverOverview(user);
+      setOverview(data);
+
+      const profile = await getUserById(user.id);
+      setPreferences(getNotificationPreferences(profile ?? user));
+
+      let patientId = selectedId;
+      if (data.patients.length === 1) {
+        patientId = data.patients[0].patient.id;
+      } else if (!data.patients.some(s => s.patient.id === patientId)) {
+        patientId = null;
       }
+      setSelectedId(patientId);
+
+      const summary = data.patients.find(s => s.patient.id === patientId);
+      setWeeklyStats(
+        summary?.permissions.includes('view_adherence')
+          ? await getWeeklyAdherence(summary.patient.id, actorFor(user))
+          : []
+      );
     } catch (error) {
       console.error('Error loading data:', error);
     }
@@ -68,18 +76,45 @@ const [meds, rate, weekly, caregiverAlerts] = await Promise.all([
   useFocusEffect(
     useCallback(() => {
       loadData();
-    }, [user])
+    }, [user, selectedId])
   );
 
+  const selected = overview?.patients.find(s => s.patient.id === selectedId) ?? null;
+  const patient = selected?.patient ?? null;
+  const adherenceRate = selected?.adherenceRate ?? 100;
+  const alerts = selected?.alerts.alerts ?? [];
+  const missedCount = selected?.alerts.missedCount ?? 0;
+  const lowStockCount = selected?.alerts.lowStockCount ?? 0;
+  const lowAdherence = selected?.alerts.lowAdherence ?? false;
+  const escalations = selected?.escalations ?? [];
+
+  const handlePreferencesChange = async (next: NotificationPreferences) => {
+    if (!user) return;
+
+    const previous = preferences;
+    setPreferences(next);
+    try {
+      const result = await setNotificationPreferences(user, next);
+      if (!result.success) {
+        setPreferences(previous);
+        Alert.alert('Could Not Save', result.error || 'Failed to save your notification settings.');
+      }
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      setPreferences(previous);
+      Alert.alert('Error', 'Failed to save your notification settings.');
+    }
+  };
+
   const onRefresh = async () => {
     setRefreshing(true);
     await loadData();
     setRefreshing(false);
   };
 
-  const getAdherenceColor = () => {
-    if (adherenceRate >= 80) return colors.success;
-    if (adherenceRate >= 60) return colors.warning;
+  const getAdherenceColor = (rate: number = adherenceRate) => {
+    if (rate >= 80) return colors.success;
+    if (rate >= 60) return colors.warning;
     return colors.error;
   };
 
@@ -96,20 +131,71 @@ const [meds, rate, weekly, caregiverAlerts] = await Promise.all([
     ],
   };
 
-  if (!patient) {
+  if (overview && overview.patients.length === 0) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.noPatientContainer}>
           <Ionicons name="person-add" size={64} color={colors.textLight} />
           <Text style={styles.noPatientTitle}>No Patient Linked</Text>
           <Text style={styles.noPatientText}>
-            Ask the patient to share their unique code to monitor their medication adherence.
+            Ask the patient for an invitation code to monitor their medication adherence.
           </Text>
+          <Button
+            title="Link a Patient"
+            onPress={() => navigation.navigate('LinkPatient')}
+            style={styles.linkButton}
+          />
         </View>
       </SafeAreaView>
     );
   }
 
+  const formatEscalation = (dose: EscalatedDose) => {
+    const due = new Date(dose.scheduledTime);
+    const time = `${due.getHours().toString().padStart(2, '0')}:${due.getMinutes().toString().padStart(2, '0')}`;
+    const outcome = dose.status === 'pending' ? 'still not taken' : dose.status === 'taken' ? 'taken late' : dose.status;
+    return `${dose.medicineName} due at ${time}, ${outcome}`;
+  };
+
+  const renderPatientSummary = (summary: PatientSummary) => (
+    <Card
+      key={summary.patient.id}
+      style={styles.patientCard}
+      onPress={() => setSelectedId(summary.patient.id)}
+    >
+      <View style={styles.summaryHeader}>
+        <View style={styles.patientInfo}>
+          <View style={styles.patientAvatar}>
+            <Ionicons name="person" size={24} color={colors.primary} />
+          </View>
+          <View>
+            <Text style={styles.patientName}>{summary.patient.name}</Text>
+            <Text style={styles.patientRelation}>
+              {summary.pendingToday === null
+                ? 'Medicines not shared'
+                : `${summary.pendingToday} due · ${summary.missedToday} missed today`}
+            </Text>
+          </View>
+        </View>
+        {summary.adherenceRate !== null ? (
+          <View style={[styles.adherenceBadge, { backgroundColor: getAdherenceColor(summary.adherenceRate) }]}>
+            <Text style={styles.summaryRate}>{summary.adherenceRate}%</Text>
+          </View>
+        ) : (
+          <Ionicons name="lock-closed" size={20} color={colors.textLight} />
+        )}
+      </View>
+      {summary.alerts.alerts.length > 0 && (
+        <View style={[styles.alertItem, styles.warningAlertItem, styles.summaryAlert]}>
+          <Ionicons name="alert-circle" size={18} color={colors.warning} />
+          <Text style={[styles.alertText, styles.warningAlertText]}>
+            {summary.alerts.alerts.length} alert(s) need attention
+          </Text>
+        </View>
+      )}
+    </Card>
+  );
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView
@@ -123,127 +209,234 @@ const [meds, rate, weekly, caregiverAlerts] = await Promise.all([
             <Text style={styles.greeting}>Welcome</Text>
             <Text style={styles.caregiverName}>{user?.name}</Text>
           </View>
-          <TouchableOpacity>
-            <Ionicons name="notifications" size={24} color={colors.textPrimary} />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity onPress={() => navigation.navigate('LinkPatient')}>
+              <Ionicons name="person-add" size={24} color={colors.textPrimary} />
+            </TouchableOpacity>
+            <TouchableOpacity>
+              <Ionicons name="notifications" size={24} color={colors.textPrimary} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => navigation.navigate('NotificationSettings')}>
+              <Ionicons name="settings-outline" size={24} color={colors.textPrimary} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={logout}>
+              <Ionicons name="swap-horizontal" size={24} color={colors.textPrimary} />
+            </TouchableOpacity>
+          </View>
         </View>
 
-        <Card style={styles.patientCard}>
-          <View style={styles.patientInfo}>
-            <View style={styles.patientAvatar}>
-              <Ionicons name="person" size={24} color={colors.primary} />
-            </View>
-            <View>
-              <Text style={styles.patientName}>{patient.name}</Text>
-              <Text style={styles.patientRelation}>{user?.relation}</Text>
-            </View>
-          </View>
-        </Card>
+        {overview && overview.patients.length > 1 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.switcher}
+          >
+            <TouchableOpacity
+              style={[styles.switcherChip, selectedId === null && styles.switcherChipActive]}
+              onPress={() => setSelectedId(null)}
+            >
+              <Text style={[styles.switcherText, selectedId === null && styles.switcherTextActive]}>
+                All Patients
+              </Text>
+            </TouchableOpacity>
+            {overview.patients.map(({ patient: p }) => (
+              <TouchableOpacity
+                key={p.id}
+                style={[styles.switcherChip, selectedId === p.id && styles.switcherChipActive]}
+                onPress={() => setSelectedId(p.id)}
+              >
+                <Text style={[styles.switcherText, selectedId === p.id && styles.switcherTextActive]}>
+                  {p.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
 
-        <Card style={styles.adherenceCard}>
-          <View style={styles.adherenceHeader}>
-            <Text style={styles.adherenceTitle}>Today's Adherence</Text>
-            <View style={[styles.adherenceBadge, { backgroundColor: getAdherenceColor() }]}>
-              <Text style={styles.adherenceRate}>{adherenceRate}%</Text>
-            </View>
-          </View>
-          <Text style={styles.adherenceSubtitle}>
-            {adherenceRate >= 80 ? 'Patient is doing great!' : 'Check on the patient'}
-          </Text>
-        </Card>
+        {overview && !patient && (
+          <>
+            <Card style={styles.adherenceCard}>
+              <Text style={styles.adherenceTitle}>Today Across All Patients</Text>
+              <View style={styles.totalsRow}>
+                <View style={styles.totalItem}>
+                  <Text style={styles.totalValue}>{overview.pendingToday}</Text>
+                  <Text style={styles.totalLabel}>Doses Due</Text>
+                </View>
+                <View style={styles.totalItem}>
+                  <Text style={[styles.totalValue, { color: colors.error }]}>{overview.missedToday}</Text>
+                  <Text style={styles.totalLabel}>Missed</Text>
+                </View>
+                <View style={styles.totalItem}>
+                  <Text style={[styles.totalValue, { color: colors.warning }]}>{overview.alertCount}</Text>
+                  <Text style={styles.totalLabel}>Alerts</Text>
+                </View>
+              </View>
+              <Text style={styles.adherenceSubtitle}>
+                {overview.needsAttention > 0
+                  ? `${overview.needsAttention} patient(s) need attention`
+                  : 'Everyone is on track'}
+              </Text>
+            </Card>
 
-        <Card style={styles.chartCard}>
-          <Text style={styles.chartTitle}>Weekly Adherence</Text>
-          <LineChart
-            data={chartData}
-            width={screenWidth - 64}
-            height={180}
-            chartConfig={{
-              backgroundColor: colors.white,
-              backgroundGradientFrom: colors.white,
-              backgroundGradientTo: colors.white,
-              decimalPlaces: 0,
-              color: (opacity = 1) => `rgba(46, 125, 50, ${opacity})`,
-              labelColor: () => colors.textSecondary,
-              style: { borderRadius: 16 },
-              propsForDots: {
-                r: '4',
-                strokeWidth: '2',
-                stroke: colors.primary,
-              },
-            }}
-            bezier
-            style={styles.chart}
-          />
-        </Card>
+            {overview.patients.map(renderPatientSummary)}
+          </>
+        )}
 
-        <View style={styles.quickActions}>
-          <Button
-            title="Medicines"
-            onPress={() => navigation.navigate('PatientMedicines', { patientId: patient.id })}
-            style={styles.actionButton}
-          />
-          <Button
-            title="Adherence"
-            onPress={() => navigation.navigate('CaregiverAdherence', { patientId: patient.id })}
-            variant="secondary"
-            style={styles.actionButton}
-          />
-        </View>
+        {patient && (
+          <>
+            <Card style={styles.patientCard}>
+              <View style={styles.patientInfo}>
+                <View style={styles.patientAvatar}>
+                  <Ionicons name="person" size={24} color={colors.primary} />
+                </View>
+                <View>
+                  <Text style={styles.patientName}>{patient.name}</Text>
+                  <Text style={styles.patientRelation}>{user?.relation}</Text>
+                </View>
+              </View>
+            </Card>
 
-<Card style={styles.alertsCard}>
-          <Text style={styles.alertsTitle}>Alerts</Text>
-          
-          {/* Low Adherence Alert */}
-          {lowAdherence ? (
-            <View style={[styles.alertItem, styles.criticalAlertItem]}>
-              <Ionicons name="warning" size={20} color={colors.error} />
-              <Text style={[styles.alertText, styles.criticalAlertText]}>
-                Low adherence: {adherenceRate}% (below 60%)
-              </Text>
-            </View>
-          ) : (
-            <View style={styles.alertItem}>
-              <Ionicons name="checkmark-circle" size={20} color={colors.success} />
-              <Text style={styles.alertText}>Adherence is good</Text>
-            </View>
-          )}
-          
-          {/* Missed 3 Times Alert */}
-          {missedCount > 0 ? (
-            <View style={[styles.alertItem, styles.criticalAlertItem]}>
-              <Ionicons name="alert-circle" size={20} color={colors.error} />
-              <Text style={[styles.alertText, styles.criticalAlertText]}>
-                {missedCount} medicine(s) missed 3+ times
-              </Text>
-            </View>
-          ) : null}
-          
-          {/* Low Stock Alert */}
-          {lowStockCount > 0 ? (
-            <View style={[styles.alertItem, styles.warningAlertItem]}>
-              <Ionicons name="warning" size={20} color={colors.warning} />
-              <Text style={[styles.alertText, styles.warningAlertText]}>
-                {lowStockCount} medicine(s) with low stock
-              </Text>
-            </View>
-          ) : (
-            <View style={styles.alertItem}>
-              <Ionicons name="checkmark-circle" size={20} color={colors.success} />
-              <Text style={styles.alertText}>All medicines are well stocked</Text>
-            </View>
-          )}
-          
-{/* Show count of total alerts */}
-          {alerts.length > 0 && (
-            <View style={styles.viewAllButton}>
-              <Ionicons name="alert-circle" size={20} color={colors.error} />
-              <Text style={styles.viewAllText}>
-                Total: {alerts.length} alert(s) need attention
+            <Card style={styles.adherenceCard}>
+              <View style={styles.adherenceHeader}>
+                <Text style={styles.adherenceTitle}>Today's Adherence</Text>
+                <View style={[styles.adherenceBadge, { backgroundColor: getAdherenceColor() }]}>
+                  <Text style={styles.adherenceRate}>{adherenceRate}%</Text>
+                </View>
+              </View>
+              <Text style={styles.adherenceSubtitle}>
+                {adherenceRate >= 80 ? 'Patient is doing great!' : 'Check on the patient'}
               </Text>
+            </Card>
+
+            <Card style={styles.chartCard}>
+              <Text style={styles.chartTitle}>Weekly Adherence</Text>
+              <LineChart
+                data={chartData}
+                width={screenWidth - 64}
+                height={180}
+                chartConfig={{
+                  backgroundColor: colors.white,
+                  backgroundGradientFrom: colors.white,
+                  backgroundGradientTo: colors.white,
+                  decimalPlaces: 0,
+                  color: (opacity = 1) => `rgba(46, 125, 50, ${opacity})`,
+                  labelColor: () => colors.textSecondary,
+                  style: { borderRadius: 16 },
+                  propsForDots: {
+                    r: '4',
+                    strokeWidth: '2',
+                    stroke: colors.primary,
+                  },
+                }}
+                bezier
+                style={styles.chart}
+              />
+            </Card>
+
+            <View style={styles.quickActions}>
+              <Button
+                title="Medicines"
+                onPress={() => navigation.navigate('PatientMedicines', { patientId: patient.id })}
+                style={styles.actionButton}
+              />
+              <Button
+                title="Adherence"
+                onPress={() => navigation.navigate('CaregiverAdherence', { patientId: patient.id })}
+                variant="secondary"
+                style={styles.actionButton}
+              />
             </View>
-          )}
-        </Card>
+
+            {escalations.length > 0 && (
+              <Card style={styles.alertsCard}>
+                <Text style={styles.alertsTitle}>Doses Not Taken in Time</Text>
+                {escalations.map(dose => (
+                  <View
+                    key={dose.id}
+                    style={[
+                      styles.alertItem,
+                      dose.status === 'taken' ? styles.warningAlertItem : styles.criticalAlertItem,
+                    ]}
+                  >
+                    <Ionicons
+                      name={dose.status === 'taken' ? 'time' : 'alert-circle'}
+                      size={20}
+                      color={dose.status === 'taken' ? colors.warning : colors.error}
+                    />
+                    <Text
+                      style={[
+                        styles.alertText,
+                        dose.status === 'taken' ? styles.warningAlertText : styles.criticalAlertText,
+                      ]}
+                    >
+                      {formatEscalation(dose)}
+                    </Text>
+                  </View>
+                ))}
+              </Card>
+            )}
+
+            <Card style={styles.alertsCard}>
+              <Text style={styles.alertsTitle}>Alerts</Text>
+              
+              {/* Low Adherence Alert */}
+              {lowAdherence ? (
+                <View style={[styles.alertItem, styles.criticalAlertItem]}>
+                  <Ionicons name="warning" size={20} color={colors.error} />
+                  <Text style={[styles.alertText, styles.criticalAlertText]}>
+                    Low adherence: {adherenceRate}% (below 60%)
+                  </Text>
+                </View>
+              ) : (
+                <View style={styles.alertItem}>
+                  <Ionicons name="checkmark-circle" size={20} color={colors.success} />
+                  <Text style={styles.alertText}>Adherence is good</Text>
+                </View>
+              )}
+              
+              {/* Missed 3 Times Alert */}
+              {missedCount > 0 ? (
+                <View style={[styles.alertItem, styles.criticalAlertItem]}>
+                  <Ionicons name="alert-circle" size={20} color={colors.error} />
+                  <Text style={[styles.alertText, styles.criticalAlertText]}>
+                    {missedCount} medicine(s) missed 3+ times
+                  </Text>
+                </View>
+              ) : null}
+              
+              {/* Low Stock Alert */}
+              {lowStockCount > 0 ? (
+                <View style={[styles.alertItem, styles.warningAlertItem]}>
+                  <Ionicons name="warning" size={20} color={colors.warning} />
+                  <Text style={[styles.alertText, styles.warningAlertText]}>
+                    {lowStockCount} medicine(s) with low stock
+                  </Text>
+                </View>
+              ) : (
+                <View style={styles.alertItem}>
+                  <Ionicons name="checkmark-circle" size={20} color={colors.success} />
+                  <Text style={styles.alertText}>All medicines are well stocked</Text>
+                </View>
+              )}
+              
+              {/* Show count of total alerts */}
+              {alerts.length > 0 && (
+                <View style={styles.viewAllButton}>
+                  <Ionicons name="alert-circle" size={20} color={colors.error} />
+                  <Text style={styles.viewAllText}>
+                    Total: {alerts.length} alert(s) need attention
+                  </Text>
+                </View>
+              )}
+            </Card>
+          </>
+        )}
+
+        <NotificationPreferencesCard
+          preferences={preferences}
+          onChange={handlePreferencesChange}
+          style={styles.alertsCard}
+        />
 
         <View style={styles.bottomPadding} />
       </ScrollView>
@@ -271,10 +464,71 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: colors.textPrimary,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  switcher: {
+    paddingHorizontal: spacing.lg,
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  switcherChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.round,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  switcherChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  switcherText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+  switcherTextActive: {
+    color: colors.white,
+    fontWeight: '600',
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginTop: spacing.md,
+  },
+  totalItem: {
+    alignItems: 'center',
+  },
+  totalValue: {
+    fontSize: fontSize.xxl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  totalLabel: {
+    fontSize: fontSize.xs,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
   patientCard: {
     marginHorizontal: spacing.lg,
     marginBottom: spacing.md,
   },
+  summaryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  summaryRate: {
+    fontSize: fontSize.md,
+    fontWeight: 'bold',
+    color: colors.white,
+  },
+  summaryAlert: {
+    marginTop: spacing.sm,
+    marginBottom: 0,
+  },
   patientInfo: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -315,6 +569,10 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: spacing.sm,
   },
+  linkButton: {
+    marginTop: spacing.lg,
+    alignSelf: 'stretch',
+  },
   adherenceCard: {
     marginHorizontal: spacing.lg,
     marginBottom: spacing.md,
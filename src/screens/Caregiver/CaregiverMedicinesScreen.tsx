@@ -7,36 +7,50 @@ import {
   FlatList,
   TouchableOpacity,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { useFocusEffect } from '@react-navigation/native';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
 import { colors, spacing, fontSize, borderRadius } from '../../utils/theme';
-import { CaregiverStackParamList, Medicine } from '../../types';
+import { CaregiverStackParamList, Medicine, PermissionScope } from '../../types';
 import { Card, MedicineCard } from '../../components';
 import { useAuth } from '../../context/AuthContext';
-import { getMedicinesByPatient } from '../../services/medicineService';
-import { getLinkedPatient } from '../../services/authService';
+import {
+  getMedicinesByPatient,
+  getTodayLogsByPatient,
+  markMedicineTaken,
+  updateMedicineStock,
+} from '../../services/medicineService';
+import { getUserById } from '../../services/authService';
+import { actorFor, getPermissions, PermissionDeniedError } from '../../services/permissionService';
 
 type CaregiverMedicinesScreenProps = {
   navigation: NativeStackNavigationProp<CaregiverStackParamList, 'PatientMedicines'>;
+  route: RouteProp<CaregiverStackParamList, 'PatientMedicines'>;
 };
 
-export const CaregiverMedicinesScreen: React.FC<CaregiverMedicinesScreenProps> = ({ navigation }) => {
+export const CaregiverMedicinesScreen: React.FC<CaregiverMedicinesScreenProps> = ({ navigation, route }) => {
+  const { patientId } = route.params;
   const { user } = useAuth();
   const [patient, setPatient] = useState<any>(null);
   const [medicines, setMedicines] = useState<Medicine[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [filter, setFilter] = useState<'all' | 'low_stock'>('all');
+  const [permissions, setPermissions] = useState<PermissionScope[]>([]);
 
   const loadData = async () => {
     if (!user) return;
 
     try {
-      const linkedPatient = await getLinkedPatient(user.id, user.role);
+      const linkedPatient = await getUserById(patientId);
       if (linkedPatient) {
         setPatient(linkedPatient);
-        const meds = await getMedicinesByPatient(linkedPatient.id);
+        const scopes = await getPermissions(user.id, linkedPatient.id);
+        setPermissions(scopes);
+        const meds = scopes.includes('view_medicines')
+          ? await getMedicinesByPatient(linkedPatient.id, actorFor(user))
+          : [];
         setMedicines(meds);
       }
     } catch (error) {
@@ -47,7 +61,7 @@ export const CaregiverMedicinesScreen: React.FC<CaregiverMedicinesScreenProps> =
   useFocusEffect(
     useCallback(() => {
       loadData();
-    }, [user])
+    }, [user, patientId])
   );
 
   const onRefresh = async () => {
@@ -63,19 +77,84 @@ export const CaregiverMedicinesScreen: React.FC<CaregiverMedicinesScreenProps> =
     return true;
   });
 
+  const canLogDoses = permissions.includes('log_doses');
+  const canEditStock = permissions.includes('edit_stock');
+
+  const handleError = (error: unknown, fallback: string) => {
+    if (error instanceof PermissionDeniedError) {
+      Alert.alert('No Access', error.message);
+    } else {
+      console.error(fallback, error);
+      Alert.alert('Error', fallback);
+    }
+  };
+
+  const handleTakeMedicine = async (medicine: Medicine) => {
+    if (!user) return;
+
+    try {
+      const logs = await getTodayLogsByPatient(medicine.patientId, actorFor(user));
+      const nextDose = logs.find(l => l.medicineId === medicine.id && l.status === 'pending');
+      if (!nextDose) {
+        Alert.alert('Nothing Due', `No pending ${medicine.name} doses left today.`);
+        return;
+      }
+
+      await markMedicineTaken(nextDose.id, actorFor(user), 'Logged by caregiver');
+      await loadData();
+    } catch (error) {
+      handleError(error, 'Failed to log dose');
+    }
+  };
+
+  const adjustStock = async (medicine: Medicine, change: number) => {
+    if (!user) return;
+
+    try {
+      await updateMedicineStock(medicine.id, Math.max(medicine.stock + change, 0), actorFor(user));
+      await loadData();
+    } catch (error) {
+      handleError(error, 'Failed to update stock');
+    }
+  };
+
+  const handleEditStock = (medicine: Medicine) => {
+    Alert.alert(
+      'Adjust Stock',
+      `${medicine.name}: ${medicine.stock} doses left`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove 1', onPress: () => adjustStock(medicine, -1) },
+        { text: 'Add 10', onPress: () => adjustStock(medicine, 10) },
+      ]
+    );
+  };
+
   const renderMedicineItem = ({ item }: { item: Medicine }) => (
     <MedicineCard
       medicine={item}
-      onPress={() => {}}
+      onPress={() => canEditStock && handleEditStock(item)}
+      onTakeMedicine={canLogDoses ? () => handleTakeMedicine(item) : undefined}
     />
   );
 
+  const getAccessText = () => {
+    if (canLogDoses && canEditStock) return 'You can log doses and adjust stock';
+    if (canLogDoses) return 'You can log doses for the patient';
+    if (canEditStock) return 'Tap a medicine to adjust its stock';
+    return 'View-only - You cannot edit medicines';
+  };
+
   const renderEmptyList = () => (
     <Card style={styles.emptyCard}>
       <Ionicons name="medical-outline" size={64} color={colors.textLight} />
-      <Text style={styles.emptyTitle}>No Medicines</Text>
+      <Text style={styles.emptyTitle}>
+        {patient && !permissions.includes('view_medicines') ? 'No Access' : 'No Medicines'}
+      </Text>
       <Text style={styles.emptySubtitle}>
-        The patient hasn't added any medicines yet
+        {patient && !permissions.includes('view_medicines')
+          ? "The patient hasn't shared their medicines with you"
+          : "The patient hasn't added any medicines yet"}
       </Text>
     </Card>
   );
@@ -93,10 +172,12 @@ export const CaregiverMedicinesScreen: React.FC<CaregiverMedicinesScreenProps> =
       </View>
 
       <View style={styles.infoContainer}>
-        <Ionicons name="eye-outline" size={16} color={colors.textSecondary} />
-        <Text style={styles.infoText}>
-          View-only - You cannot edit medicines
-        </Text>
+        <Ionicons
+          name={canLogDoses || canEditStock ? 'create-outline' : 'eye-outline'}
+          size={16}
+          color={colors.textSecondary}
+        />
+        <Text style={styles.infoText}>{getAccessText()}</Text>
       </View>
 
       <View style={styles.filterContainer}>
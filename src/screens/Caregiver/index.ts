@@ -1,3 +1,4 @@
 export { CaregiverDashboardScreen } from './CaregiverDashboardScreen';
 export { CaregiverMedicinesScreen } from './CaregiverMedicinesScreen';
 export { CaregiverAdherenceScreen } from './CaregiverAdherenceScreen';
+export { LinkPatientScreen } from './LinkPatientScreen';
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { colors, spacing, fontSize } from '../../utils/theme';
+import { DoctorStackParamList } from '../../types';
+import { Card, Input, Button } from '../../components';
+import { useAuth } from '../../context/AuthContext';
+import { linkPatientByInvitation } from '../../services/authService';
+import { INVITATION_CODE_LENGTH } from '../../services/invitationService';
+
+type AddPatientScreenProps = {
+  navigation: NativeStackNavigationProp<DoctorStackParamList, 'AddPatient'>;
+  route: RouteProp<DoctorStackParamList, 'AddPatient'>;
+};
+
+export const AddPatientScreen: React.FC<AddPatientScreenProps> = ({ navigation, route }) => {
+  const { user } = useAuth();
+  const [inviteCode, setInviteCode] = useState(route.params?.inviteCode ?? '');
+  const [error, setError] = useState<string | undefined>();
+  const [loading, setLoading] = useState(false);
+
+  const handleAdd = async () => {
+    if (!user) return;
+
+    const code = inviteCode.trim().toUpperCase();
+    if (code.length !== INVITATION_CODE_LENGTH) {
+      setError('Invalid invitation code format');
+      return;
+    }
+    setError(undefined);
+
+    setLoading(true);
+    try {
+      const result = await linkPatientByInvitation(user, code);
+
+      if (result.success) {
+        Alert.alert(
+          'Patient Added',
+          `${result.patient?.name ?? 'The patient'} is now on your panel.`,
+          [{ text: 'OK', onPress: () => navigation.navigate('DoctorDashboard') }]
+        );
+      } else {
+        setError(result.error || 'Failed to add patient.');
+      }
+    } catch (linkError) {
+      console.error('Error adding patient:', linkError);
+      Alert.alert('Error', 'Failed to add patient. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Add Patient</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <Text style={styles.introText}>
+            Ask the patient to create a doctor invitation from their profile, then enter the
+            code here or scan its QR code.
+          </Text>
+
+          <Card style={styles.formCard}>
+            <Input
+              label="Invitation Code"
+              placeholder={`${INVITATION_CODE_LENGTH}-character code`}
+              value={inviteCode}
+              onChangeText={setInviteCode}
+              error={error}
+              autoCapitalize="characters"
+            />
+
+            <Button title="Add Patient" onPress={handleAdd} loading={loading} />
+          </Card>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  title: {
+    fontSize: fontSize.xl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  introText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  formCard: {
+    marginHorizontal: spacing.lg,
+  },
+});
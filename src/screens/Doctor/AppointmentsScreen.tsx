@@ -7,55 +7,54 @@ import {
   ScrollView,
   TouchableOpacity,
   RefreshControl,
-  FlatList,
+  Alert,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useFocusEffect } from '@react-navigation/native';
 import { colors, spacing, fontSize, borderRadius } from '../../utils/theme';
-import { DoctorStackParamList, Appointment, User } from '../../types';
-import { Card } from '../../components';
+import { DoctorStackParamList, Appointment, AppointmentWithPeople } from '../../types';
+import { Card, AppointmentRemindersCard, NotificationPreferencesCard } from '../../components';
 import { useAuth } from '../../context/AuthContext';
-import { getPatientsByDoctor } from '../../services/authService';
-import { getDatabase } from '../../database/database';
+import { getUserById } from '../../services/authService';
+import {
+  appointmentStart,
+  cancelAppointment,
+  completeAppointment,
+  formatAppointmentTime,
+  getAppointmentReminders,
+  getDoctorAppointments,
+  setAppointmentReminders,
+} from '../../services/appointmentService';
+import {
+  getNotificationPreferences,
+  NotificationPreferences,
+  setNotificationPreferences,
+} from '../../services/notificationSettingsService';
+import { fromDateKey, toDateKey } from '../../utils/dateUtils';
 
 type AppointmentsScreenProps = {
   navigation: NativeStackNavigationProp<DoctorStackParamList, 'Appointments'>;
 };
 
-interface AppointmentWithPatient extends Appointment {
-  patientName: string;
-}
-
 export const AppointmentsScreen: React.FC<AppointmentsScreenProps> = ({ navigation }) => {
   const { user } = useAuth();
-  const [appointments, setAppointments] = useState<AppointmentWithPatient[]>([]);
+  const [appointments, setAppointments] = useState<AppointmentWithPeople[]>([]);
+  const [reminders, setReminders] = useState<number[]>([]);
+  const [preferences, setPreferences] = useState<NotificationPreferences>({ alertStyle: 'sound' });
   const [refreshing, setRefreshing] = useState(false);
 
   const loadAppointments = async () => {
     if (!user) return;
 
     try {
-      const db = await getDatabase();
-      
-      // Get appointments for this doctor
-      const appointmentData = await db.getAllAsync<Appointment>(
-        `SELECT * FROM Appointments 
-         WHERE doctorId = ? 
-         ORDER BY date ASC, time ASC`,
-        [user.id]
-      );
-      
-      // Get patient names
-      const patients = await getPatientsByDoctor(user.id);
-      const patientMap = new Map(patients.map(p => [p.id, p.name]));
-      
-      const appointmentsWithPatients = appointmentData.map(apt => ({
-        ...apt,
-        patientName: patientMap.get(apt.patientId) || 'Unknown Patient',
-      }));
-      
-      setAppointments(appointmentsWithPatients);
+      const [appointmentData, profile] = await Promise.all([
+        getDoctorAppointments(user.id),
+        getUserById(user.id),
+      ]);
+      setAppointments(appointmentData);
+      setReminders(getAppointmentReminders(profile ?? user));
+      setPreferences(getNotificationPreferences(profile ?? user));
     } catch (error) {
       console.error('Error loading appointments:', error);
     }
@@ -86,8 +85,81 @@ export const AppointmentsScreen: React.FC<AppointmentsScreenProps> = ({ navigati
     }
   };
 
+  const handleRemindersChange = async (minutes: number[]) => {
+    if (!user) return;
+    setReminders(minutes);
+    try {
+      await setAppointmentReminders(user, minutes);
+    } catch (error) {
+      console.error('Error saving appointment reminders:', error);
+      Alert.alert('Error', 'Failed to save your reminder settings.');
+    }
+  };
+
+  const handlePreferencesChange = async (next: NotificationPreferences) => {
+    if (!user) return;
+
+    const previous = preferences;
+    setPreferences(next);
+    try {
+      const result = await setNotificationPreferences(user, next);
+      if (!result.success) {
+        setPreferences(previous);
+        Alert.alert('Could Not Save', result.error || 'Failed to save your notification settings.');
+      }
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      setPreferences(previous);
+      Alert.alert('Error', 'Failed to save your notification settings.');
+    }
+  };
+
+  const handleComplete = async (appointment: AppointmentWithPeople) => {
+    if (!user) return;
+    const result = await completeAppointment(user.id, appointment.id);
+    await loadAppointments();
+    if (!result.success) {
+      Alert.alert('Could Not Complete', result.error || 'Failed to update the appointment.');
+      return;
+    }
+
+    Alert.alert('Visit Completed', `Write consultation notes for ${appointment.patientName} now?`, [
+      { text: 'Later', style: 'cancel' },
+      {
+        text: 'Write Notes',
+        onPress: () =>
+          navigation.navigate('ConsultationNote', {
+            patientId: appointment.patientId,
+            appointmentId: appointment.id,
+          }),
+      },
+    ]);
+  };
+
+  const handleCancel = (appointment: AppointmentWithPeople) => {
+    Alert.alert(
+      'Cancel Appointment',
+      `Cancel the appointment with ${appointment.patientName} on ${formatDate(appointment.date)} at ${appointment.time}?`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Appointment',
+          style: 'destructive',
+          onPress: async () => {
+            if (!user) return;
+            const result = await cancelAppointment(user.id, appointment.id);
+            if (!result.success) {
+              Alert.alert('Could Not Cancel', result.error || 'Failed to update the appointment.');
+            }
+            await loadAppointments();
+          },
+        },
+      ]
+    );
+  };
+
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
+    const date = fromDateKey(dateString);
     return date.toLocaleDateString('en-US', {
       weekday: 'short',
       month: 'short',
@@ -95,27 +167,21 @@ export const AppointmentsScreen: React.FC<AppointmentsScreenProps> = ({ navigati
     });
   };
 
-  const isToday = (dateString: string) => {
-    const today = new Date().toISOString().split('T')[0];
-    return dateString === today;
-  };
+  const isToday = (dateString: string) => dateString === toDateKey(new Date());
 
-  const isUpcoming = (dateString: string) => {
-    const today = new Date().toISOString().split('T')[0];
-    return dateString >= today;
-  };
+  const isUpcoming = (dateString: string) => dateString >= toDateKey(new Date());
 
   const upcomingAppointments = appointments.filter(apt => apt.status === 'scheduled' && isUpcoming(apt.date));
   const pastAppointments = appointments.filter(apt => apt.status !== 'scheduled' || !isUpcoming(apt.date));
 
-  const renderAppointmentCard = (appointment: AppointmentWithPatient) => (
+  const renderAppointmentCard = (appointment: AppointmentWithPeople) => (
     <Card key={appointment.id} style={styles.appointmentCard}>
       <View style={styles.appointmentHeader}>
         <View style={styles.dateContainer}>
           <Text style={[styles.dateText, isToday(appointment.date) && styles.todayText]}>
             {formatDate(appointment.date)}
           </Text>
-          <Text style={styles.timeText}>{appointment.time}</Text>
+          <Text style={styles.timeText}>{formatAppointmentTime(appointment)}</Text>
         </View>
         <View style={[styles.statusBadge, { backgroundColor: getStatusColor(appointment.status) }]}>
           <Text style={styles.statusText}>{appointment.status}</Text>
@@ -130,6 +196,46 @@ export const AppointmentsScreen: React.FC<AppointmentsScreenProps> = ({ navigati
       {appointment.notes && (
         <Text style={styles.notesText}>{appointment.notes}</Text>
       )}
+
+      {appointment.status === 'completed' && (
+        <View style={styles.actionsRow}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() =>
+              navigation.navigate('ConsultationNote', {
+                patientId: appointment.patientId,
+                appointmentId: appointment.id,
+              })
+            }
+          >
+            <Ionicons name="document-text-outline" size={18} color={colors.secondary} />
+            <Text style={[styles.actionText, { color: colors.secondary }]}>Consultation Notes</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {appointment.status === 'scheduled' && (
+        <View style={styles.actionsRow}>
+          {appointmentStart(appointment) <= new Date() ? (
+            <TouchableOpacity style={styles.actionButton} onPress={() => handleComplete(appointment)}>
+              <Ionicons name="checkmark-circle-outline" size={18} color={colors.success} />
+              <Text style={[styles.actionText, { color: colors.success }]}>Complete</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => navigation.navigate('BookAppointment', { appointmentId: appointment.id })}
+            >
+              <Ionicons name="calendar-outline" size={18} color={colors.secondary} />
+              <Text style={[styles.actionText, { color: colors.secondary }]}>Reschedule</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleCancel(appointment)}>
+            <Ionicons name="close-circle-outline" size={18} color={colors.error} />
+            <Text style={[styles.actionText, { color: colors.error }]}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </Card>
   );
 
@@ -140,7 +246,9 @@ export const AppointmentsScreen: React.FC<AppointmentsScreenProps> = ({ navigati
           <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
         </TouchableOpacity>
         <Text style={styles.title}>Appointments</Text>
-        <View style={{ width: 24 }} />
+        <TouchableOpacity onPress={() => navigation.navigate('BookAppointment')}>
+          <Ionicons name="add" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
       </View>
 
       <ScrollView
@@ -174,6 +282,18 @@ export const AppointmentsScreen: React.FC<AppointmentsScreenProps> = ({ navigati
           </Card>
         </View>
 
+        <AppointmentRemindersCard
+          selected={reminders}
+          onChange={handleRemindersChange}
+          style={styles.remindersCard}
+        />
+
+        <NotificationPreferencesCard
+          preferences={preferences}
+          onChange={handlePreferencesChange}
+          style={styles.remindersCard}
+        />
+
         {/* Upcoming Appointments */}
         <Text style={styles.sectionTitle}>Upcoming Appointments</Text>
         
@@ -182,7 +302,7 @@ export const AppointmentsScreen: React.FC<AppointmentsScreenProps> = ({ navigati
             <Ionicons name="calendar-outline" size={48} color={colors.textLight} />
             <Text style={styles.emptyTitle}>No Upcoming Appointments</Text>
             <Text style={styles.emptyText}>
-              Patients will schedule appointments through the app.
+              Tap + to book a visit with one of your patients.
             </Text>
           </Card>
         ) : (
@@ -240,6 +360,10 @@ const styles = StyleSheet.create({
     fontSize: fontSize.xs,
     color: colors.textSecondary,
   },
+  remindersCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.lg,
+  },
   sectionTitle: {
     fontSize: fontSize.lg,
     fontWeight: '600',
@@ -302,6 +426,24 @@ const styles = StyleSheet.create({
     marginTop: spacing.sm,
     fontStyle: 'italic',
   },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.lg,
+    marginTop: spacing.md,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  actionText: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+  },
   emptyCard: {
     marginHorizontal: spacing.lg,
     alignItems: 'center',
@@ -0,0 +1,331 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { colors, spacing, fontSize, borderRadius } from '../../utils/theme';
+import { Appointment, DoctorStackParamList, User } from '../../types';
+import { Card, Input, Button } from '../../components';
+import { useAuth } from '../../context/AuthContext';
+import { getPatientsByDoctor } from '../../services/authService';
+import {
+  APPOINTMENT_DURATIONS,
+  DEFAULT_APPOINTMENT_MINUTES,
+  appointmentStart,
+  createAppointment,
+  findConflict,
+  getAppointment,
+  getDoctorDaySchedule,
+  rescheduleAppointment,
+} from '../../services/appointmentService';
+import { addDaysToKey, fromDateKey, toDateKey } from '../../utils/dateUtils';
+
+type BookAppointmentScreenProps = {
+  navigation: NativeStackNavigationProp<DoctorStackParamList, 'BookAppointment'>;
+  route: RouteProp<DoctorStackParamList, 'BookAppointment'>;
+};
+
+const BOOKING_DAYS = 14;
+
+// Half-hour slots through the working day
+const TIME_SLOTS = Array.from({ length: 20 }, (_, i) => {
+  const minutes = 8 * 60 + i * 30;
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+});
+
+export const BookAppointmentScreen: React.FC<BookAppointmentScreenProps> = ({ navigation, route }) => {
+  const { user } = useAuth();
+  const appointmentId = route.params?.appointmentId;
+  const [patients, setPatients] = useState<User[]>([]);
+  const [patientId, setPatientId] = useState<number | undefined>(route.params?.patientId);
+  const [date, setDate] = useState(toDateKey(new Date()));
+  const [time, setTime] = useState<string | null>(null);
+  const [durationMinutes, setDurationMinutes] = useState(DEFAULT_APPOINTMENT_MINUTES);
+  const [notes, setNotes] = useState('');
+  const [daySchedule, setDaySchedule] = useState<Appointment[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const today = toDateKey(new Date());
+  const bookingDays = Array.from({ length: BOOKING_DAYS }, (_, i) => addDaysToKey(today, i));
+  if (!bookingDays.includes(date)) {
+    bookingDays.unshift(date);
+  }
+
+  useEffect(() => {
+    const load = async () => {
+      if (!user) return;
+
+      setPatients(await getPatientsByDoctor(user.id));
+
+      if (appointmentId) {
+        const appointment = await getAppointment(appointmentId);
+        if (appointment) {
+          setPatientId(appointment.patientId);
+          setDate(appointment.date);
+          setTime(appointment.time);
+          setDurationMinutes(appointment.durationMinutes);
+          setNotes(appointment.notes ?? '');
+        }
+      }
+    };
+    load();
+  }, [user, appointmentId]);
+
+  useEffect(() => {
+    if (!user) return;
+    getDoctorDaySchedule(user.id, date).then(setDaySchedule);
+  }, [user, date]);
+
+  const isSlotAvailable = (slot: string) =>
+    appointmentStart({ date, time: slot }) > new Date()
+    && !findConflict(daySchedule, slot, durationMinutes, appointmentId);
+
+  const formatDay = (dateKey: string) => {
+    if (dateKey === today) return 'Today';
+    return fromDateKey(dateKey).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    if (!patientId) {
+      Alert.alert('Choose a Patient', 'Select who the appointment is with.');
+      return;
+    }
+    if (!time) {
+      Alert.alert('Choose a Time', 'Select a free time slot.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const input = { date, time, durationMinutes, notes };
+      const result = appointmentId
+        ? await rescheduleAppointment(user.id, appointmentId, input)
+        : await createAppointment(user.id, patientId, input);
+
+      if (result.success) {
+        navigation.goBack();
+      } else {
+        Alert.alert('Could Not Save', result.error || 'Failed to save the appointment.');
+        setDaySchedule(await getDoctorDaySchedule(user.id, date));
+      }
+    } catch (error) {
+      console.error('Error saving appointment:', error);
+      Alert.alert('Error', 'Failed to save the appointment. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>{appointmentId ? 'Reschedule' : 'Book Appointment'}</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView showsVerticalScrollIndicator={false}>
+          <Card style={styles.formCard}>
+            <Text style={styles.label}>Patient</Text>
+            {patients.length === 0 ? (
+              <Text style={styles.hintText}>Link a patient before booking appointments.</Text>
+            ) : (
+              <View style={styles.chipGrid}>
+                {patients.map((patient) => (
+                  <TouchableOpacity
+                    key={patient.id}
+                    style={[styles.chip, patientId === patient.id && styles.chipSelected]}
+                    onPress={() => setPatientId(patient.id)}
+                    disabled={!!appointmentId}
+                  >
+                    <Text style={[styles.chipText, patientId === patient.id && styles.chipTextSelected]}>
+                      {patient.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
+            <Text style={styles.label}>Date</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dayRow}>
+              {bookingDays.map((day) => (
+                <TouchableOpacity
+                  key={day}
+                  style={[styles.chip, date === day && styles.chipSelected]}
+                  onPress={() => {
+                    setDate(day);
+                    setTime(null);
+                  }}
+                >
+                  <Text style={[styles.chipText, date === day && styles.chipTextSelected]}>
+                    {formatDay(day)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            <Text style={styles.label}>Length</Text>
+            <View style={styles.chipGrid}>
+              {APPOINTMENT_DURATIONS.map((minutes) => (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[styles.chip, durationMinutes === minutes && styles.chipSelected]}
+                  onPress={() => setDurationMinutes(minutes)}
+                >
+                  <Text style={[styles.chipText, durationMinutes === minutes && styles.chipTextSelected]}>
+                    {minutes} min
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>Time</Text>
+            <View style={styles.chipGrid}>
+              {TIME_SLOTS.map((slot) => {
+                const available = isSlotAvailable(slot);
+                return (
+                  <TouchableOpacity
+                    key={slot}
+                    style={[
+                      styles.chip,
+                      !available && styles.chipUnavailable,
+                      time === slot && styles.chipSelected,
+                    ]}
+                    onPress={() => setTime(slot)}
+                    disabled={!available}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        !available && styles.chipTextUnavailable,
+                        time === slot && styles.chipTextSelected,
+                      ]}
+                    >
+                      {slot}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {time && !isSlotAvailable(time) && (
+              <Text style={styles.errorText}>
+                This slot overlaps another appointment, choose another time or length.
+              </Text>
+            )}
+
+            <Input
+              label="Notes"
+              placeholder="Reason for the visit"
+              value={notes}
+              onChangeText={setNotes}
+            />
+
+            <Button
+              title={appointmentId ? 'Save Changes' : 'Book Appointment'}
+              onPress={handleSave}
+              loading={loading}
+            />
+          </Card>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  title: {
+    fontSize: fontSize.xl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  formCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.xl,
+  },
+  label: {
+    fontSize: fontSize.md,
+    fontWeight: '500',
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  hintText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  dayRow: {
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.secondary,
+    borderColor: colors.secondary,
+  },
+  chipUnavailable: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+  },
+  chipTextSelected: {
+    color: colors.white,
+  },
+  chipTextUnavailable: {
+    textDecorationLine: 'line-through',
+  },
+  errorText: {
+    fontSize: fontSize.sm,
+    color: colors.error,
+    marginBottom: spacing.md,
+  },
+});
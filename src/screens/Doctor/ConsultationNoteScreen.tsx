@@ -0,0 +1,269 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { colors, spacing, fontSize } from '../../utils/theme';
+import { DoctorStackParamList, User } from '../../types';
+import { Card, Input, Button } from '../../components';
+import { useAuth } from '../../context/AuthContext';
+import { getUserById } from '../../services/authService';
+import {
+  createConsultation,
+  getConsultation,
+  getConsultationForAppointment,
+  parseVitals,
+  updateConsultation,
+} from '../../services/consultationService';
+
+type ConsultationNoteScreenProps = {
+  navigation: NativeStackNavigationProp<DoctorStackParamList, 'ConsultationNote'>;
+  route: RouteProp<DoctorStackParamList, 'ConsultationNote'>;
+};
+
+const toNumber = (value: string): number | undefined => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+export const ConsultationNoteScreen: React.FC<ConsultationNoteScreenProps> = ({ navigation, route }) => {
+  const { patientId, appointmentId } = route.params;
+  const { user } = useAuth();
+  const [patient, setPatient] = useState<User | null>(null);
+  const [consultationId, setConsultationId] = useState(route.params.consultationId);
+  const [complaints, setComplaints] = useState('');
+  const [observations, setObservations] = useState('');
+  const [bloodPressure, setBloodPressure] = useState('');
+  const [heartRate, setHeartRate] = useState('');
+  const [temperature, setTemperature] = useState('');
+  const [weight, setWeight] = useState('');
+  const [plan, setPlan] = useState('');
+  const [medicationChanges, setMedicationChanges] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      if (!user) return;
+
+      setPatient(await getUserById(patientId));
+
+      // Notes already written for this appointment are edited instead of duplicated
+      let existingId = route.params.consultationId;
+      if (existingId === undefined && appointmentId !== undefined) {
+        existingId = (await getConsultationForAppointment(appointmentId))?.id;
+      }
+      if (existingId === undefined) return;
+
+      const consultation = await getConsultation(existingId, user);
+      if (!consultation) return;
+
+      const vitals = parseVitals(consultation);
+      setConsultationId(consultation.id);
+      setComplaints(consultation.complaints ?? '');
+      setObservations(consultation.observations ?? '');
+      setBloodPressure(vitals.bloodPressure ?? '');
+      setHeartRate(vitals.heartRate?.toString() ?? '');
+      setTemperature(vitals.temperature?.toString() ?? '');
+      setWeight(vitals.weight?.toString() ?? '');
+      setPlan(consultation.plan ?? '');
+      setMedicationChanges(consultation.medicationChanges ?? '');
+    };
+    load();
+  }, [user, patientId, appointmentId]);
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const input = {
+      appointmentId,
+      complaints,
+      observations,
+      vitals: {
+        bloodPressure: bloodPressure.trim() || undefined,
+        heartRate: toNumber(heartRate),
+        temperature: toNumber(temperature),
+        weight: toNumber(weight),
+      },
+      plan,
+      medicationChanges,
+    };
+
+    setLoading(true);
+    try {
+      const result = consultationId
+        ? await updateConsultation(user.id, consultationId, input)
+        : await createConsultation(user.id, patientId, input);
+
+      if (result.success) {
+        navigation.goBack();
+      } else {
+        Alert.alert('Could Not Save', result.error || 'Failed to save the consultation notes.');
+      }
+    } catch (error) {
+      console.error('Error saving consultation:', error);
+      Alert.alert('Error', 'Failed to save the consultation notes. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>{consultationId ? 'Edit Notes' : 'Consultation Notes'}</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView showsVerticalScrollIndicator={false}>
+          {patient && <Text style={styles.patientName}>{patient.name}</Text>}
+
+          <Card style={styles.formCard}>
+            <Input
+              label="Complaints"
+              placeholder="What the patient came in with"
+              value={complaints}
+              onChangeText={setComplaints}
+              multiline
+              numberOfLines={3}
+            />
+            <Input
+              label="Observations"
+              placeholder="Examination findings"
+              value={observations}
+              onChangeText={setObservations}
+              multiline
+              numberOfLines={3}
+            />
+          </Card>
+
+          <Card style={styles.formCard}>
+            <Text style={styles.cardTitle}>Vitals</Text>
+            <View style={styles.vitalsRow}>
+              <Input
+                label="Blood Pressure"
+                placeholder="120/80"
+                value={bloodPressure}
+                onChangeText={setBloodPressure}
+                style={styles.vitalInput}
+              />
+              <Input
+                label="Heart Rate"
+                placeholder="bpm"
+                value={heartRate}
+                onChangeText={setHeartRate}
+                keyboardType="numeric"
+                style={styles.vitalInput}
+              />
+            </View>
+            <View style={styles.vitalsRow}>
+              <Input
+                label="Temperature"
+                placeholder="°C"
+                value={temperature}
+                onChangeText={setTemperature}
+                keyboardType="numeric"
+                style={styles.vitalInput}
+              />
+              <Input
+                label="Weight"
+                placeholder="kg"
+                value={weight}
+                onChangeText={setWeight}
+                keyboardType="numeric"
+                style={styles.vitalInput}
+              />
+            </View>
+          </Card>
+
+          <Card style={styles.formCard}>
+            <Input
+              label="Plan"
+              placeholder="Treatment plan, tests, follow-up"
+              value={plan}
+              onChangeText={setPlan}
+              multiline
+              numberOfLines={3}
+            />
+            <Input
+              label="Medication Changes"
+              placeholder="Started, stopped or adjusted medicines"
+              value={medicationChanges}
+              onChangeText={setMedicationChanges}
+              multiline
+              numberOfLines={3}
+            />
+            <Text style={styles.hintText}>The patient can read these notes in their visit history.</Text>
+            <Button title="Save Notes" onPress={handleSave} loading={loading} />
+          </Card>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  title: {
+    fontSize: fontSize.xl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  patientName: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  formCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  vitalsRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  vitalInput: {
+    flex: 1,
+  },
+  hintText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+});
@@ -0,0 +1,140 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp, useFocusEffect } from '@react-navigation/native';
+import { colors, spacing, fontSize } from '../../utils/theme';
+import { ConsultationWithDoctor, DoctorStackParamList, User } from '../../types';
+import { Card, ConsultationTimeline } from '../../components';
+import { useAuth } from '../../context/AuthContext';
+import { getUserById } from '../../services/authService';
+import { getConsultations } from '../../services/consultationService';
+
+type ConsultationsScreenProps = {
+  navigation: NativeStackNavigationProp<DoctorStackParamList, 'Consultations'>;
+  route: RouteProp<DoctorStackParamList, 'Consultations'>;
+};
+
+export const ConsultationsScreen: React.FC<ConsultationsScreenProps> = ({ navigation, route }) => {
+  const { patientId } = route.params;
+  const { user } = useAuth();
+  const [patient, setPatient] = useState<User | null>(null);
+  const [consultations, setConsultations] = useState<ConsultationWithDoctor[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadConsultations = async () => {
+    if (!user) return;
+
+    try {
+      setPatient(await getUserById(patientId));
+      setConsultations(await getConsultations(patientId, user));
+    } catch (error) {
+      console.error('Error loading consultations:', error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadConsultations();
+    }, [patientId, user])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadConsultations();
+    setRefreshing(false);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Visit History</Text>
+        <TouchableOpacity onPress={() => navigation.navigate('ConsultationNote', { patientId })}>
+          <Ionicons name="add" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {patient && <Text style={styles.patientName}>{patient.name}</Text>}
+
+        {consultations.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <Ionicons name="document-text-outline" size={48} color={colors.textLight} />
+            <Text style={styles.emptyTitle}>No Consultations Yet</Text>
+            <Text style={styles.emptyText}>Tap + to write notes for a visit.</Text>
+          </Card>
+        ) : (
+          <Card style={styles.timelineCard}>
+            <ConsultationTimeline
+              consultations={consultations}
+              canEdit={(c) => c.doctorId === user?.id}
+              onPressEntry={(c) =>
+                navigation.navigate('ConsultationNote', { patientId, consultationId: c.id })
+              }
+            />
+          </Card>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  title: {
+    fontSize: fontSize.xl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  patientName: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  timelineCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.xl,
+  },
+  emptyCard: {
+    marginHorizontal: spacing.lg,
+    alignItems: 'center',
+    padding: spacing.xl,
+  },
+  emptyTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginTop: spacing.md,
+  },
+  emptyText: {
+    fontSize: fontSize.md,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback } from 'react';
 import {
   View,
   Text,
@@ -11,14 +11,19 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useFocusEffect } from '@react-navigation/native';
-import { LineChart } from 'react-native-chart-kit';
+import { BarChart } from 'react-native-chart-kit';
 import { Dimensions } from 'react-native';
-import { colors, spacing, fontSize, borderRadius, shadows } from '../../utils/theme';
-import { DoctorStackParamList, User, AdherenceStat } from '../../types';
+import { colors, spacing, fontSize, borderRadius } from '../../utils/theme';
+import { DoctorStackParamList } from '../../types';
 import { Card, Button } from '../../components';
 import { useAuth } from '../../context/AuthContext';
-import { calculateAdherenceRate, getWeeklyAdherence } from '../../services/medicineService';
-import { getLinkedPatient } from '../../services/authService';
+import {
+  getDoctorPanel,
+  DoctorPanel,
+  ADHERENCE_BANDS,
+  ADHERENCE_CRITICAL,
+  ADHERENCE_TARGET,
+} from '../../services/doctorService';
 
 type DoctorDashboardScreenProps = {
   navigation: NativeStackNavigationProp<DoctorStackParamList, 'DoctorDashboard'>;
@@ -27,26 +32,15 @@ type DoctorDashboardScreenProps = {
 const screenWidth = Dimensions.get('window').width;
 
 export const DoctorDashboardScreen: React.FC<DoctorDashboardScreenProps> = ({ navigation }) => {
-  const { user } = useAuth();
-  const [patient, setPatient] = useState<User | null>(null);
-  const [adherenceRate, setAdherenceRate] = useState(100);
-  const [weeklyStats, setWeeklyStats] = useState<AdherenceStat[]>([]);
+  const { user, logout } = useAuth();
+  const [panel, setPanel] = useState<DoctorPanel | null>(null);
   const [refreshing, setRefreshing] = useState(false);
 
   const loadData = async () => {
     if (!user) return;
 
     try {
-      const linkedPatient = await getLinkedPatient(user.id, user.role);
-      if (linkedPatient) {
-        setPatient(linkedPatient);
-        const [rate, weekly] = await Promise.all([
-          calculateAdherenceRate(linkedPatient.id),
-          getWeeklyAdherence(linkedPatient.id),
-        ]);
-        setAdherenceRate(rate);
-        setWeeklyStats(weekly);
-      }
+      setPanel(await getDoctorPanel(user));
     } catch (error) {
       console.error('Error loading data:', error);
     }
@@ -64,39 +58,36 @@ export const DoctorDashboardScreen: React.FC<DoctorDashboardScreenProps> = ({ na
     setRefreshing(false);
   };
 
-  const getAdherenceColor = () => {
-    if (adherenceRate >= 80) return colors.success;
-    if (adherenceRate >= 60) return colors.warning;
+  const getAdherenceColor = (rate: number) => {
+    if (rate >= ADHERENCE_TARGET) return colors.success;
+    if (rate >= ADHERENCE_CRITICAL) return colors.warning;
     return colors.error;
   };
 
-  const chartData = {
-    labels: weeklyStats.length > 0 
-      ? weeklyStats.map(s => s.date.slice(-2))
-      : ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
-    datasets: [
-      {
-        data: weeklyStats.length > 0
-          ? weeklyStats.map(s => s.adherenceRate || 0)
-          : [100, 100, 100, 100, 100, 100, 100],
-      },
-    ],
-  };
-
-  if (!patient) {
+  if (panel && panel.patients.length === 0) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.noPatientContainer}>
           <Ionicons name="person-add" size={64} color={colors.textLight} />
           <Text style={styles.noPatientTitle}>No Patient Linked</Text>
           <Text style={styles.noPatientText}>
-            Ask the patient to share their unique code to monitor their health data.
+            Ask the patient for an invitation code to monitor their health data.
           </Text>
+          <Button
+            title="Add Patient"
+            onPress={() => navigation.navigate('AddPatient')}
+            style={styles.addButton}
+          />
         </View>
       </SafeAreaView>
     );
   }
 
+  const chartData = {
+    labels: ADHERENCE_BANDS.map(band => band.label),
+    datasets: [{ data: panel?.distribution ?? ADHERENCE_BANDS.map(() => 0) }],
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView
@@ -110,44 +101,62 @@ export const DoctorDashboardScreen: React.FC<DoctorDashboardScreenProps> = ({ na
             <Text style={styles.greeting}>Welcome</Text>
             <Text style={styles.doctorName}>Dr. {user?.name}</Text>
           </View>
-          <TouchableOpacity onPress={() => navigation.navigate('DoctorAlerts')}>
-            <Ionicons name="notifications" size={24} color={colors.textPrimary} />
-          </TouchableOpacity>
-        </View>
-
-        <Card style={styles.patientCard}>
-          <View style={styles.patientInfo}>
-            <View style={styles.patientAvatar}>
-              <Ionicons name="person" size={24} color={colors.secondary} />
-            </View>
-            <View>
-              <Text style={styles.patientName}>{patient.name}</Text>
-              <Text style={styles.patientAge}>{patient.age} years old</Text>
-            </View>
-          </View>
-          <View style={styles.specializationBadge}>
-            <Text style={styles.specializationText}>{user?.specialization}</Text>
+          <View style={styles.headerActions}>
+            <TouchableOpacity onPress={() => navigation.navigate('AddPatient')}>
+              <Ionicons name="person-add" size={24} color={colors.textPrimary} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => navigation.navigate('DoctorAlerts')}>
+              <Ionicons name="notifications" size={24} color={colors.textPrimary} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => navigation.navigate('NotificationSettings')}>
+              <Ionicons name="settings-outline" size={24} color={colors.textPrimary} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={logout}>
+              <Ionicons name="swap-horizontal" size={24} color={colors.textPrimary} />
+            </TouchableOpacity>
           </View>
-        </Card>
+        </View>
 
         <Card style={styles.adherenceCard}>
           <View style={styles.adherenceHeader}>
-            <Text style={styles.adherenceTitle}>Patient Adherence</Text>
-            <View style={[styles.adherenceBadge, { backgroundColor: getAdherenceColor() }]}>
-              <Text style={styles.adherenceRate}>{adherenceRate}%</Text>
+            <Text style={styles.adherenceTitle}>Panel Adherence</Text>
+            {panel?.averageAdherence != null && (
+              <View style={[styles.adherenceBadge, { backgroundColor: getAdherenceColor(panel.averageAdherence) }]}>
+                <Text style={styles.adherenceRate}>{panel.averageAdherence}%</Text>
+              </View>
+            )}
+          </View>
+          <View style={styles.statsRow}>
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{panel?.patients.length ?? 0}</Text>
+              <Text style={styles.statLabel}>Patients</Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text style={[styles.statValue, { color: colors.warning }]}>{panel?.belowTarget ?? 0}</Text>
+              <Text style={styles.statLabel}>Below {ADHERENCE_TARGET}%</Text>
+            </View>
+            <View style={styles.statItem}>
+              <Text style={[styles.statValue, { color: colors.error }]}>{panel?.belowCritical ?? 0}</Text>
+              <Text style={styles.statLabel}>Below {ADHERENCE_CRITICAL}%</Text>
             </View>
           </View>
-          <Text style={styles.adherenceSubtitle}>
-            {adherenceRate >= 80 ? 'Patient is compliant with medication' : 'Needs attention'}
-          </Text>
+          {!!panel?.notShared && (
+            <Text style={styles.adherenceSubtitle}>
+              {panel.notShared} patient(s) haven't shared their adherence with you
+            </Text>
+          )}
         </Card>
 
         <Card style={styles.chartCard}>
-          <Text style={styles.chartTitle}>Weekly Adherence</Text>
-          <LineChart
+          <Text style={styles.chartTitle}>Weekly Adherence Distribution</Text>
+          <BarChart
             data={chartData}
             width={screenWidth - 64}
             height={180}
+            yAxisLabel=""
+            yAxisSuffix=""
+            fromZero
+            showValuesOnTopOfBars
             chartConfig={{
               backgroundColor: colors.white,
               backgroundGradientFrom: colors.white,
@@ -156,17 +165,45 @@ export const DoctorDashboardScreen: React.FC<DoctorDashboardScreenProps> = ({ na
               color: (opacity = 1) => `rgba(21, 101, 192, ${opacity})`,
               labelColor: () => colors.textSecondary,
               style: { borderRadius: 16 },
-              propsForDots: {
-                r: '4',
-                strokeWidth: '2',
-                stroke: colors.secondary,
-              },
             }}
-            bezier
             style={styles.chart}
           />
         </Card>
 
+        <Card style={styles.triageCard}>
+          <Text style={styles.triageTitle}>Triage</Text>
+          {panel?.patients.map(({ patient, weeklyAdherence }) => (
+            <TouchableOpacity
+              key={patient.id}
+              style={styles.triageItem}
+              onPress={() => navigation.navigate('PatientDetail', { patientId: patient.id })}
+            >
+              <View style={styles.patientAvatar}>
+                <Ionicons name="person" size={20} color={colors.secondary} />
+              </View>
+              <View style={styles.triageInfo}>
+                <Text style={styles.patientName}>{patient.name}</Text>
+                <Text style={styles.patientAge}>
+                  {weeklyAdherence === null
+                    ? 'Adherence not shared'
+                    : weeklyAdherence < ADHERENCE_CRITICAL
+                      ? 'Needs attention'
+                      : weeklyAdherence < ADHERENCE_TARGET
+                        ? 'Below target'
+                        : 'On track'}
+                </Text>
+              </View>
+              {weeklyAdherence !== null ? (
+                <View style={[styles.triageBadge, { backgroundColor: getAdherenceColor(weeklyAdherence) }]}>
+                  <Text style={styles.triageRate}>{weeklyAdherence}%</Text>
+                </View>
+              ) : (
+                <Ionicons name="lock-closed" size={20} color={colors.textLight} />
+              )}
+            </TouchableOpacity>
+          ))}
+        </Card>
+
         <View style={styles.quickActions}>
           <Button
             title="Patient List"
@@ -174,25 +211,13 @@ export const DoctorDashboardScreen: React.FC<DoctorDashboardScreenProps> = ({ na
             style={styles.actionButton}
           />
           <Button
-            title="Reports"
-            onPress={() => navigation.navigate('PatientAdherenceReport', { patientId: patient.id })}
+            title="Appointments"
+            onPress={() => navigation.navigate('Appointments')}
             variant="secondary"
             style={styles.actionButton}
           />
         </View>
 
-        <Card style={styles.notesCard}>
-          <Text style={styles.notesTitle}>Quick Notes</Text>
-          <View style={styles.noteItem}>
-            <Ionicons name="document-text" size={20} color={colors.secondary} />
-            <Text style={styles.noteText}>Review latest adherence report</Text>
-          </View>
-          <View style={styles.noteItem}>
-            <Ionicons name="medical" size={20} color={colors.secondary} />
-            <Text style={styles.noteText}>Check medication adjustments</Text>
-          </View>
-        </Card>
-
         <View style={styles.bottomPadding} />
       </ScrollView>
     </SafeAreaView>
@@ -219,19 +244,14 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: colors.textPrimary,
   },
-  patientCard: {
-    marginHorizontal: spacing.lg,
-    marginBottom: spacing.md,
-  },
-  patientInfo: {
+  headerActions: {
     flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: spacing.md,
+    gap: spacing.md,
   },
   patientAvatar: {
-    width: 48,
-    height: 48,
-    borderRadius: 24,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
     backgroundColor: colors.secondary + '20',
     justifyContent: 'center',
     alignItems: 'center',
@@ -246,18 +266,6 @@ const styles = StyleSheet.create({
     fontSize: fontSize.sm,
     color: colors.textSecondary,
   },
-  specializationBadge: {
-    backgroundColor: colors.secondary + '10',
-    paddingHorizontal: spacing.md,
-    paddingVertical: spacing.xs,
-    borderRadius: borderRadius.md,
-    alignSelf: 'flex-start',
-  },
-  specializationText: {
-    fontSize: fontSize.sm,
-    color: colors.secondary,
-    fontWeight: '500',
-  },
   noPatientContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -276,6 +284,10 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: spacing.sm,
   },
+  addButton: {
+    marginTop: spacing.lg,
+    alignSelf: 'stretch',
+  },
   adherenceCard: {
     marginHorizontal: spacing.lg,
     marginBottom: spacing.md,
@@ -305,6 +317,24 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     marginTop: spacing.sm,
   },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginTop: spacing.md,
+  },
+  statItem: {
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: fontSize.xxl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  statLabel: {
+    fontSize: fontSize.xs,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
   chartCard: {
     marginHorizontal: spacing.lg,
     marginBottom: spacing.md,
@@ -328,25 +358,35 @@ const styles = StyleSheet.create({
   actionButton: {
     flex: 1,
   },
-  notesCard: {
+  triageCard: {
     marginHorizontal: spacing.lg,
     marginBottom: spacing.md,
   },
-  notesTitle: {
+  triageTitle: {
     fontSize: fontSize.lg,
     fontWeight: '600',
     color: colors.textPrimary,
     marginBottom: spacing.md,
   },
-  noteItem: {
+  triageItem: {
     flexDirection: 'row',
     alignItems: 'center',
-    gap: spacing.sm,
-    marginBottom: spacing.sm,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
   },
-  noteText: {
-    fontSize: fontSize.md,
-    color: colors.textSecondary,
+  triageInfo: {
+    flex: 1,
+  },
+  triageBadge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+  },
+  triageRate: {
+    fontSize: fontSize.sm,
+    fontWeight: 'bold',
+    color: colors.white,
   },
   bottomPadding: {
     height: spacing.xl,
@@ -15,11 +15,24 @@ import { useFocusEffect } from '@react-navigation/native';
 import { LineChart } from 'react-native-chart-kit';
 import { Dimensions } from 'react-native';
 import { colors, spacing, fontSize, borderRadius } from '../../utils/theme';
-import { DoctorStackParamList, User, Medicine, AdherenceStat, AdherenceDetails } from '../../types';
-import { Card, Button } from '../../components';
+import {
+  DoctorStackParamList,
+  User,
+  Medicine,
+  AdherenceStat,
+  AdherenceDetails,
+  FaceScanReport,
+  PermissionScope,
+  ConsultationWithDoctor,
+} from '../../types';
+import { Card, Button, ConsultationTimeline } from '../../components';
 import { useAuth } from '../../context/AuthContext';
 import { getUserById } from '../../services/authService';
-import { getMedicinesByPatient, getWeeklyAdherence, calculateAdherenceDetails, calculateWeeklyAdherence } from '../../services/medicineService';
+import { getMedicinesByPatient, getWeeklyAdherence, calculateAdherenceDetails } from '../../services/medicineService';
+import { actorFor, getPermissions } from '../../services/permissionService';
+import { getFaceScanReports } from '../../services/faceScanService';
+import { getConsultations } from '../../services/consultationService';
+import { parseDbTimestamp } from '../../utils/dateUtils';
 
 type PatientDetailScreenProps = {
   navigation: NativeStackNavigationProp<DoctorStackParamList, 'PatientDetail'>;
@@ -35,26 +48,38 @@ export const PatientDetailScreen: React.FC<PatientDetailScreenProps> = ({ naviga
   const [medicines, setMedicines] = useState<Medicine[]>([]);
   const [weeklyStats, setWeeklyStats] = useState<AdherenceStat[]>([]);
   const [adherenceDetails, setAdherenceDetails] = useState<AdherenceDetails | null>(null);
+  const [faceScans, setFaceScans] = useState<FaceScanReport[]>([]);
+  const [permissions, setPermissions] = useState<PermissionScope[]>([]);
+  const [consultations, setConsultations] = useState<ConsultationWithDoctor[]>([]);
   const [refreshing, setRefreshing] = useState(false);
 
   const loadPatientData = async () => {
+    if (!user) return;
+
     try {
       // Load patient info
       const patientData = await getUserById(patientId);
       if (patientData) {
         setPatient(patientData);
+
+        // Only load what the patient has shared with this doctor
+        const actor = actorFor(user);
+        const scopes = await getPermissions(user.id, patientId);
+        setPermissions(scopes);
         
         // Load medicines (view-only for doctor)
-        const medicinesData = await getMedicinesByPatient(patientId);
-        setMedicines(medicinesData);
+        setMedicines(scopes.includes('view_medicines') ? await getMedicinesByPatient(patientId, actor) : []);
         
-        // Load weekly adherence
-        const weekly = await getWeeklyAdherence(patientId);
-        setWeeklyStats(weekly);
-        
-        // Load detailed adherence
-        const details = await calculateAdherenceDetails(patientId);
-        setAdherenceDetails(details);
+        if (scopes.includes('view_adherence')) {
+          setWeeklyStats(await getWeeklyAdherence(patientId, actor));
+          setAdherenceDetails(await calculateAdherenceDetails(patientId, actor));
+        } else {
+          setWeeklyStats([]);
+          setAdherenceDetails(null);
+        }
+
+        setFaceScans(scopes.includes('view_face_scans') ? await getFaceScanReports(patientId, actor) : []);
+        setConsultations(await getConsultations(patientId, user));
       }
     } catch (error) {
       console.error('Error loading patient data:', error);
@@ -64,7 +89,7 @@ export const PatientDetailScreen: React.FC<PatientDetailScreenProps> = ({ naviga
   useFocusEffect(
     useCallback(() => {
       loadPatientData();
-    }, [patientId])
+    }, [patientId, user])
   );
 
   const onRefresh = async () => {
@@ -138,60 +163,71 @@ export const PatientDetailScreen: React.FC<PatientDetailScreenProps> = ({ naviga
           </View>
         </Card>
 
+        {!permissions.includes('view_adherence') && (
+          <Card style={styles.adherenceCard}>
+            <Text style={styles.sectionTitle}>Adherence</Text>
+            <Text style={styles.noAccessText}>The patient hasn't shared their adherence history with you.</Text>
+          </Card>
+        )}
+
         {/* Adherence Overview */}
-        <Card style={styles.adherenceCard}>
-          <View style={styles.adherenceHeader}>
-            <Text style={styles.sectionTitle}>Adherence Overview</Text>
-            <View style={[styles.adherenceBadge, { backgroundColor: getAdherenceColor(currentAdherence) }]}>
-              <Text style={styles.adherenceRate}>{currentAdherence}%</Text>
-            </View>
-          </View>
-          
-          <View style={styles.statsGrid}>
-            <View style={styles.statItem}>
-              <Text style={styles.statNumber}>{adherenceDetails?.totalDoses || 0}</Text>
-              <Text style={styles.statLabel}>Total Doses</Text>
-            </View>
-            <View style={styles.statItem}>
-              <Text style={[styles.statNumber, { color: colors.success }]}>{adherenceDetails?.takenDoses || 0}</Text>
-              <Text style={styles.statLabel}>Taken</Text>
-            </View>
-            <View style={styles.statItem}>
-              <Text style={[styles.statNumber, { color: colors.error }]}>{adherenceDetails?.missedDoses || 0}</Text>
-              <Text style={styles.statLabel}>Missed</Text>
+        {permissions.includes('view_adherence') && (
+          <Card style={styles.adherenceCard}>
+            <View style={styles.adherenceHeader}>
+              <Text style={styles.sectionTitle}>Adherence Overview</Text>
+              <View style={[styles.adherenceBadge, { backgroundColor: getAdherenceColor(currentAdherence) }]}>
+                <Text style={styles.adherenceRate}>{currentAdherence}%</Text>
+              </View>
             </View>
-            <View style={styles.statItem}>
-              <Text style={[styles.statNumber, { color: colors.warning }]}>{adherenceDetails?.skippedDoses || 0}</Text>
-              <Text style={styles.statLabel}>Skipped</Text>
+            
+            <View style={styles.statsGrid}>
+              <View style={styles.statItem}>
+                <Text style={styles.statNumber}>{adherenceDetails?.totalDoses || 0}</Text>
+                <Text style={styles.statLabel}>Total Doses</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={[styles.statNumber, { color: colors.success }]}>{adherenceDetails?.takenDoses || 0}</Text>
+                <Text style={styles.statLabel}>Taken</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={[styles.statNumber, { color: colors.error }]}>{adherenceDetails?.missedDoses || 0}</Text>
+                <Text style={styles.statLabel}>Missed</Text>
+              </View>
+              <View style={styles.statItem}>
+                <Text style={[styles.statNumber, { color: colors.warning }]}>{adherenceDetails?.skippedDoses || 0}</Text>
+                <Text style={styles.statLabel}>Skipped</Text>
+              </View>
             </View>
-          </View>
-        </Card>
+          </Card>
+        )}
 
         {/* Weekly Chart */}
-        <Card style={styles.chartCard}>
-          <Text style={styles.sectionTitle}>Weekly Adherence</Text>
-          <LineChart
-            data={chartData}
-            width={screenWidth - 64}
-            height={180}
-            chartConfig={{
-              backgroundColor: colors.white,
-              backgroundGradientFrom: colors.white,
-              backgroundGradientTo: colors.white,
-              decimalPlaces: 0,
-              color: (opacity = 1) => `rgba(21, 101, 192, ${opacity})`,
-              labelColor: () => colors.textSecondary,
-              style: { borderRadius: 16 },
-              propsForDots: {
-                r: '4',
-                strokeWidth: '2',
-                stroke: colors.secondary,
-              },
-            }}
-            bezier
-            style={styles.chart}
-          />
-        </Card>
+        {permissions.includes('view_adherence') && (
+          <Card style={styles.chartCard}>
+            <Text style={styles.sectionTitle}>Weekly Adherence</Text>
+            <LineChart
+              data={chartData}
+              width={screenWidth - 64}
+              height={180}
+              chartConfig={{
+                backgroundColor: colors.white,
+                backgroundGradientFrom: colors.white,
+                backgroundGradientTo: colors.white,
+                decimalPlaces: 0,
+                color: (opacity = 1) => `rgba(21, 101, 192, ${opacity})`,
+                labelColor: () => colors.textSecondary,
+                style: { borderRadius: 16 },
+                propsForDots: {
+                  r: '4',
+                  strokeWidth: '2',
+                  stroke: colors.secondary,
+                },
+              }}
+              bezier
+              style={styles.chart}
+            />
+          </Card>
+        )}
 
         {/* Medicines (View Only) */}
         <Card style={styles.medicinesCard}>
@@ -200,7 +236,9 @@ export const PatientDetailScreen: React.FC<PatientDetailScreenProps> = ({ naviga
             <Text style={styles.readOnlyNote}>(View Only)</Text>
           </View>
           
-          {medicines.length === 0 ? (
+          {!permissions.includes('view_medicines') ? (
+            <Text style={styles.noAccessText}>The patient hasn't shared their medicines with you.</Text>
+          ) : medicines.length === 0 ? (
             <Text style={styles.noMedicinesText}>No medicines assigned</Text>
           ) : (
             medicines.map((medicine) => (
@@ -253,6 +291,66 @@ export const PatientDetailScreen: React.FC<PatientDetailScreenProps> = ({ naviga
           </Card>
         )}
 
+        {/* Visit History */}
+        <Card style={styles.insightsCard}>
+          <View style={styles.medicinesHeader}>
+            <Text style={styles.sectionTitle}>Visit History</Text>
+            <TouchableOpacity onPress={() => navigation.navigate('ConsultationNote', { patientId })}>
+              <Ionicons name="add-circle-outline" size={24} color={colors.secondary} />
+            </TouchableOpacity>
+          </View>
+
+          {consultations.length === 0 ? (
+            <Text style={styles.noMedicinesText}>No consultations recorded</Text>
+          ) : (
+            <ConsultationTimeline
+              consultations={consultations.slice(0, 3)}
+              canEdit={(c) => c.doctorId === user?.id}
+              onPressEntry={(c) =>
+                navigation.navigate('ConsultationNote', { patientId, consultationId: c.id })
+              }
+            />
+          )}
+
+          {consultations.length > 3 && (
+            <Button
+              title={`View All ${consultations.length} Visits`}
+              onPress={() => navigation.navigate('Consultations', { patientId })}
+              variant="outline"
+            />
+          )}
+        </Card>
+
+        {/* Face Scans */}
+        {permissions.includes('view_face_scans') && (
+          <Card style={styles.insightsCard}>
+            <Text style={styles.sectionTitle}>Face Scans</Text>
+
+            {faceScans.length === 0 ? (
+              <Text style={styles.noMedicinesText}>No face scans recorded</Text>
+            ) : (
+              faceScans.map((scan) => (
+                <View key={scan.id} style={styles.insightItem}>
+                  <Ionicons name="happy" size={20} color={colors.secondary} />
+                  <View style={styles.insightContent}>
+                    <Text style={styles.insightLabel}>
+                      {parseDbTimestamp(scan.scannedAt).toLocaleDateString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: 'numeric',
+                        minute: '2-digit',
+                      })}
+                    </Text>
+                    <Text style={styles.insightValue}>
+                      {scan.scanResult} · {scan.confidence}% confidence
+                    </Text>
+                  </View>
+                </View>
+              ))
+            )}
+          </Card>
+        )}
+
         <View style={styles.bottomPadding} />
       </ScrollView>
     </SafeAreaView>
@@ -380,6 +478,12 @@ const styles = StyleSheet.create({
     color: colors.textLight,
     fontStyle: 'italic',
   },
+  noAccessText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    fontStyle: 'italic',
+    marginTop: spacing.sm,
+  },
   noMedicinesText: {
     fontSize: fontSize.md,
     color: colors.textSecondary,
@@ -18,6 +18,7 @@ import { DoctorStackParamList, User } from '../../types';
 import { Card } from '../../components';
 import { useAuth } from '../../context/AuthContext';
 import { getPatientsByDoctor, getLinkedPatient } from '../../services/authService';
+import { actorFor, hasPermission } from '../../services/permissionService';
 import { calculateAdherenceRate, getWeeklyAdherence, calculateWeeklyAdherence } from '../../services/medicineService';
 
 type PatientListScreenProps = {
@@ -27,7 +28,7 @@ type PatientListScreenProps = {
 const screenWidth = Dimensions.get('window').width;
 
 interface PatientWithAdherence extends User {
-  adherenceRate: number;
+  adherenceRate: number | null; // null when adherence isn't shared with this doctor
 }
 
 export const PatientListScreen: React.FC<PatientListScreenProps> = ({ navigation }) => {
@@ -44,7 +45,9 @@ export const PatientListScreen: React.FC<PatientListScreenProps> = ({ navigation
       // Get adherence for each patient
       const patientsWithAdherence = await Promise.all(
         patientsList.map(async (patient) => {
-          const adherenceRate = await calculateWeeklyAdherence(patient.id);
+          const adherenceRate = (await hasPermission(user.id, patient.id, 'view_adherence'))
+            ? await calculateWeeklyAdherence(patient.id, actorFor(user))
+            : null;
           return { ...patient, adherenceRate };
         })
       );
@@ -86,9 +89,13 @@ export const PatientListScreen: React.FC<PatientListScreenProps> = ({ navigation
             <Text style={styles.patientName}>{item.name}</Text>
             <Text style={styles.patientAge}>{item.age || 'N/A'} years old</Text>
           </View>
-          <View style={[styles.adherenceBadge, { backgroundColor: getAdherenceColor(item.adherenceRate) }]}>
-            <Text style={styles.adherenceText}>{item.adherenceRate}%</Text>
-          </View>
+          {item.adherenceRate !== null ? (
+            <View style={[styles.adherenceBadge, { backgroundColor: getAdherenceColor(item.adherenceRate) }]}>
+              <Text style={styles.adherenceText}>{item.adherenceRate}%</Text>
+            </View>
+          ) : (
+            <Ionicons name="lock-closed" size={20} color={colors.textLight} />
+          )}
         </View>
         
         <View style={styles.patientActions}>
@@ -3,3 +3,7 @@ export { PatientListScreen } from './PatientListScreen';
 export { PatientDetailScreen } from './PatientDetailScreen';
 export { DoctorAlertsScreen } from './DoctorAlertsScreen';
 export { AppointmentsScreen } from './AppointmentsScreen';
+export { AddPatientScreen } from './AddPatientScreen';
+export { BookAppointmentScreen } from './BookAppointmentScreen';
+export { ConsultationsScreen } from './ConsultationsScreen';
+export { ConsultationNoteScreen } from './ConsultationNoteScreen';
@@ -9,13 +9,30 @@ import {
   KeyboardAvoidingView,
   Platform,
   TouchableOpacity,
+  Switch,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { colors, spacing, fontSize, borderRadius } from '../../utils/theme';
-import { PatientStackParamList } from '../../types';
+import { PatientStackParamList, RecurrenceRule } from '../../types';
 import { Input, Button, Card } from '../../components';
-import { addMedicine } from '../../services/medicineService';
+import { addMedicine, DEFAULT_GRACE_MINUTES } from '../../services/medicineService';
+import { generateDueLogs } from '../../services/scheduleService';
+import { checkNotificationPermissions, reconcileReminders } from '../../services/notificationService';
+import { setDosePlan } from '../../services/dosePlanService';
+import { actorFor } from '../../services/permissionService';
+import {
+  CAREGIVER_ALERT_OPTIONS,
+  REMIND_AGAIN_OPTIONS,
+  validateEscalationPolicy,
+} from '../../services/escalationService';
+import {
+  createDailyRecurrence,
+  describeRecurrence,
+  isSimpleDaily,
+  WEEKDAY_LABELS,
+} from '../../services/recurrenceService';
+import { addDaysToKey, fromDateKey, toDateKey } from '../../utils/dateUtils';
 import { useAuth } from '../../context/AuthContext';
 
 type AddMedicineScreenProps = {
@@ -27,9 +44,34 @@ const frequencies = [
   { key: 'twice', label: 'Twice a day', times: 2 },
   { key: 'three', label: 'Three times a day', times: 3 },
   { key: 'four', label: 'Four times a day', times: 4 },
+  { key: 'every_other_day', label: 'Every other day', times: 1 },
+  { key: 'specific_days', label: 'Specific days', times: 1 },
+  { key: 'every_x_hours', label: 'Every X hours', times: 1 },
+  { key: 'cycle', label: 'Days on / off', times: 1 },
   { key: 'as_needed', label: 'As needed', times: 0 },
 ];
 
+const hourIntervals = [4, 6, 8, 12];
+
+// How far ahead a course can be set to start
+const START_DAYS = 14;
+
+const courseDurations = [
+  { days: 0, label: 'Ongoing' },
+  { days: 5, label: '5 days' },
+  { days: 7, label: '7 days' },
+  { days: 10, label: '10 days' },
+  { days: 14, label: '14 days' },
+  { days: 30, label: '30 days' },
+];
+
+const graceWindows = [
+  { minutes: 15, label: '15 min' },
+  { minutes: 30, label: '30 min' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 120, label: '2 hours' },
+];
+
 const commonTimes = [
   '08:00', '09:00', '10:00', '12:00', 
   '14:00', '18:00', '20:00', '22:00'
@@ -41,13 +83,49 @@ export const AddMedicineScreen: React.FC<AddMedicineScreenProps> = ({ navigation
   const [dosage, setDosage] = useState('');
   const [frequency, setFrequency] = useState(frequencies[0]);
   const [selectedTimes, setSelectedTimes] = useState<string[]>(['08:00']);
+  const [weekdays, setWeekdays] = useState<number[]>([new Date().getDay()]);
+  const [intervalHours, setIntervalHours] = useState(8);
+  const [daysOn, setDaysOn] = useState('21');
+  const [daysOff, setDaysOff] = useState('7');
+  const [graceMinutes, setGraceMinutes] = useState(DEFAULT_GRACE_MINUTES);
+  const [remindMinutes, setRemindMinutes] = useState<number | undefined>();
+  const [caregiverMinutes, setCaregiverMinutes] = useState<number | undefined>();
+  const [critical, setCritical] = useState(false);
+  const [startDate, setStartDate] = useState(toDateKey(new Date()));
+  const [courseDays, setCourseDays] = useState(0);
+  const [minIntervalHours, setMinIntervalHours] = useState('4');
+  const [maxDailyDoses, setMaxDailyDoses] = useState('');
+  const [planSteps, setPlanSteps] = useState<{ dosage: string; days: string }[]>([]);
   const [stock, setStock] = useState('');
   const [instructions, setInstructions] = useState('');
   const [loading, setLoading] = useState(false);
-  const [errors, setErrors] = useState<{ name?: string; dosage?: string; stock?: string }>({});
+  const [errors, setErrors] = useState<{
+    name?: string;
+    dosage?: string;
+    stock?: string;
+    schedule?: string;
+    plan?: string;
+    escalation?: string;
+  }>({});
+
+  const today = toDateKey(new Date());
+  const startDays = Array.from({ length: START_DAYS }, (_, i) => addDaysToKey(today, i));
+
+  const formatStartDay = (dateKey: string) => {
+    if (dateKey === today) return 'Today';
+    if (dateKey === addDaysToKey(today, 1)) return 'Tomorrow';
+    return fromDateKey(dateKey).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const isHourly = frequency.key === 'every_x_hours';
+  const isPrn = frequency.key === 'as_needed';
 
   const validateForm = (): boolean => {
-    const newErrors: { name?: string; dosage?: string; stock?: string } = {};
+    const newErrors: typeof errors = {};
 
     if (!name.trim()) {
       newErrors.name = 'Medicine name is required';
@@ -63,24 +141,133 @@ export const AddMedicineScreen: React.FC<AddMedicineScreenProps> = ({ navigation
       newErrors.stock = 'Stock must be a positive number';
     }
 
+    if (frequency.key === 'specific_days' && weekdays.length === 0) {
+      newErrors.schedule = 'Please select at least one day';
+    } else if (
+      frequency.key === 'cycle' &&
+      (!(parseInt(daysOn) > 0) || !(parseInt(daysOff) >= 0))
+    ) {
+      newErrors.schedule = 'Enter the number of days on and off';
+    } else if (
+      isPrn &&
+      ((minIntervalHours.trim() && !(parseFloat(minIntervalHours) > 0)) ||
+        (maxDailyDoses.trim() && !(parseInt(maxDailyDoses) > 0)))
+    ) {
+      newErrors.schedule = 'Limits must be positive numbers';
+    }
+
+    if (planSteps.some(step => !step.dosage.trim() || !(parseInt(step.days) > 0))) {
+      newErrors.plan = 'Every step needs a dosage and number of days';
+    }
+
+    const escalationError = !isPrn && validateEscalationPolicy({ remindMinutes, caregiverMinutes }, graceMinutes);
+    if (escalationError) {
+      newErrors.escalation = escalationError;
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  // Schedules count their days from the start of the course
+  const buildRecurrence = (): RecurrenceRule => {
+    const anchorDate = startDate;
+
+    switch (frequency.key) {
+      case 'every_other_day':
+        return createDailyRecurrence(anchorDate, 2);
+      case 'specific_days':
+        return { freq: 'weekly', interval: 1, byWeekday: weekdays, anchorDate };
+      case 'every_x_hours':
+        return { freq: 'hourly', interval: intervalHours, anchorDate };
+      case 'cycle':
+        return {
+          freq: 'cycle',
+          interval: 1,
+          daysOn: parseInt(daysOn),
+          daysOff: parseInt(daysOff),
+          anchorDate,
+        };
+      default:
+        return createDailyRecurrence(anchorDate);
+    }
+  };
+
+  const renderEscalationChips = (
+    options: number[],
+    selected: number | undefined,
+    onSelect: (minutes: number | undefined) => void
+  ) => (
+    <View style={styles.timesGrid}>
+      {[undefined, ...options].map((minutes) => (
+        <TouchableOpacity
+          key={minutes ?? 'off'}
+          style={[styles.timeChip, selected === minutes && styles.timeChipSelected]}
+          onPress={() => onSelect(minutes)}
+        >
+          <Text style={[styles.timeText, selected === minutes && styles.timeTextSelected]}>
+            {minutes === undefined ? 'Off' : `${minutes} min`}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
   const handleAddMedicine = async () => {
     if (!validateForm() || !user) return;
 
     setLoading(true);
     try {
-      await addMedicine(
+      const recurrence = buildRecurrence();
+      // Hourly schedules only need the first dose of the day, as-needed ones none at all
+      const times = isPrn ? [] : isHourly ? selectedTimes.slice(0, 1) : selectedTimes;
+      const label = isPrn || isSimpleDaily(recurrence)
+        ? frequency.label
+        : describeRecurrence(recurrence, times.length);
+
+      // A dose plan sets its own end date from its steps
+      const endDate = courseDays > 0 && planSteps.length === 0
+        ? addDaysToKey(startDate, courseDays - 1)
+        : undefined;
+
+      const medicine = await addMedicine(
         user.id,
         name.trim(),
         dosage.trim(),
-        frequency.label,
-        selectedTimes,
+        label,
+        times,
         parseInt(stock),
-        instructions.trim()
+        instructions.trim(),
+        {
+          actor: actorFor(user),
+          graceMinutes,
+          escalation: isPrn ? undefined : { remindMinutes, caregiverMinutes },
+          critical: !isPrn && critical,
+          recurrence,
+          startDate,
+          endDate,
+          prn: isPrn
+            ? {
+                minIntervalMinutes: minIntervalHours.trim()
+                  ? Math.round(parseFloat(minIntervalHours) * 60)
+                  : undefined,
+                maxDailyDoses: maxDailyDoses.trim() ? parseInt(maxDailyDoses) : undefined,
+              }
+            : undefined,
+        }
       );
+      if (planSteps.length > 0) {
+        await setDosePlan(
+          medicine.id,
+          startDate,
+          planSteps.map(step => ({ dosage: step.dosage.trim(), durationDays: parseInt(step.days) })),
+          actorFor(user)
+        );
+      }
+      await generateDueLogs(user.id);
+      if (await checkNotificationPermissions()) {
+        await reconcileReminders(user.id);
+      }
       
       Alert.alert('Success', 'Medicine added successfully!', [
         { text: 'OK', onPress: () => navigation.goBack() }
@@ -93,13 +280,27 @@ export const AddMedicineScreen: React.FC<AddMedicineScreenProps> = ({ navigation
   };
 
   const toggleTime = (time: string) => {
-    if (selectedTimes.includes(time)) {
+    if (isHourly) {
+      setSelectedTimes([time]);
+    } else if (selectedTimes.includes(time)) {
       setSelectedTimes(selectedTimes.filter(t => t !== time));
     } else {
       setSelectedTimes([...selectedTimes, time].sort());
     }
   };
 
+  const updatePlanStep = (index: number, field: 'dosage' | 'days', value: string) => {
+    setPlanSteps(planSteps.map((step, i) => (i === index ? { ...step, [field]: value } : step)));
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (weekdays.includes(weekday)) {
+      setWeekdays(weekdays.filter(d => d !== weekday));
+    } else {
+      setWeekdays([...weekdays, weekday].sort());
+    }
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <KeyboardAvoidingView
@@ -148,7 +349,9 @@ export const AddMedicineScreen: React.FC<AddMedicineScreenProps> = ({ navigation
                     ]}
                     onPress={() => {
                       setFrequency(freq);
-                      if (freq.times > 0 && selectedTimes.length === 0) {
+                      if (freq.key === 'every_x_hours' && selectedTimes.length > 1) {
+                        setSelectedTimes(selectedTimes.slice(0, 1));
+                      } else if (freq.times > 0 && selectedTimes.length === 0) {
                         const defaultTimes = commonTimes.slice(0, freq.times);
                         setSelectedTimes(defaultTimes);
                       }
@@ -167,9 +370,108 @@ export const AddMedicineScreen: React.FC<AddMedicineScreenProps> = ({ navigation
               </View>
             </View>
 
-            {frequency.key !== 'as_needed' && (
+            {frequency.key === 'specific_days' && (
               <View style={styles.timesContainer}>
-                <Text style={styles.label}>Select Times</Text>
+                <Text style={styles.label}>Days of the Week</Text>
+                <View style={styles.timesGrid}>
+                  {WEEKDAY_LABELS.map((dayLabel, weekday) => (
+                    <TouchableOpacity
+                      key={dayLabel}
+                      style={[
+                        styles.timeChip,
+                        weekdays.includes(weekday) && styles.timeChipSelected,
+                      ]}
+                      onPress={() => toggleWeekday(weekday)}
+                    >
+                      <Text
+                        style={[
+                          styles.timeText,
+                          weekdays.includes(weekday) && styles.timeTextSelected,
+                        ]}
+                      >
+                        {dayLabel}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {errors.schedule && <Text style={styles.errorText}>{errors.schedule}</Text>}
+              </View>
+            )}
+
+            {isHourly && (
+              <View style={styles.timesContainer}>
+                <Text style={styles.label}>Repeat Every</Text>
+                <View style={styles.timesGrid}>
+                  {hourIntervals.map((hours) => (
+                    <TouchableOpacity
+                      key={hours}
+                      style={[
+                        styles.timeChip,
+                        intervalHours === hours && styles.timeChipSelected,
+                      ]}
+                      onPress={() => setIntervalHours(hours)}
+                    >
+                      <Text
+                        style={[
+                          styles.timeText,
+                          intervalHours === hours && styles.timeTextSelected,
+                        ]}
+                      >
+                        {hours} hours
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {frequency.key === 'cycle' && (
+              <View style={styles.cycleRow}>
+                <Input
+                  label="Days On"
+                  placeholder="21"
+                  value={daysOn}
+                  onChangeText={setDaysOn}
+                  keyboardType="numeric"
+                  style={styles.cycleInput}
+                />
+                <Input
+                  label="Days Off"
+                  placeholder="7"
+                  value={daysOff}
+                  onChangeText={setDaysOff}
+                  keyboardType="numeric"
+                  error={errors.schedule}
+                  style={styles.cycleInput}
+                />
+              </View>
+            )}
+
+            {isPrn && (
+              <View style={styles.cycleRow}>
+                <Input
+                  label="Min. Hours Between"
+                  placeholder="4"
+                  value={minIntervalHours}
+                  onChangeText={setMinIntervalHours}
+                  keyboardType="numeric"
+                  style={styles.cycleInput}
+                />
+                <Input
+                  label="Max Doses / 24h"
+                  placeholder="No limit"
+                  value={maxDailyDoses}
+                  onChangeText={setMaxDailyDoses}
+                  keyboardType="numeric"
+                  error={errors.schedule}
+                  style={styles.cycleInput}
+                />
+              </View>
+            )}
+
+            {!isPrn && (
+              <View style={styles.timesContainer}>
+                <Text style={styles.label}>{isHourly ? 'First Dose At' : 'Select Times'}</Text>
                 <View style={styles.timesGrid}>
                   {commonTimes.map((time) => (
                     <TouchableOpacity
@@ -197,6 +499,147 @@ export const AddMedicineScreen: React.FC<AddMedicineScreenProps> = ({ navigation
               </View>
             )}
 
+            {!isPrn && (
+              <View style={styles.timesContainer}>
+                <Text style={styles.label}>Mark as Missed After</Text>
+                <View style={styles.timesGrid}>
+                  {graceWindows.map((window) => (
+                    <TouchableOpacity
+                      key={window.minutes}
+                      style={[
+                        styles.timeChip,
+                        graceMinutes === window.minutes && styles.timeChipSelected,
+                      ]}
+                      onPress={() => setGraceMinutes(window.minutes)}
+                    >
+                      <Text
+                        style={[
+                          styles.timeText,
+                          graceMinutes === window.minutes && styles.timeTextSelected,
+                        ]}
+                      >
+                        {window.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {!isPrn && (
+              <View style={styles.timesContainer}>
+                <Text style={styles.label}>If Not Taken, Remind Me Again After</Text>
+                {renderEscalationChips(REMIND_AGAIN_OPTIONS, remindMinutes, setRemindMinutes)}
+                <Text style={[styles.label, styles.escalationLabel]}>Then Alert My Caregivers After</Text>
+                {renderEscalationChips(CAREGIVER_ALERT_OPTIONS, caregiverMinutes, setCaregiverMinutes)}
+                <Text style={styles.hintText}>
+                  Only caregivers with a profile on this phone are alerted. The dose also shows on their dashboard.
+                </Text>
+                {errors.escalation && <Text style={styles.errorText}>{errors.escalation}</Text>}
+              </View>
+            )}
+
+            {!isPrn && (
+              <View style={[styles.timesContainer, styles.switchRow]}>
+                <View style={styles.switchText}>
+                  <Text style={styles.label}>Critical Medicine</Text>
+                  <Text style={styles.hintText}>Reminders always alert with sound, even in quiet hours.</Text>
+                </View>
+                <Switch
+                  value={critical}
+                  onValueChange={setCritical}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                />
+              </View>
+            )}
+
+            <View style={styles.timesContainer}>
+              <Text style={styles.label}>Starts</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.dayRow}>
+                {startDays.map((day) => (
+                  <TouchableOpacity
+                    key={day}
+                    style={[styles.timeChip, startDate === day && styles.timeChipSelected]}
+                    onPress={() => setStartDate(day)}
+                  >
+                    <Text style={[styles.timeText, startDate === day && styles.timeTextSelected]}>
+                      {formatStartDay(day)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </View>
+
+            {!isPrn && planSteps.length === 0 && (
+              <View style={styles.timesContainer}>
+                <Text style={styles.label}>Course Duration</Text>
+                <View style={styles.timesGrid}>
+                  {courseDurations.map((duration) => (
+                    <TouchableOpacity
+                      key={duration.days}
+                      style={[
+                        styles.timeChip,
+                        courseDays === duration.days && styles.timeChipSelected,
+                      ]}
+                      onPress={() => setCourseDays(duration.days)}
+                    >
+                      <Text
+                        style={[
+                          styles.timeText,
+                          courseDays === duration.days && styles.timeTextSelected,
+                        ]}
+                      >
+                        {duration.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {!isPrn && (
+              <View style={styles.timesContainer}>
+                <Text style={styles.label}>Dose Plan (Tapering / Titration)</Text>
+                {planSteps.map((step, index) => (
+                  <View key={index} style={styles.planRow}>
+                    <Input
+                      label={`Step ${index + 1} Dosage`}
+                      placeholder="e.g., 40mg"
+                      value={step.dosage}
+                      onChangeText={(text) => updatePlanStep(index, 'dosage', text)}
+                      style={styles.planDosageInput}
+                    />
+                    <Input
+                      label="Days"
+                      placeholder="5"
+                      value={step.days}
+                      onChangeText={(text) => updatePlanStep(index, 'days', text)}
+                      keyboardType="numeric"
+                      style={styles.planDaysInput}
+                    />
+                    <TouchableOpacity
+                      style={styles.planRemove}
+                      onPress={() => setPlanSteps(planSteps.filter((_, i) => i !== index))}
+                    >
+                      <Ionicons name="close-circle" size={24} color={colors.error} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                {errors.plan && <Text style={styles.errorText}>{errors.plan}</Text>}
+                <Button
+                  title={planSteps.length === 0 ? 'Add Dose Plan' : 'Add Step'}
+                  onPress={() =>
+                    setPlanSteps([
+                      ...planSteps,
+                      { dosage: planSteps.length === 0 ? dosage : '', days: '5' },
+                    ])
+                  }
+                  variant="outline"
+                  size="small"
+                />
+              </View>
+            )}
+
             <Input
               label="Stock Quantity"
               placeholder="Enter number of units"
@@ -263,6 +706,21 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
     marginBottom: spacing.sm,
   },
+  escalationLabel: {
+    marginTop: spacing.md,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  switchText: {
+    flex: 1,
+  },
+  hintText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
   frequencyOptions: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -290,6 +748,30 @@ const styles = StyleSheet.create({
   timesContainer: {
     marginBottom: spacing.md,
   },
+  dayRow: {
+    gap: spacing.sm,
+  },
+  cycleRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  cycleInput: {
+    flex: 1,
+  },
+  planRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  planDosageInput: {
+    flex: 2,
+  },
+  planDaysInput: {
+    flex: 1,
+  },
+  planRemove: {
+    paddingTop: spacing.md,
+  },
   timesGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { colors, spacing, fontSize } from '../../utils/theme';
+import { PatientStackParamList } from '../../types';
+import { Card, CardTitle, CardSubtitle, Button, Input } from '../../components';
+import { useAuth } from '../../context/AuthContext';
+import { exportBackup, pickBackupFile, restoreBackup, RestoreMode } from '../../services/backupService';
+
+type BackupScreenProps = {
+  navigation: NativeStackNavigationProp<PatientStackParamList, 'Backup'>;
+};
+
+export const BackupScreen: React.FC<BackupScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const [exportPassword, setExportPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [importPassword, setImportPassword] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const handleExport = async () => {
+    if (!user) return;
+    if (exportPassword !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      await exportBackup(user.id, exportPassword || undefined);
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      Alert.alert('Error', 'Failed to export backup');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const runImport = async (mode: RestoreMode) => {
+    if (!user) return;
+
+    setImporting(true);
+    try {
+      const contents = await pickBackupFile();
+      if (contents === null) return;
+
+      const result = await restoreBackup(contents, mode, user.id, importPassword || undefined);
+      if (!result.success || !result.summary) {
+        Alert.alert('Restore Failed', result.error || 'Failed to restore backup');
+        return;
+      }
+
+      const { patientName, inserted, skipped } = result.summary;
+      const message = `Restored ${inserted} records from ${patientName}'s backup into your profile.` +
+        (skipped > 0 ? ` ${skipped} were already on this device.` : '');
+      Alert.alert('Backup Restored', message);
+    } catch (error) {
+      console.error('Error importing backup:', error);
+      Alert.alert('Error', 'Failed to read backup file');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleImport = () => {
+    Alert.alert(
+      'Import Backup',
+      'Merge adds records missing on this device. Replace deletes your current medicines and history first.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => runImport('merge') },
+        { text: 'Replace', style: 'destructive', onPress: () => runImport('replace') },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.header}>
+            <TouchableOpacity onPress={() => navigation.goBack()}>
+              <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+            </TouchableOpacity>
+            <Text style={styles.title}>Backup & Restore</Text>
+            <View style={{ width: 24 }} />
+          </View>
+
+          <Card style={styles.card}>
+            <CardTitle>Export Backup</CardTitle>
+            <CardSubtitle>
+              Saves your medicines, dose history, adherence and appointments to a file you can keep
+              or move to a new phone.
+            </CardSubtitle>
+            <Input
+              label="Password (optional)"
+              placeholder="Encrypt the backup file"
+              value={exportPassword}
+              onChangeText={setExportPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              style={styles.input}
+            />
+            {exportPassword.length > 0 && (
+              <Input
+                label="Confirm Password"
+                placeholder="Repeat the password"
+                value={confirmPassword}
+                onChangeText={setConfirmPassword}
+                secureTextEntry
+                autoCapitalize="none"
+              />
+            )}
+            <Text style={styles.hint}>
+              Without a password anyone with the file can read your health data.
+            </Text>
+            <Button title="Export" onPress={handleExport} loading={exporting} />
+          </Card>
+
+          <Card style={styles.card}>
+            <CardTitle>Restore Backup</CardTitle>
+            <CardSubtitle>
+              Import a backup file made on this or another device. Its records are added to your profile.
+            </CardSubtitle>
+            <Input
+              label="Backup Password"
+              placeholder="Only for encrypted backups"
+              value={importPassword}
+              onChangeText={setImportPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              style={styles.input}
+            />
+            <Button
+              title="Choose Backup File"
+              onPress={handleImport}
+              variant="outline"
+              loading={importing}
+            />
+          </Card>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  title: {
+    fontSize: fontSize.title,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  card: {
+    marginBottom: spacing.lg,
+  },
+  input: {
+    marginTop: spacing.md,
+  },
+  hint: {
+    fontSize: fontSize.xs,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+});
@@ -0,0 +1,304 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { colors, spacing, fontSize } from '../../utils/theme';
+import { PatientStackParamList, CareTeamMember, PermissionScope } from '../../types';
+import { Card, Button } from '../../components';
+import { useAuth } from '../../context/AuthContext';
+import { getCareTeam, unlinkCareTeamMember } from '../../services/careTeamService';
+import {
+  PERMISSION_SCOPES,
+  parsePermissions,
+  setRelationshipPermissions,
+} from '../../services/permissionService';
+import { parseDbTimestamp } from '../../utils/dateUtils';
+
+type CareTeamScreenProps = {
+  navigation: NativeStackNavigationProp<PatientStackParamList, 'CareTeam'>;
+};
+
+export const CareTeamScreen: React.FC<CareTeamScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<CareTeamMember[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadCareTeam = async () => {
+    if (!user) return;
+
+    try {
+      setMembers(await getCareTeam(user.id));
+    } catch (error) {
+      console.error('Error loading care team:', error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadCareTeam();
+    }, [user])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadCareTeam();
+    setRefreshing(false);
+  };
+
+  const handleUnlink = (member: CareTeamMember) => {
+    if (!user) return;
+
+    Alert.alert(
+      'Remove from Care Team',
+      `${member.name} will immediately lose access to your medicines and history.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await unlinkCareTeamMember(user.id, member.relationshipId);
+              await loadCareTeam();
+            } catch (error) {
+              console.error('Error unlinking care team member:', error);
+              Alert.alert('Error', 'Failed to remove care team member');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleTogglePermission = async (member: CareTeamMember, scope: PermissionScope, enabled: boolean) => {
+    if (!user) return;
+
+    const current = parsePermissions(member.permissions, member.role);
+    const scopes = enabled ? [...current, scope] : current.filter(s => s !== scope);
+    const permissions = JSON.stringify(scopes);
+
+    // Update in place so the switch doesn't flicker while saving
+    setMembers(prev => prev.map(m => (m.relationshipId === member.relationshipId ? { ...m, permissions } : m)));
+
+    try {
+      await setRelationshipPermissions(user.id, member.relationshipId, scopes);
+    } catch (error) {
+      console.error('Error updating permissions:', error);
+      Alert.alert('Error', 'Failed to update permissions');
+      await loadCareTeam();
+    }
+  };
+
+  const formatLinkedAt = (linkedAt: string) =>
+    parseDbTimestamp(linkedAt).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+  const caregivers = members.filter(m => m.role === 'caregiver');
+  const doctors = members.filter(m => m.role === 'doctor');
+
+  const renderMember = (member: CareTeamMember) => {
+    const granted = parsePermissions(member.permissions, member.role);
+
+    return (
+      <Card key={member.relationshipId} style={styles.memberCard}>
+        <View style={styles.memberRow}>
+          <View style={styles.memberIcon}>
+            <Ionicons
+              name={member.role === 'doctor' ? 'medkit' : 'person'}
+              size={22}
+              color={colors.secondary}
+            />
+          </View>
+          <View style={styles.memberInfo}>
+            <Text style={styles.memberName}>{member.name}</Text>
+            <Text style={styles.memberDetail}>
+              {member.relationshipType} · Linked {formatLinkedAt(member.linkedAt)}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => handleUnlink(member)} style={styles.unlinkButton}>
+            <Ionicons name="person-remove-outline" size={22} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.permissionList}>
+          {PERMISSION_SCOPES.map(({ scope, label }) => (
+            <View key={scope} style={styles.permissionRow}>
+              <Text style={styles.permissionLabel}>{label}</Text>
+              <Switch
+                value={granted.includes(scope)}
+                onValueChange={(enabled) => handleTogglePermission(member, scope, enabled)}
+                trackColor={{ false: colors.border, true: colors.primary }}
+              />
+            </View>
+          ))}
+        </View>
+      </Card>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Care Team</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+      >
+        {members.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <Ionicons name="people-outline" size={48} color={colors.textLight} />
+            <Text style={styles.emptyTitle}>No One Linked Yet</Text>
+            <Text style={styles.emptyText}>
+              Invite a caregiver or doctor to let them follow your medicines.
+            </Text>
+          </Card>
+        ) : (
+          <>
+            {caregivers.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Caregivers</Text>
+                {caregivers.map(renderMember)}
+              </>
+            )}
+            {doctors.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Doctors</Text>
+                {doctors.map(renderMember)}
+              </>
+            )}
+          </>
+        )}
+
+        <Button
+          title="Invite Caregiver or Doctor"
+          onPress={() => navigation.navigate('Invitations')}
+          variant="outline"
+          style={styles.inviteButton}
+        />
+
+        <View style={styles.bottomPadding} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  title: {
+    fontSize: fontSize.xl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  sectionTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  memberCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  memberIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.secondary + '15',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.md,
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  memberDetail: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  unlinkButton: {
+    padding: spacing.sm,
+  },
+  permissionList: {
+    marginTop: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    paddingTop: spacing.sm,
+  },
+  permissionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+  },
+  permissionLabel: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+  },
+  inviteButton: {
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.sm,
+  },
+  emptyCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+    alignItems: 'center',
+    padding: spacing.xl,
+  },
+  emptyTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginTop: spacing.md,
+  },
+  emptyText: {
+    fontSize: fontSize.md,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+  },
+  bottomPadding: {
+    height: spacing.xl,
+  },
+});
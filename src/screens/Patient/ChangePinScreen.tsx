@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { colors, spacing, fontSize } from '../../utils/theme';
+import { PatientStackParamList } from '../../types';
+import { Card, Button, Input } from '../../components';
+import { useAuth } from '../../context/AuthContext';
+import { setUserPin, validatePin } from '../../services/authService';
+
+type ChangePinScreenProps = {
+  navigation: NativeStackNavigationProp<PatientStackParamList, 'ChangePin'>;
+};
+
+type PinErrors = { currentPin?: string; newPin?: string; confirmPin?: string };
+
+export const ChangePinScreen: React.FC<ChangePinScreenProps> = ({ navigation }) => {
+  const { user, login } = useAuth();
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<PinErrors>({});
+
+  const validateForm = (): boolean => {
+    const newErrors: PinErrors = {};
+
+    if (!currentPin) {
+      newErrors.currentPin = 'Current PIN is required';
+    }
+
+    const pinError = validatePin(newPin);
+    if (pinError) {
+      newErrors.newPin = pinError;
+    } else if (newPin !== confirmPin) {
+      newErrors.confirmPin = 'PINs do not match';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSave = async () => {
+    if (!user || !validateForm()) return;
+
+    setLoading(true);
+    try {
+      const result = await setUserPin(user.id, newPin, currentPin);
+
+      if (result.success && result.user) {
+        await login(result.user);
+        Alert.alert('Success', 'Your PIN has been changed.', [
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ]);
+      } else {
+        setErrors({ currentPin: result.error });
+      }
+    } catch (error) {
+      console.error('Error changing PIN:', error);
+      Alert.alert('Error', 'Failed to change PIN');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardView}
+      >
+        <ScrollView
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.header}>
+            <TouchableOpacity onPress={() => navigation.goBack()}>
+              <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+            </TouchableOpacity>
+            <Text style={styles.title}>Change PIN</Text>
+            <View style={{ width: 24 }} />
+          </View>
+
+          <Card>
+            <Input
+              label="Current PIN"
+              placeholder="Enter your current PIN"
+              value={currentPin}
+              onChangeText={setCurrentPin}
+              error={errors.currentPin}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+
+            <Input
+              label="New PIN"
+              placeholder="At least 4 digits or a passphrase"
+              value={newPin}
+              onChangeText={setNewPin}
+              error={errors.newPin}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+
+            <Input
+              label="Confirm New PIN"
+              placeholder="Enter the new PIN again"
+              value={confirmPin}
+              onChangeText={setConfirmPin}
+              error={errors.confirmPin}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+
+            <Button title="Save PIN" onPress={handleSave} loading={loading} />
+          </Card>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: spacing.lg,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  title: {
+    fontSize: fontSize.title,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+});
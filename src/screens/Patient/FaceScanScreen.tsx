@@ -13,6 +13,7 @@ import { colors, spacing, fontSize, borderRadius, shadows } from '../../utils/th
 import { PatientStackParamList } from '../../types';
 import { Card, Button } from '../../components';
 import { useAuth } from '../../context/AuthContext';
+import { saveFaceScan } from '../../services/faceScanService';
 
 type FaceScanScreenProps = {
   navigation: NativeStackNavigationProp<PatientStackParamList, 'FaceScan'>;
@@ -30,7 +31,7 @@ export const FaceScanScreen: React.FC<FaceScanScreenProps> = ({ navigation }) =>
     setConfidence(null);
 
     // Simulate face scan
-    setTimeout(() => {
+    setTimeout(async () => {
       setIsScanning(false);
       // Simulate random result for demo
       const results = ['Healthy', 'Fatigued', 'Normal'];
@@ -40,6 +41,14 @@ export const FaceScanScreen: React.FC<FaceScanScreenProps> = ({ navigation }) =>
       setScanResult(randomResult);
       setConfidence(randomConfidence);
 
+      if (user) {
+        try {
+          await saveFaceScan(user.id, randomResult, randomConfidence);
+        } catch (error) {
+          console.error('Error saving face scan:', error);
+        }
+      }
+
       Alert.alert(
         'Scan Complete',
         `Result: ${randomResult}\nConfidence: ${randomConfidence}%`,
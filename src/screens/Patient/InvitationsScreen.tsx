@@ -0,0 +1,382 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  Share,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import QRCode from 'react-native-qrcode-svg';
+import { colors, spacing, fontSize, borderRadius } from '../../utils/theme';
+import { PatientStackParamList, InvitationRole, InvitationStatus } from '../../types';
+import { Card, Button } from '../../components';
+import { useAuth } from '../../context/AuthContext';
+import {
+  createInvitation,
+  getInvitations,
+  revokeInvitation,
+  InvitationView,
+  DEFAULT_INVITATION_HOURS,
+} from '../../services/invitationService';
+
+type InvitationsScreenProps = {
+  navigation: NativeStackNavigationProp<PatientStackParamList, 'Invitations'>;
+};
+
+export const InvitationsScreen: React.FC<InvitationsScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const [invitations, setInvitations] = useState<InvitationView[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [creating, setCreating] = useState<InvitationRole | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadInvitations = async () => {
+    if (!user) return;
+
+    try {
+      setInvitations(await getInvitations(user.id));
+    } catch (error) {
+      console.error('Error loading invitations:', error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadInvitations();
+    }, [user])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadInvitations();
+    setRefreshing(false);
+  };
+
+  const handleCreate = async (role: InvitationRole) => {
+    if (!user) return;
+
+    setCreating(role);
+    try {
+      const invitation = await createInvitation(user.id, role);
+      setSelectedId(invitation.id);
+      await loadInvitations();
+    } catch (error) {
+      console.error('Error creating invitation:', error);
+      Alert.alert('Error', 'Failed to create invitation');
+    } finally {
+      setCreating(null);
+    }
+  };
+
+  const handleShare = async (invitation: InvitationView) => {
+    try {
+      await Share.share({
+        message:
+          `Join me on OwnMediCare as my ${invitation.role}. ` +
+          `Register with invitation code ${invitation.code} or open ${invitation.qrPayload}. ` +
+          `It expires ${formatDateTime(invitation.expiresAt)} and works once.`,
+      });
+    } catch (error) {
+      Alert.alert('Error', 'Failed to share invitation');
+    }
+  };
+
+  const handleRevoke = (invitation: InvitationView) => {
+    if (!user) return;
+
+    Alert.alert(
+      'Revoke Invitation',
+      `Code ${invitation.code} will stop working immediately.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await revokeInvitation(user.id, invitation.id);
+              if (selectedId === invitation.id) setSelectedId(null);
+              await loadInvitations();
+            } catch (error) {
+              console.error('Error revoking invitation:', error);
+              Alert.alert('Error', 'Failed to revoke invitation');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const getStatusColor = (status: InvitationStatus) => {
+    switch (status) {
+      case 'pending':
+        return colors.warning;
+      case 'accepted':
+        return colors.success;
+      case 'revoked':
+        return colors.error;
+      default:
+        return colors.textSecondary;
+    }
+  };
+
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const pending = invitations.filter(i => i.status === 'pending');
+  const history = invitations.filter(i => i.status !== 'pending');
+  const selected = pending.find(i => i.id === selectedId);
+
+  const renderInvitation = (invitation: InvitationView) => (
+    <Card
+      key={invitation.id}
+      style={styles.invitationCard}
+      onPress={invitation.status === 'pending' ? () => setSelectedId(invitation.id) : undefined}
+    >
+      <View style={styles.invitationHeader}>
+        <View style={styles.roleRow}>
+          <Ionicons
+            name={invitation.role === 'doctor' ? 'medkit' : 'people'}
+            size={20}
+            color={colors.secondary}
+          />
+          <Text style={styles.codeText}>{invitation.code}</Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(invitation.status) }]}>
+          <Text style={styles.statusText}>{invitation.status}</Text>
+        </View>
+      </View>
+
+      <Text style={styles.detailText}>
+        {invitation.role === 'doctor' ? 'Doctor' : 'Caregiver'} ·{' '}
+        {invitation.status === 'accepted' && invitation.acceptedAt
+          ? `Accepted ${formatDateTime(invitation.acceptedAt)}`
+          : `${invitation.status === 'expired' ? 'Expired' : 'Expires'} ${formatDateTime(invitation.expiresAt)}`}
+      </Text>
+
+      {invitation.status === 'pending' && (
+        <View style={styles.actionRow}>
+          <TouchableOpacity onPress={() => handleShare(invitation)} style={styles.actionButton}>
+            <Ionicons name="share-social" size={18} color={colors.primary} />
+            <Text style={styles.actionText}>Share</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleRevoke(invitation)} style={styles.actionButton}>
+            <Ionicons name="close-circle" size={18} color={colors.error} />
+            <Text style={[styles.actionText, { color: colors.error }]}>Revoke</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </Card>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Invitations</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+      >
+        <Text style={styles.introText}>
+          Each invitation links one person, works once and expires after {DEFAULT_INVITATION_HOURS} hours.
+        </Text>
+
+        <View style={styles.createRow}>
+          <Button
+            title="Invite Caregiver"
+            onPress={() => handleCreate('caregiver')}
+            loading={creating === 'caregiver'}
+            style={styles.createButton}
+          />
+          <Button
+            title="Invite Doctor"
+            onPress={() => handleCreate('doctor')}
+            variant="secondary"
+            loading={creating === 'doctor'}
+            style={styles.createButton}
+          />
+        </View>
+
+        {selected && (
+          <Card style={styles.qrCard}>
+            <Text style={styles.qrTitle}>
+              Scan to join as {selected.role === 'doctor' ? 'doctor' : 'caregiver'}
+            </Text>
+            <View style={styles.qrContainer}>
+              <QRCode value={selected.qrPayload} size={180} color={colors.textPrimary} />
+            </View>
+            <Text style={styles.qrCode}>{selected.code}</Text>
+            <Text style={styles.detailText}>Expires {formatDateTime(selected.expiresAt)}</Text>
+          </Card>
+        )}
+
+        <Text style={styles.sectionTitle}>Pending</Text>
+        {pending.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <Ionicons name="mail-outline" size={48} color={colors.textLight} />
+            <Text style={styles.emptyText}>No open invitations.</Text>
+          </Card>
+        ) : (
+          pending.map(renderInvitation)
+        )}
+
+        {history.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>History</Text>
+            {history.map(renderInvitation)}
+          </>
+        )}
+
+        <View style={styles.bottomPadding} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  title: {
+    fontSize: fontSize.xl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  introText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  createRow: {
+    flexDirection: 'row',
+    paddingHorizontal: spacing.lg,
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  createButton: {
+    flex: 1,
+  },
+  qrCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.lg,
+    alignItems: 'center',
+  },
+  qrTitle: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  qrContainer: {
+    padding: spacing.md,
+    backgroundColor: colors.white,
+    borderRadius: borderRadius.md,
+    marginVertical: spacing.md,
+  },
+  qrCode: {
+    fontSize: fontSize.xxl,
+    fontWeight: 'bold',
+    color: colors.primary,
+    letterSpacing: 2,
+  },
+  sectionTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  invitationCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  invitationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  roleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  codeText: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    letterSpacing: 1,
+  },
+  statusBadge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+  },
+  statusText: {
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+    color: colors.white,
+    textTransform: 'capitalize',
+  },
+  detailText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: spacing.lg,
+    marginTop: spacing.md,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  actionText: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  emptyCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+    alignItems: 'center',
+    padding: spacing.xl,
+  },
+  emptyText: {
+    fontSize: fontSize.md,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+  },
+  bottomPadding: {
+    height: spacing.xl,
+  },
+});
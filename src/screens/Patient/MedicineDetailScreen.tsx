@@ -13,7 +13,7 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
 import { useFocusEffect } from '@react-navigation/native';
 import { colors, spacing, fontSize, borderRadius, shadows } from '../../utils/theme';
-import { PatientStackParamList, Medicine, MedicineLog } from '../../types';
+import { PatientStackParamList, Medicine, MedicineLog, DosePlanStep, StatusActor } from '../../types';
 import { Card, Button } from '../../components';
 import { useAuth } from '../../context/AuthContext';
 import {
@@ -23,7 +23,12 @@ import {
   markMedicineMissed,
   markMedicineSkipped,
   updateMedicineStock,
+  archiveMedicine,
 } from '../../services/medicineService';
+import { getDosePlan, getDoseForDate, getPlanProgress } from '../../services/dosePlanService';
+import { checkPrnDose, logPrnDose, PrnDoseCheck } from '../../services/prnService';
+import { describeEscalationPolicy, getEscalationPolicy } from '../../services/escalationService';
+import { fromDateKey } from '../../utils/dateUtils';
 
 type MedicineDetailScreenProps = {
   navigation: NativeStackNavigationProp<PatientStackParamList, 'MedicineDetail'>;
@@ -36,17 +41,23 @@ export const MedicineDetailScreen: React.FC<MedicineDetailScreenProps> = ({
 }) => {
   const { medicineId } = route.params;
   const { user } = useAuth();
+  const actor: StatusActor = { source: 'patient', userId: user?.id };
   const [medicine, setMedicine] = useState<Medicine | null>(null);
   const [logs, setLogs] = useState<MedicineLog[]>([]);
+  const [plan, setPlan] = useState<DosePlanStep[]>([]);
+  const [prnStatus, setPrnStatus] = useState<PrnDoseCheck | null>(null);
 
   const loadData = async () => {
     try {
-      const [med, medicineLogs] = await Promise.all([
-        getMedicineById(medicineId),
-        getLogsByMedicine(medicineId),
+      const [med, medicineLogs, dosePlan] = await Promise.all([
+        getMedicineById(medicineId, actor),
+        getLogsByMedicine(medicineId, actor),
+        getDosePlan(medicineId),
       ]);
       setMedicine(med);
       setLogs(medicineLogs);
+      setPlan(dosePlan);
+      setPrnStatus(med?.isPrn ? await checkPrnDose(med) : null);
     } catch (error) {
       console.error('Error loading medicine:', error);
     }
@@ -60,9 +71,9 @@ export const MedicineDetailScreen: React.FC<MedicineDetailScreenProps> = ({
 
   const handleTakeMedicine = async (logId: number) => {
     try {
-      await markMedicineTaken(logId);
+      await markMedicineTaken(logId, actor);
       if (medicine && medicine.stock > 0) {
-        await updateMedicineStock(medicineId, medicine.stock - 1);
+        await updateMedicineStock(medicineId, medicine.stock - 1, actor);
       }
       loadData();
       Alert.alert('Success', 'Medicine marked as taken!');
@@ -71,6 +82,35 @@ export const MedicineDetailScreen: React.FC<MedicineDetailScreenProps> = ({
     }
   };
 
+  const takePrnDose = async (prnMedicine: Medicine) => {
+    try {
+      await logPrnDose(prnMedicine, actor);
+      loadData();
+      Alert.alert('Success', 'Dose recorded!');
+    } catch (error) {
+      Alert.alert('Error', 'Failed to record dose');
+    }
+  };
+
+  const handleTakePrnDose = async () => {
+    if (!medicine) return;
+
+    try {
+      const check = await checkPrnDose(medicine);
+      if (check.allowed) {
+        await takePrnDose(medicine);
+        return;
+      }
+
+      Alert.alert('Are you sure?', check.warnings.join('\n\n'), [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Take Anyway', style: 'destructive', onPress: () => takePrnDose(medicine) },
+      ]);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to check dose limits');
+    }
+  };
+
   const handleSkipMedicine = async (logId: number) => {
     Alert.alert('Skip Medicine', 'Are you sure you want to skip this dose?', [
       { text: 'Cancel', style: 'cancel' },
@@ -78,7 +118,7 @@ export const MedicineDetailScreen: React.FC<MedicineDetailScreenProps> = ({
         text: 'Skip',
         onPress: async () => {
           try {
-            await markMedicineSkipped(logId, 'Skipped by user');
+            await markMedicineSkipped(logId, actor, 'Skipped by user');
             loadData();
           } catch (error) {
             Alert.alert('Error', 'Failed to skip medicine');
@@ -90,13 +130,35 @@ export const MedicineDetailScreen: React.FC<MedicineDetailScreenProps> = ({
 
   const handleMissedMedicine = async (logId: number) => {
     try {
-      await markMedicineMissed(logId);
+      await markMedicineMissed(logId, actor);
       loadData();
     } catch (error) {
       Alert.alert('Error', 'Failed to mark as missed');
     }
   };
 
+  const handleStopCourse = () => {
+    Alert.alert(
+      'Stop Medicine',
+      'Stop taking this medicine? Its history will stay under Past Medicines.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Stop',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await archiveMedicine(medicineId, actor);
+              loadData();
+            } catch (error) {
+              Alert.alert('Error', 'Failed to stop medicine');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   if (!medicine) {
     return (
       <SafeAreaView style={styles.container}>
@@ -109,6 +171,14 @@ export const MedicineDetailScreen: React.FC<MedicineDetailScreenProps> = ({
 
   const times = JSON.parse(medicine.times || '[]');
   const isLowStock = medicine.stock <= 5;
+  const planProgress = getPlanProgress(plan);
+  const isActive = medicine.status === 'active';
+
+  const formatTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  const formatPlanDate = (dateKey: string) =>
+    fromDateKey(dateKey).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 
   return (
     <SafeAreaView style={styles.container}>
@@ -128,7 +198,7 @@ export const MedicineDetailScreen: React.FC<MedicineDetailScreenProps> = ({
             </View>
             <View style={styles.medicineInfo}>
               <Text style={styles.medicineName}>{medicine.name}</Text>
-              <Text style={styles.medicineDosage}>{medicine.dosage}</Text>
+              <Text style={styles.medicineDosage}>{getDoseForDate(medicine, plan, new Date())}</Text>
             </View>
           </View>
 
@@ -138,12 +208,52 @@ export const MedicineDetailScreen: React.FC<MedicineDetailScreenProps> = ({
             <Text style={styles.detailValue}>{medicine.frequency}</Text>
           </View>
 
+          {medicine.isPrn ? (
+            <View style={styles.detailRow}>
+              <Ionicons name="time" size={20} color={colors.textSecondary} />
+              <Text style={styles.detailLabel}>Limits:</Text>
+              <Text style={styles.detailValue}>
+                {medicine.minIntervalMinutes
+                  ? `${medicine.minIntervalMinutes / 60}h apart`
+                  : 'No minimum interval'}
+                {medicine.maxDailyDoses ? ` · max ${medicine.maxDailyDoses} / 24h` : ''}
+              </Text>
+            </View>
+          ) : (
+            <View style={styles.detailRow}>
+              <Ionicons name="time" size={20} color={colors.textSecondary} />
+              <Text style={styles.detailLabel}>Times:</Text>
+              <Text style={styles.detailValue}>{times.join(', ')}</Text>
+            </View>
+          )}
+
           <View style={styles.detailRow}>
-            <Ionicons name="time" size={20} color={colors.textSecondary} />
-            <Text style={styles.detailLabel}>Times:</Text>
-            <Text style={styles.detailValue}>{times.join(', ')}</Text>
+            <Ionicons name="calendar" size={20} color={colors.textSecondary} />
+            <Text style={styles.detailLabel}>Course:</Text>
+            <Text style={styles.detailValue}>
+              {medicine.startDate ? formatPlanDate(medicine.startDate) : 'Started'}
+              {medicine.endDate ? ` – ${formatPlanDate(medicine.endDate)}` : ' · Ongoing'}
+              {medicine.status === 'completed' && ' (Completed)'}
+              {medicine.status === 'archived' && ' (Stopped)'}
+            </Text>
           </View>
 
+          {!medicine.isPrn && (
+            <View style={styles.detailRow}>
+              <Ionicons name="hourglass" size={20} color={colors.textSecondary} />
+              <Text style={styles.detailLabel}>Missed after:</Text>
+              <Text style={styles.detailValue}>{medicine.graceMinutes} min</Text>
+            </View>
+          )}
+
+          {!medicine.isPrn && (
+            <View style={styles.detailRow}>
+              <Ionicons name="people" size={20} color={colors.textSecondary} />
+              <Text style={styles.detailLabel}>If not taken:</Text>
+              <Text style={styles.detailValue}>{describeEscalationPolicy(getEscalationPolicy(medicine))}</Text>
+            </View>
+          )}
+
           <View style={styles.detailRow}>
             <Ionicons name="cube" size={20} color={colors.textSecondary} />
             <Text style={styles.detailLabel}>Stock:</Text>
@@ -160,36 +270,108 @@ export const MedicineDetailScreen: React.FC<MedicineDetailScreenProps> = ({
           )}
         </Card>
 
-        <Card style={styles.actionCard}>
-          <Text style={styles.sectionTitle}>Quick Actions</Text>
-          <View style={styles.actionButtons}>
+        {plan.length > 0 && (
+          <Card style={styles.actionCard}>
+            <Text style={styles.sectionTitle}>Dose Plan</Text>
+            {planProgress.completed ? (
+              <Text style={styles.planNote}>
+                Plan completed on {formatPlanDate(plan[plan.length - 1].endDate)}
+              </Text>
+            ) : (
+              <>
+                {planProgress.current && (
+                  <View style={[styles.planStep, styles.planStepCurrent]}>
+                    <Text style={styles.planStepDose}>{planProgress.current.dosage}</Text>
+                    <Text style={styles.planStepDates}>
+                      Now · until {formatPlanDate(planProgress.current.endDate)}
+                    </Text>
+                  </View>
+                )}
+                {planProgress.upcoming.map((step) => (
+                  <View key={step.id} style={styles.planStep}>
+                    <Text style={styles.planStepDose}>{step.dosage}</Text>
+                    <Text style={styles.planStepDates}>
+                      {formatPlanDate(step.startDate)} – {formatPlanDate(step.endDate)}
+                    </Text>
+                  </View>
+                ))}
+                <Text style={styles.planNote}>
+                  Course ends on {formatPlanDate(plan[plan.length - 1].endDate)}
+                </Text>
+              </>
+            )}
+          </Card>
+        )}
+
+        {isActive && medicine.isPrn === 1 && prnStatus && (
+          <Card style={styles.actionCard}>
+            <Text style={styles.sectionTitle}>Take As Needed</Text>
+            <View style={styles.prnRow}>
+              <Text style={styles.detailLabel}>Last 24 hours:</Text>
+              <Text style={styles.detailValue}>
+                {prnStatus.dosesLast24h}
+                {medicine.maxDailyDoses ? ` of ${medicine.maxDailyDoses}` : ''} doses
+              </Text>
+            </View>
+            <View style={styles.prnRow}>
+              <Text style={styles.detailLabel}>Last taken:</Text>
+              <Text style={styles.detailValue}>
+                {prnStatus.lastTakenAt ? formatTime(prnStatus.lastTakenAt) : 'Not in the last 24 hours'}
+              </Text>
+            </View>
+            {prnStatus.nextAllowedAt && (
+              <Text style={styles.prnWarning}>
+                Next dose allowed from {formatTime(prnStatus.nextAllowedAt)}
+              </Text>
+            )}
+            <Button title="Take Now" onPress={handleTakePrnDose} style={styles.prnButton} />
             <Button
-              title="Take Now"
-              onPress={() => {
-                const pendingLog = logs.find(l => l.status === 'pending');
-                if (pendingLog) {
-                  handleTakeMedicine(pendingLog.id);
-                } else {
-                  Alert.alert('No Pending Dose', 'No pending dose to take right now');
-                }
-              }}
-              style={styles.actionButton}
+              title="Stop Medicine"
+              variant="outline"
+              onPress={handleStopCourse}
+              style={styles.stopButton}
             />
+          </Card>
+        )}
+
+        {isActive && !medicine.isPrn && (
+          <Card style={styles.actionCard}>
+            <Text style={styles.sectionTitle}>Quick Actions</Text>
+            <View style={styles.actionButtons}>
+              <Button
+                title="Take Now"
+                onPress={() => {
+                  const pendingLog = logs.find(l => l.status === 'pending');
+                  if (pendingLog) {
+                    handleTakeMedicine(pendingLog.id);
+                  } else {
+                    Alert.alert('No Pending Dose', 'No pending dose to take right now');
+                  }
+                }}
+                style={styles.actionButton}
+              />
+              <Button
+                title="Skip"
+                variant="secondary"
+                onPress={() => {
+                  const pendingLog = logs.find(l => l.status === 'pending');
+                  if (pendingLog) {
+                    handleSkipMedicine(pendingLog.id);
+                  } else {
+                    Alert.alert('No Pending Dose', 'No pending dose to skip');
+                  }
+                }}
+                style={styles.actionButton}
+              />
+            </View>
             <Button
-              title="Skip"
-              variant="secondary"
-              onPress={() => {
-                const pendingLog = logs.find(l => l.status === 'pending');
-                if (pendingLog) {
-                  handleSkipMedicine(pendingLog.id);
-                } else {
-                  Alert.alert('No Pending Dose', 'No pending dose to skip');
-                }
-              }}
-              style={styles.actionButton}
+              title="Stop Medicine"
+              variant="outline"
+              onPress={handleStopCourse}
+              style={styles.stopButton}
             />
-          </View>
-        </Card>
+          </Card>
+        )}
 
         <Card style={styles.historyCard}>
           <Text style={styles.sectionTitle}>Recent Activity</Text>
@@ -234,8 +416,20 @@ export const MedicineDetailScreen: React.FC<MedicineDetailScreenProps> = ({
                     {log.status.charAt(0).toUpperCase() + log.status.slice(1)}
                   </Text>
                   <Text style={styles.logTime}>
-                    {new Date(log.scheduledTime).toLocaleString()}
+                    {new Date(log.takenAt && log.isPrn ? log.takenAt : log.scheduledTime).toLocaleString()}
                   </Text>
+                  {log.statusSource === 'missed_dose_sweep' && (
+                    <Text style={styles.logSource}>
+                      Auto-marked after {medicine.graceMinutes} min grace window
+                    </Text>
+                  )}
+                  {log.escalationStage && (
+                    <Text style={styles.logSource}>
+                      {log.escalationStage === 'caregivers_notified'
+                        ? 'Caregivers were alerted'
+                        : 'Reminded again'}
+                    </Text>
+                  )}
                 </View>
               </View>
             ))
@@ -315,6 +509,7 @@ const styles = StyleSheet.create({
     fontSize: fontSize.md,
     fontWeight: '600',
     color: colors.textPrimary,
+    flexShrink: 1,
   },
   lowStock: {
     color: colors.error,
@@ -345,6 +540,33 @@ const styles = StyleSheet.create({
     color: colors.textPrimary,
     marginBottom: spacing.md,
   },
+  planStep: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+  planStepCurrent: {
+    backgroundColor: colors.primary + '10',
+    borderRadius: borderRadius.md,
+  },
+  planStepDose: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  planStepDates: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+  planNote: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: spacing.sm,
+  },
   actionButtons: {
     flexDirection: 'row',
     gap: spacing.md,
@@ -352,6 +574,22 @@ const styles = StyleSheet.create({
   actionButton: {
     flex: 1,
   },
+  prnRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  prnWarning: {
+    fontSize: fontSize.sm,
+    color: colors.warning,
+    marginBottom: spacing.sm,
+  },
+  prnButton: {
+    marginTop: spacing.sm,
+  },
+  stopButton: {
+    marginTop: spacing.md,
+  },
   historyCard: {
     marginHorizontal: spacing.lg,
     marginBottom: spacing.md,
@@ -390,6 +628,11 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     marginTop: 2,
   },
+  logSource: {
+    fontSize: fontSize.xs,
+    color: colors.textLight,
+    marginTop: 2,
+  },
   bottomPadding: {
     height: spacing.xl,
   },
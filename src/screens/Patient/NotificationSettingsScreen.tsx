@@ -0,0 +1,263 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { colors, spacing, fontSize, borderRadius } from '../../utils/theme';
+import { Medicine, PatientStackParamList } from '../../types';
+import { Card, NotificationPreferencesCard } from '../../components';
+import { useAuth } from '../../context/AuthContext';
+import { getUserById } from '../../services/authService';
+import { getMedicinesByPatient } from '../../services/medicineService';
+import { actorFor } from '../../services/permissionService';
+import { DEFAULT_REMINDER_GROUP_MINUTES, getReminderGroupMinutes } from '../../services/notificationService';
+import {
+  formatReminderGroupMinutes,
+  getNotificationPreferences,
+  NotificationPreferences,
+  REMINDER_GROUP_OPTIONS,
+  setMedicineCritical,
+  setNotificationPreferences,
+  setReminderGroupMinutes,
+} from '../../services/notificationSettingsService';
+
+// Also registered in the caregiver and doctor stacks
+type NotificationSettingsScreenProps = {
+  navigation: NativeStackNavigationProp<Pick<PatientStackParamList, 'NotificationSettings'>, 'NotificationSettings'>;
+};
+
+export const NotificationSettingsScreen: React.FC<NotificationSettingsScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences>({ alertStyle: 'sound' });
+  const [groupMinutes, setGroupMinutes] = useState(DEFAULT_REMINDER_GROUP_MINUTES);
+  const [medicines, setMedicines] = useState<Medicine[]>([]);
+
+  const loadSettings = async () => {
+    if (!user) return;
+
+    try {
+      const profile = await getUserById(user.id);
+      setPreferences(getNotificationPreferences(profile ?? user));
+      setGroupMinutes(getReminderGroupMinutes(profile ?? user));
+      if (user.role === 'patient') {
+        setMedicines((await getMedicinesByPatient(user.id, actorFor(user))).filter(medicine => !medicine.isPrn));
+      }
+    } catch (error) {
+      console.error('Error loading notification settings:', error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSettings();
+    }, [user])
+  );
+
+  const handlePreferencesChange = async (next: NotificationPreferences) => {
+    if (!user) return;
+
+    const previous = preferences;
+    setPreferences(next);
+    try {
+      const result = await setNotificationPreferences(user, next);
+      if (!result.success) {
+        setPreferences(previous);
+        Alert.alert('Could Not Save', result.error || 'Failed to save your notification settings.');
+      }
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      setPreferences(previous);
+      Alert.alert('Error', 'Failed to save your notification settings.');
+    }
+  };
+
+  const handleGroupMinutesChange = async (minutes: number) => {
+    if (!user) return;
+
+    const previous = groupMinutes;
+    setGroupMinutes(minutes);
+    try {
+      const result = await setReminderGroupMinutes(user, minutes);
+      if (!result.success) {
+        setGroupMinutes(previous);
+        Alert.alert('Could Not Save', result.error || 'Failed to save your notification settings.');
+      }
+    } catch (error) {
+      console.error('Error saving reminder grouping:', error);
+      setGroupMinutes(previous);
+      Alert.alert('Error', 'Failed to save your notification settings.');
+    }
+  };
+
+  const handleToggleCritical = async (medicine: Medicine, critical: boolean) => {
+    if (!user) return;
+
+    setMedicines(current =>
+      current.map(m => (m.id === medicine.id ? { ...m, isCritical: critical ? 1 : 0 } : m))
+    );
+    try {
+      await setMedicineCritical(medicine.id, critical, actorFor(user));
+    } catch (error) {
+      console.error('Error updating critical medicine:', error);
+      Alert.alert('Error', 'Failed to update the medicine.');
+      loadSettings();
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Notifications</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView showsVerticalScrollIndicator={false}>
+        <NotificationPreferencesCard
+          preferences={preferences}
+          onChange={handlePreferencesChange}
+          style={styles.card}
+        />
+
+        {user?.role === 'patient' && (
+          <>
+            <Card style={styles.card}>
+              <Text style={styles.cardTitle}>Group Reminders</Text>
+              <Text style={styles.hintText}>
+                Medicines due within this window come in one reminder. Take all of them from the
+                notification, or open the app to take or skip them one by one.
+              </Text>
+              <View style={styles.options}>
+                {REMINDER_GROUP_OPTIONS.map((minutes) => (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[styles.chip, groupMinutes === minutes && styles.chipSelected]}
+                    onPress={() => handleGroupMinutesChange(minutes)}
+                  >
+                    <Text style={[styles.chipText, groupMinutes === minutes && styles.chipTextSelected]}>
+                      {formatReminderGroupMinutes(minutes)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </Card>
+
+            <Card style={styles.card}>
+              <Text style={styles.cardTitle}>Critical Medicines</Text>
+              <Text style={styles.hintText}>
+                Reminders for critical medicines, like insulin or anti-epileptics, always alert with
+                sound, even in quiet hours. So do your caregivers' alerts about them.
+              </Text>
+              {medicines.length === 0 ? (
+                <Text style={styles.emptyText}>No scheduled medicines yet.</Text>
+              ) : (
+                medicines.map((medicine) => (
+                  <View key={medicine.id} style={styles.medicineRow}>
+                    <View style={styles.medicineInfo}>
+                      <Text style={styles.medicineName}>{medicine.name}</Text>
+                      <Text style={styles.medicineDosage}>{medicine.dosage}</Text>
+                    </View>
+                    <Switch
+                      value={!!medicine.isCritical}
+                      onValueChange={(critical) => handleToggleCritical(medicine, critical)}
+                      trackColor={{ false: colors.border, true: colors.primary }}
+                    />
+                  </View>
+                ))
+              )}
+            </Card>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  title: {
+    fontSize: fontSize.xl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  card: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  cardTitle: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  hintText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.secondary,
+    borderColor: colors.secondary,
+  },
+  chipText: {
+    fontSize: fontSize.sm,
+    color: colors.textPrimary,
+  },
+  chipTextSelected: {
+    color: colors.white,
+  },
+  emptyText: {
+    fontSize: fontSize.sm,
+    color: colors.textLight,
+  },
+  medicineRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+  },
+  medicineInfo: {
+    flex: 1,
+  },
+  medicineName: {
+    fontSize: fontSize.md,
+    color: colors.textPrimary,
+  },
+  medicineDosage: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+  },
+});
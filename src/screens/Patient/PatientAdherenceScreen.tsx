@@ -18,6 +18,7 @@ import { Card } from '../../components';
 import { useAuth } from '../../context/AuthContext';
 import { getWeeklyAdherence, getMonthlyAdherence, calculateAdherenceDetails } from '../../services/medicineService';
 import { getAdaptiveTimingSummary } from '../../services/adaptiveTimeService';
+import { actorFor } from '../../services/permissionService';
 
 type PatientAdherenceScreenProps = {
   navigation: NativeStackNavigationProp<PatientStackParamList, 'PatientAdherence'>;
@@ -43,9 +44,10 @@ export const PatientAdherenceScreen: React.FC<PatientAdherenceScreenProps> = ({
     if (!user) return;
 
     try {
+      const actor = actorFor(user);
       const [weekly, details, adaptive] = await Promise.all([
-        period === 'weekly' ? getWeeklyAdherence(user.id) : getMonthlyAdherence(user.id),
-        calculateAdherenceDetails(user.id),
+        period === 'weekly' ? getWeeklyAdherence(user.id, actor) : getMonthlyAdherence(user.id, actor),
+        calculateAdherenceDetails(user.id, actor),
         getAdaptiveTimingSummary(user.id),
       ]);
       
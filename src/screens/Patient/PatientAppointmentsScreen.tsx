@@ -0,0 +1,329 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  Share,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { colors, spacing, fontSize, borderRadius } from '../../utils/theme';
+import { PatientStackParamList, AppointmentWithPeople } from '../../types';
+import { Card, AppointmentRemindersCard } from '../../components';
+import { useAuth } from '../../context/AuthContext';
+import { getUserById } from '../../services/authService';
+import {
+  buildMedicineList,
+  cancelAppointment,
+  formatAppointmentTime,
+  getAppointmentReminders,
+  getPastAppointments,
+  getUpcomingAppointments,
+  setAppointmentReminders,
+} from '../../services/appointmentService';
+import { actorFor } from '../../services/permissionService';
+import { fromDateKey, toDateKey } from '../../utils/dateUtils';
+
+type PatientAppointmentsScreenProps = {
+  navigation: NativeStackNavigationProp<PatientStackParamList, 'PatientAppointments'>;
+};
+
+export const PatientAppointmentsScreen: React.FC<PatientAppointmentsScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const [upcoming, setUpcoming] = useState<AppointmentWithPeople[]>([]);
+  const [past, setPast] = useState<AppointmentWithPeople[]>([]);
+  const [reminders, setReminders] = useState<number[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadAppointments = async () => {
+    if (!user) return;
+
+    try {
+      const [upcomingAppointments, pastAppointments, profile] = await Promise.all([
+        getUpcomingAppointments(user.id),
+        getPastAppointments(user.id),
+        getUserById(user.id),
+      ]);
+      setUpcoming(upcomingAppointments);
+      setPast(pastAppointments);
+      setReminders(getAppointmentReminders(profile ?? user));
+    } catch (error) {
+      console.error('Error loading appointments:', error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadAppointments();
+    }, [user])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadAppointments();
+    setRefreshing(false);
+  };
+
+  const formatDate = (dateString: string) => {
+    if (dateString === toDateKey(new Date())) return 'Today';
+    return fromDateKey(dateString).toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const handleRemindersChange = async (minutes: number[]) => {
+    if (!user) return;
+    setReminders(minutes);
+    try {
+      await setAppointmentReminders(user, minutes);
+    } catch (error) {
+      console.error('Error saving appointment reminders:', error);
+      Alert.alert('Error', 'Failed to save your reminder settings.');
+    }
+  };
+
+  const handleShareMedicineList = async (appointment: AppointmentWithPeople) => {
+    if (!user) return;
+    const medicineList = await buildMedicineList(user.id, actorFor(user));
+    await Share.share({
+      title: 'My Medicine List',
+      message: `Medicines for ${user.name}, visit on ${formatDate(appointment.date)} at ${appointment.time}:\n${medicineList}`,
+    });
+  };
+
+  const handleCancel = (appointment: AppointmentWithPeople) => {
+    Alert.alert(
+      'Cancel Appointment',
+      `Cancel your visit with Dr. ${appointment.doctorName} on ${formatDate(appointment.date)} at ${appointment.time}?`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Cancel Visit',
+          style: 'destructive',
+          onPress: async () => {
+            if (!user) return;
+            const result = await cancelAppointment(user.id, appointment.id);
+            if (!result.success) {
+              Alert.alert('Could Not Cancel', result.error || 'Failed to cancel the appointment.');
+            }
+            await loadAppointments();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderAppointment = (appointment: AppointmentWithPeople, isUpcoming: boolean) => (
+    <Card key={appointment.id} style={styles.appointmentCard}>
+      <View style={styles.appointmentHeader}>
+        <View>
+          <Text style={styles.dateText}>{formatDate(appointment.date)}</Text>
+          <Text style={styles.timeText}>{formatAppointmentTime(appointment)}</Text>
+        </View>
+        {!isUpcoming && (
+          <View
+            style={[
+              styles.statusBadge,
+              { backgroundColor: appointment.status === 'completed' ? colors.success : colors.textLight },
+            ]}
+          >
+            <Text style={styles.statusText}>{appointment.status}</Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.doctorRow}>
+        <Ionicons name="medkit" size={18} color={colors.secondary} />
+        <Text style={styles.doctorName}>
+          Dr. {appointment.doctorName}
+          {appointment.doctorSpecialization ? ` · ${appointment.doctorSpecialization}` : ''}
+        </Text>
+      </View>
+
+      {appointment.notes && <Text style={styles.notesText}>{appointment.notes}</Text>}
+
+      {isUpcoming && (
+        <View style={styles.actionsRow}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleShareMedicineList(appointment)}>
+            <Ionicons name="list" size={18} color={colors.primary} />
+            <Text style={styles.medicineListText}>Medicine List</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleCancel(appointment)}>
+            <Text style={styles.cancelText}>Cancel Visit</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </Card>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Appointments</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        <AppointmentRemindersCard
+          selected={reminders}
+          onChange={handleRemindersChange}
+          style={styles.remindersCard}
+        />
+
+        <Text style={styles.sectionTitle}>Upcoming Visits</Text>
+
+        {upcoming.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <Ionicons name="calendar-outline" size={48} color={colors.textLight} />
+            <Text style={styles.emptyTitle}>No Upcoming Visits</Text>
+            <Text style={styles.emptyText}>
+              Appointments your doctor books for you will appear here.
+            </Text>
+          </Card>
+        ) : (
+          upcoming.map(appointment => renderAppointment(appointment, true))
+        )}
+
+        {past.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Past Visits</Text>
+            {past.map(appointment => renderAppointment(appointment, false))}
+          </>
+        )}
+
+        <View style={styles.bottomPadding} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  title: {
+    fontSize: fontSize.xl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  sectionTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  appointmentCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  appointmentHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: spacing.sm,
+  },
+  dateText: {
+    fontSize: fontSize.md,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  timeText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+  },
+  statusText: {
+    fontSize: fontSize.xs,
+    fontWeight: '600',
+    color: colors.white,
+    textTransform: 'capitalize',
+  },
+  doctorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  doctorName: {
+    fontSize: fontSize.md,
+    color: colors.textPrimary,
+    fontWeight: '500',
+  },
+  notesText: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: spacing.sm,
+    fontStyle: 'italic',
+  },
+  remindersCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.lg,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.md,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  medicineListText: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  cancelText: {
+    fontSize: fontSize.sm,
+    fontWeight: '600',
+    color: colors.error,
+  },
+  emptyCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.lg,
+    alignItems: 'center',
+    padding: spacing.xl,
+  },
+  emptyTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginTop: spacing.md,
+  },
+  emptyText: {
+    fontSize: fontSize.md,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+  },
+  bottomPadding: {
+    height: spacing.xl,
+  },
+});
@@ -0,0 +1,120 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useFocusEffect } from '@react-navigation/native';
+import { colors, spacing, fontSize } from '../../utils/theme';
+import { ConsultationWithDoctor, PatientStackParamList } from '../../types';
+import { Card, ConsultationTimeline } from '../../components';
+import { useAuth } from '../../context/AuthContext';
+import { getConsultations } from '../../services/consultationService';
+
+type PatientConsultationsScreenProps = {
+  navigation: NativeStackNavigationProp<PatientStackParamList, 'PatientConsultations'>;
+};
+
+export const PatientConsultationsScreen: React.FC<PatientConsultationsScreenProps> = ({ navigation }) => {
+  const { user } = useAuth();
+  const [consultations, setConsultations] = useState<ConsultationWithDoctor[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadConsultations = async () => {
+    if (!user) return;
+
+    try {
+      setConsultations(await getConsultations(user.id, user));
+    } catch (error) {
+      console.error('Error loading consultations:', error);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadConsultations();
+    }, [user])
+  );
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadConsultations();
+    setRefreshing(false);
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Visit History</Text>
+        <View style={{ width: 24 }} />
+      </View>
+
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+      >
+        {consultations.length === 0 ? (
+          <Card style={styles.emptyCard}>
+            <Ionicons name="document-text-outline" size={48} color={colors.textLight} />
+            <Text style={styles.emptyTitle}>No Visit Notes Yet</Text>
+            <Text style={styles.emptyText}>
+              Notes your doctors write after a visit will appear here.
+            </Text>
+          </Card>
+        ) : (
+          <Card style={styles.timelineCard}>
+            <ConsultationTimeline consultations={consultations} />
+          </Card>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  title: {
+    fontSize: fontSize.xl,
+    fontWeight: 'bold',
+    color: colors.textPrimary,
+  },
+  timelineCard: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.xl,
+  },
+  emptyCard: {
+    marginHorizontal: spacing.lg,
+    alignItems: 'center',
+    padding: spacing.xl,
+  },
+  emptyTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginTop: spacing.md,
+  },
+  emptyText: {
+    fontSize: fontSize.md,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+  },
+});
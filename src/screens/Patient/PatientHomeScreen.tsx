@@ -22,6 +22,10 @@ import {
   getWeeklyAdherence,
 } from '../../services/medicineService';
 import { getLowStockMedicines } from '../../services/stockService';
+import { actorFor } from '../../services/permissionService';
+import { generateDueLogs } from '../../services/scheduleService';
+import { sweepMissedDoses } from '../../services/missedDoseService';
+import { runEscalations } from '../../services/escalationService';
 
 type PatientHomeScreenProps = {
   navigation: NativeStackNavigationProp<PatientStackParamList, 'PatientHome'>;
@@ -41,10 +45,16 @@ export const PatientHomeScreen: React.FC<PatientHomeScreenProps> = ({ navigation
     if (!user) return;
 
     try {
+      await generateDueLogs(user.id);
+      // Escalations only look at pending doses, so they go before the sweep
+      await runEscalations(user.id);
+      await sweepMissedDoses(user.id);
+
+      const actor = actorFor(user);
       const [meds, rate, weekly, lowStock] = await Promise.all([
-        getMedicinesByPatient(user.id),
-        calculateAdherenceRate(user.id),
-        getWeeklyAdherence(user.id),
+        getMedicinesByPatient(user.id, actor),
+        calculateAdherenceRate(user.id, actor),
+        getWeeklyAdherence(user.id, actor),
         getLowStockMedicines(user.id),
       ]);
 
@@ -16,7 +16,13 @@ import { colors, spacing, fontSize, borderRadius } from '../../utils/theme';
 import { PatientStackParamList, Medicine } from '../../types';
 import { Card, MedicineCard, Button } from '../../components';
 import { useAuth } from '../../context/AuthContext';
-import { getMedicinesByPatient, deleteMedicine } from '../../services/medicineService';
+import {
+  getMedicinesByPatient,
+  getPastMedicinesByPatient,
+  archiveMedicine,
+  deleteMedicine,
+} from '../../services/medicineService';
+import { actorFor } from '../../services/permissionService';
 
 type PatientMedicinesScreenProps = {
   navigation: NativeStackNavigationProp<PatientStackParamList, 'PatientMedicines'>;
@@ -25,6 +31,7 @@ type PatientMedicinesScreenProps = {
 export const PatientMedicinesScreen: React.FC<PatientMedicinesScreenProps> = ({ navigation }) => {
   const { user } = useAuth();
   const [medicines, setMedicines] = useState<Medicine[]>([]);
+  const [pastMedicines, setPastMedicines] = useState<Medicine[]>([]);
   const [refreshing, setRefreshing] = useState(false);
   const [filter, setFilter] = useState<'all' | 'low_stock'>('all');
 
@@ -32,8 +39,13 @@ export const PatientMedicinesScreen: React.FC<PatientMedicinesScreenProps> = ({
     if (!user) return;
 
     try {
-      const meds = await getMedicinesByPatient(user.id);
+      const actor = actorFor(user);
+      const [meds, pastMeds] = await Promise.all([
+        getMedicinesByPatient(user.id, actor),
+        getPastMedicinesByPatient(user.id, actor),
+      ]);
       setMedicines(meds);
+      setPastMedicines(pastMeds);
     } catch (error) {
       console.error('Error loading medicines:', error);
     }
@@ -52,23 +64,50 @@ export const PatientMedicinesScreen: React.FC<PatientMedicinesScreenProps> = ({
   };
 
   const handleDeleteMedicine = (medicine: Medicine) => {
+    if (!user) return;
+
+    const actor = actorFor(user);
+
+    // Stopping keeps the dose history, wiping it is a separate explicit choice
+    const confirmDeleteHistory = () => {
+      Alert.alert(
+        'Delete History Too?',
+        `This permanently deletes "${medicine.name}" and every dose logged for it, including from adherence reports. This can't be undone.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Delete Everything',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await deleteMedicine(medicine.id, actor);
+                loadMedicines();
+              } catch (error) {
+                Alert.alert('Error', 'Failed to delete medicine');
+              }
+            },
+          },
+        ]
+      );
+    };
+
     Alert.alert(
-      'Delete Medicine',
-      `Are you sure you want to delete "${medicine.name}"?`,
+      'Remove Medicine',
+      `Stop taking "${medicine.name}"? Its history will stay under Past Medicines.`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Delete',
-          style: 'destructive',
+          text: 'Stop',
           onPress: async () => {
             try {
-              await deleteMedicine(medicine.id);
+              await archiveMedicine(medicine.id, actor);
               loadMedicines();
             } catch (error) {
-              Alert.alert('Error', 'Failed to delete medicine');
+              Alert.alert('Error', 'Failed to stop medicine');
             }
           },
         },
+        { text: 'Delete with History', style: 'destructive', onPress: confirmDeleteHistory },
       ]
     );
   };
@@ -87,6 +126,28 @@ export const PatientMedicinesScreen: React.FC<PatientMedicinesScreenProps> = ({
     />
   );
 
+  const renderPastMedicines = () => {
+    if (filter !== 'all' || pastMedicines.length === 0) return null;
+
+    return (
+      <View style={styles.pastSection}>
+        <Text style={styles.pastTitle}>Past Medicines ({pastMedicines.length})</Text>
+        {pastMedicines.map((medicine) => (
+          <View key={medicine.id} style={styles.pastItem}>
+            <MedicineCard
+              medicine={medicine}
+              onPress={() => navigation.navigate('MedicineDetail', { medicineId: medicine.id })}
+            />
+            <Text style={styles.pastStatus}>
+              {medicine.status === 'completed' ? 'Course completed' : 'Stopped'}
+              {medicine.endDate ? ` · ended ${medicine.endDate}` : ''}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   const renderEmptyList = () => (
     <Card style={styles.emptyCard}>
       <Ionicons name="medical-outline" size={64} color={colors.textLight} />
@@ -142,6 +203,7 @@ export const PatientMedicinesScreen: React.FC<PatientMedicinesScreenProps> = ({
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
         ListEmptyComponent={renderEmptyList}
+        ListFooterComponent={renderPastMedicines}
       />
     </SafeAreaView>
   );
@@ -193,6 +255,25 @@ const styles = StyleSheet.create({
     padding: spacing.lg,
     paddingTop: 0,
   },
+  pastSection: {
+    marginTop: spacing.lg,
+  },
+  pastTitle: {
+    fontSize: fontSize.lg,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  pastItem: {
+    opacity: 0.7,
+  },
+  pastStatus: {
+    fontSize: fontSize.sm,
+    color: colors.textSecondary,
+    marginTop: -spacing.sm,
+    marginBottom: spacing.md,
+    marginLeft: spacing.sm,
+  },
   emptyCard: {
     alignItems: 'center',
     paddingVertical: spacing.xxl,
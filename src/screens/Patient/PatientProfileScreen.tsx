@@ -7,7 +7,6 @@ import {
   ScrollView,
   TouchableOpacity,
   Alert,
-  Share,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -15,33 +14,46 @@ import { colors, spacing, fontSize, borderRadius, shadows } from '../../utils/th
 import { PatientStackParamList } from '../../types';
 import { Card, Button } from '../../components';
 import { useAuth } from '../../context/AuthContext';
+import { rotateEncryptionKey } from '../../database/database';
 
 type PatientProfileScreenProps = {
   navigation: NativeStackNavigationProp<PatientStackParamList, 'PatientProfile'>;
 };
 
 export const PatientProfileScreen: React.FC<PatientProfileScreenProps> = ({ navigation }) => {
-  const { user, logout } = useAuth();
-
-  const handleCopyCode = async () => {
-    if (user?.uniqueCode) {
-      try {
-        await Share.share({
-          message: `My OwnMediCare Patient Code: ${user.uniqueCode}`,
-        });
-      } catch (error) {
-        Alert.alert('Error', 'Failed to copy code');
-      }
-    }
-  };
+  const { user, logout, forgetProfile } = useAuth();
 
+  // Switch Profile keeps this profile on the device, Logout removes it from the profile list
   const handleLogout = () => {
     Alert.alert(
       'Logout',
-      'Are you sure you want to logout?',
+      'Are you sure you want to logout? Your profile will be removed from this device\'s profile list.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Logout', style: 'destructive', onPress: () => user && forgetProfile(user.id) },
+      ]
+    );
+  };
+
+  const handlePrivacySecurity = () => {
+    Alert.alert(
+      'Privacy & Security',
+      'Your health data is encrypted on this device with a key kept in the phone\'s secure storage. Your PIN protects signing in. Rotating the key re-encrypts all stored data.',
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Logout', style: 'destructive', onPress: logout },
+        { text: 'Change PIN', onPress: () => navigation.navigate('ChangePin') },
+        {
+          text: 'Rotate Key',
+          onPress: async () => {
+            try {
+              await rotateEncryptionKey();
+              Alert.alert('Success', 'Encryption key rotated.');
+            } catch (error) {
+              console.error('Error rotating encryption key:', error);
+              Alert.alert('Error', 'Failed to rotate encryption key');
+            }
+          },
+        },
       ]
     );
   };
@@ -56,8 +68,8 @@ export const PatientProfileScreen: React.FC<PatientProfileScreenProps> = ({ navi
     {
       icon: 'notifications-outline',
       title: 'Notifications',
-      subtitle: 'Manage reminders and alerts',
-      onPress: () => {},
+      subtitle: 'Alerts, quiet hours and critical medicines',
+      onPress: () => navigation.navigate('NotificationSettings'),
     },
     {
       icon: 'time-outline',
@@ -65,11 +77,35 @@ export const PatientProfileScreen: React.FC<PatientProfileScreenProps> = ({ navi
       subtitle: 'Customize medicine reminders',
       onPress: () => {},
     },
+    {
+      icon: 'calendar-outline',
+      title: 'Appointments',
+      subtitle: 'Upcoming visits with your doctors',
+      onPress: () => navigation.navigate('PatientAppointments'),
+    },
+    {
+      icon: 'document-text-outline',
+      title: 'Visit History',
+      subtitle: 'Notes from your consultations',
+      onPress: () => navigation.navigate('PatientConsultations'),
+    },
+    {
+      icon: 'people-outline',
+      title: 'Care Team',
+      subtitle: 'Caregivers and doctors who can see your data',
+      onPress: () => navigation.navigate('CareTeam'),
+    },
     {
       icon: 'shield-checkmark-outline',
       title: 'Privacy & Security',
       subtitle: 'Manage your data',
-      onPress: () => {},
+      onPress: handlePrivacySecurity,
+    },
+    {
+      icon: 'cloud-download-outline',
+      title: 'Backup & Restore',
+      subtitle: 'Export or import your data',
+      onPress: () => navigation.navigate('Backup'),
     },
     {
       icon: 'help-circle-outline',
@@ -96,17 +132,19 @@ export const PatientProfileScreen: React.FC<PatientProfileScreenProps> = ({ navi
           </View>
 
           <View style={styles.codeContainer}>
-            <Text style={styles.codeLabel}>Your Patient Code</Text>
-            <View style={styles.codeRow}>
-              <Text style={styles.codeText}>{user?.uniqueCode}</Text>
-              <TouchableOpacity onPress={handleCopyCode} style={styles.copyButton}>
-                <Ionicons name="share-social" size={20} color={colors.primary} />
-              </TouchableOpacity>
-            </View>
+            <Text style={styles.codeLabel}>Your Account Code</Text>
+            <Text style={styles.codeText}>{user?.uniqueCode}</Text>
             <Text style={styles.codeHint}>
-              Share this code with your caregiver or doctor
+              Use it with your PIN to sign in. To link a caregiver or doctor, send them an invitation.
             </Text>
           </View>
+
+          <Button
+            title="Invite Caregiver or Doctor"
+            onPress={() => navigation.navigate('Invitations')}
+            variant="outline"
+            style={styles.inviteButton}
+          />
         </Card>
 
         <View style={styles.menuContainer}>
@@ -124,6 +162,13 @@ export const PatientProfileScreen: React.FC<PatientProfileScreenProps> = ({ navi
           ))}
         </View>
 
+        <Button
+          title="Switch Profile"
+          onPress={logout}
+          variant="outline"
+          style={styles.logoutButton}
+        />
+
         <Button
           title="Logout"
           onPress={handleLogout}
@@ -188,26 +233,21 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     marginBottom: spacing.xs,
   },
-  codeRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: spacing.md,
-  },
   codeText: {
     fontSize: fontSize.xxl,
     fontWeight: 'bold',
     color: colors.primary,
     letterSpacing: 2,
   },
-  copyButton: {
-    padding: spacing.sm,
-  },
   codeHint: {
     fontSize: fontSize.xs,
     color: colors.textSecondary,
     marginTop: spacing.sm,
     textAlign: 'center',
   },
+  inviteButton: {
+    marginTop: spacing.md,
+  },
   menuContainer: {
     backgroundColor: colors.surface,
     marginHorizontal: spacing.lg,
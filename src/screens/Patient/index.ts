@@ -5,3 +5,10 @@ export { PatientProfileScreen } from './PatientProfileScreen';
 export { PatientAdherenceScreen } from './PatientAdherenceScreen';
 export { MedicineDetailScreen } from './MedicineDetailScreen';
 export { FaceScanScreen } from './FaceScanScreen';
+export { BackupScreen } from './BackupScreen';
+export { ChangePinScreen } from './ChangePinScreen';
+export { InvitationsScreen } from './InvitationsScreen';
+export { CareTeamScreen } from './CareTeamScreen';
+export { PatientAppointmentsScreen } from './PatientAppointmentsScreen';
+export { PatientConsultationsScreen } from './PatientConsultationsScreen';
+export { NotificationSettingsScreen } from './NotificationSettingsScreen';
@@ -0,0 +1,69 @@
+import { createHash, randomBytes } from 'crypto';
+import { setDriver, SqlDriver } from '../../database/driver';
+import { useMigratedTestDatabase } from '../../testing/testDatabase';
+import { loginUser, setUserPin, vouchForPinSetup } from '../authService';
+
+jest.mock('expo-crypto', () => ({
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  CryptoEncoding: { HEX: 'hex' },
+  digestStringAsync: async (_algorithm: string, data: string) => createHash('sha256').update(data).digest('hex'),
+  getRandomBytes: (count: number) => new Uint8Array(randomBytes(count)),
+}));
+
+// Pat and Sam share the phone and have no PINs yet, Carol looks after Pat
+const seed = async (db: SqlDriver): Promise<void> => {
+  await db.exec(`
+    INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Pat', 'pat', 'patient', 'PAT00001');
+    INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Sam', 'sam', 'patient', 'SAM00001');
+    INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Carol', 'carol', 'caregiver', 'CAR00001');
+    INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Dan', 'dan', 'caregiver', 'DAN00001');
+    INSERT INTO Relationships (patientId, caregiverId, relationshipType) VALUES (1, 3, 'caregiver');
+    INSERT INTO DeviceProfiles (userId) VALUES (1);
+    INSERT INTO DeviceProfiles (userId) VALUES (2);
+  `);
+};
+
+const PAT = 1;
+const SAM = 2;
+const CAROL = 3;
+const DAN = 4;
+
+describe('first PIN setup', () => {
+  beforeEach(async () => {
+    const db = await useMigratedTestDatabase();
+    await seed(db);
+    await setUserPin(CAROL, '1357');
+    await setUserPin(DAN, '2468');
+  });
+
+  afterEach(() => {
+    setDriver(null);
+  });
+
+  it('points an account without a PIN to the setup instead of signing it in', async () => {
+    const result = await loginUser('PAT00001', '');
+
+    expect(result.success).toBe(false);
+    expect(result.needsPinSetup).toEqual({ id: PAT, name: 'Pat' });
+  });
+
+  it('opens the account when its caregiver vouches with their PIN', async () => {
+    expect((await vouchForPinSetup(PAT, 'carol', '1357')).user?.id).toBe(PAT);
+    expect((await vouchForPinSetup(PAT, 'carol', '0000')).success).toBe(false);
+  });
+
+  it('opens the account for another profile on this phone once that profile has a PIN', async () => {
+    expect((await vouchForPinSetup(SAM, 'pat', '')).success).toBe(false);
+
+    await setUserPin(PAT, '8642');
+
+    expect((await vouchForPinSetup(SAM, 'pat', '8642')).user?.id).toBe(SAM);
+  });
+
+  it("refuses a voucher who isn't linked and isn't on this phone", async () => {
+    const result = await vouchForPinSetup(PAT, 'dan', '2468');
+
+    expect(result.success).toBe(false);
+    expect(result.user).toBeUndefined();
+  });
+});
@@ -0,0 +1,79 @@
+import { createHash, randomBytes } from 'crypto';
+import { setDriver, SqlDriver } from '../../database/driver';
+import { medicinesRepo, usersRepo } from '../../repositories';
+import { useMigratedTestDatabase } from '../../testing/testDatabase';
+import { createBackup, restoreBackup } from '../backupService';
+
+// Native modules, only the hashing and random bytes matter for unencrypted backups
+jest.mock('expo-crypto', () => ({
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  CryptoEncoding: { HEX: 'hex' },
+  digestStringAsync: async (_algorithm: string, data: string) => createHash('sha256').update(data).digest('hex'),
+  getRandomBytes: (count: number) => new Uint8Array(randomBytes(count)),
+}));
+jest.mock('expo-document-picker', () => ({}));
+jest.mock('expo-sharing', () => ({}));
+jest.mock('expo-file-system', () => ({}));
+
+// Pat and Sam share the phone, Carol looks after Pat
+const seed = async (db: SqlDriver): Promise<void> => {
+  await db.exec(`
+    INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Pat', 'pat', 'patient', 'PAT00001');
+    INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Sam', 'sam', 'patient', 'SAM00001');
+    INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Carol', 'carol', 'caregiver', 'CAR00001');
+    INSERT INTO Relationships (patientId, caregiverId, relationshipType) VALUES (1, 3, 'caregiver');
+    INSERT INTO Medicines (patientId, name, dosage, frequency, times, stock)
+    VALUES (1, 'Metformin', '500mg', 'Once daily', '["08:00"]', 30);
+    INSERT INTO Medicines (patientId, name, dosage, frequency, times, stock)
+    VALUES (2, 'Lisinopril', '10mg', 'Once daily', '["09:00"]', 30);
+  `);
+};
+
+const PAT = 1;
+const SAM = 2;
+
+describe('backup restore', () => {
+  let db: SqlDriver;
+
+  beforeEach(async () => {
+    db = await useMigratedTestDatabase();
+    await seed(db);
+  });
+
+  afterEach(() => {
+    setDriver(null);
+  });
+
+  it("restores into the signed-in patient and leaves an account with the backup's code alone", async () => {
+    // A backup that claims to be Sam's
+    const archive = await createBackup(PAT);
+    const dataset = JSON.parse(archive.data);
+    dataset.users[0].uniqueCode = 'SAM00001';
+    const data = JSON.stringify(dataset);
+    const crafted = { ...archive, data, checksum: createHash('sha256').update(data).digest('hex') };
+
+    const result = await restoreBackup(JSON.stringify(crafted), 'replace', PAT);
+
+    expect(result.success).toBe(true);
+    expect((await medicinesRepo.listActiveByPatient(SAM)).map(m => m.name)).toEqual(['Lisinopril']);
+    expect((await medicinesRepo.listActiveByPatient(PAT)).map(m => m.name)).toEqual(['Metformin']);
+    expect(await usersRepo.findById(SAM)).toMatchObject({ name: 'Sam', uniqueCode: 'SAM00001' });
+  });
+
+  it('restores a linked account whose username is taken here without its username', async () => {
+    // Carol from another phone, who happens to share Sam's username
+    const archive = await createBackup(PAT);
+    const dataset = JSON.parse(archive.data);
+    const carol = dataset.users.find((user: { role: string }) => user.role === 'caregiver');
+    carol.uniqueCode = 'CAR00002';
+    carol.username = 'sam';
+    const data = JSON.stringify(dataset);
+    const crafted = { ...archive, data, checksum: createHash('sha256').update(data).digest('hex') };
+
+    const result = await restoreBackup(JSON.stringify(crafted), 'merge', PAT);
+
+    expect(result.success).toBe(true);
+    expect(await usersRepo.findByLoginId('CAR00002')).toMatchObject({ name: 'Carol', username: null });
+    expect((await usersRepo.findByLoginId('sam'))?.id).toBe(SAM);
+  });
+});
@@ -0,0 +1,107 @@
+import { setDriver, SqlDriver } from '../../database/driver';
+import { logsRepo } from '../../repositories';
+import { setNotifier } from '../../notifications/notifier';
+import { createMemoryNotifier, MemoryNotifier } from '../../notifications/memoryNotifier';
+import { useMigratedTestDatabase } from '../../testing/testDatabase';
+import { generateDueLogs } from '../scheduleService';
+import { markMedicineTaken } from '../medicineService';
+import { reconcileReminders } from '../notificationService';
+import { getRecentEscalations, runEscalations } from '../escalationService';
+
+// Pat takes Metformin at 08:00: remind again after 15 min, alert caregivers after 30.
+// Carol's profile is on this phone, Chris's is not.
+const seed = async (db: SqlDriver): Promise<void> => {
+  await db.exec(`
+    INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Pat', 'pat', 'patient', 'PAT00001');
+    INSERT INTO Users (name, role, uniqueCode) VALUES ('Carol', 'caregiver', 'CAR00001');
+    INSERT INTO Users (name, role, uniqueCode) VALUES ('Chris', 'caregiver', 'CAR00002');
+    INSERT INTO Relationships (patientId, caregiverId, relationshipType) VALUES (1, 2, 'caregiver');
+    INSERT INTO Relationships (patientId, caregiverId, relationshipType) VALUES (1, 3, 'caregiver');
+    INSERT INTO DeviceProfiles (userId) VALUES (1);
+    INSERT INTO DeviceProfiles (userId) VALUES (2);
+    INSERT INTO Medicines (patientId, name, dosage, frequency, times, stock, escalateRemindMinutes, escalateCaregiverMinutes, createdAt)
+    VALUES (1, 'Metformin', '500mg', 'Once daily', '["08:00"]', 30, 15, 30, '2025-03-01 00:00:00');
+  `);
+};
+
+const CAROL = 2;
+
+const followUps = (notifier: MemoryNotifier) =>
+  Array.from(notifier.scheduled.values()).filter(notification => notification.content.data?.followUp === true);
+
+const caregiverAlerts = (notifier: MemoryNotifier) =>
+  Array.from(notifier.scheduled.values()).filter(notification => notification.content.data?.caregiverAlert === true);
+
+describe('dose escalation', () => {
+  let notifier: MemoryNotifier;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({
+      now: new Date(2025, 2, 3, 7, 0),
+      doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval', 'queueMicrotask'],
+    });
+    const db = await useMigratedTestDatabase();
+    notifier = createMemoryNotifier();
+    setNotifier(notifier);
+    await seed(db);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    setDriver(null);
+    setNotifier(null);
+  });
+
+  it('books the remind-again step with the reminders and drops it once the dose is taken', async () => {
+    await reconcileReminders(1);
+
+    expect(followUps(notifier).map(notification => notification.trigger)).toEqual([
+      { type: 'date', date: new Date(2025, 2, 3, 8, 15) },
+      { type: 'date', date: new Date(2025, 2, 4, 8, 15) },
+    ]);
+
+    await generateDueLogs(1);
+    const [log] = await logsRepo.listByMedicine(1);
+    await markMedicineTaken(log.id, { source: 'patient', userId: 1 });
+
+    expect(followUps(notifier).map(notification => notification.trigger)).toEqual([
+      { type: 'date', date: new Date(2025, 2, 4, 8, 15) },
+    ]);
+    // The next reconcile doesn't book it again
+    await reconcileReminders(1);
+    expect(followUps(notifier)).toHaveLength(1);
+  });
+
+  it('books the caregiver alert for the caregivers on this phone and drops it once the dose is taken', async () => {
+    await reconcileReminders(1);
+
+    expect(caregiverAlerts(notifier).map(notification => [notification.content.data?.profileId, notification.trigger]))
+      .toEqual([
+        [CAROL, { type: 'date', date: new Date(2025, 2, 3, 8, 30) }],
+        [CAROL, { type: 'date', date: new Date(2025, 2, 4, 8, 30) }],
+      ]);
+
+    await generateDueLogs(1);
+    const [log] = await logsRepo.listByMedicine(1);
+    await markMedicineTaken(log.id, { source: 'patient', userId: 1 });
+
+    expect(caregiverAlerts(notifier)).toHaveLength(1);
+  });
+
+  it('lists the dose for every caregiver even when the app next runs after the grace window', async () => {
+    await generateDueLogs(1);
+
+    expect(await runEscalations(1, new Date(2025, 2, 3, 8, 20))).toBe(1);
+    // The next run comes after the 60 minute grace window, before the sweep
+    expect(await runEscalations(1, new Date(2025, 2, 3, 10, 0))).toBe(1);
+
+    // Each step happens once
+    expect(await runEscalations(1, new Date(2025, 2, 3, 10, 5))).toBe(0);
+
+    const escalations = await getRecentEscalations(1, { source: 'caregiver', userId: 3 }, new Date(2025, 2, 3, 10, 10));
+    expect(escalations).toEqual([
+      expect.objectContaining({ medicineName: 'Metformin', status: 'pending', escalationStage: 'caregivers_notified' }),
+    ]);
+    expect(notifier.delivered).toHaveLength(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { setDriver, SqlDriver } from '../../database/driver';
+import { logsRepo } from '../../repositories';
+import { NotificationResponse, setNotifier } from '../../notifications/notifier';
+import { createMemoryNotifier, MemoryNotifier } from '../../notifications/memoryNotifier';
+import { useMigratedTestDatabase } from '../../testing/testDatabase';
+import { REMINDER_ACTIONS } from '../notificationService';
+import { handleReminderAction } from '../reminderActionService';
+
+// Pat takes Metformin at 08:00 every day
+const seed = async (db: SqlDriver): Promise<void> => {
+  await db.exec(`
+    INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Pat', 'pat', 'patient', 'PAT00001');
+    INSERT INTO Medicines (patientId, name, dosage, frequency, times, stock, createdAt)
+    VALUES (1, 'Metformin', '500mg', 'Once daily', '["08:00"]', 30, '2025-03-01 00:00:00');
+  `);
+};
+
+// A press on the daily 08:00 reminder, as delivered on the given day of March
+const press = (actionIdentifier: string, day: number): NotificationResponse => ({
+  actionIdentifier,
+  notification: {
+    identifier: 'daily-metformin',
+    date: new Date(2025, 2, day, 8, 0).getTime(),
+    content: { title: 'Metformin', data: { medicineId: 1, time: '08:00', profileId: 1 } },
+  },
+});
+
+const snoozes = (notifier: MemoryNotifier) =>
+  Array.from(notifier.scheduled.values()).filter(notification => notification.content.data?.snoozed === true);
+
+describe('reminder actions', () => {
+  let notifier: MemoryNotifier;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({
+      now: new Date(2025, 2, 3, 8, 5),
+      doNotFake: ['nextTick', 'setImmediate', 'setTimeout', 'setInterval', 'queueMicrotask'],
+    });
+    const db = await useMigratedTestDatabase();
+    notifier = createMemoryNotifier();
+    setNotifier(notifier);
+    await seed(db);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    setDriver(null);
+    setNotifier(null);
+  });
+
+  it('books one snooze when the task and the listener both get the press', async () => {
+    await Promise.all([
+      handleReminderAction(press(REMINDER_ACTIONS.snooze10, 3)),
+      handleReminderAction(press(REMINDER_ACTIONS.snooze10, 3)),
+    ]);
+
+    expect(snoozes(notifier).map(notification => notification.trigger)).toEqual([
+      { type: 'date', date: new Date(2025, 2, 3, 8, 15) },
+    ]);
+  });
+
+  it('still handles the same daily reminder on the next day', async () => {
+    await handleReminderAction(press(REMINDER_ACTIONS.take, 3));
+    jest.setSystemTime(new Date(2025, 2, 4, 8, 5));
+    await handleReminderAction(press(REMINDER_ACTIONS.take, 4));
+
+    const logs = await logsRepo.listByMedicine(1);
+    expect(logs.filter(log => log.status === 'taken')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,118 @@
+import { setDriver, SqlDriver } from '../../database/driver';
+import { adherenceStatsRepo, logsRepo, medicinesRepo } from '../../repositories';
+import { setNotifier } from '../../notifications/notifier';
+import { createMemoryNotifier, MemoryNotifier } from '../../notifications/memoryNotifier';
+import { useMigratedTestDatabase } from '../../testing/testDatabase';
+import { generateDueLogs } from '../scheduleService';
+import { sweepMissedDoses } from '../missedDoseService';
+import { reconcileReminders } from '../notificationService';
+import { updateAdherenceStats } from '../medicineService';
+import { deleteDosePlan, setDosePlan } from '../dosePlanService';
+import { SYSTEM_ACTOR } from '../permissionService';
+
+// A patient taking a medicine at 08:00 and 20:00 since 1 March, with the default grace window
+const seedPatient = async (db: SqlDriver): Promise<void> => {
+  await db.exec(`
+    INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Pat', 'pat', 'patient', 'PAT00001');
+    INSERT INTO Medicines (patientId, name, dosage, frequency, times, stock, createdAt)
+    VALUES (1, 'Metformin', '500mg', 'Twice daily', '["08:00","20:00"]', 30, '2025-03-01 00:00:00');
+  `);
+};
+
+describe('dose schedule', () => {
+  let db: SqlDriver;
+  let notifier: MemoryNotifier;
+
+  beforeEach(async () => {
+    db = await useMigratedTestDatabase();
+    notifier = createMemoryNotifier();
+    setNotifier(notifier);
+    await seedPatient(db);
+  });
+
+  afterEach(() => {
+    setDriver(null);
+    setNotifier(null);
+  });
+
+  it('generates the days since the medicine was added and sweeps the doses past their grace window', async () => {
+    const now = new Date(2025, 2, 3, 12, 0);
+
+    expect(await generateDueLogs(1, now)).toEqual({ created: 6, medicinesProcessed: 1, coursesCompleted: 0 });
+    // A second sync finds every slot filled
+    expect((await generateDueLogs(1, now)).created).toBe(0);
+
+    expect(await sweepMissedDoses(1, now)).toBe(5);
+    expect(await sweepMissedDoses(1, now)).toBe(0);
+
+    const logs = await logsRepo.listByMedicine(1);
+    expect(logs.filter(log => log.status === 'missed')).toHaveLength(5);
+    expect(logs.filter(log => log.status === 'pending').map(log => log.scheduledTime)).toEqual([
+      new Date(2025, 2, 3, 20, 0).toISOString(),
+    ]);
+  });
+
+  it('rolls the due doses up into one adherence row per local day', async () => {
+    const now = new Date(2025, 2, 3, 12, 0);
+    await generateDueLogs(1, now);
+    await sweepMissedDoses(1, now);
+    await db.run(`UPDATE MedicineLogs SET status = 'taken' WHERE scheduledTime = ?`, [
+      new Date(2025, 2, 2, 20, 0).toISOString(),
+    ]);
+
+    await updateAdherenceStats(1, now);
+
+    const stats = await adherenceStatsRepo.listSince(1, '2025-02-01');
+    expect(stats.map(({ date, totalDoses, takenDoses }) => ({ date, totalDoses, takenDoses }))).toEqual([
+      { date: '2025-03-01', totalDoses: 2, takenDoses: 0 },
+      { date: '2025-03-02', totalDoses: 2, takenDoses: 1 },
+      { date: '2025-03-03', totalDoses: 1, takenDoses: 0 },
+    ]);
+  });
+
+  it('books one daily reminder per dose time and keeps them on the next run', async () => {
+    expect(await reconcileReminders(1)).toMatchObject({ scheduled: 2, kept: 0, cancelled: 0, failed: 0 });
+
+    const triggers = Array.from(notifier.scheduled.values()).map(notification => notification.trigger);
+    expect(triggers).toEqual(expect.arrayContaining([
+      { type: 'daily', hour: 8, minute: 0 },
+      { type: 'daily', hour: 20, minute: 0 },
+    ]));
+
+    expect(await reconcileReminders(1)).toMatchObject({ scheduled: 0, kept: 2, cancelled: 0 });
+    expect(notifier.scheduled.size).toBe(2);
+  });
+
+  it('makes the medicine ongoing again with daily reminders once its dose plan is removed', async () => {
+    await setDosePlan(1, '2099-01-01', [{ dosage: '1000mg', durationDays: 5 }], SYSTEM_ACTOR);
+    await reconcileReminders(1);
+    expect((await medicinesRepo.findById(1))?.endDate).toBe('2099-01-05');
+
+    await deleteDosePlan(1, SYSTEM_ACTOR);
+
+    expect((await medicinesRepo.findById(1))?.endDate).toBeNull();
+    const triggers = Array.from(notifier.scheduled.values()).map(notification => notification.trigger);
+    expect(triggers).toEqual([
+      { type: 'daily', hour: 8, minute: 0 },
+      { type: 'daily', hour: 20, minute: 0 },
+    ]);
+  });
+
+  it("keeps every patient on the phone within one share of the device's reminders", async () => {
+    // Sam shares the phone and has a course with six doses a day, booked one by one
+    await db.exec(`
+      INSERT INTO Users (name, username, role, uniqueCode) VALUES ('Sam', 'sam', 'patient', 'SAM00001');
+      INSERT INTO DeviceProfiles (userId) VALUES (1);
+      INSERT INTO DeviceProfiles (userId) VALUES (2);
+      INSERT INTO Medicines (patientId, name, dosage, frequency, times, stock, endDate)
+      VALUES (2, 'Amoxicillin', '250mg', 'Six times daily',
+        '["03:00","07:00","11:00","15:00","19:00","23:00"]', 100, '2099-12-31');
+    `);
+
+    await reconcileReminders(1);
+    const { scheduled } = await reconcileReminders(2);
+
+    expect(scheduled).toBe(24);
+    expect(notifier.scheduled.size).toBe(26);
+  });
+});
@@ -1,5 +1,6 @@
-import { getDatabase } from '../database/database';
-import { MedicineLog, Medicine } from '../types';
+import { logsRepo, medicinesRepo, adherenceStatsRepo } from '../repositories';
+import { Medicine } from '../types';
+import { localDayRange, toDateKey } from '../utils/dateUtils';
 
 // Minimum days of data needed before adaptive timing kicks in
 const MIN_DAYS_FOR_ADAPTIVE = 3;
@@ -29,21 +30,12 @@ export const calculateMeanDelay = async (
   patientId: number,
   medicineId: number
 ): Promise<{ meanDelay: number; daysAnalyzed: number }> => {
-  const db = await getDatabase();
-  
   // Get logs from the last MAX_DAYS_TO_ANALYZE days
   const startDate = new Date();
   startDate.setDate(startDate.getDate() - MAX_DAYS_TO_ANALYZE);
   const dateString = startDate.toISOString().split('T')[0];
   
-  const logs = await db.getAllAsync<MedicineLog>(
-    `SELECT * FROM MedicineLogs 
-     WHERE patientId = ? AND medicineId = ? 
-     AND status = 'taken' AND takenAt IS NOT NULL
-     AND date(scheduledTime) >= date(?)
-     ORDER BY scheduledTime DESC`,
-    [patientId, medicineId, dateString]
-  );
+  const logs = await logsRepo.listTakenSince(patientId, medicineId, dateString);
   
   // Need at least MIN_DAYS_FOR_ADAPTIVE days of data
   if (logs.length < MIN_DAYS_FOR_ADAPTIVE) {
@@ -136,15 +128,7 @@ export const analyzeTimePatterns = async (
   patientId: number,
   medicineId: number
 ): Promise<TimePattern | null> => {
-  const db = await getDatabase();
-  
-  const logs = await db.getAllAsync<MedicineLog>(
-    `SELECT * FROM MedicineLogs 
-     WHERE patientId = ? AND medicineId = ? AND status = 'taken' AND takenAt IS NOT NULL
-     ORDER BY takenAt DESC
-     LIMIT 30`,
-    [patientId, medicineId]
-  );
+  const logs = await logsRepo.listRecentTaken(patientId, medicineId, 30);
   
   if (logs.length < 3) return null;
   
@@ -222,12 +206,7 @@ export const getAdaptiveTimingSummary = async (
   medicinesPendingData: number;
   overallAverageDelay: number;
 }> => {
-  const db = await getDatabase();
-  
-  const medicines = await db.getAllAsync<Medicine>(
-    'SELECT * FROM Medicines WHERE patientId = ?',
-    [patientId]
-  );
+  const medicines = await medicinesRepo.listActiveByPatient(patientId);
   
   let adaptiveCount = 0;
   let pendingCount = 0;
@@ -257,15 +236,10 @@ export const predictAdherenceTrend = async (
   patientId: number,
   days: number = 7
 ): Promise<'improving' | 'declining' | 'stable'> => {
-  const db = await getDatabase();
-  
-  const stats = await db.getAllAsync<{ date: string; adherenceRate: number }>(
-    `SELECT date, adherenceRate FROM AdherenceStats 
-     WHERE patientId = ? 
-     AND date >= date('now', '-${days} days')
-     ORDER BY date ASC`,
-    [patientId]
-  );
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - days);
+  
+  const stats = await adherenceStatsRepo.listSince(patientId, startDate.toISOString().split('T')[0]);
   
   if (stats.length < 3) return 'stable';
   
@@ -280,40 +254,30 @@ export const predictAdherenceTrend = async (
 };
 
 export const getSmartSuggestions = async (patientId: number): Promise<string[]> => {
-  const db = await getDatabase();
-  
   const suggestions: string[] = [];
+  const { start, end } = localDayRange(new Date());
+  const weekAgo = new Date();
+  weekAgo.setDate(weekAgo.getDate() - 7);
   
   // Check for missed doses
-  const missedToday = await db.getFirstAsync<{ count: number }>(
-    `SELECT COUNT(*) as count FROM MedicineLogs 
-     WHERE patientId = ? AND date(scheduledTime) = date('now') AND status = 'missed'`,
-    [patientId]
-  );
+  const missedToday = await logsRepo.countByStatusBetween(patientId, start, end, 'missed');
   
-  if (missedToday && missedToday.count > 0) {
-    suggestions.push(`You have ${missedToday.count} missed dose(s) today. Try to take your medicines on time.`);
+  if (missedToday > 0) {
+    suggestions.push(`You have ${missedToday} missed dose(s) today. Try to take your medicines on time.`);
   }
   
   // Check for low adherence
-  const weeklyRate = await db.getFirstAsync<{ avgRate: number }>(
-    `SELECT AVG(adherenceRate) as avgRate FROM AdherenceStats 
-     WHERE patientId = ? AND date >= date('now', '-7 days')`,
-    [patientId]
-  );
+  const weeklyRate = await adherenceStatsRepo.averageRateSince(patientId, toDateKey(weekAgo));
   
-  if (weeklyRate && weeklyRate.avgRate < 70) {
+  if (weeklyRate !== null && weeklyRate < 70) {
     suggestions.push('Your weekly adherence is below 70%. Consider setting reminders to improve your medication routine.');
   }
   
   // Check for low stock
-  const lowStock = await db.getFirstAsync<{ count: number }>(
-    `SELECT COUNT(*) as count FROM Medicines WHERE patientId = ? AND stock <= 5`,
-    [patientId]
-  );
+  const lowStock = await medicinesRepo.countLowStock(patientId, 5);
   
-  if (lowStock && lowStock.count > 0) {
-    suggestions.push(`You have ${lowStock.count} medicine(s) with low stock. Please refill soon.`);
+  if (lowStock > 0) {
+    suggestions.push(`You have ${lowStock} medicine(s) with low stock. Please refill soon.`);
   }
   
   // Check if adaptive timing is available
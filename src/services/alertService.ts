@@ -1,6 +1,7 @@
-import { getDatabase } from '../database/database';
-import { Medicine, AdherenceDetails } from '../types';
+import { logsRepo } from '../repositories';
+import { Medicine, AdherenceDetails, StatusActor } from '../types';
 import { getMedicinesByPatient, calculateAdherenceDetails, calculateWeeklyAdherence } from './medicineService';
+import { isAuthorized } from './permissionService';
 
 export interface Alert {
   id: string;
@@ -27,32 +28,21 @@ export const getMissedCountByMedicine = async (
   medicineId: number,
   patientId: number
 ): Promise<number> => {
-  const db = await getDatabase();
-  
   const thirtyDaysAgo = new Date();
   thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
   const dateString = thirtyDaysAgo.toISOString().split('T')[0];
   
-  const result = await db.getFirstAsync<{ missedCount: number }>(
-    `SELECT COUNT(*) as missedCount 
-     FROM MedicineLogs 
-     WHERE medicineId = ? 
-     AND patientId = ?
-     AND date(scheduledTime) >= date(?)
-     AND status = 'missed'`,
-    [medicineId, patientId, dateString]
-  );
-  
-  return result?.missedCount || 0;
+  return await logsRepo.countMissedSince(medicineId, patientId, dateString);
 };
 
 /**
  * Get all medicines that have been missed 3 or more times in the last 30 days
  */
 export const getMedicinesMissed3Times = async (
-  patientId: number
+  patientId: number,
+  actor: StatusActor
 ): Promise<{ medicine: Medicine; missedCount: number }[]> => {
-  const medicines = await getMedicinesByPatient(patientId);
+  const medicines = await getMedicinesByPatient(patientId, actor);
   const result: { medicine: Medicine; missedCount: number }[] = [];
   
   for (const medicine of medicines) {
@@ -69,33 +59,41 @@ export const getMedicinesMissed3Times = async (
  * Get adherence details for the patient
  */
 export const getPatientAdherenceDetails = async (
-  patientId: number
+  patientId: number,
+  actor: StatusActor
 ): Promise<AdherenceDetails> => {
-  return await calculateAdherenceDetails(patientId);
+  return await calculateAdherenceDetails(patientId, actor);
 };
 
 /**
  * Get weekly adherence percentage
  */
 export const getWeeklyAdherencePercentage = async (
-  patientId: number
+  patientId: number,
+  actor: StatusActor
 ): Promise<number> => {
-  return await calculateWeeklyAdherence(patientId);
+  return await calculateWeeklyAdherence(patientId, actor);
 };
 
 /**
- * Get all alerts for a caregiver's linked patient
+ * Get all alerts for a caregiver's linked patient, leaving out what the
+ * caregiver isn't allowed to see
  */
 export const getCaregiverAlerts = async (
-  patientId: number
+  patientId: number,
+  actor: StatusActor
 ): Promise<CaregiverAlerts> => {
   const alerts: Alert[] = [];
+  const [canViewMedicines, canViewAdherence] = await Promise.all([
+    isAuthorized(actor, patientId, 'view_medicines'),
+    isAuthorized(actor, patientId, 'view_adherence'),
+  ]);
   
   // Get medicines
-  const medicines = await getMedicinesByPatient(patientId);
+  const medicines = canViewMedicines ? await getMedicinesByPatient(patientId, actor) : [];
   
   // 1. Check for medicines missed 3+ times
-  const missed3Times = await getMedicinesMissed3Times(patientId);
+  const missed3Times = canViewMedicines ? await getMedicinesMissed3Times(patientId, actor) : [];
   let missedCount = 0;
   
   for (const { medicine, missedCount: count } of missed3Times) {
@@ -131,7 +129,7 @@ export const getCaregiverAlerts = async (
   }
   
   // 3. Check for low adherence (<60%)
-  const weeklyAdherence = await getWeeklyAdherencePercentage(patientId);
+  const weeklyAdherence = canViewAdherence ? await getWeeklyAdherencePercentage(patientId, actor) : 100;
   const lowAdherence = weeklyAdherence < 60;
   
   if (lowAdherence) {
@@ -162,8 +160,8 @@ export const getCaregiverAlerts = async (
 /**
  * Check if patient has any critical alerts
  */
-export const hasCriticalAlerts = async (patientId: number): Promise<boolean> => {
-  const { alerts } = await getCaregiverAlerts(patientId);
+export const hasCriticalAlerts = async (patientId: number, actor: StatusActor): Promise<boolean> => {
+  const { alerts } = await getCaregiverAlerts(patientId, actor);
   return alerts.some(alert => alert.severity === 'critical');
 };
 
@@ -185,6 +183,7 @@ export const getDoctorAlerts = async (doctorId: number): Promise<DoctorAlerts> =
   const { calculateWeeklyAdherence } = await import('./medicineService');
   
   const patients = await getPatientsByDoctor(doctorId);
+  const actor: StatusActor = { source: 'doctor', userId: doctorId };
   const alerts: Alert[] = [];
   
   let patientsWithLowAdherence = 0;
@@ -192,7 +191,9 @@ export const getDoctorAlerts = async (doctorId: number): Promise<DoctorAlerts> =
   
   for (const patient of patients) {
     // Check weekly adherence
-    const weeklyAdherence = await calculateWeeklyAdherence(patient.id);
+    const weeklyAdherence = (await isAuthorized(actor, patient.id, 'view_adherence'))
+      ? await calculateWeeklyAdherence(patient.id, actor)
+      : 100;
     
     if (weeklyAdherence < 60) {
       patientsWithLowAdherence++;
@@ -216,7 +217,9 @@ export const getDoctorAlerts = async (doctorId: number): Promise<DoctorAlerts> =
     }
     
     // Check for medicines missed 3+ times
-    const missed3Times = await getMedicinesMissed3Times(patient.id);
+    const missed3Times = (await isAuthorized(actor, patient.id, 'view_medicines'))
+      ? await getMedicinesMissed3Times(patient.id, actor)
+      : [];
     if (missed3Times.length > 0) {
       patientsWithMissedMedicines++;
       for (const { medicine, missedCount } of missed3Times) {
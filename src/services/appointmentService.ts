@@ -0,0 +1,338 @@
+import { appointmentsRepo, relationshipsRepo, usersRepo } from '../repositories';
+import { Appointment, AppointmentWithPeople, StatusActor, User } from '../types';
+import { toDateKey } from '../utils/dateUtils';
+import { getMedicinesByPatient } from './medicineService';
+import { SYSTEM_ACTOR } from './permissionService';
+import { cancelAppointmentReminders, scheduleAppointmentReminder } from './notificationService';
+
+export const DEFAULT_APPOINTMENT_MINUTES = 30;
+export const APPOINTMENT_DURATIONS = [15, 30, 45, 60];
+
+export const APPOINTMENT_REMINDER_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 7 * 24 * 60, label: '1 week before' },
+  { minutes: 24 * 60, label: '1 day before' },
+  { minutes: 2 * 60, label: '2 hours before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 30, label: '30 minutes before' },
+];
+export const DEFAULT_APPOINTMENT_REMINDERS = [24 * 60, 2 * 60];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface AppointmentInput {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  durationMinutes?: number;
+  notes?: string;
+}
+
+export interface AppointmentResult {
+  success: boolean;
+  appointment?: AppointmentWithPeople;
+  error?: string;
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const formatAppointmentTime = (appointment: Pick<Appointment, 'time' | 'durationMinutes'>): string => {
+  const end = toMinutes(appointment.time) + appointment.durationMinutes;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${appointment.time} - ${pad(Math.floor(end / 60))}:${pad(end % 60)}`;
+};
+
+export const appointmentStart = (appointment: Pick<Appointment, 'date' | 'time'>): Date => {
+  const [year, month, day] = appointment.date.split('-').map(Number);
+  const [hours, minutes] = appointment.time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+/**
+ * The first of the doctor's scheduled visits that overlaps the given slot.
+ * Back-to-back visits (one ends at 10:30, the next starts at 10:30) don't conflict.
+ */
+export const findConflict = (
+  sameDayAppointments: Appointment[],
+  time: string,
+  durationMinutes: number,
+  ignoreAppointmentId?: number
+): Appointment | null => {
+  const start = toMinutes(time);
+  const end = start + durationMinutes;
+
+  return sameDayAppointments.find(other => {
+    if (other.id === ignoreAppointmentId || other.status !== 'scheduled') return false;
+    const otherStart = toMinutes(other.time);
+    return start < otherStart + (other.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES) && otherStart < end;
+  }) ?? null;
+};
+
+/**
+ * Minutes before an appointment the user wants to be reminded
+ */
+export const getAppointmentReminders = (user: Pick<User, 'appointmentReminders'>): number[] =>
+  user.appointmentReminders
+    ? (JSON.parse(user.appointmentReminders) as number[])
+    : DEFAULT_APPOINTMENT_REMINDERS;
+
+const describeLead = (minutes: number): string => {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return days === 1 ? 'tomorrow' : `in ${days} days`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  return `in ${minutes} minutes`;
+};
+
+/**
+ * The patient's current medicines, to bring along to a visit
+ */
+export const buildMedicineList = async (patientId: number, actor: StatusActor): Promise<string> => {
+  const medicines = await getMedicinesByPatient(patientId, actor);
+  if (medicines.length === 0) {
+    return 'No current medicines.';
+  }
+
+  return medicines
+    .map(m => `• ${m.name} ${m.dosage} - ${m.frequency}${m.instructions ? ` (${m.instructions})` : ''}`)
+    .join('\n');
+};
+
+/**
+ * Replace an appointment's reminders for the patient and the doctor,
+ * each at the times they chose. Cancelled and completed visits keep none.
+ */
+export const syncAppointmentReminders = async (appointmentId: number): Promise<void> => {
+  try {
+    await cancelAppointmentReminders(appointmentId);
+
+    const appointment = await appointmentsRepo.findById(appointmentId);
+    if (!appointment || appointment.status !== 'scheduled') return;
+
+    const [patient, doctor, medicines] = await Promise.all([
+      usersRepo.findById(appointment.patientId),
+      usersRepo.findById(appointment.doctorId),
+      getMedicinesByPatient(appointment.patientId, SYSTEM_ACTOR),
+    ]);
+    const start = appointmentStart(appointment);
+    const medicineNames = medicines.map(m => `${m.name} ${m.dosage}`).join(', ');
+
+    for (const minutes of patient ? getAppointmentReminders(patient) : []) {
+      const lead = describeLead(minutes);
+      await scheduleAppointmentReminder(
+        appointmentId,
+        appointment.patientId,
+        new Date(start.getTime() - minutes * 60 * 1000),
+        '📅 Appointment Reminder',
+        `Visit with Dr. ${appointment.doctorName} ${lead} at ${appointment.time}.`
+          + (medicineNames ? ` Bring your medicine list: ${medicineNames}.` : '')
+      );
+    }
+
+    for (const minutes of doctor ? getAppointmentReminders(doctor) : []) {
+      await scheduleAppointmentReminder(
+        appointmentId,
+        appointment.doctorId,
+        new Date(start.getTime() - minutes * 60 * 1000),
+        '📅 Appointment Reminder',
+        `Appointment with ${appointment.patientName} ${describeLead(minutes)} at ${appointment.time}.`
+          + (appointment.notes ? ` ${appointment.notes}` : '')
+      );
+    }
+  } catch (error) {
+    // A missing reminder shouldn't undo the booking itself
+    console.error('Error scheduling appointment reminders:', error);
+  }
+};
+
+/**
+ * Save when the user wants appointment reminders and move the reminders
+ * of their upcoming appointments to match
+ */
+export const setAppointmentReminders = async (user: User, minutes: number[]): Promise<void> => {
+  const sorted = Array.from(new Set(minutes)).sort((a, b) => b - a);
+  await usersRepo.setAppointmentReminders(user.id, JSON.stringify(sorted));
+  await resyncUpcomingAppointmentReminders(user);
+};
+
+/**
+ * Book the reminders of the user's upcoming appointments again, after their settings changed
+ */
+export const resyncUpcomingAppointmentReminders = async (user: User): Promise<void> => {
+  const appointments = user.role === 'doctor'
+    ? await appointmentsRepo.listByDoctor(user.id)
+    : await appointmentsRepo.listByPatient(user.id);
+
+  for (const appointment of appointments) {
+    if (appointment.status === 'scheduled' && appointmentStart(appointment) > new Date()) {
+      await syncAppointmentReminders(appointment.id);
+    }
+  }
+};
+
+export const getDoctorDaySchedule = async (doctorId: number, date: string): Promise<Appointment[]> => {
+  return await appointmentsRepo.listScheduledForDoctorOnDate(doctorId, date);
+};
+
+const validateSlot = async (
+  doctorId: number,
+  input: AppointmentInput,
+  ignoreAppointmentId?: number
+): Promise<string | null> => {
+  if (!DATE_PATTERN.test(input.date) || !TIME_PATTERN.test(input.time)) {
+    return 'Please choose a valid date and time.';
+  }
+
+  const durationMinutes = input.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES;
+  if (durationMinutes <= 0 || toMinutes(input.time) + durationMinutes > 24 * 60) {
+    return 'The appointment has to end on the same day.';
+  }
+
+  if (appointmentStart(input) <= new Date()) {
+    return 'Appointments can only be booked in the future.';
+  }
+
+  const sameDay = await appointmentsRepo.listScheduledForDoctorOnDate(doctorId, input.date);
+  const conflict = findConflict(sameDay, input.time, durationMinutes, ignoreAppointmentId);
+  if (conflict) {
+    return `This overlaps another appointment at ${formatAppointmentTime(conflict)}.`;
+  }
+
+  return null;
+};
+
+/**
+ * Book a visit with one of the doctor's linked patients
+ */
+export const createAppointment = async (
+  doctorId: number,
+  patientId: number,
+  input: AppointmentInput
+): Promise<AppointmentResult> => {
+  const links = await relationshipsRepo.listLinks(patientId, doctorId);
+  if (!links.some(link => link.doctorId === doctorId)) {
+    return { success: false, error: 'You can only book appointments with your own patients.' };
+  }
+
+  const error = await validateSlot(doctorId, input);
+  if (error) {
+    return { success: false, error };
+  }
+
+  const id = await appointmentsRepo.insert({
+    patientId,
+    doctorId,
+    date: input.date,
+    time: input.time,
+    durationMinutes: input.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES,
+    notes: input.notes?.trim() || undefined,
+  });
+  await syncAppointmentReminders(id);
+
+  return { success: true, appointment: (await appointmentsRepo.findById(id)) ?? undefined };
+};
+
+/**
+ * Move a scheduled visit to another slot or change its notes
+ */
+export const rescheduleAppointment = async (
+  doctorId: number,
+  appointmentId: number,
+  input: AppointmentInput
+): Promise<AppointmentResult> => {
+  const appointment = await appointmentsRepo.findById(appointmentId);
+  if (!appointment || appointment.doctorId !== doctorId) {
+    return { success: false, error: 'Appointment not found.' };
+  }
+  if (appointment.status !== 'scheduled') {
+    return { success: false, error: `This appointment is already ${appointment.status}.` };
+  }
+
+  const error = await validateSlot(doctorId, input, appointmentId);
+  if (error) {
+    return { success: false, error };
+  }
+
+  const updated = await appointmentsRepo.update(appointmentId, {
+    date: input.date,
+    time: input.time,
+    durationMinutes: input.durationMinutes ?? DEFAULT_APPOINTMENT_MINUTES,
+    notes: input.notes?.trim() || undefined,
+  });
+  if (!updated) {
+    return { success: false, error: 'This appointment can no longer be changed.' };
+  }
+  await syncAppointmentReminders(appointmentId);
+
+  return { success: true, appointment: (await appointmentsRepo.findById(appointmentId)) ?? undefined };
+};
+
+/**
+ * Either the doctor or the patient can cancel a scheduled visit
+ */
+export const cancelAppointment = async (
+  userId: number,
+  appointmentId: number
+): Promise<AppointmentResult> => {
+  const appointment = await appointmentsRepo.findById(appointmentId);
+  if (!appointment || (appointment.doctorId !== userId && appointment.patientId !== userId)) {
+    return { success: false, error: 'Appointment not found.' };
+  }
+
+  if (!(await appointmentsRepo.setStatus(appointmentId, 'cancelled'))) {
+    return { success: false, error: `This appointment is already ${appointment.status}.` };
+  }
+  await syncAppointmentReminders(appointmentId);
+  return { success: true, appointment: { ...appointment, status: 'cancelled' } };
+};
+
+/**
+ * Only the doctor marks a visit as completed, once it has started
+ */
+export const completeAppointment = async (
+  doctorId: number,
+  appointmentId: number
+): Promise<AppointmentResult> => {
+  const appointment = await appointmentsRepo.findById(appointmentId);
+  if (!appointment || appointment.doctorId !== doctorId) {
+    return { success: false, error: 'Appointment not found.' };
+  }
+  if (appointmentStart(appointment) > new Date()) {
+    return { success: false, error: "This appointment hasn't started yet." };
+  }
+
+  if (!(await appointmentsRepo.setStatus(appointmentId, 'completed'))) {
+    return { success: false, error: `This appointment is already ${appointment.status}.` };
+  }
+  await syncAppointmentReminders(appointmentId);
+  return { success: true, appointment: { ...appointment, status: 'completed' } };
+};
+
+export const getAppointment = async (appointmentId: number): Promise<AppointmentWithPeople | null> => {
+  return await appointmentsRepo.findById(appointmentId);
+};
+
+export const getDoctorAppointments = async (doctorId: number): Promise<AppointmentWithPeople[]> => {
+  return await appointmentsRepo.listByDoctor(doctorId);
+};
+
+/**
+ * The patient's scheduled visits from today on, soonest first
+ */
+export const getUpcomingAppointments = async (patientId: number): Promise<AppointmentWithPeople[]> => {
+  const today = toDateKey(new Date());
+  const appointments = await appointmentsRepo.listByPatient(patientId);
+  return appointments.filter(a => a.status === 'scheduled' && a.date >= today);
+};
+
+export const getPastAppointments = async (patientId: number): Promise<AppointmentWithPeople[]> => {
+  const today = toDateKey(new Date());
+  const appointments = await appointmentsRepo.listByPatient(patientId);
+  return appointments.filter(a => a.status !== 'scheduled' || a.date < today).reverse();
+};
@@ -1,5 +1,15 @@
-import { getDatabase } from '../database/database';
-import { User, UserRole } from '../types';
+import { deviceProfilesRepo, usersRepo, relationshipsRepo, withTransaction, NewUser } from '../repositories';
+import { randomHex, stretchKey } from '../utils/cryptoUtils';
+import { findRedeemableInvitation, acceptInvitation } from './invitationService';
+import { DEFAULT_PERMISSIONS } from './permissionService';
+import { InvitationRole, User, UserRole } from '../types';
+
+const PIN_HASH_ROUNDS = 5000;
+const MIN_PIN_LENGTH = 4;
+// After this many wrong PINs the account locks, 1 minute at first and
+// doubling with every further failure up to an hour
+const MAX_FAILED_LOGINS = 5;
+const MAX_LOCKOUT_MINUTES = 60;
 
 const generateUniqueCode = (): string => {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
@@ -10,181 +20,378 @@ const generateUniqueCode = (): string => {
   return code;
 };
 
+// Stored as "rounds:hash" so the work factor can be raised without breaking existing PINs
+const hashPin = async (pin: string, salt: string, rounds: number = PIN_HASH_ROUNDS): Promise<string> =>
+  `${rounds}:${await stretchKey(pin, salt, rounds)}`;
+
+const verifyPin = async (user: User, pin: string): Promise<boolean> => {
+  if (!user.pinHash || !user.pinSalt) return false;
+  const rounds = parseInt(user.pinHash.split(':')[0], 10);
+  return (await hashPin(pin, user.pinSalt, rounds)) === user.pinHash;
+};
+
+export const validatePin = (pin: string): string | null => {
+  if (pin.length < MIN_PIN_LENGTH) {
+    return `PIN must be at least ${MIN_PIN_LENGTH} characters`;
+  }
+  if (/^(\d)\1+$/.test(pin) || '0123456789'.includes(pin) || '9876543210'.includes(pin)) {
+    return 'PIN is too easy to guess';
+  }
+  return null;
+};
+
+const createPinCredentials = async (pin: string): Promise<{ pinHash: string; pinSalt: string }> => {
+  const pinSalt = randomHex(16);
+  return { pinHash: await hashPin(pin, pinSalt), pinSalt };
+};
+
 export const createPatient = async (
   name: string,
   age: number,
-  username: string
-): Promise<{ user: User; uniqueCode: string }> => {
-  const db = await getDatabase();
+  username: string,
+  pin: string
+): Promise<{ success: boolean; user?: User; uniqueCode?: string; error?: string }> => {
+  if (await usersRepo.findByUsername(username)) {
+    return { success: false, error: 'This username is already taken.' };
+  }
+  
   const uniqueCode = generateUniqueCode();
+  const credentials = await createPinCredentials(pin);
   
-  const result = await db.runAsync(
-    'INSERT INTO Users (name, age, username, role, uniqueCode) VALUES (?, ?, ?, ?, ?)',
-    [name, age, username, 'patient', uniqueCode]
-  );
+  const id = await usersRepo.insert({
+    name,
+    age,
+    username,
+    role: 'patient',
+    uniqueCode,
+    ...credentials,
+  });
   
   const user: User = {
-    id: result.lastInsertRowId,
+    id,
     name,
     age,
     username,
     role: 'patient',
     uniqueCode,
+    ...credentials,
     createdAt: new Date().toISOString(),
   };
   
-  return { user, uniqueCode };
+  return { success: true, user, uniqueCode };
 };
 
-export const createCaregiver = async (
-  name: string,
-  relation: string,
-  patientCode: string
+/**
+ * Create a caregiver or doctor, use up their invitation and link them to its
+ * patient in one transaction, so a code redeemed twice at once links only once
+ */
+const registerWithInvitation = async (
+  newUser: NewUser,
+  role: InvitationRole,
+  inviteCode: string,
+  pin: string,
+  link: (patientId: number, userId: number) => Promise<number>
 ): Promise<{ success: boolean; user?: User; error?: string }> => {
-  const db = await getDatabase();
-  
-  // Validate patient code
-  const patient = await db.getFirstAsync<User>(
-    'SELECT * FROM Users WHERE uniqueCode = ? AND role = ?',
-    [patientCode, 'patient']
-  );
+  // Validate invitation code
+  const { invitation, error } = await findRedeemableInvitation(inviteCode, role);
   
-  if (!patient) {
-    return { success: false, error: 'Invalid Patient Code.' };
+  if (!invitation) {
+    return { success: false, error };
   }
   
-  // Create caregiver
-  const result = await db.runAsync(
-    'INSERT INTO Users (name, relation, role, uniqueCode) VALUES (?, ?, ?, ?)',
-    [name, relation, 'caregiver', generateUniqueCode()]
-  );
+  const credentials = await createPinCredentials(pin);
+  let id = 0;
+  let accepted = false;
   
-  const caregiver: User = {
-    id: result.lastInsertRowId,
-    name,
-    relation,
-    role: 'caregiver',
-    uniqueCode: generateUniqueCode(),
-    createdAt: new Date().toISOString(),
-  };
+  try {
+    await withTransaction(async () => {
+      id = await usersRepo.insert({ ...newUser, ...credentials });
+      accepted = await acceptInvitation(invitation.id, id);
+      if (!accepted) {
+        throw new Error('Invitation is no longer valid');
+      }
+      await link(invitation.patientId, id);
+    });
+  } catch (txError) {
+    if (!accepted) {
+      return { success: false, error: 'This invitation has already been used.' };
+    }
+    throw txError;
+  }
   
-  // Create relationship
-  await db.runAsync(
-    'INSERT INTO Relationships (patientId, caregiverId, relationshipType) VALUES (?, ?, ?)',
-    [patient.id, caregiver.id, relation]
+  return {
+    success: true,
+    user: { ...newUser, ...credentials, id, createdAt: new Date().toISOString() },
+  };
+};
+
+export const createCaregiver = async (
+  name: string,
+  relation: string,
+  inviteCode: string,
+  pin: string
+): Promise<{ success: boolean; user?: User; error?: string }> => {
+  return await registerWithInvitation(
+    { name, relation, role: 'caregiver', uniqueCode: generateUniqueCode() },
+    'caregiver',
+    inviteCode,
+    pin,
+    (patientId, caregiverId) => relationshipsRepo.linkCaregiver(
+      patientId, caregiverId, relation, JSON.stringify(DEFAULT_PERMISSIONS.caregiver)
+    )
   );
-  
-  return { success: true, user: caregiver };
 };
 
 export const createDoctor = async (
   name: string,
   specialization: string,
-  patientCode: string
+  inviteCode: string,
+  pin: string
 ): Promise<{ success: boolean; user?: User; error?: string }> => {
-  const db = await getDatabase();
-  
-  // Validate patient code
-  const patient = await db.getFirstAsync<User>(
-    'SELECT * FROM Users WHERE uniqueCode = ? AND role = ?',
-    [patientCode, 'patient']
+  return await registerWithInvitation(
+    { name, specialization, role: 'doctor', uniqueCode: generateUniqueCode() },
+    'doctor',
+    inviteCode,
+    pin,
+    (patientId, doctorId) => relationshipsRepo.linkDoctor(
+      patientId, doctorId, specialization, JSON.stringify(DEFAULT_PERMISSIONS.doctor)
+    )
   );
+};
+
+/**
+ * Link an existing caregiver or doctor account to another patient
+ * using an invitation that patient created
+ */
+export const linkPatientByInvitation = async (
+  user: User,
+  inviteCode: string,
+  relationshipType?: string
+): Promise<{ success: boolean; patient?: User; error?: string }> => {
+  if (user.role !== 'caregiver' && user.role !== 'doctor') {
+    return { success: false, error: 'Only caregivers and doctors can link patients.' };
+  }
+  
+  const { invitation, error } = await findRedeemableInvitation(inviteCode, user.role);
   
-  if (!patient) {
-    return { success: false, error: 'Invalid Patient Code.' };
+  if (!invitation) {
+    return { success: false, error };
   }
   
-  // Create doctor
-  const result = await db.runAsync(
-    'INSERT INTO Users (name, specialization, role, uniqueCode) VALUES (?, ?, ?, ?)',
-    [name, specialization, 'doctor', generateUniqueCode()]
-  );
+  if ((await relationshipsRepo.listLinks(invitation.patientId, user.id)).length > 0) {
+    return { success: false, error: 'You are already linked to this patient.' };
+  }
   
-  const doctor: User = {
-    id: result.lastInsertRowId,
-    name,
-    specialization,
-    role: 'doctor',
-    uniqueCode: generateUniqueCode(),
-    createdAt: new Date().toISOString(),
-  };
+  let accepted = false;
   
-  // Create relationship
-  await db.runAsync(
-    'INSERT INTO Relationships (patientId, doctorId, relationshipType) VALUES (?, ?, ?)',
-    [patient.id, doctor.id, specialization]
-  );
+  try {
+    await withTransaction(async () => {
+      accepted = await acceptInvitation(invitation.id, user.id);
+      if (!accepted) {
+        throw new Error('Invitation is no longer valid');
+      }
+      if (user.role === 'caregiver') {
+        await relationshipsRepo.linkCaregiver(
+          invitation.patientId, user.id, relationshipType || user.relation || '', JSON.stringify(DEFAULT_PERMISSIONS.caregiver)
+        );
+      } else {
+        await relationshipsRepo.linkDoctor(
+          invitation.patientId, user.id, relationshipType || user.specialization || '', JSON.stringify(DEFAULT_PERMISSIONS.doctor)
+        );
+      }
+    });
+  } catch (txError) {
+    if (!accepted) {
+      return { success: false, error: 'This invitation has already been used.' };
+    }
+    throw txError;
+  }
+  
+  const patient = await usersRepo.findById(invitation.patientId);
+  return { success: true, patient: patient ?? undefined };
+};
+
+const NO_PIN_ERROR =
+  'This account has no PIN yet. Someone with a PIN on this phone, or linked to the account, can help set one up.';
+
+export interface LoginResult {
+  success: boolean;
+  user?: User;
+  error?: string;
+  needsPinSetup?: { id: number; name: string }; // the account has no PIN, see vouchForPinSetup
+}
+
+const lockoutMessage = (lockedUntil: Date, now: Date): string => {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - now.getTime()) / 60000));
+  return `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+};
+
+/**
+ * Check a PIN against the account, counting failures towards the lockout
+ */
+const attemptLogin = async (
+  user: User,
+  pin: string,
+  invalidError: string
+): Promise<LoginResult> => {
+  const now = new Date();
+  
+  if (user.lockedUntil && new Date(user.lockedUntil) > now) {
+    return { success: false, error: lockoutMessage(new Date(user.lockedUntil), now) };
+  }
+  
+  // Account codes are shared with others, so they never stand in for a PIN
+  if (!user.pinHash) {
+    return { success: false, error: NO_PIN_ERROR, needsPinSetup: { id: user.id, name: user.name } };
+  }
+  
+  if (!(await verifyPin(user, pin))) {
+    const attempts = (user.failedLoginAttempts ?? 0) + 1;
+    if (attempts < MAX_FAILED_LOGINS) {
+      await usersRepo.recordFailedLogin(user.id, attempts, null);
+      return { success: false, error: invalidError };
+    }
+    
+    const lockMinutes = Math.min(MAX_LOCKOUT_MINUTES, 2 ** (attempts - MAX_FAILED_LOGINS));
+    const lockedUntil = new Date(now.getTime() + lockMinutes * 60000);
+    await usersRepo.recordFailedLogin(user.id, attempts, lockedUntil.toISOString());
+    return { success: false, error: lockoutMessage(lockedUntil, now) };
+  }
   
-  return { success: true, user: doctor };
+  await usersRepo.resetFailedLogins(user.id);
+  return { success: true, user: { ...user, failedLoginAttempts: 0, lockedUntil: undefined } };
 };
 
+/**
+ * Sign in with a username or account code plus PIN
+ */
 export const loginUser = async (
-  username: string,
-  uniqueCode: string
-): Promise<User | null> => {
-  const db = await getDatabase();
+  loginId: string,
+  pin: string
+): Promise<LoginResult> => {
+  const user = await usersRepo.findByLoginId(loginId);
   
-  const user = await db.getFirstAsync<User>(
-    'SELECT * FROM Users WHERE (username = ? OR uniqueCode = ?) AND uniqueCode = ?',
-    [username, uniqueCode, uniqueCode]
-  );
+  if (!user) {
+    return { success: false, error: 'Invalid username or PIN.' };
+  }
+  
+  return await attemptLogin(user, pin, 'Invalid username or PIN.');
+};
+
+/**
+ * Switch to a profile remembered on this device, behind that profile's PIN
+ */
+export const unlockProfile = async (
+  userId: number,
+  pin: string
+): Promise<LoginResult> => {
+  const user = await usersRepo.findById(userId);
+  
+  if (!user) {
+    return { success: false, error: 'This profile no longer exists.' };
+  }
   
-  return user || null;
+  return await attemptLogin(user, pin, 'Incorrect PIN.');
+};
+
+/**
+ * Let an account without a PIN - one from before PINs, or one whose username went
+ * to an older account - sign in once to choose its first PIN, vouched for by
+ * another account signing in with its own PIN. The voucher has to be linked to
+ * the account (its patient, caregiver or doctor), or both have to be profiles
+ * remembered on this phone. Account codes are shared with others, so they never
+ * open an account on their own.
+ * Returns the account to open; SetPinScreen then asks for its PIN.
+ */
+export const vouchForPinSetup = async (
+  accountId: number,
+  voucherLoginId: string,
+  voucherPin: string
+): Promise<LoginResult> => {
+  const account = await usersRepo.findById(accountId);
+  if (!account) {
+    return { success: false, error: 'This account no longer exists.' };
+  }
+  if (account.pinHash) {
+    return { success: false, error: 'This account already has a PIN.' };
+  }
+  
+  const voucher = await usersRepo.findByLoginId(voucherLoginId);
+  if (!voucher || voucher.id === account.id) {
+    return { success: false, error: 'Invalid username or PIN.' };
+  }
+  const signIn = await attemptLogin(voucher, voucherPin, 'Invalid username or PIN.');
+  if (!signIn.success) {
+    return { success: false, error: signIn.error };
+  }
+  
+  const deviceProfileIds = await deviceProfilesRepo.listUserIds();
+  const bothOnDevice = deviceProfileIds.includes(account.id) && deviceProfileIds.includes(voucher.id);
+  const linked = (await relationshipsRepo.listLinks(account.id, voucher.id)).length > 0
+    || (await relationshipsRepo.listLinks(voucher.id, account.id)).length > 0;
+  if (!bothOnDevice && !linked) {
+    return {
+      success: false,
+      error: `${voucher.name} isn't linked to ${account.name} and isn't a profile on this phone with them.`,
+    };
+  }
+  
+  return { success: true, user: account };
+};
+
+/**
+ * Set or change a user's PIN. Changing needs the current PIN, the first one doesn't;
+ * accounts without a PIN can't sign in, so only a session already open on this
+ * device, or one vouched for with vouchForPinSetup, gets that far (see SetPinScreen).
+ */
+export const setUserPin = async (
+  userId: number,
+  newPin: string,
+  currentPin?: string
+): Promise<{ success: boolean; user?: User; error?: string }> => {
+  const user = await usersRepo.findById(userId);
+  if (!user) {
+    return { success: false, error: 'User not found.' };
+  }
+  
+  if (user.pinHash && !(currentPin !== undefined && (await verifyPin(user, currentPin)))) {
+    return { success: false, error: 'Current PIN is incorrect.' };
+  }
+  
+  const pinError = validatePin(newPin);
+  if (pinError) {
+    return { success: false, error: pinError };
+  }
+  
+  const { pinHash, pinSalt } = await createPinCredentials(newPin);
+  await usersRepo.setPin(userId, pinHash, pinSalt);
+  
+  return { success: true, user: { ...user, pinHash, pinSalt, failedLoginAttempts: 0 } };
 };
 
 export const getUserById = async (id: number): Promise<User | null> => {
-  const db = await getDatabase();
-  const user = await db.getFirstAsync<User>('SELECT * FROM Users WHERE id = ?', [id]);
-  return user || null;
+  return await usersRepo.findById(id);
 };
 
 export const getPatientsByCaregiver = async (caregiverId: number): Promise<User[]> => {
-  const db = await getDatabase();
-  const patients = await db.getAllAsync<User>(
-    `SELECT u.* FROM Users u
-     INNER JOIN Relationships r ON u.id = r.patientId
-     WHERE r.caregiverId = ?`,
-    [caregiverId]
-  );
-  return patients;
+  return await relationshipsRepo.listPatientsOfCaregiver(caregiverId);
 };
 
 export const getPatientsByDoctor = async (doctorId: number): Promise<User[]> => {
-  const db = await getDatabase();
-  const patients = await db.getAllAsync<User>(
-    `SELECT u.* FROM Users u
-     INNER JOIN Relationships r ON u.id = r.patientId
-     WHERE r.doctorId = ?`,
-    [doctorId]
-  );
-  return patients;
+  return await relationshipsRepo.listPatientsOfDoctor(doctorId);
 };
 
 export const getLinkedPatient = async (
   caregiverOrDoctorId: number,
   role: UserRole
 ): Promise<User | null> => {
-  const db = await getDatabase();
-  
-  let patient: User | null = null;
+  let patients: User[] = [];
   
   if (role === 'caregiver') {
-    patient = await db.getFirstAsync<User>(
-      `SELECT u.* FROM Users u
-       INNER JOIN Relationships r ON u.id = r.patientId
-       WHERE r.caregiverId = ?
-       LIMIT 1`,
-      [caregiverOrDoctorId]
-    );
+    patients = await relationshipsRepo.listPatientsOfCaregiver(caregiverOrDoctorId);
   } else if (role === 'doctor') {
-    patient = await db.getFirstAsync<User>(
-      `SELECT u.* FROM Users u
-       INNER JOIN Relationships r ON u.id = r.patientId
-       WHERE r.doctorId = ?
-       LIMIT 1`,
-      [caregiverOrDoctorId]
-    );
+    patients = await relationshipsRepo.listPatientsOfDoctor(caregiverOrDoctorId);
   }
   
-  return patient || null;
+  return patients[0] || null;
 };
@@ -0,0 +1,107 @@
+import * as TaskManager from 'expo-task-manager';
+import * as BackgroundTask from 'expo-background-task';
+import * as Notifications from 'expo-notifications';
+import { fromExpoResponse } from '../notifications/expoNotifier';
+import { usersRepo } from '../repositories';
+import { getDeviceProfileIds } from './deviceProfileService';
+import { runEscalations } from './escalationService';
+import { updateAdherenceStats } from './medicineService';
+import { sweepMissedDoses } from './missedDoseService';
+import { checkNotificationPermissions, reconcileReminders } from './notificationService';
+import { handleReminderAction } from './reminderActionService';
+import { generateDueLogs } from './scheduleService';
+
+const MISSED_DOSE_SWEEP_TASK = 'ownmedicare-missed-dose-sweep';
+const REMINDER_ACTION_TASK = 'ownmedicare-reminder-action';
+
+// Android/iOS decide the actual cadence, this is only the lower bound
+const SWEEP_INTERVAL_MINUTES = 15;
+
+/**
+ * Define the background tasks. The OS may start the app just to run one, so
+ * this has to be called at module scope of the app entry, before any render.
+ */
+export const defineBackgroundTasks = (): void => {
+  TaskManager.defineTask(MISSED_DOSE_SWEEP_TASK, async () => {
+    try {
+      const patientIds: number[] = [];
+      for (const profileId of await getDeviceProfileIds()) {
+        const profile = await usersRepo.findById(profileId);
+        if (profile?.role === 'patient') patientIds.push(profileId);
+      }
+
+      // Patients who haven't opened the app today have no logs to escalate or sweep yet
+      for (const patientId of patientIds) {
+        await generateDueLogs(patientId);
+      }
+      await runEscalations();
+      await sweepMissedDoses();
+      for (const patientId of patientIds) {
+        await updateAdherenceStats(patientId);
+      }
+
+      // Top up one-off reminders and follow-ups for patients who haven't opened the app
+      if (await checkNotificationPermissions()) {
+        for (const patientId of patientIds) {
+          await reconcileReminders(patientId);
+        }
+      }
+      return BackgroundTask.BackgroundTaskResult.Success;
+    } catch (error) {
+      console.error('Background missed dose sweep failed:', error);
+      return BackgroundTask.BackgroundTaskResult.Failed;
+    }
+  });
+
+  // Android runs this for action presses while the app is in the background or killed
+  TaskManager.defineTask<Notifications.NotificationTaskPayload>(REMINDER_ACTION_TASK, async ({ data, error }) => {
+    if (error || !data || !('actionIdentifier' in data)) return;
+
+    try {
+      await handleReminderAction(fromExpoResponse(data));
+    } catch (taskError) {
+      console.error('Background reminder action failed:', taskError);
+    }
+  });
+};
+
+/**
+ * Register the periodic background sweep so doses are marked missed
+ * even while the app stays closed
+ */
+export const registerMissedDoseSweep = async (): Promise<boolean> => {
+  try {
+    const status = await BackgroundTask.getStatusAsync();
+    if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+      return false;
+    }
+
+    const isRegistered = await TaskManager.isTaskRegisteredAsync(MISSED_DOSE_SWEEP_TASK);
+    if (!isRegistered) {
+      await BackgroundTask.registerTaskAsync(MISSED_DOSE_SWEEP_TASK, {
+        minimumInterval: SWEEP_INTERVAL_MINUTES,
+      });
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error registering missed dose sweep:', error);
+    return false;
+  }
+};
+
+/**
+ * Hand reminder button presses to the background task
+ */
+export const registerReminderActionTask = async (): Promise<boolean> => {
+  try {
+    const isRegistered = await TaskManager.isTaskRegisteredAsync(REMINDER_ACTION_TASK);
+    if (!isRegistered) {
+      await Notifications.registerTaskAsync(REMINDER_ACTION_TASK);
+    }
+    return true;
+  } catch (error) {
+    console.error('Error registering reminder action task:', error);
+    return false;
+  }
+};
@@ -0,0 +1,344 @@
+import * as Crypto from 'expo-crypto';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { backupRepo, withTransaction, PatientDataset, BackupTable } from '../repositories';
+import { LATEST_SCHEMA_VERSION } from '../database/migrations';
+import { randomHex, sha256, stretchKey } from '../utils/cryptoUtils';
+import { toDateKey } from '../utils/dateUtils';
+
+export const BACKUP_FORMAT = 'ownmedicare-backup';
+// Bump when the archive layout changes; older versions must stay readable
+export const BACKUP_VERSION = 1;
+
+const BACKUP_KEY_ROUNDS = 5000;
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number; // database schema the rows were read from
+  createdAt: string;
+  encryption?: {
+    algorithm: 'AES-256-GCM';
+    rounds: number;
+    salt: string;
+  };
+  checksum: string; // SHA-256 of the dataset JSON, before encryption
+  data: string; // dataset JSON, or base64 sealed data when encrypted
+}
+
+export interface RestoreSummary {
+  mode: RestoreMode;
+  patientName: string; // as named in the backup
+  inserted: number;
+  skipped: number; // already on this device (merge mode)
+}
+
+// Tables marked optional were added after version 1 backups and may be missing from them
+const DATASET_TABLES: {
+  key: keyof PatientDataset;
+  table: BackupTable;
+  required: string[];
+  optional?: boolean;
+}[] = [
+  { key: 'users', table: 'Users', required: ['name', 'role', 'uniqueCode'] },
+  { key: 'medicines', table: 'Medicines', required: ['patientId', 'name', 'dosage', 'frequency', 'times'] },
+  { key: 'medicineLogs', table: 'MedicineLogs', required: ['medicineId', 'patientId', 'scheduledTime', 'status'] },
+  { key: 'adherenceStats', table: 'AdherenceStats', required: ['patientId', 'date'] },
+  { key: 'relationships', table: 'Relationships', required: ['patientId', 'relationshipType'] },
+  { key: 'faceScanReports', table: 'FaceScanReports', required: ['patientId', 'scannedAt'] },
+  { key: 'dosePlanSteps', table: 'DosePlanSteps', required: ['medicineId', 'stepOrder', 'dosage'] },
+  { key: 'appointments', table: 'Appointments', required: ['patientId', 'doctorId', 'date', 'time'] },
+  {
+    key: 'consultations',
+    table: 'Consultations',
+    required: ['patientId', 'doctorId', 'visitDate'],
+    optional: true,
+  },
+];
+
+const getBackupKey = async (password: string, salt: string, rounds: number) =>
+  Crypto.AESEncryptionKey.import(await stretchKey(password, salt, rounds), 'hex');
+
+/**
+ * Serialize all of a patient's data into a versioned, checksummed archive,
+ * AES-GCM encrypted when a password is given
+ */
+export const createBackup = async (patientId: number, password?: string): Promise<BackupArchive> => {
+  const dataset = await backupRepo.readPatientDataset(patientId);
+  if (dataset.users.length === 0) {
+    throw new Error('Patient not found');
+  }
+
+  const json = JSON.stringify(dataset);
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: LATEST_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: await sha256(json),
+    data: json,
+  };
+
+  if (password) {
+    const salt = randomHex(16);
+    const key = await getBackupKey(password, salt, BACKUP_KEY_ROUNDS);
+    const sealed = await Crypto.aesEncryptAsync(new TextEncoder().encode(json), key);
+    archive.encryption = { algorithm: 'AES-256-GCM', rounds: BACKUP_KEY_ROUNDS, salt };
+    archive.data = await sealed.combined('base64');
+  }
+
+  return archive;
+};
+
+/**
+ * Write a backup file to the cache directory and open the share sheet for it
+ */
+export const exportBackup = async (patientId: number, password?: string): Promise<void> => {
+  const archive = await createBackup(patientId, password);
+
+  const file = new File(Paths.cache, `ownmedicare-backup-${toDateKey(new Date())}.json`);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(JSON.stringify(archive));
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(file.uri, {
+    mimeType: 'application/json',
+    dialogTitle: 'Save OwnMediCare backup',
+  });
+};
+
+/**
+ * Let the user pick a backup file, returns its contents or null when cancelled
+ */
+export const pickBackupFile = async (): Promise<string | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'text/plain'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  return await new File(result.assets[0].uri).text();
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseArchive = (contents: string): BackupArchive | string => {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(contents);
+  } catch {
+    return 'This file is not an OwnMediCare backup.';
+  }
+
+  if (!isRecord(archive) || archive.format !== BACKUP_FORMAT) {
+    return 'This file is not an OwnMediCare backup.';
+  }
+  if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+    return 'This backup was made by a newer version of the app. Please update first.';
+  }
+  if (typeof archive.schemaVersion !== 'number' || archive.schemaVersion > LATEST_SCHEMA_VERSION) {
+    return 'This backup was made by a newer version of the app. Please update first.';
+  }
+  if (typeof archive.checksum !== 'string' || typeof archive.data !== 'string') {
+    return 'The backup file is damaged.';
+  }
+  return archive as unknown as BackupArchive;
+};
+
+const validateDataset = (dataset: unknown): PatientDataset | string => {
+  if (!isRecord(dataset)) return 'The backup file is damaged.';
+
+  for (const { key, required, optional } of DATASET_TABLES) {
+    if (optional && dataset[key] === undefined) {
+      dataset[key] = [];
+    }
+    const rows = dataset[key];
+    if (!Array.isArray(rows)) return 'The backup file is damaged.';
+
+    const valid = rows.every(
+      row => isRecord(row) && typeof row.id === 'number' && required.every(c => row[c] != null)
+    );
+    if (!valid) return 'The backup file is damaged.';
+  }
+
+  const users = dataset.users as PatientDataset['users'];
+  if (users.length === 0 || users[0].role !== 'patient') {
+    return 'The backup does not contain a patient.';
+  }
+  return dataset as unknown as PatientDataset;
+};
+
+/**
+ * Decrypt and verify an archive, returning the dataset or an error message
+ */
+const openArchive = async (archive: BackupArchive, password?: string): Promise<PatientDataset | string> => {
+  let json = archive.data;
+
+  if (archive.encryption) {
+    if (!password) return 'This backup is password protected.';
+    try {
+      const key = await getBackupKey(password, archive.encryption.salt, archive.encryption.rounds);
+      const plaintext = await Crypto.aesDecryptAsync(
+        Crypto.AESSealedData.fromCombined(archive.data),
+        key,
+        { output: 'bytes' }
+      );
+      json = new TextDecoder().decode(plaintext);
+    } catch {
+      return 'Wrong password, or the backup file is damaged.';
+    }
+  }
+
+  if ((await sha256(json)) !== archive.checksum) {
+    return 'The backup file is damaged.';
+  }
+
+  try {
+    return validateDataset(JSON.parse(json));
+  } catch {
+    return 'The backup file is damaged.';
+  }
+};
+
+/**
+ * Restore a backup file's contents into the signed-in patient's own profile.
+ * Merge keeps what is already on the device and only adds missing records;
+ * replace wipes that patient's current data first. Linked caregivers and doctors
+ * are matched by unique code and role, or added as new accounts, and every id is
+ * remapped, so nothing collides with local rows. Account codes are shared with
+ * others, so a backup never stands in for another patient on this device.
+ */
+export const restoreBackup = async (
+  contents: string,
+  mode: RestoreMode,
+  patientId: number,
+  password?: string
+): Promise<{ success: boolean; summary?: RestoreSummary; error?: string }> => {
+  const archive = parseArchive(contents);
+  if (typeof archive === 'string') return { success: false, error: archive };
+
+  const dataset = await openArchive(archive, password);
+  if (typeof dataset === 'string') return { success: false, error: dataset };
+
+  const patient = dataset.users[0];
+  const userIds = new Map<number, number>();
+  const medicineIds = new Map<number, number>();
+  const appointmentIds = new Map<number, number>();
+  let inserted = 0;
+  let skipped = 0;
+
+  // Insert a row unless merge mode finds the same record already on the device
+  const restore = async (
+    table: BackupTable,
+    record: object,
+    match: Record<string, string | number | null>
+  ): Promise<number> => {
+    if (mode === 'merge') {
+      const existingId = await backupRepo.findMatchingId(table, match);
+      if (existingId !== null) {
+        skipped++;
+        return existingId;
+      }
+    }
+    inserted++;
+    return await backupRepo.insertRecord(table, record);
+  };
+
+  const mapUser = (id?: number | null) => (id == null ? null : userIds.get(id) ?? null);
+
+  try {
+    await withTransaction(async () => {
+      userIds.set(patient.id, patientId);
+
+      for (const user of dataset.users.slice(1)) {
+        // Caregivers and doctors are shared between patients, so they are matched in both modes
+        const existingId = await backupRepo.findMatchingId('Users', { uniqueCode: user.uniqueCode, role: user.role });
+        if (existingId !== null) {
+          skipped++;
+          userIds.set(user.id, existingId);
+          continue;
+        }
+        // The code belongs to a different kind of account here, leave its links out
+        if ((await backupRepo.findMatchingId('Users', { uniqueCode: user.uniqueCode })) !== null) continue;
+
+        // Usernames are unique; a taken one is dropped and the account signs in with its code
+        const usernameTaken = user.username != null
+          && (await backupRepo.findMatchingId('Users', { username: user.username })) !== null;
+
+        inserted++;
+        userIds.set(user.id, await backupRepo.insertRecord('Users', usernameTaken ? { ...user, username: null } : user));
+      }
+
+      if (mode === 'replace') {
+        await backupRepo.deletePatientData(patientId);
+      }
+
+      for (const medicine of dataset.medicines) {
+        const id = await restore('Medicines', { ...medicine, patientId },
+          { patientId, name: medicine.name, createdAt: medicine.createdAt });
+        medicineIds.set(medicine.id, id);
+      }
+
+      for (const step of dataset.dosePlanSteps) {
+        const medicineId = medicineIds.get(step.medicineId);
+        if (medicineId === undefined) continue;
+        await restore('DosePlanSteps', { ...step, medicineId },
+          { medicineId, stepOrder: step.stepOrder });
+      }
+
+      for (const log of dataset.medicineLogs) {
+        const medicineId = medicineIds.get(log.medicineId);
+        if (medicineId === undefined) continue;
+        await restore('MedicineLogs',
+          { ...log, medicineId, patientId, statusChangedBy: mapUser(log.statusChangedBy) },
+          { medicineId, scheduledTime: log.scheduledTime });
+      }
+
+      for (const stat of dataset.adherenceStats) {
+        await restore('AdherenceStats', { ...stat, patientId }, { patientId, date: stat.date });
+      }
+
+      for (const link of dataset.relationships) {
+        const caregiverId = mapUser(link.caregiverId);
+        const doctorId = mapUser(link.doctorId);
+        if (caregiverId === null && doctorId === null) continue;
+        await restore('Relationships', { ...link, patientId, caregiverId, doctorId },
+          { patientId, caregiverId, doctorId });
+      }
+
+      for (const scan of dataset.faceScanReports) {
+        await restore('FaceScanReports', { ...scan, patientId }, { patientId, scannedAt: scan.scannedAt });
+      }
+
+      for (const appointment of dataset.appointments) {
+        const doctorId = mapUser(appointment.doctorId);
+        if (doctorId === null) continue;
+        const id = await restore('Appointments', { ...appointment, patientId, doctorId },
+          { patientId, doctorId, date: appointment.date, time: appointment.time });
+        appointmentIds.set(appointment.id, id);
+      }
+
+      for (const consultation of dataset.consultations) {
+        const doctorId = mapUser(consultation.doctorId);
+        if (doctorId === null) continue;
+        const appointmentId = consultation.appointmentId == null
+          ? null
+          : appointmentIds.get(consultation.appointmentId) ?? null;
+        await restore('Consultations', { ...consultation, patientId, doctorId, appointmentId },
+          { patientId, doctorId, visitDate: consultation.visitDate, createdAt: consultation.createdAt });
+      }
+    });
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    return { success: false, error: 'Restore failed. Your existing data was not changed.' };
+  }
+
+  return { success: true, summary: { mode, patientName: patient.name, inserted, skipped } };
+};
@@ -0,0 +1,18 @@
+import { relationshipsRepo } from '../repositories';
+import { CareTeamMember } from '../types';
+
+export const getCareTeam = async (patientId: number): Promise<CareTeamMember[]> => {
+  return await relationshipsRepo.listCareTeam(patientId);
+};
+
+/**
+ * Remove a caregiver or doctor from the patient's care team.
+ * The patient disappears from their patient lists straight away; dose logs
+ * they recorded keep their statusChangedBy for the history.
+ */
+export const unlinkCareTeamMember = async (
+  patientId: number,
+  relationshipId: number
+): Promise<boolean> => {
+  return await relationshipsRepo.delete(relationshipId, patientId);
+};
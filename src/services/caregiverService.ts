@@ -0,0 +1,65 @@
+import { PermissionScope, User } from '../types';
+import { EscalatedDose } from '../repositories';
+import { getPatientsByCaregiver } from './authService';
+import { calculateAdherenceRate, getTodayLogsByPatient } from './medicineService';
+import { actorFor, getPermissions } from './permissionService';
+import { getCaregiverAlerts, CaregiverAlerts } from './alertService';
+import { getRecentEscalations } from './escalationService';
+
+export interface PatientSummary {
+  patient: User;
+  permissions: PermissionScope[];
+  adherenceRate: number | null; // today's rate, null when adherence isn't shared
+  pendingToday: number | null; // null when medicines aren't shared
+  missedToday: number | null;
+  escalations: EscalatedDose[] | null; // doses not taken in time, null when medicines aren't shared
+  alerts: CaregiverAlerts;
+}
+
+export interface CaregiverOverview {
+  patients: PatientSummary[];
+  pendingToday: number;
+  missedToday: number;
+  alertCount: number;
+  needsAttention: number; // patients with critical alerts or missed doses today
+}
+
+export const getPatientSummary = async (caregiver: User, patient: User): Promise<PatientSummary> => {
+  const actor = actorFor(caregiver);
+  const permissions = await getPermissions(caregiver.id, patient.id);
+
+  const [adherenceRate, todayLogs, escalations, caregiverAlerts] = await Promise.all([
+    permissions.includes('view_adherence') ? calculateAdherenceRate(patient.id, actor) : null,
+    permissions.includes('view_medicines') ? getTodayLogsByPatient(patient.id, actor) : null,
+    permissions.includes('view_medicines') ? getRecentEscalations(patient.id, actor) : null,
+    getCaregiverAlerts(patient.id, actor),
+  ]);
+
+  return {
+    patient,
+    permissions,
+    adherenceRate,
+    pendingToday: todayLogs ? todayLogs.filter(l => l.status === 'pending').length : null,
+    missedToday: todayLogs ? todayLogs.filter(l => l.status === 'missed').length : null,
+    escalations,
+    alerts: caregiverAlerts,
+  };
+};
+
+/**
+ * Today's picture across every patient the caregiver looks after
+ */
+export const getCaregiverOverview = async (caregiver: User): Promise<CaregiverOverview> => {
+  const patients = await getPatientsByCaregiver(caregiver.id);
+  const summaries = await Promise.all(patients.map(patient => getPatientSummary(caregiver, patient)));
+
+  return {
+    patients: summaries,
+    pendingToday: summaries.reduce((sum, s) => sum + (s.pendingToday ?? 0), 0),
+    missedToday: summaries.reduce((sum, s) => sum + (s.missedToday ?? 0), 0),
+    alertCount: summaries.reduce((sum, s) => sum + s.alerts.alerts.length, 0),
+    needsAttention: summaries.filter(
+      s => (s.missedToday ?? 0) > 0 || s.alerts.alerts.some(a => a.severity === 'critical')
+    ).length,
+  };
+};
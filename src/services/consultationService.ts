@@ -0,0 +1,153 @@
+import { appointmentsRepo, consultationsRepo, relationshipsRepo } from '../repositories';
+import { Consultation, ConsultationVitals, ConsultationWithDoctor, User } from '../types';
+import { toDateKey } from '../utils/dateUtils';
+
+export interface ConsultationInput {
+  appointmentId?: number;
+  visitDate?: string; // defaults to the appointment's date, or today
+  complaints?: string;
+  observations?: string;
+  vitals?: ConsultationVitals;
+  plan?: string;
+  medicationChanges?: string;
+}
+
+export interface ConsultationResult {
+  success: boolean;
+  consultation?: ConsultationWithDoctor;
+  error?: string;
+}
+
+export const parseVitals = (consultation: Pick<Consultation, 'vitals'>): ConsultationVitals =>
+  consultation.vitals ? (JSON.parse(consultation.vitals) as ConsultationVitals) : {};
+
+/**
+ * Vitals as one line, e.g. "BP 120/80 · HR 72 bpm · 36.8 °C"
+ */
+export const formatVitals = (vitals: ConsultationVitals): string =>
+  [
+    vitals.bloodPressure && `BP ${vitals.bloodPressure}`,
+    vitals.heartRate != null && `HR ${vitals.heartRate} bpm`,
+    vitals.temperature != null && `${vitals.temperature} °C`,
+    vitals.weight != null && `${vitals.weight} kg`,
+  ].filter(Boolean).join(' · ');
+
+const isDoctorOf = async (doctorId: number, patientId: number): Promise<boolean> => {
+  const links = await relationshipsRepo.listLinks(patientId, doctorId);
+  return links.some(link => link.doctorId === doctorId);
+};
+
+const toFields = (input: ConsultationInput, visitDate: string) => {
+  const text = (value?: string) => value?.trim() || undefined;
+  const vitals = Object.fromEntries(
+    Object.entries(input.vitals ?? {}).filter(([, value]) => value !== undefined && value !== '')
+  );
+
+  return {
+    visitDate,
+    complaints: text(input.complaints),
+    observations: text(input.observations),
+    vitals: Object.keys(vitals).length > 0 ? JSON.stringify(vitals) : undefined,
+    plan: text(input.plan),
+    medicationChanges: text(input.medicationChanges),
+  };
+};
+
+const isEmpty = (fields: ReturnType<typeof toFields>) =>
+  !fields.complaints && !fields.observations && !fields.vitals && !fields.plan && !fields.medicationChanges;
+
+/**
+ * Record notes for a visit with one of the doctor's patients.
+ * An appointment gets at most one set of notes, later changes edit it.
+ */
+export const createConsultation = async (
+  doctorId: number,
+  patientId: number,
+  input: ConsultationInput
+): Promise<ConsultationResult> => {
+  if (!(await isDoctorOf(doctorId, patientId))) {
+    return { success: false, error: 'You can only write notes for your own patients.' };
+  }
+
+  let visitDate = input.visitDate ?? toDateKey(new Date());
+
+  if (input.appointmentId !== undefined) {
+    const appointment = await appointmentsRepo.findById(input.appointmentId);
+    if (!appointment || appointment.doctorId !== doctorId || appointment.patientId !== patientId) {
+      return { success: false, error: 'Appointment not found.' };
+    }
+    if (await consultationsRepo.findByAppointment(input.appointmentId)) {
+      return { success: false, error: 'This appointment already has consultation notes.' };
+    }
+    visitDate = input.visitDate ?? appointment.date;
+  }
+
+  const fields = toFields(input, visitDate);
+  if (isEmpty(fields)) {
+    return { success: false, error: 'Please fill in at least one section.' };
+  }
+
+  const id = await consultationsRepo.insert({
+    ...fields,
+    patientId,
+    doctorId,
+    appointmentId: input.appointmentId,
+  });
+
+  return { success: true, consultation: (await consultationsRepo.findById(id)) ?? undefined };
+};
+
+export const updateConsultation = async (
+  doctorId: number,
+  consultationId: number,
+  input: ConsultationInput
+): Promise<ConsultationResult> => {
+  const existing = await consultationsRepo.findById(consultationId);
+  if (!existing || existing.doctorId !== doctorId) {
+    return { success: false, error: 'Only the doctor who wrote these notes can change them.' };
+  }
+
+  const fields = toFields(input, input.visitDate ?? existing.visitDate);
+  if (isEmpty(fields)) {
+    return { success: false, error: 'Please fill in at least one section.' };
+  }
+
+  await consultationsRepo.update(consultationId, doctorId, fields, new Date().toISOString());
+  return { success: true, consultation: (await consultationsRepo.findById(consultationId)) ?? undefined };
+};
+
+const assertCanView = async (patientId: number, viewer: User): Promise<void> => {
+  const allowed = viewer.id === patientId
+    || (viewer.role === 'doctor' && (await isDoctorOf(viewer.id, patientId)));
+
+  if (!allowed) {
+    throw new Error('Only the patient and their doctors can see consultation notes.');
+  }
+};
+
+/**
+ * Visit history, newest first. Patients see their own, doctors see it for
+ * the patients they're linked to; caregivers don't see consultation notes.
+ */
+export const getConsultations = async (
+  patientId: number,
+  viewer: User
+): Promise<ConsultationWithDoctor[]> => {
+  await assertCanView(patientId, viewer);
+  return await consultationsRepo.listByPatient(patientId);
+};
+
+export const getConsultation = async (
+  consultationId: number,
+  viewer: User
+): Promise<ConsultationWithDoctor | null> => {
+  const consultation = await consultationsRepo.findById(consultationId);
+  if (!consultation) return null;
+
+  await assertCanView(consultation.patientId, viewer);
+  return consultation;
+};
+
+export const getConsultationForAppointment = async (appointmentId: number): Promise<Consultation | null> => {
+  return await consultationsRepo.findByAppointment(appointmentId);
+};
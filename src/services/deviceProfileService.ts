@@ -0,0 +1,20 @@
+import { deviceProfilesRepo } from '../repositories';
+
+/**
+ * Ids of the profiles remembered on this device, oldest first. Kept in the
+ * database so background tasks can read them without the auth provider.
+ */
+export const getDeviceProfileIds = async (): Promise<number[]> => {
+  return await deviceProfilesRepo.listUserIds();
+};
+
+/**
+ * Remember a profile that signed in, so a shared phone can switch back to it
+ */
+export const rememberDeviceProfile = async (userId: number): Promise<void> => {
+  await deviceProfilesRepo.remember(userId);
+};
+
+export const forgetDeviceProfile = async (userId: number): Promise<void> => {
+  await deviceProfilesRepo.forget(userId);
+};
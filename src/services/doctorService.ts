@@ -0,0 +1,67 @@
+import { User } from '../types';
+import { getPatientsByDoctor } from './authService';
+import { calculateWeeklyAdherence } from './medicineService';
+import { actorFor, hasPermission } from './permissionService';
+
+// Same cut-offs the adherence badges use across the app
+export const ADHERENCE_TARGET = 80;
+export const ADHERENCE_CRITICAL = 60;
+
+export const ADHERENCE_BANDS: { label: string; min: number; max: number }[] = [
+  { label: '<40%', min: 0, max: 39 },
+  { label: '40-59%', min: 40, max: 59 },
+  { label: '60-79%', min: 60, max: 79 },
+  { label: '80%+', min: 80, max: 100 },
+];
+
+export interface PanelPatient {
+  patient: User;
+  weeklyAdherence: number | null; // null when adherence isn't shared
+}
+
+export interface DoctorPanel {
+  patients: PanelPatient[]; // worst adherence first, unshared last
+  distribution: number[]; // patient count per ADHERENCE_BANDS entry
+  belowTarget: number;
+  belowCritical: number;
+  averageAdherence: number | null;
+  notShared: number;
+}
+
+/**
+ * Weekly adherence across every patient on the doctor's panel
+ */
+export const getDoctorPanel = async (doctor: User): Promise<DoctorPanel> => {
+  const actor = actorFor(doctor);
+  const patients = await getPatientsByDoctor(doctor.id);
+
+  const panel = await Promise.all(
+    patients.map(async (patient): Promise<PanelPatient> => ({
+      patient,
+      weeklyAdherence: (await hasPermission(doctor.id, patient.id, 'view_adherence'))
+        ? await calculateWeeklyAdherence(patient.id, actor)
+        : null,
+    }))
+  );
+
+  panel.sort((a, b) => {
+    if (a.weeklyAdherence === null) return b.weeklyAdherence === null ? 0 : 1;
+    if (b.weeklyAdherence === null) return -1;
+    return a.weeklyAdherence - b.weeklyAdherence;
+  });
+
+  const rates = panel
+    .map(p => p.weeklyAdherence)
+    .filter((rate): rate is number => rate !== null);
+
+  return {
+    patients: panel,
+    distribution: ADHERENCE_BANDS.map(band => rates.filter(r => r >= band.min && r <= band.max).length),
+    belowTarget: rates.filter(r => r < ADHERENCE_TARGET).length,
+    belowCritical: rates.filter(r => r < ADHERENCE_CRITICAL).length,
+    averageAdherence: rates.length > 0
+      ? Math.round(rates.reduce((sum, r) => sum + r, 0) / rates.length)
+      : null,
+    notShared: panel.length - rates.length,
+  };
+};
@@ -0,0 +1,118 @@
+import { dosePlanRepo, medicinesRepo, withTransaction } from '../repositories';
+import { DosePlanStep, Medicine, StatusActor } from '../types';
+import { addDaysToKey, toDateKey } from '../utils/dateUtils';
+import { checkNotificationPermissions, reconcileReminders } from './notificationService';
+import { authorizeForMedicine } from './permissionService';
+
+export interface DosePlanStepInput {
+  dosage: string;
+  durationDays: number;
+}
+
+/**
+ * Replace a medicine's dose plan with consecutive steps starting on startDate.
+ * The course ends with the last step.
+ * Example: 40mg x 5 days, 30mg x 5 days starting 2024-03-01
+ * -> 40mg 03-01..03-05, 30mg 03-06..03-10
+ */
+export const setDosePlan = async (
+  medicineId: number,
+  startDate: string,
+  steps: DosePlanStepInput[],
+  actor: StatusActor
+): Promise<DosePlanStep[]> => {
+  await authorizeForMedicine(medicineId, actor, 'edit_medicines');
+  const plan: DosePlanStep[] = [];
+
+  await withTransaction(async () => {
+    await dosePlanRepo.deleteByMedicine(medicineId);
+
+    let stepStart = startDate;
+
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      const stepEnd = addDaysToKey(stepStart, Math.max(step.durationDays, 1) - 1);
+
+      const newStep = {
+        medicineId,
+        stepOrder: i,
+        dosage: step.dosage,
+        startDate: stepStart,
+        endDate: stepEnd,
+      };
+      const id = await dosePlanRepo.insertStep(newStep);
+
+      plan.push({ ...newStep, id, createdAt: new Date().toISOString() });
+
+      stepStart = addDaysToKey(stepEnd, 1);
+    }
+
+    const planEnd = getDosePlanEndDate(plan);
+    if (planEnd) {
+      await medicinesRepo.updateEndDate(medicineId, planEnd);
+    }
+  });
+
+  return plan;
+};
+
+export const getDosePlan = async (medicineId: number): Promise<DosePlanStep[]> => {
+  return await dosePlanRepo.listByMedicine(medicineId);
+};
+
+/**
+ * Remove a medicine's dose plan. The course end came from the plan (a planned
+ * medicine has no course length of its own), so the medicine goes back to being
+ * ongoing at its own dosage, and its reminders are booked again to match.
+ */
+export const deleteDosePlan = async (medicineId: number, actor: StatusActor): Promise<void> => {
+  await authorizeForMedicine(medicineId, actor, 'edit_medicines');
+
+  await withTransaction(async () => {
+    await dosePlanRepo.deleteByMedicine(medicineId);
+    await medicinesRepo.updateEndDate(medicineId, null);
+  });
+
+  const medicine = await medicinesRepo.findById(medicineId);
+  if (medicine && (await checkNotificationPermissions())) {
+    await reconcileReminders(medicine.patientId);
+  }
+};
+
+/**
+ * Last day covered by the plan, or null when the medicine has no plan
+ */
+export const getDosePlanEndDate = (plan: DosePlanStep[]): string | null => {
+  if (plan.length === 0) return null;
+  return plan[plan.length - 1].endDate;
+};
+
+/**
+ * Dosage to take on a given day: the matching plan step, otherwise the medicine's own dosage
+ */
+export const getDoseForDate = (
+  medicine: Medicine,
+  plan: DosePlanStep[],
+  date: Date
+): string => {
+  const dateKey = toDateKey(date);
+  const step = plan.find(s => s.startDate <= dateKey && dateKey <= s.endDate);
+  return step ? step.dosage : medicine.dosage;
+};
+
+/**
+ * Split a plan around a day for display: the active step and the ones still to come
+ */
+export const getPlanProgress = (
+  plan: DosePlanStep[],
+  date: Date = new Date()
+): { current: DosePlanStep | null; upcoming: DosePlanStep[]; completed: boolean } => {
+  const dateKey = toDateKey(date);
+  const endDate = getDosePlanEndDate(plan);
+
+  return {
+    current: plan.find(s => s.startDate <= dateKey && dateKey <= s.endDate) || null,
+    upcoming: plan.filter(s => s.startDate > dateKey),
+    completed: endDate !== null && dateKey > endDate,
+  };
+};
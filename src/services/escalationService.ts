@@ -0,0 +1,129 @@
+import { EscalatedDose, logsRepo, medicinesRepo } from '../repositories';
+import { EscalationPolicy, Medicine, StatusActor } from '../types';
+import { checkNotificationPermissions, reconcileReminders } from './notificationService';
+import { authorize, authorizeForMedicine } from './permissionService';
+
+// How far back the caregiver dashboard lists doses that reached the caregiver step,
+// and how far back a run looks for doses to escalate
+const RECENT_ESCALATION_HOURS = 24;
+
+export const REMIND_AGAIN_OPTIONS = [10, 15, 30];
+export const CAREGIVER_ALERT_OPTIONS = [20, 30, 45, 90];
+
+export const getEscalationPolicy = (medicine: Medicine): EscalationPolicy => ({
+  remindMinutes: medicine.escalateRemindMinutes ?? undefined,
+  caregiverMinutes: medicine.escalateCaregiverMinutes ?? undefined,
+});
+
+/**
+ * Every step has to happen before the dose is swept as missed, and the
+ * caregivers come after the patient's own follow-up
+ */
+export const validateEscalationPolicy = (policy: EscalationPolicy, graceMinutes: number): string | null => {
+  const { remindMinutes, caregiverMinutes } = policy;
+
+  if (remindMinutes !== undefined && remindMinutes >= graceMinutes) {
+    return 'The follow-up reminder has to come before the dose is marked missed.';
+  }
+  if (caregiverMinutes !== undefined && caregiverMinutes >= graceMinutes) {
+    return 'Caregivers have to be alerted before the dose is marked missed.';
+  }
+  if (remindMinutes !== undefined && caregiverMinutes !== undefined && caregiverMinutes <= remindMinutes) {
+    return 'Caregivers are alerted after the follow-up reminder.';
+  }
+  return null;
+};
+
+export const setEscalationPolicy = async (
+  medicineId: number,
+  policy: EscalationPolicy,
+  actor: StatusActor
+): Promise<{ success: boolean; error?: string }> => {
+  await authorizeForMedicine(medicineId, actor, 'edit_medicines');
+
+  const medicine = await medicinesRepo.findById(medicineId);
+  if (!medicine) {
+    return { success: false, error: 'Medicine not found.' };
+  }
+
+  const error = validateEscalationPolicy(policy, medicine.graceMinutes);
+  if (error) {
+    return { success: false, error };
+  }
+
+  await medicinesRepo.updateEscalation(medicineId, policy.remindMinutes ?? null, policy.caregiverMinutes ?? null);
+  if (await checkNotificationPermissions()) {
+    await reconcileReminders(medicine.patientId);
+  }
+  return { success: true };
+};
+
+export const describeEscalationPolicy = (policy: EscalationPolicy): string => {
+  const steps = [
+    policy.remindMinutes !== undefined && `remind again after ${policy.remindMinutes} min`,
+    policy.caregiverMinutes !== undefined && `alert caregivers after ${policy.caregiverMinutes} min`,
+  ].filter(Boolean);
+
+  if (steps.length === 0) return 'Off';
+  const text = steps.join(', then ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+/**
+ * Record the follow-up steps of doses that are still pending. The notifications
+ * themselves - the patient's follow-up and the alerts to caregivers with a
+ * profile on this device - are booked ahead with the reminders (see
+ * notificationService), as this only runs when the app opens or the OS starts
+ * the background task. The recorded caregiver step lists the dose on every
+ * caregiver's dashboard.
+ * Each step is recorded on the log and happens once; a dose whose caregiver step
+ * is already due skips the patient step. Doses past their grace window still
+ * count, so it has to run before the missed dose sweep.
+ * Returns the number of logs that were escalated.
+ */
+export const runEscalations = async (
+  patientId?: number,
+  now: Date = new Date()
+): Promise<number> => {
+  const since = new Date(now.getTime() - RECENT_ESCALATION_HOURS * 60 * 60 * 1000);
+  const candidates = await logsRepo.listEscalationCandidates(
+    patientId ?? null,
+    since.toISOString(),
+    now.toISOString()
+  );
+
+  let escalated = 0;
+
+  for (const log of candidates) {
+    const elapsedMinutes = (now.getTime() - new Date(log.scheduledTime).getTime()) / 60000;
+
+    if (log.escalateCaregiverMinutes !== null && elapsedMinutes >= log.escalateCaregiverMinutes) {
+      if (!(await logsRepo.setEscalationStage(log.id, 'caregivers_notified', now.toISOString()))) continue;
+      escalated++;
+    } else if (
+      log.escalateRemindMinutes !== null
+      && !log.escalationStage
+      && elapsedMinutes >= log.escalateRemindMinutes
+    ) {
+      if (!(await logsRepo.setEscalationStage(log.id, 'patient_reminded', now.toISOString()))) continue;
+      escalated++;
+    }
+  }
+
+  return escalated;
+};
+
+/**
+ * Doses of a patient that reached the caregiver step in the last day, newest
+ * first, whether or not the caregiver's profile is on this device
+ */
+export const getRecentEscalations = async (
+  patientId: number,
+  actor: StatusActor,
+  now: Date = new Date()
+): Promise<EscalatedDose[]> => {
+  await authorize(actor, patientId, 'view_medicines');
+
+  const since = new Date(now.getTime() - RECENT_ESCALATION_HOURS * 60 * 60 * 1000);
+  return await logsRepo.listCaregiverEscalationsSince(patientId, since.toISOString());
+};
@@ -0,0 +1,22 @@
+import { faceScansRepo } from '../repositories';
+import { FaceScanReport, StatusActor } from '../types';
+import { authorize } from './permissionService';
+
+export const saveFaceScan = async (
+  patientId: number,
+  scanResult: string,
+  confidence: number
+): Promise<FaceScanReport> => {
+  const scannedAt = new Date().toISOString();
+  const id = await faceScansRepo.insert(patientId, scanResult, confidence, scannedAt);
+  return { id, patientId, scanResult, confidence, scannedAt };
+};
+
+export const getFaceScanReports = async (
+  patientId: number,
+  actor: StatusActor,
+  limit: number = 10
+): Promise<FaceScanReport[]> => {
+  await authorize(actor, patientId, 'view_face_scans');
+  return await faceScansRepo.listByPatient(patientId, limit);
+};
@@ -4,3 +4,22 @@ export * from './notificationService';
 export * from './stockService';
 export * from './adaptiveTimeService';
 export * from './medicineSearchService';
+export * from './scheduleService';
+export * from './missedDoseService';
+export * from './reminderActionService';
+export * from './backgroundTaskService';
+export * from './deviceProfileService';
+export * from './escalationService';
+export * from './recurrenceService';
+export * from './dosePlanService';
+export * from './prnService';
+export * from './backupService';
+export * from './invitationService';
+export * from './careTeamService';
+export * from './permissionService';
+export * from './faceScanService';
+export * from './caregiverService';
+export * from './doctorService';
+export * from './appointmentService';
+export * from './consultationService';
+export * from './notificationSettingsService';
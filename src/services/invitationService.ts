@@ -0,0 +1,97 @@
+import * as Crypto from 'expo-crypto';
+import { invitationsRepo } from '../repositories';
+import { Invitation, InvitationRole, InvitationStatus } from '../types';
+
+export const DEFAULT_INVITATION_HOURS = 48;
+export const INVITATION_CODE_LENGTH = 8;
+
+// No 0/O or 1/I, the code is read out loud and typed by hand
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_URL_PREFIX = 'ownmedicare://invite/';
+
+export interface InvitationView extends Omit<Invitation, 'status'> {
+  status: InvitationStatus;
+  qrPayload: string;
+}
+
+const generateInvitationCode = (): string => {
+  const bytes = Crypto.getRandomBytes(INVITATION_CODE_LENGTH);
+  return Array.from(bytes, b => CODE_ALPHABET.charAt(b % CODE_ALPHABET.length)).join('');
+};
+
+/**
+ * Deep link encoded in the invitation's QR code, opens the matching registration screen
+ */
+export const buildInvitationPayload = (role: InvitationRole, code: string): string =>
+  `${INVITE_URL_PREFIX}${role}/${code}`;
+
+export const getInvitationStatus = (invitation: Invitation, now: Date = new Date()): InvitationStatus =>
+  invitation.status === 'pending' && new Date(invitation.expiresAt) <= now
+    ? 'expired'
+    : invitation.status;
+
+const toView = (invitation: Invitation, now: Date): InvitationView => ({
+  ...invitation,
+  status: getInvitationStatus(invitation, now),
+  qrPayload: buildInvitationPayload(invitation.role, invitation.code),
+});
+
+export const createInvitation = async (
+  patientId: number,
+  role: InvitationRole,
+  validHours: number = DEFAULT_INVITATION_HOURS
+): Promise<InvitationView> => {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + validHours * 60 * 60 * 1000).toISOString();
+  const code = generateInvitationCode();
+
+  const id = await invitationsRepo.insert(patientId, role, code, expiresAt);
+  const invitation = await invitationsRepo.findById(id);
+  return toView(invitation!, now);
+};
+
+export const getInvitations = async (patientId: number): Promise<InvitationView[]> => {
+  const now = new Date();
+  const invitations = await invitationsRepo.listByPatient(patientId);
+  return invitations.map(invitation => toView(invitation, now));
+};
+
+export const revokeInvitation = async (patientId: number, invitationId: number): Promise<boolean> => {
+  return await invitationsRepo.revoke(invitationId, patientId);
+};
+
+/**
+ * Look up an invitation that can still be redeemed for the given role
+ */
+export const findRedeemableInvitation = async (
+  code: string,
+  role: InvitationRole
+): Promise<{ invitation?: Invitation; error?: string }> => {
+  const invitation = await invitationsRepo.findByCode(code.trim().toUpperCase());
+
+  if (!invitation) {
+    return { error: 'Invalid invitation code.' };
+  }
+
+  switch (getInvitationStatus(invitation)) {
+    case 'accepted':
+      return { error: 'This invitation has already been used.' };
+    case 'revoked':
+      return { error: 'This invitation was cancelled by the patient.' };
+    case 'expired':
+      return { error: 'This invitation has expired. Ask the patient for a new one.' };
+  }
+
+  if (invitation.role !== role) {
+    return { error: `This invitation is for a ${invitation.role}.` };
+  }
+
+  return { invitation };
+};
+
+/**
+ * Mark an invitation used by the given user, false if someone else redeemed it first
+ */
+export const acceptInvitation = async (invitationId: number, userId: number): Promise<boolean> => {
+  return await invitationsRepo.markAccepted(invitationId, userId, new Date().toISOString());
+};
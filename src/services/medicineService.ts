@@ -1,6 +1,35 @@
-import { getDatabase } from '../database/database';
-import { Medicine, MedicineLog, AdherenceStat, AdherenceDetails } from '../types';
+import { medicinesRepo, logsRepo, dosePlanRepo, adherenceStatsRepo, NewMedicine } from '../repositories';
+import {
+  Medicine,
+  MedicineLog,
+  AdherenceStat,
+  AdherenceDetails,
+  StatusActor,
+  RecurrenceRule,
+  EscalationPolicy,
+} from '../types';
 import { checkAndNotifyLowStock } from './stockService';
+import { cancelDoseFollowUp, cancelMedicineReminders } from './notificationService';
+import { authorize, authorizeForMedicine } from './permissionService';
+import { localDayRange, toDateKey } from '../utils/dateUtils';
+
+// Default time after a scheduled dose before it is automatically marked missed
+export const DEFAULT_GRACE_MINUTES = 60;
+
+// Days of AdherenceStats rows rebuilt on each sync; past days are included
+// since doses can still be marked late
+const ADHERENCE_ROLLUP_DAYS = 30;
+
+export interface MedicineOptions {
+  graceMinutes?: number;
+  recurrence?: RecurrenceRule;
+  startDate?: string; // YYYY-MM-DD, defaults to today
+  endDate?: string; // YYYY-MM-DD, omit for an ongoing medicine
+  prn?: { minIntervalMinutes?: number; maxDailyDoses?: number };
+  escalation?: EscalationPolicy; // checked with validateEscalationPolicy
+  critical?: boolean; // reminders break through quiet hours and silent mode
+  actor: StatusActor; // the patient, or a caregiver or doctor adding on their behalf
+}
 
 export const addMedicine = async (
   patientId: number,
@@ -9,61 +38,119 @@ export const addMedicine = async (
   frequency: string,
   times: string[],
   stock: number,
-  instructions?: string
+  instructions: string | undefined,
+  options: MedicineOptions
 ): Promise<Medicine> => {
-  const db = await getDatabase();
-  
-  const result = await db.runAsync(
-    `INSERT INTO Medicines (patientId, name, dosage, frequency, times, stock, instructions)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
-    [patientId, name, dosage, frequency, JSON.stringify(times), stock, instructions || '']
-  );
-  
-  const medicine: Medicine = {
-    id: result.lastInsertRowId,
+  const { prn } = options;
+  await authorize(options.actor, patientId, 'edit_medicines');
+
+  const newMedicine: NewMedicine = {
     patientId,
     name,
     dosage,
     frequency,
     times: JSON.stringify(times),
+    recurrence: options.recurrence ? JSON.stringify(options.recurrence) : undefined,
     stock,
     instructions,
+    graceMinutes: options.graceMinutes ?? DEFAULT_GRACE_MINUTES,
+    startDate: options.startDate || toDateKey(new Date()),
+    endDate: options.endDate,
+    isPrn: prn ? 1 : 0,
+    minIntervalMinutes: prn?.minIntervalMinutes,
+    maxDailyDoses: prn?.maxDailyDoses,
+    escalateRemindMinutes: options.escalation?.remindMinutes,
+    escalateCaregiverMinutes: options.escalation?.caregiverMinutes,
+    isCritical: options.critical ? 1 : 0,
+  };
+  
+  const id = await medicinesRepo.insert(newMedicine);
+  
+  const medicine: Medicine = {
+    ...newMedicine,
+    id,
+    status: 'active',
     createdAt: new Date().toISOString(),
   };
   
   return medicine;
 };
 
-export const getMedicinesByPatient = async (patientId: number): Promise<Medicine[]> => {
-  const db = await getDatabase();
-  const medicines = await db.getAllAsync<Medicine>(
-    'SELECT * FROM Medicines WHERE patientId = ? ORDER BY createdAt DESC',
-    [patientId]
-  );
+/**
+ * Medicines the patient is currently taking (completed and stopped courses excluded)
+ */
+export const getMedicinesByPatient = async (
+  patientId: number,
+  actor: StatusActor
+): Promise<Medicine[]> => {
+  await authorize(actor, patientId, 'view_medicines');
+  const medicines = await medicinesRepo.listActiveByPatient(patientId);
   return medicines.map(m => ({
     ...m,
     times: m.times,
   }));
 };
 
-export const getMedicineById = async (medicineId: number): Promise<Medicine | null> => {
-  const db = await getDatabase();
-  const medicine = await db.getFirstAsync<Medicine>(
-    'SELECT * FROM Medicines WHERE id = ?',
-    [medicineId]
-  );
-  return medicine || null;
+/**
+ * Completed and stopped courses, kept with their log history
+ */
+export const getPastMedicinesByPatient = async (
+  patientId: number,
+  actor: StatusActor
+): Promise<Medicine[]> => {
+  await authorize(actor, patientId, 'view_medicines');
+  return await medicinesRepo.listPastByPatient(patientId);
 };
 
-export const updateMedicineStock = async (medicineId: number, stock: number): Promise<void> => {
-  const db = await getDatabase();
-  await db.runAsync('UPDATE Medicines SET stock = ? WHERE id = ?', [stock, medicineId]);
+export const getMedicineById = async (
+  medicineId: number,
+  actor: StatusActor
+): Promise<Medicine | null> => {
+  const medicine = await medicinesRepo.findById(medicineId);
+  if (medicine) {
+    await authorize(actor, medicine.patientId, 'view_medicines');
+  }
+  return medicine;
 };
 
-export const deleteMedicine = async (medicineId: number): Promise<void> => {
-  const db = await getDatabase();
-  await db.runAsync('DELETE FROM MedicineLogs WHERE medicineId = ?', [medicineId]);
-  await db.runAsync('DELETE FROM Medicines WHERE id = ?', [medicineId]);
+export const updateMedicineStock = async (
+  medicineId: number,
+  stock: number,
+  actor: StatusActor
+): Promise<void> => {
+  await authorizeForMedicine(medicineId, actor, 'edit_stock');
+  await medicinesRepo.updateStock(medicineId, stock);
+};
+
+/**
+ * Stop a medicine early without losing its history.
+ * Doses that are not due yet are removed so they don't count against adherence.
+ */
+export const archiveMedicine = async (medicineId: number, actor: StatusActor): Promise<void> => {
+  await authorizeForMedicine(medicineId, actor, 'edit_medicines');
+  const now = new Date();
+  
+  await medicinesRepo.archive(medicineId, now.toISOString(), toDateKey(now));
+  await logsRepo.deletePendingAfter(medicineId, now.toISOString());
+  await cancelMedicineReminders(medicineId);
+};
+
+/**
+ * Mark courses whose end date has passed as completed
+ */
+export const completeEndedCourses = async (
+  patientId: number,
+  now: Date = new Date()
+): Promise<number> => {
+  return await medicinesRepo.completeEnded(patientId, now.toISOString(), toDateKey(now));
+};
+
+export const deleteMedicine = async (medicineId: number, actor: StatusActor): Promise<void> => {
+  await authorizeForMedicine(medicineId, actor, 'edit_medicines');
+  await logsRepo.deleteByMedicine(medicineId);
+  await dosePlanRepo.deleteByMedicine(medicineId);
+  await medicinesRepo.delete(medicineId);
+  await cancelMedicineReminders(medicineId);
 };
 
 export const createMedicineLog = async (
@@ -71,166 +158,162 @@ export const createMedicineLog = async (
   patientId: number,
   scheduledTime: string
 ): Promise<MedicineLog> => {
-  const db = await getDatabase();
-  
-  const result = await db.runAsync(
-    `INSERT INTO MedicineLogs (medicineId, patientId, scheduledTime, status)
-     VALUES (?, ?, ?, ?)`,
-    [medicineId, patientId, scheduledTime, 'pending']
-  );
+  const id = await logsRepo.insertPending(medicineId, patientId, scheduledTime);
   
   const log: MedicineLog = {
-    id: result.lastInsertRowId,
+    id,
     medicineId,
     patientId,
     scheduledTime,
     status: 'pending',
+    isPrn: 0,
     createdAt: new Date().toISOString(),
   };
   
   return log;
 };
 
-export const getTodayLogsByPatient = async (patientId: number): Promise<MedicineLog[]> => {
-  const db = await getDatabase();
-  const today = new Date().toISOString().split('T')[0];
-  
-  const logs = await db.getAllAsync<MedicineLog>(
-    `SELECT * FROM MedicineLogs 
-     WHERE patientId = ? AND date(scheduledTime) = date(?)
-     ORDER BY scheduledTime ASC`,
-    [patientId, today]
-  );
-  
-  return logs;
+export const getTodayLogsByPatient = async (
+  patientId: number,
+  actor: StatusActor
+): Promise<MedicineLog[]> => {
+  await authorize(actor, patientId, 'view_medicines');
+  const { start, end } = localDayRange(new Date());
+  return await logsRepo.listByPatientBetween(patientId, start, end);
 };
 
-export const getLogsByMedicine = async (medicineId: number): Promise<MedicineLog[]> => {
-  const db = await getDatabase();
-  const logs = await db.getAllAsync<MedicineLog>(
-    'SELECT * FROM MedicineLogs WHERE medicineId = ? ORDER BY scheduledTime DESC',
-    [medicineId]
-  );
-  return logs;
+export const getLogsByMedicine = async (
+  medicineId: number,
+  actor: StatusActor
+): Promise<MedicineLog[]> => {
+  await authorizeForMedicine(medicineId, actor, 'view_adherence');
+  return await logsRepo.listByMedicine(medicineId);
+};
+
+export const updateMedicineGraceWindow = async (
+  medicineId: number,
+  graceMinutes: number,
+  actor: StatusActor
+): Promise<void> => {
+  await authorizeForMedicine(medicineId, actor, 'edit_medicines');
+  await medicinesRepo.updateGraceMinutes(medicineId, graceMinutes);
+};
+
+const authorizeForLog = async (logId: number, actor: StatusActor): Promise<MedicineLog | null> => {
+  const log = await logsRepo.findById(logId);
+  if (log) {
+    await authorize(actor, log.patientId, 'log_doses');
+  }
+  return log;
 };
 
 export const markMedicineTaken = async (
   logId: number,
+  actor: StatusActor,
   notes?: string
 ): Promise<void> => {
-  const db = await getDatabase();
-  
-  const log = await db.getFirstAsync<MedicineLog>(
-    'SELECT * FROM MedicineLogs WHERE id = ?',
-    [logId]
-  );
+  const log = await logsRepo.findById(logId);
+  if (log) {
+    await authorize(actor, log.patientId, 'log_doses');
+  }
   
-  await db.runAsync(
-    `UPDATE MedicineLogs SET status = 'taken', takenAt = ?, notes = ? WHERE id = ?`,
-    [new Date().toISOString(), notes || '', logId]
-  );
+  await logsRepo.setTaken(logId, new Date().toISOString(), notes || '', actor);
   
   if (log) {
+    await cancelDoseFollowUp(log.medicineId, log.scheduledTime);
     await checkAndNotifyLowStock(log.medicineId, log.patientId);
   }
 };
 
-export const markMedicineMissed = async (logId: number): Promise<void> => {
-  const db = await getDatabase();
-  await db.runAsync(`UPDATE MedicineLogs SET status = 'missed' WHERE id = ?`, [logId]);
+export const markMedicineMissed = async (
+  logId: number,
+  actor: StatusActor
+): Promise<void> => {
+  const log = await authorizeForLog(logId, actor);
+  await logsRepo.setMissed(logId, new Date().toISOString(), actor);
+  if (log) {
+    await cancelDoseFollowUp(log.medicineId, log.scheduledTime);
+  }
 };
 
-export const markMedicineSkipped = async (logId: number, notes?: string): Promise<void> => {
-  const db = await getDatabase();
-  await db.runAsync(
-    `UPDATE MedicineLogs SET status = 'skipped', notes = ? WHERE id = ?`,
-    [notes || 'Skipped by user', logId]
-  );
+export const markMedicineSkipped = async (
+  logId: number,
+  actor: StatusActor,
+  notes?: string
+): Promise<void> => {
+  const log = await authorizeForLog(logId, actor);
+  await logsRepo.setSkipped(logId, new Date().toISOString(), notes || 'Skipped by user', actor);
+  if (log) {
+    await cancelDoseFollowUp(log.medicineId, log.scheduledTime);
+  }
 };
 
-export const calculateAdherenceRate = async (patientId: number): Promise<number> => {
-  const db = await getDatabase();
-  const today = new Date().toISOString().split('T')[0];
-  
-  const result = await db.getFirstAsync<{ total: number; taken: number }>(
-    `SELECT 
-       COUNT(*) as total,
-       SUM(CASE WHEN status = 'taken' THEN 1 ELSE 0 END) as taken
-     FROM MedicineLogs 
-     WHERE patientId = ? AND date(scheduledTime) = date(?)`,
-    [patientId, today]
-  );
+export const calculateAdherenceRate = async (
+  patientId: number,
+  actor: StatusActor
+): Promise<number> => {
+  await authorize(actor, patientId, 'view_adherence');
+  const now = new Date();
+  const { start, end } = localDayRange(now);
   
-  if (!result || result.total === 0) return 100;
+  const result = await logsRepo.countScheduledBetween(patientId, start, end, now.toISOString());
+  
+  if (result.total === 0) return 100;
   
   return Math.round((result.taken / result.total) * 100);
 };
 
-export const updateAdherenceStats = async (patientId: number): Promise<void> => {
-  const db = await getDatabase();
-  const today = new Date().toISOString().split('T')[0];
-  
-  const result = await db.getFirstAsync<{ total: number; taken: number }>(
-    `SELECT 
-       COUNT(*) as total,
-       SUM(CASE WHEN status = 'taken' THEN 1 ELSE 0 END) as taken
-     FROM MedicineLogs 
-     WHERE patientId = ? AND date(scheduledTime) = date(?)`,
-    [patientId, today]
-  );
-  
-  const totalDoses = result?.total || 0;
-  const takenDoses = result?.taken || 0;
-  const adherenceRate = totalDoses > 0 ? (takenDoses / totalDoses) * 100 : 100;
-  
-  await db.runAsync(
-    `INSERT OR REPLACE INTO AdherenceStats (patientId, date, totalDoses, takenDoses, adherenceRate)
-     VALUES (?, ?, ?, ?, ?)`,
-    [patientId, today, totalDoses, takenDoses, adherenceRate]
-  );
+/**
+ * Roll the patient's logs up into the daily AdherenceStats rows behind the
+ * weekly and monthly charts, up to now. Days without scheduled doses get no row.
+ */
+export const updateAdherenceStats = async (patientId: number, now: Date = new Date()): Promise<void> => {
+  for (let daysAgo = ADHERENCE_ROLLUP_DAYS; daysAgo >= 0; daysAgo--) {
+    const day = new Date(now);
+    day.setDate(day.getDate() - daysAgo);
+    const { start, end } = localDayRange(day);
+    
+    const { total: totalDoses, taken: takenDoses } = await logsRepo.countScheduledBetween(
+      patientId,
+      start,
+      end,
+      now.toISOString()
+    );
+    if (totalDoses === 0) continue;
+    
+    const adherenceRate = (takenDoses / totalDoses) * 100;
+    await adherenceStatsRepo.upsert({ patientId, date: toDateKey(day), totalDoses, takenDoses, adherenceRate });
+  }
 };
 
-export const getWeeklyAdherence = async (patientId: number): Promise<AdherenceStat[]> => {
-  const db = await getDatabase();
-  const stats = await db.getAllAsync<AdherenceStat>(
-    `SELECT * FROM AdherenceStats 
-     WHERE patientId = ? 
-     AND date >= date('now', '-7 days')
-     ORDER BY date ASC`,
-    [patientId]
-  );
-  return stats;
+export const getWeeklyAdherence = async (
+  patientId: number,
+  actor: StatusActor
+): Promise<AdherenceStat[]> => {
+  return await getDetailedAdherenceStats(patientId, 7, actor);
 };
 
-export const getMonthlyAdherence = async (patientId: number): Promise<AdherenceStat[]> => {
-  const db = await getDatabase();
-  const stats = await db.getAllAsync<AdherenceStat>(
-    `SELECT * FROM AdherenceStats 
-     WHERE patientId = ? 
-     AND date >= date('now', '-30 days')
-     ORDER BY date ASC`,
-    [patientId]
-  );
-  return stats;
+export const getMonthlyAdherence = async (
+  patientId: number,
+  actor: StatusActor
+): Promise<AdherenceStat[]> => {
+  return await getDetailedAdherenceStats(patientId, 30, actor);
 };
 
 // ======================
 // ADHERENCE INTELLIGENCE ENGINE
 // ======================
 
-export const calculateAdherenceDetails = async (patientId: number): Promise<AdherenceDetails> => {
-  const db = await getDatabase();
-  
+export const calculateAdherenceDetails = async (
+  patientId: number,
+  actor: StatusActor
+): Promise<AdherenceDetails> => {
+  await authorize(actor, patientId, 'view_adherence');
   const thirtyDaysAgo = new Date();
   thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
   const dateString = thirtyDaysAgo.toISOString().split('T')[0];
   
-  const logs = await db.getAllAsync<MedicineLog>(
-    `SELECT * FROM MedicineLogs 
-     WHERE patientId = ? AND date(scheduledTime) >= date(?)
-     ORDER BY scheduledTime ASC`,
-    [patientId, dateString]
-  );
+  const logs = await logsRepo.listScheduledSince(patientId, dateString, new Date().toISOString());
   
   const totalDoses = logs.length;
   const takenDoses = logs.filter(l => l.status === 'taken').length;
@@ -247,7 +330,7 @@ export const calculateAdherenceDetails = async (patientId: number): Promise<Adhe
   
   const missedCount = missedDoses;
   
-  const weeklyAdherence = await calculateWeeklyAdherence(patientId);
+  const weeklyAdherence = await calculateWeeklyAdherence(patientId, actor);
   const averageDelayTime = await calculateAverageDelayTime(patientId);
   const mostMissedTimePeriod = await getMostMissedTimePeriod(patientId);
   
@@ -265,39 +348,29 @@ export const calculateAdherenceDetails = async (patientId: number): Promise<Adhe
   };
 };
 
-export const calculateWeeklyAdherence = async (patientId: number): Promise<number> => {
-  const db = await getDatabase();
-  
+export const calculateWeeklyAdherence = async (
+  patientId: number,
+  actor: StatusActor
+): Promise<number> => {
+  await authorize(actor, patientId, 'view_adherence');
   const sevenDaysAgo = new Date();
   sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
   const dateString = sevenDaysAgo.toISOString().split('T')[0];
   
-  const result = await db.getFirstAsync<{ total: number; taken: number }>(
-    `SELECT 
-       COUNT(*) as total,
-       SUM(CASE WHEN status = 'taken' THEN 1 ELSE 0 END) as taken
-     FROM MedicineLogs 
-     WHERE patientId = ? AND date(scheduledTime) >= date(?)`,
-    [patientId, dateString]
-  );
+  const result = await logsRepo.countScheduledSince(patientId, dateString, new Date().toISOString());
   
-  if (!result || result.total === 0) return 100;
+  if (result.total === 0) return 100;
   
   return Math.round((result.taken / result.total) * 100);
 };
 
 export const calculateAverageDelayTime = async (patientId: number): Promise<number> => {
-  const db = await getDatabase();
-  
   const thirtyDaysAgo = new Date();
   thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
   const dateString = thirtyDaysAgo.toISOString().split('T')[0];
   
-  const logs = await db.getAllAsync<MedicineLog>(
-    `SELECT * FROM MedicineLogs 
-     WHERE patientId = ? AND date(scheduledTime) >= date(?) AND status = 'taken' AND takenAt IS NOT NULL`,
-    [patientId, dateString]
-  );
+  const logs = (await logsRepo.listScheduledSince(patientId, dateString, new Date().toISOString(), ['taken']))
+    .filter(log => log.takenAt);
   
   if (logs.length === 0) return 0;
   
@@ -321,16 +394,15 @@ export const calculateAverageDelayTime = async (patientId: number): Promise<numb
 };
 
 export const getMostMissedTimePeriod = async (patientId: number): Promise<string> => {
-  const db = await getDatabase();
-  
   const thirtyDaysAgo = new Date();
   thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
   const dateString = thirtyDaysAgo.toISOString().split('T')[0];
   
-  const logs = await db.getAllAsync<MedicineLog>(
-    `SELECT * FROM MedicineLogs 
-     WHERE patientId = ? AND date(scheduledTime) >= date(?) AND (status = 'missed' OR status = 'skipped')`,
-    [patientId, dateString]
+  const logs = await logsRepo.listScheduledSince(
+    patientId,
+    dateString,
+    new Date().toISOString(),
+    ['missed', 'skipped']
   );
   
   if (logs.length === 0) return 'No misses recorded';
@@ -371,20 +443,12 @@ export const getMostMissedTimePeriod = async (patientId: number): Promise<string
 
 export const getDetailedAdherenceStats = async (
   patientId: number, 
-  days: number = 7
+  days: number = 7,
+  actor: StatusActor
 ): Promise<AdherenceStat[]> => {
-  const db = await getDatabase();
-  
+  await authorize(actor, patientId, 'view_adherence');
   const startDate = new Date();
   startDate.setDate(startDate.getDate() - days);
-  const dateString = startDate.toISOString().split('T')[0];
-  
-  const stats = await db.getAllAsync<AdherenceStat>(
-    `SELECT * FROM AdherenceStats 
-     WHERE patientId = ? AND date >= date(?)
-     ORDER BY date ASC`,
-    [patientId, dateString]
-  );
   
-  return stats;
+  return await adherenceStatsRepo.listSince(patientId, toDateKey(startDate));
 };
@@ -0,0 +1,14 @@
+import { logsRepo } from '../repositories';
+import { DEFAULT_GRACE_MINUTES } from './medicineService';
+
+/**
+ * Mark pending doses as missed once their medicine's grace window has passed.
+ * Sweeps every patient on the device when no patientId is given.
+ * Returns the number of logs that were transitioned.
+ */
+export const sweepMissedDoses = async (
+  patientId?: number,
+  now: Date = new Date()
+): Promise<number> => {
+  return await logsRepo.sweepMissed(patientId ?? null, now.toISOString(), DEFAULT_GRACE_MINUTES);
+};
@@ -1,200 +1,910 @@
-import * as Notifications from 'expo-notifications';
-import { Platform } from 'react-native';
-import { Medicine } from '../types';
+import { AlertStyle, Medicine, User } from '../types';
+import {
+  deviceProfilesRepo,
+  logsRepo,
+  medicinesRepo,
+  relationshipsRepo,
+  remindersRepo,
+  usersRepo,
+} from '../repositories';
+import {
+  DEFAULT_ACTION,
+  getNotifier,
+  NotificationContent,
+  NotificationRequest,
+  NotificationResponse,
+  NotificationSubscription,
+  ScheduledNotification,
+} from '../notifications/notifier';
 import { getAdaptiveReminderTime } from './adaptiveTimeService';
+import { parseRecurrence, isSimpleDaily, getDoseTimesForDay, isWithinCourse } from './recurrenceService';
+import { getDosePlan, getDoseForDate } from './dosePlanService';
 
-Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: true,
-    shouldShowBanner: true,
-    shouldShowList: true,
-  }),
-});
+// Non-daily schedules are booked as one-off reminders this many days ahead
+// and topped up every time reminders are reconciled
+const REMINDER_HORIZON_DAYS = 7;
+
+// Follow-ups are one-off, as each is cancelled once its own dose is resolved,
+// so they are only booked for the doses of today and tomorrow
+const FOLLOW_UP_HORIZON_DAYS = 2;
+
+// iOS keeps at most 64 pending notifications per app, whichever profile they are
+// for. Medicine reminders of every patient on the device stay under this budget
+// together, leaving room for appointment reminders and snoozes; one-off reminders
+// past a patient's share are booked by a later reconcile.
+const MAX_DEVICE_REMINDERS = 48;
+
+// Doses due within this many minutes of each other share one reminder,
+// unless the patient picked another window
+export const DEFAULT_REMINDER_GROUP_MINUTES = 15;
+
+export const MEDICINE_REMINDER_CATEGORY = 'medicine-reminder';
+export const MEDICINE_GROUP_REMINDER_CATEGORY = 'medicine-group-reminder';
 
-export const requestNotificationPermissions = async (): Promise<boolean> => {
-  const { status: existingStatus } = await Notifications.getPermissionsAsync();
+export const REMINDER_ACTIONS = {
+  take: 'take',
+  takeAll: 'take_all',
+  snooze10: 'snooze_10',
+  snooze30: 'snooze_30',
+  skip: 'skip',
+} as const;
+
+export const SNOOZE_MINUTES: Record<string, number> = {
+  [REMINDER_ACTIONS.snooze10]: 10,
+  [REMINDER_ACTIONS.snooze30]: 30,
+};
+
+/**
+ * Several profiles can share a device, so every notification names the profile it is for
+ * and carries its id in data.profileId.
+ */
+const titleForProfile = async (title: string, profileId: number): Promise<string> => {
+  const profile = await usersRepo.findById(profileId);
+  return profile ? `${title} · ${profile.name}` : title;
+};
+
+type AlertMode = AlertStyle | 'critical';
+
+// Android fixes sound and vibration per channel, so every alert mode gets its own
+const ALERT_CHANNELS: Record<AlertMode, string> = {
+  sound: 'reminders',
+  vibrate: 'reminders-vibrate',
+  silent: 'reminders-silent',
+  critical: 'reminders-critical',
+};
+
+const VIBRATION_PATTERN = [0, 250, 250, 250];
+
+export const registerNotificationChannels = async (): Promise<void> => {
+  const notifier = getNotifier();
   
-  if (existingStatus === 'granted') {
-    return true;
-  }
+  await notifier.setChannel({
+    id: ALERT_CHANNELS.sound,
+    name: 'Reminders',
+    importance: 'high',
+    sound: true,
+    vibrationPattern: VIBRATION_PATTERN,
+  });
+  await notifier.setChannel({
+    id: ALERT_CHANNELS.vibrate,
+    name: 'Reminders (vibrate only)',
+    importance: 'high',
+    sound: false,
+    vibrationPattern: VIBRATION_PATTERN,
+  });
+  await notifier.setChannel({
+    id: ALERT_CHANNELS.silent,
+    name: 'Reminders (silent)',
+    importance: 'low',
+    sound: false,
+  });
+  await notifier.setChannel({
+    id: ALERT_CHANNELS.critical,
+    name: 'Critical medicine reminders',
+    importance: 'max',
+    sound: true,
+    bypassDnd: true,
+    vibrationPattern: VIBRATION_PATTERN,
+  });
+};
+
+const toClockMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether a time falls in the user's quiet hours, which may run past midnight
+ */
+export const isInQuietHours = (
+  user: Pick<User, 'quietHoursStart' | 'quietHoursEnd'>,
+  at: Date
+): boolean => {
+  if (!user.quietHoursStart || !user.quietHoursEnd) return false;
+  
+  const start = toClockMinutes(user.quietHoursStart);
+  const end = toClockMinutes(user.quietHoursEnd);
+  const minutes = at.getHours() * 60 + at.getMinutes();
   
-  const { status } = await Notifications.requestPermissionsAsync();
-  return status === 'granted';
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
 };
 
-export const checkNotificationPermissions = async (): Promise<boolean> => {
-  const { status } = await Notifications.getPermissionsAsync();
-  return status === 'granted';
+/**
+ * Critical medicines always break through, quiet hours silence everything
+ * else, otherwise the profile's own choice of sound, vibration or silent
+ */
+const alertModeFor = async (profileId: number, at: Date, critical: boolean): Promise<AlertMode> => {
+  if (critical) return 'critical';
+  
+  const profile = await usersRepo.findById(profileId);
+  if (!profile) return 'sound';
+  if (isInQuietHours(profile, at)) return 'silent';
+  return profile.alertStyle ?? 'sound';
 };
 
-export const scheduleMedicineReminder = async (
+const withAlertMode = (request: NotificationRequest, mode: AlertMode): NotificationRequest => ({
+  content: {
+    ...request.content,
+    data: { ...request.content.data, alert: mode },
+    sound: mode === 'sound' || mode === 'critical',
+    vibrate: mode === 'silent' ? undefined : VIBRATION_PATTERN,
+    priority: mode === 'critical' ? 'max' : mode === 'silent' ? 'low' : 'high',
+    interruptionLevel: mode === 'critical' ? 'timeSensitive' : mode === 'silent' ? 'passive' : 'active',
+  },
+  trigger: request.trigger,
+  channelId: ALERT_CHANNELS[mode],
+});
+
+/**
+ * Apply the profile's quiet hours and alert style to a notification firing at the given time
+ */
+const applyAlertPolicy = async (
+  request: NotificationRequest,
+  profileId: number,
+  at: Date,
+  critical = false
+): Promise<NotificationRequest> =>
+  withAlertMode(request, await alertModeFor(profileId, at, critical));
+
+// Quiet hours only look at the clock time, so today stands in for every day of a daily reminder
+const atClockTime = (hours: number, minutes: number): Date => {
+  const at = new Date();
+  at.setHours(hours, minutes, 0, 0);
+  return at;
+};
+
+/**
+ * Take / Snooze / Skip buttons on medicine reminders, and Take all / Snooze on
+ * grouped ones. None of them open the app, the doses are resolved by
+ * reminderActionService. Single doses of a group are taken or skipped in the app.
+ */
+export const registerReminderCategory = async (): Promise<void> => {
+  const notifier = getNotifier();
+  
+  await notifier.setCategory(MEDICINE_REMINDER_CATEGORY, [
+    { identifier: REMINDER_ACTIONS.take, buttonTitle: 'Take' },
+    { identifier: REMINDER_ACTIONS.snooze10, buttonTitle: 'Snooze 10 min' },
+    { identifier: REMINDER_ACTIONS.snooze30, buttonTitle: 'Snooze 30 min' },
+    { identifier: REMINDER_ACTIONS.skip, buttonTitle: 'Skip', destructive: true },
+  ]);
+  await notifier.setCategory(MEDICINE_GROUP_REMINDER_CATEGORY, [
+    { identifier: REMINDER_ACTIONS.takeAll, buttonTitle: 'Take all' },
+    { identifier: REMINDER_ACTIONS.snooze10, buttonTitle: 'Snooze 10 min' },
+    { identifier: REMINDER_ACTIONS.snooze30, buttonTitle: 'Snooze 30 min' },
+  ]);
+};
+
+export const requestNotificationPermissions = async (): Promise<boolean> =>
+  await getNotifier().requestPermission();
+
+export const checkNotificationPermissions = async (): Promise<boolean> =>
+  await getNotifier().hasPermission();
+
+/**
+ * One dose listed on a grouped reminder, in its data.doses. One-off reminders
+ * know their dose; daily ones work it out from the delivery date plus offsetMinutes.
+ */
+export interface GroupedDose {
+  medicineId: number;
+  time: string;
+  scheduledTime?: string;
+  offsetMinutes: number;
+}
+
+interface ReminderDose extends GroupedDose {
+  label: string;
+  isCritical: boolean;
+}
+
+// A reminder notification ready to be booked for one medicine time slot,
+// or for a group of them under the slot of its first dose
+interface ReminderBooking {
+  medicineId: number;
+  slot: string;
+  request: NotificationRequest;
+  isAdaptive: boolean;
+  repeatsDaily: boolean;
+  fireAt: Date; // daily reminders fire at this clock time every day
+  doses: ReminderDose[];
+}
+
+export const getReminderGroupMinutes = (user: Pick<User, 'reminderGroupMinutes'>): number =>
+  user.reminderGroupMinutes ?? DEFAULT_REMINDER_GROUP_MINUTES;
+
+export const groupedDosesOf = (data?: Record<string, unknown>): GroupedDose[] | null =>
+  Array.isArray(data?.doses) ? (data.doses as GroupedDose[]) : null;
+
+const dailySlot = (time: string): string => `daily@${time}`;
+
+const followUpSlot = (scheduledTime: string): string => `followup@${scheduledTime}`;
+
+const caregiverAlertSlot = (caregiverId: number, scheduledTime: string): string =>
+  `caregiver:${caregiverId}@${scheduledTime}`;
+
+const isEscalationSlotOf = (slot: string, scheduledTime: string): boolean =>
+  slot === followUpSlot(scheduledTime)
+  || (slot.startsWith('caregiver:') && slot.endsWith(`@${scheduledTime}`));
+
+const slotKey = (medicineId: number, slot: string): string => `${medicineId}|${slot}`;
+
+// Changes to the text, data or trigger all mean the notification has to be booked again
+const signatureOf = (request: NotificationRequest): string =>
+  JSON.stringify({ content: request.content, trigger: request.trigger });
+
+/**
+ * Book a reminder and remember its notification id for its medicine and slot
+ */
+const bookReminder = async (patientId: number, booking: ReminderBooking): Promise<string> => {
+  const notificationId = await getNotifier().schedule(booking.request);
+  await remindersRepo.upsert({
+    patientId,
+    medicineId: booking.medicineId,
+    slot: booking.slot,
+    notificationId,
+    signature: signatureOf(booking.request),
+  });
+  return notificationId;
+};
+
+interface AdaptiveReminderInfo {
+  isAdaptive: boolean;
+  scheduledTime: string;
+  adaptiveTime: string;
+  meanDelay: number;
+}
+
+/**
+ * Work out an adaptive reminder: after 3-5 days of history its time moves
+ * with the patient's average delay (e.g. scheduled 12:30, +4 min -> 12:34).
+ * Without a date the reminder repeats daily, with one it fires once on that day.
+ * booking is null for a one-off reminder whose time has already passed.
+ */
+const buildAdaptiveReminder = async (
   medicine: Medicine,
+  patientId: number,
   time: string,
-  index: number
-): Promise<string | null> => {
-  try {
-    const times = JSON.parse(medicine.times) as string[];
-    const [hours, minutes] = times[index].split(':').map(Number);
-    
-    const identifier = await Notifications.scheduleNotificationAsync({
-      content: {
-        title: '💊 Medicine Reminder',
-        body: `Time to take ${medicine.name} - ${medicine.dosage}`,
-        data: { medicineId: medicine.id, timeIndex: index },
+  index: number,
+  date?: Date
+): Promise<AdaptiveReminderInfo & { booking: ReminderBooking | null }> => {
+  // Create a date object with the scheduled time
+  const today = date ? new Date(date) : new Date();
+  const [hours, minutes] = time.split(':').map(Number);
+  today.setHours(hours, minutes, 0, 0);
+  const scheduledISO = today.toISOString();
+  
+  // Get adaptive time info
+  const adaptiveInfo = await getAdaptiveReminderTime(
+    patientId,
+    medicine.id,
+    scheduledISO
+  );
+  
+  const info: AdaptiveReminderInfo = {
+    isAdaptive: adaptiveInfo.isAdaptive,
+    scheduledTime: time,
+    adaptiveTime: adaptiveInfo.adaptiveTime,
+    meanDelay: adaptiveInfo.meanDelay
+  };
+  
+  const [adaptiveHours, adaptiveMinutes] = adaptiveInfo.adaptiveTime.split(':').map(Number);
+  const fireAt = date
+    ? new Date(today.getTime() + adaptiveInfo.meanDelay * 60 * 1000)
+    : atClockTime(adaptiveHours, adaptiveMinutes);
+  
+  if (date && fireAt.getTime() <= Date.now()) {
+    // One-off reminder for a dose that is already due
+    return { ...info, booking: null };
+  }
+  
+  const request = await applyAlertPolicy({
+    content: {
+      title: await titleForProfile(
+        adaptiveInfo.isAdaptive ? '🎯 Adaptive Medicine Reminder' : '💊 Medicine Reminder',
+        patientId
+      ),
+      body: adaptiveInfo.isAdaptive
+        ? `Time to take ${medicine.name} - ${medicine.dosage} (adjusted by ${adaptiveInfo.meanDelay} min based on your habits)`
+        : `Time to take ${medicine.name} - ${medicine.dosage}`,
+      // One-off reminders know their dose; daily ones work it out from the delivery date
+      data: { 
+        medicineId: medicine.id, 
+        timeIndex: index,
+        time,
+        ...(date ? { scheduledTime: scheduledISO } : {}),
+        isAdaptive: adaptiveInfo.isAdaptive,
+        meanDelay: adaptiveInfo.meanDelay,
+        profileId: patientId
       },
-      trigger: {
-        type: Notifications.SchedulableTriggerInputTypes.DAILY,
-        hour: hours,
-        minute: minutes,
+      categoryIdentifier: MEDICINE_REMINDER_CATEGORY,
+    },
+    trigger: date
+      ? {
+          type: 'date',
+          date: fireAt,
+        }
+      : {
+          type: 'daily',
+          hour: adaptiveHours,
+          minute: adaptiveMinutes,
+        },
+  }, patientId, fireAt, !!medicine.isCritical);
+  
+  return {
+    ...info,
+    booking: {
+      medicineId: medicine.id,
+      slot: date ? scheduledISO : dailySlot(time),
+      request,
+      isAdaptive: adaptiveInfo.isAdaptive,
+      repeatsDaily: !date,
+      fireAt,
+      doses: [{
+        medicineId: medicine.id,
+        time,
+        ...(date ? { scheduledTime: scheduledISO } : {}),
+        offsetMinutes: -adaptiveInfo.meanDelay,
+        label: `${medicine.name} - ${medicine.dosage}`,
+        isCritical: !!medicine.isCritical,
+      }],
+    },
+  };
+};
+
+/**
+ * One reminder listing every dose of the group, firing with the first of them
+ */
+const buildGroupReminder = async (
+  patientId: number,
+  members: ReminderBooking[]
+): Promise<ReminderBooking> => {
+  const [first] = members;
+  const doses = members.flatMap(member => {
+    const lateByMinutes = Math.round((member.fireAt.getTime() - first.fireAt.getTime()) / 60000);
+    return member.doses.map(dose => ({ ...dose, offsetMinutes: dose.offsetMinutes + lateByMinutes }));
+  });
+  
+  const request = await applyAlertPolicy({
+    content: {
+      title: await titleForProfile(`💊 ${doses.length} Medicines Due`, patientId),
+      body: `Time to take:\n${doses.map(dose => `• ${dose.label}`).join('\n')}`,
+      data: {
+        doses: doses.map(({ medicineId, time, scheduledTime, offsetMinutes }) => ({
+          medicineId,
+          time,
+          ...(scheduledTime ? { scheduledTime } : {}),
+          offsetMinutes,
+        })),
+        profileId: patientId,
       },
-    });
+      categoryIdentifier: MEDICINE_GROUP_REMINDER_CATEGORY,
+    },
+    trigger: first.request.trigger,
+  }, patientId, first.fireAt, doses.some(dose => dose.isCritical));
+  
+  return {
+    medicineId: first.medicineId,
+    slot: `group@${first.slot}`,
+    request,
+    isAdaptive: members.some(member => member.isAdaptive),
+    repeatsDaily: first.repeatsDaily,
+    fireAt: first.fireAt,
+    doses,
+  };
+};
+
+/**
+ * Coalesce reminders firing within windowMinutes of the first one into a single
+ * reminder. Daily and one-off reminders are grouped apart, as a repeating
+ * reminder can't be left out on just one day.
+ */
+const groupReminders = async (
+  patientId: number,
+  bookings: ReminderBooking[],
+  windowMinutes: number
+): Promise<ReminderBooking[]> => {
+  if (windowMinutes <= 0) return bookings;
+  
+  const sorted = [...bookings].sort(
+    (a, b) => a.fireAt.getTime() - b.fireAt.getTime() || a.medicineId - b.medicineId
+  );
+  const grouped: ReminderBooking[] = [];
+  
+  for (const repeatsDaily of [true, false]) {
+    let members: ReminderBooking[] = [];
+    const flush = async () => {
+      if (members.length > 1) {
+        grouped.push(await buildGroupReminder(patientId, members));
+      } else {
+        grouped.push(...members);
+      }
+      members = [];
+    };
     
-    return identifier;
-  } catch (error) {
-    console.error('Error scheduling notification:', error);
-    return null;
+    for (const booking of sorted.filter(b => b.repeatsDaily === repeatsDaily)) {
+      if (members.length > 0 && booking.fireAt.getTime() - members[0].fireAt.getTime() > windowMinutes * 60 * 1000) {
+        await flush();
+      }
+      members.push(booking);
+    }
+    await flush();
   }
+  
+  return grouped;
+};
+
+/**
+ * A patient's share of MAX_DEVICE_REMINDERS, split evenly between the patients
+ * with a profile on this device or reminders booked on it
+ */
+const reminderBudgetFor = async (patientId: number, deviceProfileIds: number[]): Promise<number> => {
+  const patientIds = new Set([patientId, ...await remindersRepo.listPatientIds()]);
+  for (const profileId of deviceProfileIds) {
+    if ((await usersRepo.findById(profileId))?.role === 'patient') patientIds.add(profileId);
+  }
+  return Math.floor(MAX_DEVICE_REMINDERS / patientIds.size);
 };
 
 /**
- * Schedule adaptive medicine reminder - adjusts time based on user's history
- * After 3-5 days of data, the reminder time adjusts to match user's patterns
- * 
- * Example:
- * - Scheduled: 12:30
- * - Average Delay: +4 min
- * - Next reminder: 12:34
+ * Keep every daily reminder and the soonest one-off reminders that still fit
+ * in the patient's budget
  */
-export const scheduleAdaptiveReminder = async (
+const limitToBudget = (bookings: ReminderBooking[], budget: number): ReminderBooking[] => {
+  const daily = bookings.filter(booking => booking.repeatsDaily);
+  const oneOff = bookings
+    .filter(booking => !booking.repeatsDaily)
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+  
+  return [...daily, ...oneOff.slice(0, Math.max(0, budget - daily.length))];
+};
+
+/**
+ * The escalation steps of a medicine's upcoming doses: the patient's "still
+ * pending" reminder after the remind-again minutes, and an alert to each
+ * caregiver with a profile on this device after the caregiver minutes.
+ * Booking them with the reminders means they fire on time even while the app
+ * stays closed; each is cancelled once its dose is resolved.
+ */
+const buildFollowUps = async (
   medicine: Medicine,
-  patientId: number,
-  time: string,
-  index: number
-): Promise<{
-  identifier: string | null;
-  isAdaptive: boolean;
-  scheduledTime: string;
-  adaptiveTime: string;
-  meanDelay: number;
-}> => {
-  try {
-    // Create a date object with the scheduled time
-    const today = new Date();
-    const [hours, minutes] = time.split(':').map(Number);
-    today.setHours(hours, minutes, 0, 0);
-    const scheduledISO = today.toISOString();
-    
-    // Get adaptive time info
-    const adaptiveInfo = await getAdaptiveReminderTime(
-      patientId,
-      medicine.id,
-      scheduledISO
+  patient: User,
+  deviceCaregivers: User[]
+): Promise<ReminderBooking[]> => {
+  const remindMinutes = medicine.escalateRemindMinutes ?? null;
+  const caregiverMinutes = deviceCaregivers.length > 0 ? medicine.escalateCaregiverMinutes ?? null : null;
+  if (remindMinutes === null && caregiverMinutes === null) return [];
+  
+  const followUps: ReminderBooking[] = [];
+  const book = async (slot: string, profileId: number, fireAt: Date, content: NotificationContent) => {
+    const request = await applyAlertPolicy(
+      { content, trigger: { type: 'date', date: fireAt } },
+      profileId,
+      fireAt,
+      !!medicine.isCritical
     );
-    
-    const [adaptiveHours, adaptiveMinutes] = adaptiveInfo.adaptiveTime.split(':').map(Number);
-    
-    const identifier = await Notifications.scheduleNotificationAsync({
-      content: {
-        title: adaptiveInfo.isAdaptive ? '🎯 Adaptive Medicine Reminder' : '💊 Medicine Reminder',
-        body: adaptiveInfo.isAdaptive
-          ? `Time to take ${medicine.name} - ${medicine.dosage} (adjusted by ${adaptiveInfo.meanDelay} min based on your habits)`
-          : `Time to take ${medicine.name} - ${medicine.dosage}`,
-        data: { 
-          medicineId: medicine.id, 
-          timeIndex: index,
-          isAdaptive: adaptiveInfo.isAdaptive,
-          meanDelay: adaptiveInfo.meanDelay
-        },
-      },
-      trigger: {
-        type: Notifications.SchedulableTriggerInputTypes.DAILY,
-        hour: adaptiveHours,
-        minute: adaptiveMinutes,
-      },
+    followUps.push({
+      medicineId: medicine.id,
+      slot,
+      request,
+      isAdaptive: false,
+      repeatsDaily: false,
+      fireAt,
+      doses: [],
     });
+  };
+  
+  const isUpcoming = (fireAt: Date | null): fireAt is Date => fireAt !== null && fireAt.getTime() > Date.now();
+  
+  for (let offset = 0; offset < FOLLOW_UP_HORIZON_DAYS; offset++) {
+    const day = new Date();
+    day.setHours(0, 0, 0, 0);
+    day.setDate(day.getDate() + offset);
     
-    return {
-      identifier,
-      isAdaptive: adaptiveInfo.isAdaptive,
-      scheduledTime: time,
-      adaptiveTime: adaptiveInfo.adaptiveTime,
-      meanDelay: adaptiveInfo.meanDelay
-    };
-  } catch (error) {
-    console.error('Error scheduling adaptive notification:', error);
-    return {
-      identifier: null,
-      isAdaptive: false,
-      scheduledTime: time,
-      adaptiveTime: time,
-      meanDelay: 0
-    };
+    for (const time of getDoseTimesForDay(medicine, day)) {
+      const [hours, minutes] = time.split(':').map(Number);
+      const doseAt = new Date(day);
+      doseAt.setHours(hours, minutes, 0, 0);
+      const remindAt = remindMinutes === null ? null : new Date(doseAt.getTime() + remindMinutes * 60 * 1000);
+      const alertAt = caregiverMinutes === null ? null : new Date(doseAt.getTime() + caregiverMinutes * 60 * 1000);
+      if (!isUpcoming(remindAt) && !isUpcoming(alertAt)) continue;
+      
+      const scheduledTime = doseAt.toISOString();
+      const log = await logsRepo.findByScheduledTime(medicine.id, scheduledTime);
+      if (log && log.status !== 'pending') continue;
+      
+      if (isUpcoming(remindAt)) {
+        await book(followUpSlot(scheduledTime), patient.id, remindAt, {
+          title: await titleForProfile('⏰ Dose Still Pending', patient.id),
+          body: `You haven't taken ${medicine.name} due at ${time} yet.`,
+          data: { medicineId: medicine.id, time, scheduledTime, followUp: true, profileId: patient.id },
+          categoryIdentifier: MEDICINE_REMINDER_CATEGORY,
+        });
+      }
+      if (isUpcoming(alertAt)) {
+        for (const caregiver of deviceCaregivers) {
+          // No medicineId, the caregiver has no Take button and opens their own profile
+          await book(caregiverAlertSlot(caregiver.id, scheduledTime), caregiver.id, alertAt, {
+            title: await titleForProfile('⚠️ Dose Not Taken', caregiver.id),
+            body: `${patient.name} hasn't taken ${medicine.name} due at ${time}.`,
+            data: { patientId: patient.id, scheduledTime, caregiverAlert: true, profileId: caregiver.id },
+          });
+        }
+      }
+    }
   }
+  return followUps;
 };
 
 /**
- * Reschedule all medicine notifications with adaptive timing
+ * Every reminder a patient's active medicines should have right now.
+ * Plain, ongoing daily medicines get repeating reminders; other recurrence rules,
+ * dose plans and courses with an end date get one-off reminders for each dose in
+ * the next REMINDER_HORIZON_DAYS, each showing the dose for its own day.
+ * Doses due close together are then grouped, see groupReminders, and the
+ * one-off reminders are capped to the patient's share of the device's
+ * notifications, see limitToBudget. Escalation follow-ups and caregiver
+ * alerts are never grouped, see buildFollowUps.
  */
-export const rescheduleAllAdaptiveReminders = async (
+const buildDesiredReminders = async (
   patientId: number,
   medicines: Medicine[]
+): Promise<Map<string, ReminderBooking>> => {
+  const bookings: ReminderBooking[] = [];
+  const followUps: ReminderBooking[] = [];
+  
+  const patient = await usersRepo.findById(patientId);
+  // Notifications are local, so only caregivers signed in on this phone can be alerted
+  const deviceProfileIds = await deviceProfilesRepo.listUserIds();
+  const deviceCaregivers = (await relationshipsRepo.listCaregiversOfPatient(patientId))
+    .filter(caregiver => deviceProfileIds.includes(caregiver.id));
+  
+  const add = (result: { booking: ReminderBooking | null }) => {
+    if (result.booking) {
+      bookings.push(result.booking);
+    }
+  };
+  
+  for (const medicine of medicines) {
+    if (medicine.status !== 'active' || medicine.isPrn) continue;
+    
+    if (patient) {
+      followUps.push(...await buildFollowUps(medicine, patient, deviceCaregivers));
+    }
+    const plan = await getDosePlan(medicine.id);
+    const repeatsDaily = plan.length === 0
+      && !medicine.endDate
+      && isWithinCourse(medicine, new Date())
+      && isSimpleDaily(parseRecurrence(medicine));
+    
+    if (repeatsDaily) {
+      const times = JSON.parse(medicine.times) as string[];
+      
+      for (let i = 0; i < times.length; i++) {
+        add(await buildAdaptiveReminder(medicine, patientId, times[i], i));
+      }
+      continue;
+    }
+    
+    const now = Date.now();
+    for (let offset = 0; offset < REMINDER_HORIZON_DAYS; offset++) {
+      const day = new Date();
+      day.setHours(0, 0, 0, 0);
+      day.setDate(day.getDate() + offset);
+      
+      const dayMedicine = { ...medicine, dosage: getDoseForDate(medicine, plan, day) };
+      const times = getDoseTimesForDay(medicine, day);
+      for (let i = 0; i < times.length; i++) {
+        const [hours, minutes] = times[i].split(':').map(Number);
+        const doseAt = new Date(day);
+        doseAt.setHours(hours, minutes, 0, 0);
+        if (doseAt.getTime() <= now) continue;
+        
+        add(await buildAdaptiveReminder(dayMedicine, patientId, times[i], i, day));
+      }
+    }
+  }
+  
+  const windowMinutes = patient ? getReminderGroupMinutes(patient) : DEFAULT_REMINDER_GROUP_MINUTES;
+  
+  const desired = new Map<string, ReminderBooking>();
+  const grouped = await groupReminders(patientId, bookings, windowMinutes);
+  const budget = await reminderBudgetFor(patientId, deviceProfileIds);
+  for (const booking of limitToBudget([...grouped, ...followUps], budget)) {
+    desired.set(slotKey(booking.medicineId, booking.slot), booking);
+  }
+  return desired;
+};
+
+// Medicine reminders booked for a profile, or before notifications carried a profile id.
+// Snoozed reminders fire once and are left alone.
+const isMedicineReminderOf = (notification: ScheduledNotification, profileId: number): boolean => {
+  const data = notification.content.data ?? {};
+  const owner = data.profileId;
+  return (typeof data.medicineId === 'number' || groupedDosesOf(data) !== null)
+    && data.snoozed !== true
+    && (owner === undefined || owner === profileId);
+};
+
+/**
+ * Bring a patient's scheduled reminders in line with their medicines, using
+ * the reminder registry: reminders that still match are kept, changed ones are
+ * booked again, and reminders for slots or medicines that are gone - or that
+ * the registry doesn't know about - are cancelled. Safe to run on every app start.
+ */
+export const reconcileReminders = async (
+  patientId: number
 ): Promise<{
   scheduled: number;
+  kept: number;
+  cancelled: number;
   failed: number;
   adaptiveCount: number;
 }> => {
+  const medicines = await medicinesRepo.listActiveByPatient(patientId);
+  const desired = await buildDesiredReminders(patientId, medicines);
+  const pending = await getNotifier().listScheduled();
+  const pendingIds = new Set(pending.map(notification => notification.identifier));
+  
   let scheduled = 0;
+  let kept = 0;
+  let cancelled = 0;
   let failed = 0;
   let adaptiveCount = 0;
+  const registeredIds = new Set<string>();
   
-  // Cancel all existing notifications first
-  await cancelAllNotifications();
+  for (const entry of await remindersRepo.listByPatient(patientId)) {
+    registeredIds.add(entry.notificationId);
+    const key = slotKey(entry.medicineId, entry.slot);
+    const booking = desired.get(key);
+    
+    if (booking && pendingIds.has(entry.notificationId) && signatureOf(booking.request) === entry.signature) {
+      desired.delete(key);
+      kept++;
+      if (booking.isAdaptive) adaptiveCount++;
+      continue;
+    }
+    
+    // Gone, changed, or already delivered (one-off reminders)
+    if (pendingIds.has(entry.notificationId)) {
+      await getNotifier().cancel(entry.notificationId);
+      cancelled++;
+    }
+    await remindersRepo.delete(entry.id);
+  }
   
-  for (const medicine of medicines) {
-    const times = JSON.parse(medicine.times) as string[];
+  // Reminders nothing in the registry accounts for, e.g. of deleted medicines
+  for (const notification of pending) {
+    if (isMedicineReminderOf(notification, patientId) && !registeredIds.has(notification.identifier)) {
+      await getNotifier().cancel(notification.identifier);
+      cancelled++;
+    }
+  }
+  
+  for (const booking of Array.from(desired.values())) {
+    try {
+      await bookReminder(patientId, booking);
+      scheduled++;
+      if (booking.isAdaptive) adaptiveCount++;
+    } catch (error) {
+      console.error('Error scheduling reminder:', error);
+      failed++;
+    }
+  }
+  
+  return { scheduled, kept, cancelled, failed, adaptiveCount };
+};
+
+/**
+ * Cancel every reminder of one medicine, for when it is stopped or deleted.
+ * Grouped reminders it was on are booked again for the other medicines.
+ */
+export const cancelMedicineReminders = async (medicineId: number): Promise<void> => {
+  const pending = await getNotifier().listScheduled();
+  let regroupPatientId: number | null = null;
+  
+  for (const notification of pending) {
+    const data = notification.content.data ?? {};
+    const doses = groupedDosesOf(data);
     
-    for (let i = 0; i < times.length; i++) {
-      const result = await scheduleAdaptiveReminder(
-        medicine,
-        patientId,
-        times[i],
-        i
-      );
-      
-      if (result.identifier) {
-        scheduled++;
-        if (result.isAdaptive) {
-          adaptiveCount++;
-        }
-      } else {
-        failed++;
+    if (data.medicineId === medicineId) {
+      await getNotifier().cancel(notification.identifier);
+    } else if (doses?.some(dose => dose.medicineId === medicineId)) {
+      await getNotifier().cancel(notification.identifier);
+      if (data.snoozed !== true && typeof data.profileId === 'number') {
+        regroupPatientId = data.profileId;
       }
     }
   }
   
-  return { scheduled, failed, adaptiveCount };
+  await remindersRepo.deleteByMedicine(medicineId);
+  if (regroupPatientId !== null) {
+    await reconcileReminders(regroupPatientId);
+  }
 };
 
 export const cancelAllNotifications = async (): Promise<void> => {
-  await Notifications.cancelAllScheduledNotificationsAsync();
+  await getNotifier().cancelAll();
+};
+
+/**
+ * One-off reminder ahead of an appointment, skipped when fireAt has already passed
+ */
+export const scheduleAppointmentReminder = async (
+  appointmentId: number,
+  profileId: number,
+  fireAt: Date,
+  title: string,
+  body: string
+): Promise<string | null> => {
+  if (fireAt.getTime() <= Date.now()) return null;
+  
+  try {
+    return await getNotifier().schedule(await applyAlertPolicy({
+      content: {
+        title: await titleForProfile(title, profileId),
+        body,
+        data: { appointmentId, profileId },
+      },
+      trigger: {
+        type: 'date',
+        date: fireAt,
+      },
+    }, profileId, fireAt));
+  } catch (error) {
+    console.error('Error scheduling appointment reminder:', error);
+    return null;
+  }
+};
+
+export const cancelAppointmentReminders = async (appointmentId: number): Promise<void> => {
+  const scheduled = await getNotifier().listScheduled();
+  
+  for (const notification of scheduled) {
+    if (notification.content.data?.appointmentId === appointmentId) {
+      await getNotifier().cancel(notification.identifier);
+    }
+  }
+};
+
+/**
+ * Show a medicine reminder again in a few minutes, for the same dose
+ */
+export const scheduleSnoozedReminder = async (
+  content: NotificationContent,
+  scheduledTime: string,
+  minutes: number
+): Promise<string | null> => {
+  try {
+    const fireAt = new Date(Date.now() + minutes * 60 * 1000);
+    const medicine = await medicinesRepo.findById(content.data?.medicineId as number);
+    const profileId = medicine?.patientId ?? (content.data?.profileId as number);
+    
+    return await getNotifier().schedule(await applyAlertPolicy({
+      content: {
+        title: content.title ?? '💊 Medicine Reminder',
+        body: content.body ?? undefined,
+        data: { ...content.data, scheduledTime, snoozed: true },
+        categoryIdentifier: MEDICINE_REMINDER_CATEGORY,
+      },
+      trigger: {
+        type: 'date',
+        date: fireAt,
+      },
+    }, profileId, fireAt, !!medicine?.isCritical));
+  } catch (error) {
+    console.error('Error snoozing reminder:', error);
+    return null;
+  }
+};
+
+/**
+ * Show a grouped reminder again in a few minutes, for the same doses
+ */
+export const scheduleSnoozedGroupReminder = async (
+  content: NotificationContent,
+  doses: GroupedDose[],
+  minutes: number
+): Promise<string | null> => {
+  try {
+    const fireAt = new Date(Date.now() + minutes * 60 * 1000);
+    const profileId = content.data?.profileId as number;
+    const medicines = await Promise.all(doses.map(dose => medicinesRepo.findById(dose.medicineId)));
+    
+    return await getNotifier().schedule(await applyAlertPolicy({
+      content: {
+        title: content.title ?? '💊 Medicine Reminder',
+        body: content.body ?? undefined,
+        data: { ...content.data, doses, snoozed: true },
+        categoryIdentifier: MEDICINE_GROUP_REMINDER_CATEGORY,
+      },
+      trigger: {
+        type: 'date',
+        date: fireAt,
+      },
+    }, profileId, fireAt, medicines.some(medicine => !!medicine?.isCritical)));
+  } catch (error) {
+    console.error('Error snoozing grouped reminder:', error);
+    return null;
+  }
+};
+
+/**
+ * Drop the follow-up and caregiver alerts of a dose once it is taken, skipped or missed
+ */
+export const cancelDoseFollowUp = async (medicineId: number, scheduledTime: string): Promise<void> => {
+  const reminders = (await remindersRepo.listByMedicine(medicineId))
+    .filter(reminder => isEscalationSlotOf(reminder.slot, scheduledTime));
+  
+  for (const reminder of reminders) {
+    await getNotifier().cancel(reminder.notificationId);
+    await remindersRepo.delete(reminder.id);
+  }
 };
 
 export const cancelNotification = async (identifier: string): Promise<void> => {
-  await Notifications.cancelScheduledNotificationAsync(identifier);
+  await getNotifier().cancel(identifier);
 };
 
+/**
+ * critical lets an alert about a critical medicine break through the profile's quiet hours
+ */
 export const sendInstantNotification = async (
   title: string,
-  body: string
+  body: string,
+  profileId?: number,
+  critical = false
 ): Promise<void> => {
-  await Notifications.scheduleNotificationAsync({
-    content: { title, body },
+  if (profileId === undefined) {
+    await getNotifier().schedule({ content: { title, body }, trigger: null });
+    return;
+  }
+  
+  await getNotifier().schedule(await applyAlertPolicy({
+    content: { title: await titleForProfile(title, profileId), body, data: { profileId } },
     trigger: null,
-  });
+  }, profileId, new Date(), critical));
+};
+
+/**
+ * Call onProfile with the profile a tapped notification belongs to,
+ * including the tap that launched the app. Action buttons don't switch profiles.
+ */
+export const addProfileNotificationListener = (
+  onProfile: (profileId: number) => void
+): NotificationSubscription => {
+  const handle = (response: NotificationResponse | null) => {
+    if (response && response.actionIdentifier !== DEFAULT_ACTION) return;
+    const profileId = response?.notification.content.data?.profileId;
+    if (typeof profileId === 'number') {
+      onProfile(profileId);
+    }
+  };
+  
+  getNotifier().getLastResponse().then(handle);
+  return getNotifier().addResponseListener(handle);
 };
 
 export const getScheduledNotifications = async () => {
-  return await Notifications.getAllScheduledNotificationsAsync();
+  return await getNotifier().listScheduled();
 };
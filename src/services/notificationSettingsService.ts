@@ -0,0 +1,129 @@
+import { deviceProfilesRepo, medicinesRepo, relationshipsRepo, usersRepo } from '../repositories';
+import { AlertStyle, StatusActor, User } from '../types';
+import { resyncUpcomingAppointmentReminders } from './appointmentService';
+import {
+  checkNotificationPermissions,
+  DEFAULT_REMINDER_GROUP_MINUTES,
+  reconcileReminders,
+} from './notificationService';
+import { authorizeForMedicine } from './permissionService';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const ALERT_STYLE_OPTIONS: { style: AlertStyle; label: string }[] = [
+  { style: 'sound', label: 'Sound' },
+  { style: 'vibrate', label: 'Vibrate Only' },
+  { style: 'silent', label: 'Silent' },
+];
+
+export const QUIET_HOURS_OPTIONS: { start: string; end: string }[] = [
+  { start: '21:00', end: '07:00' },
+  { start: '22:00', end: '07:00' },
+  { start: '23:00', end: '06:00' },
+];
+
+// 0 gives every dose its own reminder
+export const REMINDER_GROUP_OPTIONS = [0, 5, DEFAULT_REMINDER_GROUP_MINUTES, 30];
+
+export interface QuietHours {
+  start: string; // HH:MM
+  end: string; // HH:MM, earlier than start when they run past midnight
+}
+
+export interface NotificationPreferences {
+  alertStyle: AlertStyle;
+  quietHours?: QuietHours;
+}
+
+export const getNotificationPreferences = (user: User): NotificationPreferences => ({
+  alertStyle: user.alertStyle ?? 'sound',
+  quietHours: user.quietHoursStart && user.quietHoursEnd
+    ? { start: user.quietHoursStart, end: user.quietHoursEnd }
+    : undefined,
+});
+
+// Preferences are applied when a notification is booked, so rebook what is already scheduled
+const rebookNotifications = async (user: User): Promise<void> => {
+  if (!(await checkNotificationPermissions())) return;
+
+  if (user.role === 'patient') {
+    await reconcileReminders(user.id);
+  }
+  // A caregiver's alerts are booked with the reminders of their patients on this phone
+  if (user.role === 'caregiver') {
+    const deviceProfileIds = await deviceProfilesRepo.listUserIds();
+    for (const patient of await relationshipsRepo.listPatientsOfCaregiver(user.id)) {
+      if (deviceProfileIds.includes(patient.id)) await reconcileReminders(patient.id);
+    }
+  }
+  await resyncUpcomingAppointmentReminders(user);
+};
+
+export const setNotificationPreferences = async (
+  user: User,
+  preferences: NotificationPreferences
+): Promise<{ success: boolean; error?: string }> => {
+  const { quietHours } = preferences;
+
+  if (quietHours) {
+    if (!TIME_PATTERN.test(quietHours.start) || !TIME_PATTERN.test(quietHours.end)) {
+      return { success: false, error: 'Please choose valid quiet hours.' };
+    }
+    if (quietHours.start === quietHours.end) {
+      return { success: false, error: 'Quiet hours have to start and end at different times.' };
+    }
+  }
+
+  await usersRepo.setNotificationPreferences(
+    user.id,
+    quietHours?.start ?? null,
+    quietHours?.end ?? null,
+    preferences.alertStyle
+  );
+  await rebookNotifications(user);
+
+  return { success: true };
+};
+
+/**
+ * Doses due within this many minutes of each other share one reminder with a Take all button
+ */
+export const setReminderGroupMinutes = async (
+  patient: User,
+  minutes: number
+): Promise<{ success: boolean; error?: string }> => {
+  if (!REMINDER_GROUP_OPTIONS.includes(minutes)) {
+    return { success: false, error: 'Please choose a valid grouping window.' };
+  }
+
+  await usersRepo.setReminderGroupMinutes(patient.id, minutes);
+  if (await checkNotificationPermissions()) {
+    await reconcileReminders(patient.id);
+  }
+
+  return { success: true };
+};
+
+export const formatReminderGroupMinutes = (minutes: number): string =>
+  minutes === 0 ? 'Off' : `${minutes} min`;
+
+/**
+ * Critical medicines (insulin, anti-epileptics, ...) always alert with sound,
+ * in quiet hours too, and so do the caregiver alerts about them
+ */
+export const setMedicineCritical = async (
+  medicineId: number,
+  critical: boolean,
+  actor: StatusActor
+): Promise<void> => {
+  await authorizeForMedicine(medicineId, actor, 'edit_medicines');
+  await medicinesRepo.updateCritical(medicineId, critical ? 1 : 0);
+
+  const medicine = await medicinesRepo.findById(medicineId);
+  if (medicine && (await checkNotificationPermissions())) {
+    await reconcileReminders(medicine.patientId);
+  }
+};
+
+export const formatQuietHours = (quietHours?: QuietHours): string =>
+  quietHours ? `${quietHours.start} – ${quietHours.end}` : 'Off';
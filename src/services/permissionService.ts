@@ -0,0 +1,135 @@
+import { medicinesRepo, relationshipsRepo } from '../repositories';
+import { PermissionScope, Relationship, StatusActor, User } from '../types';
+
+export const PERMISSION_SCOPES: { scope: PermissionScope; label: string }[] = [
+  { scope: 'view_medicines', label: 'View medicines' },
+  { scope: 'view_adherence', label: 'View adherence and history' },
+  { scope: 'log_doses', label: 'Log doses' },
+  { scope: 'edit_stock', label: 'Edit stock' },
+  { scope: 'edit_medicines', label: 'Add and edit medicines' },
+  { scope: 'view_face_scans', label: 'View face scans' },
+];
+
+// New links start read-only, the patient grants more from the care team screen
+export const DEFAULT_PERMISSIONS: Record<'caregiver' | 'doctor', PermissionScope[]> = {
+  caregiver: ['view_medicines', 'view_adherence'],
+  doctor: ['view_medicines', 'view_adherence', 'view_face_scans'],
+};
+
+export class PermissionDeniedError extends Error {
+  scope: PermissionScope;
+
+  constructor(scope: PermissionScope) {
+    const label = PERMISSION_SCOPES.find(s => s.scope === scope)?.label ?? scope;
+    super(`The patient hasn't given you permission to ${label.toLowerCase()}.`);
+    this.name = 'PermissionDeniedError';
+    this.scope = scope;
+  }
+}
+
+/**
+ * Acting user for service calls made from a signed-in session
+ */
+export const actorFor = (user: User): StatusActor => ({ source: user.role, userId: user.id });
+
+/**
+ * Acting for the app's own jobs, which read and update any patient on the device
+ */
+export const SYSTEM_ACTOR: StatusActor = { source: 'system' };
+
+/**
+ * Scopes stored on a relationship row
+ */
+export const parsePermissions = (
+  permissions: string | null | undefined,
+  role: 'caregiver' | 'doctor'
+): PermissionScope[] => {
+  if (!permissions) {
+    // Links restored from backups made before scopes existed
+    return DEFAULT_PERMISSIONS[role];
+  }
+  return JSON.parse(permissions) as PermissionScope[];
+};
+
+const linkPermissions = (link: Relationship): PermissionScope[] =>
+  parsePermissions(link.permissions, link.doctorId ? 'doctor' : 'caregiver');
+
+/**
+ * Scopes a user holds for a patient; patients hold every scope for themselves
+ */
+export const getPermissions = async (userId: number, patientId: number): Promise<PermissionScope[]> => {
+  if (userId === patientId) {
+    return PERMISSION_SCOPES.map(s => s.scope);
+  }
+
+  const links = await relationshipsRepo.listLinks(patientId, userId);
+  return Array.from(new Set(links.flatMap(linkPermissions)));
+};
+
+export const hasPermission = async (
+  userId: number,
+  patientId: number,
+  scope: PermissionScope
+): Promise<boolean> => {
+  return (await getPermissions(userId, patientId)).includes(scope);
+};
+
+/**
+ * Throw PermissionDeniedError unless the actor may use the scope for this patient.
+ * Patients only act for themselves, so a patient actor has to name its user.
+ */
+export const authorize = async (
+  actor: StatusActor,
+  patientId: number,
+  scope: PermissionScope
+): Promise<void> => {
+  if (actor.source === 'system' || actor.source === 'missed_dose_sweep') return;
+
+  if (actor.source === 'patient') {
+    if (actor.userId === patientId) return;
+    throw new PermissionDeniedError(scope);
+  }
+
+  if (actor.userId === undefined || !(await hasPermission(actor.userId, patientId, scope))) {
+    throw new PermissionDeniedError(scope);
+  }
+};
+
+/**
+ * authorize() as a yes/no, for views that leave out what the actor can't see
+ */
+export const isAuthorized = async (
+  actor: StatusActor,
+  patientId: number,
+  scope: PermissionScope
+): Promise<boolean> => {
+  try {
+    await authorize(actor, patientId, scope);
+    return true;
+  } catch (error) {
+    if (error instanceof PermissionDeniedError) return false;
+    throw error;
+  }
+};
+
+/**
+ * authorize() for calls that only know the medicine
+ */
+export const authorizeForMedicine = async (
+  medicineId: number,
+  actor: StatusActor,
+  scope: PermissionScope
+): Promise<void> => {
+  const medicine = await medicinesRepo.findById(medicineId);
+  if (medicine) {
+    await authorize(actor, medicine.patientId, scope);
+  }
+};
+
+export const setRelationshipPermissions = async (
+  patientId: number,
+  relationshipId: number,
+  scopes: PermissionScope[]
+): Promise<boolean> => {
+  return await relationshipsRepo.updatePermissions(relationshipId, patientId, JSON.stringify(scopes));
+};
@@ -0,0 +1,103 @@
+import { logsRepo } from '../repositories';
+import { Medicine, MedicineLog, StatusActor } from '../types';
+import { checkAndNotifyLowStock } from './stockService';
+import { authorize } from './permissionService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PrnDoseCheck {
+  allowed: boolean;
+  warnings: string[];
+  dosesLast24h: number;
+  lastTakenAt: string | null;
+  nextAllowedAt: string | null;
+}
+
+/**
+ * On-demand doses taken in the 24 hours before `now`, newest first
+ */
+export const getRecentPrnDoses = async (
+  medicineId: number,
+  now: Date = new Date()
+): Promise<MedicineLog[]> => {
+  const since = new Date(now.getTime() - DAY_MS).toISOString();
+  return await logsRepo.listPrnDosesSince(medicineId, since);
+};
+
+/**
+ * Check a PRN dose against the medicine's minimum interval and 24h maximum
+ * before it is taken, so the patient can be warned first
+ */
+export const checkPrnDose = async (
+  medicine: Medicine,
+  now: Date = new Date()
+): Promise<PrnDoseCheck> => {
+  const recentDoses = await getRecentPrnDoses(medicine.id, now);
+  const warnings: string[] = [];
+  const lastTakenAt = recentDoses[0]?.takenAt || null;
+  let nextAllowedAt: string | null = null;
+
+  if (lastTakenAt && medicine.minIntervalMinutes) {
+    const earliestNext = new Date(lastTakenAt).getTime() + medicine.minIntervalMinutes * 60 * 1000;
+    if (earliestNext > now.getTime()) {
+      const waitMinutes = Math.ceil((earliestNext - now.getTime()) / (60 * 1000));
+      nextAllowedAt = new Date(earliestNext).toISOString();
+      warnings.push(
+        `The last dose was less than ${medicine.minIntervalMinutes} minutes ago. Wait another ${waitMinutes} min.`
+      );
+    }
+  }
+
+  if (medicine.maxDailyDoses && recentDoses.length >= medicine.maxDailyDoses) {
+    // Another dose fits once only maxDailyDoses - 1 remain in the window,
+    // i.e. when the maxDailyDoses-th newest dose turns 24 hours old
+    const blocking = recentDoses[medicine.maxDailyDoses - 1];
+    const freedAt = new Date(new Date(blocking.takenAt!).getTime() + DAY_MS).toISOString();
+    if (!nextAllowedAt || freedAt > nextAllowedAt) {
+      nextAllowedAt = freedAt;
+    }
+    warnings.push(
+      `${recentDoses.length} of ${medicine.maxDailyDoses} maximum doses already taken in the last 24 hours.`
+    );
+  }
+
+  return {
+    allowed: warnings.length === 0,
+    warnings,
+    dosesLast24h: recentDoses.length,
+    lastTakenAt,
+    nextAllowedAt,
+  };
+};
+
+/**
+ * Record an as-needed dose taken right now. PRN doses are marked with isPrn
+ * so they never count towards adherence.
+ */
+export const logPrnDose = async (
+  medicine: Medicine,
+  actor: StatusActor,
+  notes?: string
+): Promise<MedicineLog> => {
+  await authorize(actor, medicine.patientId, 'log_doses');
+  const now = new Date().toISOString();
+
+  const id = await logsRepo.insertPrnDose(medicine.id, medicine.patientId, now, notes || '', actor);
+
+  await checkAndNotifyLowStock(medicine.id, medicine.patientId);
+
+  return {
+    id,
+    medicineId: medicine.id,
+    patientId: medicine.patientId,
+    scheduledTime: now,
+    takenAt: now,
+    status: 'taken',
+    notes,
+    statusSource: actor.source,
+    statusChangedBy: actor.userId,
+    statusChangedAt: now,
+    isPrn: 1,
+    createdAt: now,
+  };
+};
@@ -0,0 +1,142 @@
+import { Medicine, RecurrenceRule } from '../types';
+import { parseDbTimestamp, toDateKey } from '../utils/dateUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Whole calendar days from the anchor to the given day, immune to DST shifts
+const daysSinceAnchor = (anchorDate: string, day: Date): number => {
+  const [year, month, date] = anchorDate.split('-').map(Number);
+  const anchor = Date.UTC(year, month - 1, date);
+  const target = Date.UTC(day.getFullYear(), day.getMonth(), day.getDate());
+  return Math.round((target - anchor) / DAY_MS);
+};
+
+const formatTime = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+export const createDailyRecurrence = (anchorDate: string, interval: number = 1): RecurrenceRule => ({
+  freq: 'daily',
+  interval,
+  anchorDate,
+});
+
+/**
+ * Medicines created before recurrence rules existed are plain daily schedules
+ * anchored on the day they were added
+ */
+export const parseRecurrence = (medicine: Medicine): RecurrenceRule => {
+  if (medicine.recurrence) {
+    try {
+      return JSON.parse(medicine.recurrence) as RecurrenceRule;
+    } catch (error) {
+      console.error('Invalid recurrence rule for medicine', medicine.id, error);
+    }
+  }
+  return createDailyRecurrence(toDateKey(parseDbTimestamp(medicine.createdAt)));
+};
+
+/**
+ * Whether a rule produces plain every-day doses at fixed clock times
+ */
+export const isSimpleDaily = (rule: RecurrenceRule): boolean =>
+  rule.freq === 'daily' && rule.interval === 1;
+
+/**
+ * Whether the day lies between the medicine's course start and end dates
+ */
+export const isWithinCourse = (medicine: Medicine, day: Date): boolean => {
+  const dateKey = toDateKey(day);
+  const startDate = medicine.startDate || toDateKey(parseDbTimestamp(medicine.createdAt));
+  if (dateKey < startDate) return false;
+  return !medicine.endDate || dateKey <= medicine.endDate;
+};
+
+/**
+ * Whether any dose falls on the given local day
+ */
+export const isDoseDay = (rule: RecurrenceRule, day: Date): boolean => {
+  const elapsedDays = daysSinceAnchor(rule.anchorDate, day);
+  if (elapsedDays < 0) return false;
+
+  switch (rule.freq) {
+    case 'daily':
+      return elapsedDays % Math.max(rule.interval, 1) === 0;
+    case 'weekly': {
+      const weekdays = rule.byWeekday || [];
+      const elapsedWeeks = Math.floor(elapsedDays / 7);
+      return weekdays.includes(day.getDay()) && elapsedWeeks % Math.max(rule.interval, 1) === 0;
+    }
+    case 'cycle': {
+      const daysOn = rule.daysOn || 0;
+      const cycleLength = daysOn + (rule.daysOff || 0);
+      return cycleLength > 0 && elapsedDays % cycleLength < daysOn;
+    }
+    case 'hourly':
+      return true;
+    default:
+      return false;
+  }
+};
+
+/**
+ * Clock times ("HH:MM") a medicine is due on the given local day, none outside its course.
+ * Hourly rules step from the first configured time on the anchor day,
+ * so "every 8 hours" keeps its rhythm across midnight.
+ */
+export const getDoseTimesForDay = (medicine: Medicine, day: Date): string[] => {
+  const rule = parseRecurrence(medicine);
+  const times = JSON.parse(medicine.times || '[]') as string[];
+
+  if (!isWithinCourse(medicine, day) || !isDoseDay(rule, day)) return [];
+  if (rule.freq !== 'hourly') return times;
+  if (times.length === 0 || rule.interval <= 0) return [];
+
+  const [hours, minutes] = times[0].split(':').map(Number);
+  const stepMinutes = rule.interval * 60;
+  const dayStart = daysSinceAnchor(rule.anchorDate, day) * 24 * 60;
+  const firstDose = hours * 60 + minutes;
+
+  const doseTimes: string[] = [];
+  let next = firstDose + Math.max(0, Math.ceil((dayStart - firstDose) / stepMinutes)) * stepMinutes;
+
+  while (next < dayStart + 24 * 60) {
+    doseTimes.push(formatTime(next - dayStart));
+    next += stepMinutes;
+  }
+
+  return doseTimes;
+};
+
+/**
+ * Human readable summary, used as the medicine's frequency label
+ */
+export const describeRecurrence = (rule: RecurrenceRule, timesPerDay: number): string => {
+  switch (rule.freq) {
+    case 'daily':
+      if (rule.interval === 2) return 'Every other day';
+      if (rule.interval > 2) return `Every ${rule.interval} days`;
+      if (timesPerDay === 1) return 'Once a day';
+      if (timesPerDay === 2) return 'Twice a day';
+      if (timesPerDay === 3) return 'Three times a day';
+      return `${timesPerDay} times a day`;
+    case 'weekly': {
+      const days = (rule.byWeekday || [])
+        .slice()
+        .sort((a, b) => a - b)
+        .map(d => WEEKDAY_LABELS[d])
+        .join('/');
+      return rule.interval > 1 ? `Every ${rule.interval} weeks on ${days}` : `Weekly on ${days}`;
+    }
+    case 'hourly':
+      return `Every ${rule.interval} hours`;
+    case 'cycle':
+      return `${rule.daysOn} days on / ${rule.daysOff} days off`;
+    default:
+      return 'Custom schedule';
+  }
+};
@@ -0,0 +1,158 @@
+import { logsRepo, medicinesRepo } from '../repositories';
+import { MedicineLog, StatusActor } from '../types';
+import { markMedicineSkipped, markMedicineTaken } from './medicineService';
+import { buildScheduledTime, generateDueLogs } from './scheduleService';
+import {
+  GroupedDose,
+  REMINDER_ACTIONS,
+  SNOOZE_MINUTES,
+  groupedDosesOf,
+  registerReminderCategory,
+  scheduleSnoozedGroupReminder,
+  scheduleSnoozedReminder,
+} from './notificationService';
+import {
+  getNotifier,
+  NotificationResponse,
+  NotificationSubscription,
+} from '../notifications/notifier';
+
+type RespondedNotification = NotificationResponse['notification'];
+
+// Presses already handled, by key, with when they were handled
+const HANDLED_PRESS_TTL_MS = 60 * 60 * 1000;
+const handledPresses = new Map<string, number>();
+
+/**
+ * Claim a press for handling, false if the task or the listener already has.
+ * Daily reminders keep their identifier, so the delivery time tells the days apart.
+ */
+const claimPress = ({ actionIdentifier, notification }: NotificationResponse): boolean => {
+  const now = Date.now();
+  handledPresses.forEach((handledAt, key) => {
+    if (now - handledAt > HANDLED_PRESS_TTL_MS) handledPresses.delete(key);
+  });
+
+  const key = `${notification.identifier}@${notification.date}:${actionIdentifier}`;
+  if (handledPresses.has(key)) return false;
+  handledPresses.set(key, now);
+  return true;
+};
+
+/**
+ * The dose a reminder was for. Daily reminders repeat without a date, so the
+ * day is taken from when it was delivered, less the adaptive delay.
+ */
+const resolveScheduledTime = (notification: RespondedNotification): string | null => {
+  const data = notification.content.data ?? {};
+  if (typeof data.scheduledTime === 'string') return data.scheduledTime;
+  if (typeof data.time !== 'string') return null;
+
+  const meanDelay = typeof data.meanDelay === 'number' ? data.meanDelay : 0;
+  return buildScheduledTime(new Date(notification.date - meanDelay * 60 * 1000), data.time);
+};
+
+const findDoseLog = async (medicineId: number, scheduledTime: string): Promise<MedicineLog | null> => {
+  const log = await logsRepo.findByScheduledTime(medicineId, scheduledTime);
+  if (log) return log;
+
+  // The app may not have run since the day started, so the log may not exist yet
+  const medicine = await medicinesRepo.findById(medicineId);
+  if (!medicine) return null;
+  await generateDueLogs(medicine.patientId);
+  return await logsRepo.findByScheduledTime(medicineId, scheduledTime);
+};
+
+// Notification buttons are pressed by the patient the dose belongs to
+const patientActor = (log: MedicineLog): StatusActor => ({ source: 'patient', userId: log.patientId });
+
+/**
+ * Take all / Snooze on a grouped reminder. Take all takes every dose that is
+ * still pending, so doses already taken or skipped in the app stay as they are.
+ */
+const handleGroupAction = async (
+  actionIdentifier: string,
+  notification: RespondedNotification,
+  doses: GroupedDose[]
+): Promise<void> => {
+  const resolved = doses.map(dose => ({
+    ...dose,
+    scheduledTime: dose.scheduledTime
+      ?? buildScheduledTime(new Date(notification.date + dose.offsetMinutes * 60 * 1000), dose.time),
+  }));
+
+  await getNotifier().dismiss(notification.identifier);
+
+  if (actionIdentifier === REMINDER_ACTIONS.takeAll) {
+    for (const dose of resolved) {
+      const log = await findDoseLog(dose.medicineId, dose.scheduledTime);
+      if (log && log.status === 'pending') {
+        await markMedicineTaken(log.id, patientActor(log), 'Taken from notification');
+      }
+    }
+  } else if (SNOOZE_MINUTES[actionIdentifier]) {
+    await scheduleSnoozedGroupReminder(notification.content, resolved, SNOOZE_MINUTES[actionIdentifier]);
+  }
+};
+
+/**
+ * Resolve the dose behind a Take / Snooze / Skip press. A running app can get
+ * the same press from both the task and the listener; only the first one acts,
+ * so a snooze is booked once.
+ */
+export const handleReminderAction = async (
+  response: NotificationResponse
+): Promise<void> => {
+  const { actionIdentifier, notification } = response;
+  const isAction = Object.values(REMINDER_ACTIONS).some(action => action === actionIdentifier);
+  if (!isAction || !claimPress(response)) return;
+
+  const doses = groupedDosesOf(notification.content.data);
+  if (doses) {
+    await handleGroupAction(actionIdentifier, notification, doses);
+    return;
+  }
+
+  const medicineId = notification.content.data?.medicineId;
+  if (typeof medicineId !== 'number') return;
+
+  const scheduledTime = resolveScheduledTime(notification);
+  if (!scheduledTime) return;
+
+  await getNotifier().dismiss(notification.identifier);
+
+  const log = await findDoseLog(medicineId, scheduledTime);
+  if (!log || log.status !== 'pending') return;
+
+  if (actionIdentifier === REMINDER_ACTIONS.take) {
+    await markMedicineTaken(log.id, patientActor(log), 'Taken from notification');
+  } else if (actionIdentifier === REMINDER_ACTIONS.skip) {
+    await markMedicineSkipped(log.id, patientActor(log), 'Skipped from notification');
+  } else {
+    await scheduleSnoozedReminder(notification.content, scheduledTime, SNOOZE_MINUTES[actionIdentifier]);
+  }
+};
+
+/**
+ * Foreground presses, and iOS, which wakes the app to deliver the response.
+ * Android hands background presses to the task in backgroundTaskService.
+ */
+export const listenForReminderActions = (): NotificationSubscription =>
+  getNotifier().addResponseListener((response) => {
+    handleReminderAction(response).catch((error) => {
+      console.error('Error handling reminder action:', error);
+    });
+  });
+
+/**
+ * Register the reminder buttons
+ */
+export const registerReminderActions = async (): Promise<boolean> => {
+  try {
+    await registerReminderCategory();
+    return true;
+  } catch (error) {
+    console.error('Error registering reminder actions:', error);
+    return false;
+  }
+};
@@ -0,0 +1,110 @@
+import { logsRepo, medicinesRepo, withTransaction } from '../repositories';
+import { Medicine } from '../types';
+import { parseDbTimestamp, startOfDay } from '../utils/dateUtils';
+import { getDoseTimesForDay } from './recurrenceService';
+import { completeEndedCourses } from './medicineService';
+
+// How many past days to backfill when the app hasn't been opened for a while
+const MAX_CATCH_UP_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ScheduleSyncResult {
+  created: number;
+  medicinesProcessed: number;
+  coursesCompleted: number;
+}
+
+// App start, foreground and screen loads can all trigger a sync at once;
+// share the running one instead of opening overlapping transactions
+const runningSyncs = new Map<number, Promise<ScheduleSyncResult>>();
+
+/**
+ * Build the ISO scheduledTime for a clock time ("08:30") on a given local day
+ */
+export const buildScheduledTime = (day: Date, time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const scheduled = new Date(day);
+  scheduled.setHours(hours, minutes, 0, 0);
+  return scheduled.toISOString();
+};
+
+/**
+ * Create the pending dose logs of one medicine for one day, following its recurrence rule.
+ * Slots that already have a log are left untouched, so this is safe to re-run.
+ */
+export const generateLogsForDay = async (
+  medicine: Medicine,
+  day: Date
+): Promise<number> => {
+  const times = getDoseTimesForDay(medicine, day);
+  const createdAt = parseDbTimestamp(medicine.createdAt).getTime();
+
+  let created = 0;
+
+  for (const time of times) {
+    const scheduledTime = buildScheduledTime(day, time);
+
+    // Doses due before the medicine was added were never expected
+    if (new Date(scheduledTime).getTime() < createdAt) continue;
+
+    created += await logsRepo.insertPendingIfMissing(medicine.id, medicine.patientId, scheduledTime);
+  }
+
+  return created;
+};
+
+const syncPatientLogs = async (
+  patientId: number,
+  now: Date
+): Promise<ScheduleSyncResult> => {
+  const medicines = await medicinesRepo.listActiveByPatient(patientId);
+
+  const today = startOfDay(now);
+  const earliest = new Date(today.getTime() - MAX_CATCH_UP_DAYS * DAY_MS);
+
+  let created = 0;
+
+  await withTransaction(async () => {
+    for (const medicine of medicines) {
+      const lastScheduled = await logsRepo.getLastScheduledTime(medicine.id);
+
+      // Resume from the last generated day (re-checked in case times were added),
+      // otherwise from the day the medicine was added
+      const resumeFrom = lastScheduled
+        ? startOfDay(new Date(lastScheduled))
+        : startOfDay(parseDbTimestamp(medicine.createdAt));
+
+      let day = resumeFrom < earliest ? earliest : resumeFrom;
+
+      while (day <= today) {
+        created += await generateLogsForDay(medicine, day);
+        day = new Date(day);
+        day.setDate(day.getDate() + 1);
+      }
+    }
+  });
+
+  // Close finished courses only after their last days have been generated
+  const coursesCompleted = await completeEndedCourses(patientId, now);
+
+  return { created, medicinesProcessed: medicines.length, coursesCompleted };
+};
+
+/**
+ * Generate dose logs for every medicine of a patient up to and including today.
+ * Days missed since the last generated log are caught up (bounded by MAX_CATCH_UP_DAYS).
+ */
+export const generateDueLogs = (
+  patientId: number,
+  now: Date = new Date()
+): Promise<ScheduleSyncResult> => {
+  const running = runningSyncs.get(patientId);
+  if (running) return running;
+
+  const sync = syncPatientLogs(patientId, now).finally(() => {
+    runningSyncs.delete(patientId);
+  });
+  runningSyncs.set(patientId, sync);
+  return sync;
+};
@@ -1,96 +1,45 @@
-import { getDatabase } from '../database/database';
-import { Medicine, User, Relationship } from '../types';
+import { medicinesRepo, relationshipsRepo, usersRepo } from '../repositories';
+import { Medicine, StatusActor, User } from '../types';
 import { sendInstantNotification } from './notificationService';
+import { authorizeForMedicine } from './permissionService';
 
 export const getLowStockMedicines = async (patientId: number): Promise<Medicine[]> => {
-  const db = await getDatabase();
-  const medicines = await db.getAllAsync<Medicine>(
-    'SELECT * FROM Medicines WHERE patientId = ? AND stock <= 2 ORDER BY stock ASC',
-    [patientId]
-  );
-  return medicines;
+  return await medicinesRepo.listLowStock(patientId, 2);
 };
 
 export const getOutOfStockMedicines = async (patientId: number): Promise<Medicine[]> => {
-  const db = await getDatabase();
-  const medicines = await db.getAllAsync<Medicine>(
-    'SELECT * FROM Medicines WHERE patientId = ? AND stock = 0 ORDER BY name ASC',
-    [patientId]
-  );
-  return medicines;
+  return await medicinesRepo.listOutOfStock(patientId);
 };
 
-export const updateStock = async (medicineId: number, newStock: number): Promise<void> => {
-  const db = await getDatabase();
-  await db.runAsync('UPDATE Medicines SET stock = ? WHERE id = ?', [newStock, medicineId]);
+export const updateStock = async (
+  medicineId: number,
+  newStock: number,
+  actor: StatusActor
+): Promise<void> => {
+  await authorizeForMedicine(medicineId, actor, 'edit_stock');
+  await medicinesRepo.updateStock(medicineId, newStock);
 };
 
 export const decrementStock = async (medicineId: number): Promise<number> => {
-  const db = await getDatabase();
-  await db.runAsync(
-    'UPDATE Medicines SET stock = CASE WHEN stock > 0 THEN stock - 1 ELSE 0 END WHERE id = ?',
-    [medicineId]
-  );
-  
-  const medicine = await db.getFirstAsync<Medicine>(
-    'SELECT stock FROM Medicines WHERE id = ?',
-    [medicineId]
-  );
-  
-  return medicine?.stock || 0;
+  return await medicinesRepo.decrementStock(medicineId);
 };
 
 export const getTotalMedicinesCount = async (patientId: number): Promise<number> => {
-  const db = await getDatabase();
-  const result = await db.getFirstAsync<{ count: number }>(
-    'SELECT COUNT(*) as count FROM Medicines WHERE patientId = ?',
-    [patientId]
-  );
-  return result?.count || 0;
+  return await medicinesRepo.countActive(patientId);
 };
 
 export const getTotalStockValue = async (patientId: number): Promise<number> => {
-  const db = await getDatabase();
-  const result = await db.getFirstAsync<{ total: number }>(
-    'SELECT SUM(stock) as total FROM Medicines WHERE patientId = ?',
-    [patientId]
-  );
-  return result?.total || 0;
+  return await medicinesRepo.sumStock(patientId);
 };
 
 // Get linked caregivers for a patient
 export const getLinkedCaregivers = async (patientId: number): Promise<User[]> => {
-  const db = await getDatabase();
-  const relationships = await db.getAllAsync<Relationship>(
-    'SELECT * FROM Relationships WHERE patientId = ?',
-    [patientId]
-  );
-  
-  const caregivers: User[] = [];
-  
-  for (const rel of relationships) {
-    if (rel.caregiverId) {
-      const caregiver = await db.getFirstAsync<User>(
-        'SELECT * FROM Users WHERE id = ?',
-        [rel.caregiverId]
-      );
-      if (caregiver) {
-        caregivers.push(caregiver);
-      }
-    }
-  }
-  
-  return caregivers;
+  return await relationshipsRepo.listCaregiversOfPatient(patientId);
 };
 
 // Get patient by ID
 export const getPatientById = async (patientId: number): Promise<User | null> => {
-  const db = await getDatabase();
-  const patient = await db.getFirstAsync<User>(
-    'SELECT * FROM Users WHERE id = ?',
-    [patientId]
-  );
-  return patient || null;
+  return await usersRepo.findById(patientId);
 };
 
 // Send stock notification to patient and caregivers
@@ -104,7 +53,8 @@ export const sendStockNotification = async (
   // Notify patient
   await sendInstantNotification(
     '💊 Medicine Stock Alert',
-    stockMessage
+    stockMessage,
+    patientId
   );
   
   // Get and notify caregivers
@@ -113,7 +63,8 @@ export const sendStockNotification = async (
   for (const caregiver of caregivers) {
     await sendInstantNotification(
       '💊 Caregiver: Medicine Stock Alert',
-      `${stockMessage} Patient ID: ${patientId}`
+      `${stockMessage} Patient ID: ${patientId}`,
+      caregiver.id
     );
   }
 };
@@ -127,11 +78,7 @@ export const checkAndNotifyLowStock = async (
   
   if (newStock <= 2) {
     // Get medicine name
-    const db = await getDatabase();
-    const medicine = await db.getFirstAsync<Medicine>(
-      'SELECT * FROM Medicines WHERE id = ?',
-      [medicineId]
-    );
+    const medicine = await medicinesRepo.findById(medicineId);
     
     if (medicine) {
       await sendStockNotification(patientId, medicine.name, newStock);
@@ -0,0 +1,56 @@
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import { setDriver, SqlDriver } from '../database/driver';
+import { runMigrations } from '../database/migrations';
+import { createNodeDriver, NodeSqliteDatabase } from '../database/nodeDriver';
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+/**
+ * sql.js (SQLite compiled to WebAssembly) behind the synchronous API that
+ * createNodeDriver expects, so the tests run on any Node version
+ */
+const wrapSqlJs = (db: Database): NodeSqliteDatabase => ({
+  prepare: (sql) => ({
+    all: (...params) => {
+      const statement = db.prepare(sql, params);
+      const rows: unknown[] = [];
+      while (statement.step()) rows.push(statement.getAsObject());
+      statement.free();
+      return rows;
+    },
+    get: (...params) => {
+      const statement = db.prepare(sql, params);
+      const row = statement.step() ? statement.getAsObject() : undefined;
+      statement.free();
+      return row;
+    },
+    run: (...params) => {
+      db.run(sql, params);
+      const [lastInsert] = db.exec('SELECT last_insert_rowid()');
+      return { changes: db.getRowsModified(), lastInsertRowid: Number(lastInsert.values[0][0]) };
+    },
+  }),
+  exec: (sql) => db.exec(sql),
+  close: () => db.close(),
+});
+
+/**
+ * An empty in-memory database
+ */
+export const openTestDatabase = async (): Promise<SqlDriver> => {
+  if (!sqlJs) {
+    sqlJs = initSqlJs();
+  }
+  const SQL = await sqlJs;
+  return createNodeDriver(wrapSqlJs(new SQL.Database()));
+};
+
+/**
+ * An in-memory database at the latest schema, used by the repositories from now on
+ */
+export const useMigratedTestDatabase = async (): Promise<SqlDriver> => {
+  const db = await openTestDatabase();
+  await runMigrations(db);
+  setDriver(db);
+  return db;
+};
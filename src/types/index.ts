@@ -6,21 +6,86 @@ export interface User {
   age?: number;
   username?: string;
   role: UserRole;
-  uniqueCode: string;
+  uniqueCode: string; // account code, signs in together with the PIN
+  pinHash?: string;
+  pinSalt?: string;
+  failedLoginAttempts?: number;
+  lockedUntil?: string;
   relation?: string;
   specialization?: string;
+  appointmentReminders?: string; // JSON minutes before each appointment
+  quietHoursStart?: string; // HH:MM, reminders in quiet hours arrive silently
+  quietHoursEnd?: string;
+  alertStyle?: AlertStyle;
+  reminderGroupMinutes?: number; // doses due this close together share one reminder
   createdAt: string;
 }
 
+export type AlertStyle = 'sound' | 'vibrate' | 'silent';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'hourly' | 'cycle';
+
+// RRULE-like schedule pattern, stored as JSON on Medicines.recurrence
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number; // every N days (daily), weeks (weekly) or hours (hourly)
+  byWeekday?: number[]; // weekly: 0 = Sunday ... 6 = Saturday
+  daysOn?: number; // cycle: days with doses...
+  daysOff?: number; // ...followed by days without
+  anchorDate: string; // YYYY-MM-DD the pattern counts from
+}
+
+export type MedicineStatus = 'active' | 'completed' | 'archived';
+
 export interface Medicine {
   id: number;
   patientId: number;
   name: string;
   dosage: string;
   frequency: string;
-  times: string; // JSON string array of times
+  times: string; // JSON string array of times (first dose time for hourly rules)
+  recurrence?: string; // JSON RecurrenceRule, empty means every day
   stock: number;
   instructions?: string;
+  graceMinutes: number; // minutes after scheduledTime before a pending dose counts as missed
+  startDate?: string; // YYYY-MM-DD first day of the course, empty means the day it was added
+  endDate?: string; // YYYY-MM-DD last day of the course, empty means ongoing
+  status: MedicineStatus;
+  completedAt?: string;
+  isPrn: number; // 1 for "as needed" medicines, logged on demand instead of scheduled
+  minIntervalMinutes?: number; // PRN: minimum gap between two doses
+  maxDailyDoses?: number; // PRN: maximum doses in any 24 hours
+  escalateRemindMinutes?: number; // remind the patient again this long after a dose is due
+  escalateCaregiverMinutes?: number; // then alert linked caregivers if it is still pending
+  isCritical: number; // 1 when reminders have to break through quiet hours and silent mode
+  createdAt: string;
+}
+
+// Who or what last changed a dose log's status. system is the app's own
+// jobs (schedule sync, reminders, alerts) acting for the patient
+export type LogStatusSource = 'patient' | 'caregiver' | 'doctor' | 'missed_dose_sweep' | 'system';
+
+export interface EscalationPolicy {
+  remindMinutes?: number; // remind the patient again after this long
+  caregiverMinutes?: number; // then alert linked caregivers after this long
+}
+
+// How far an ignored reminder was escalated
+export type EscalationStage = 'patient_reminded' | 'caregivers_notified';
+
+export interface StatusActor {
+  source: LogStatusSource;
+  userId?: number;
+}
+
+// One date range of a tapering / titration plan, dates are inclusive YYYY-MM-DD
+export interface DosePlanStep {
+  id: number;
+  medicineId: number;
+  stepOrder: number;
+  dosage: string;
+  startDate: string;
+  endDate: string;
   createdAt: string;
 }
 
@@ -32,6 +97,24 @@ export interface MedicineLog {
   takenAt?: string;
   status: 'pending' | 'taken' | 'missed' | 'skipped';
   notes?: string;
+  statusSource?: LogStatusSource;
+  statusChangedBy?: number;
+  statusChangedAt?: string;
+  isPrn: number; // 1 for on-demand doses, excluded from adherence
+  escalationStage?: EscalationStage;
+  escalatedAt?: string;
+  createdAt: string;
+}
+
+// One scheduled reminder notification. slot is "daily@08:30" for a repeating
+// reminder, or the dose's ISO scheduledTime for a one-off
+export interface ScheduledReminder {
+  id: number;
+  patientId: number;
+  medicineId: number;
+  slot: string;
+  notificationId: string;
+  signature: string; // what the notification was booked with, to spot changes
   createdAt: string;
 }
 
@@ -57,23 +140,98 @@ export interface AdherenceDetails {
   missedDoses: number;
 }
 
+// What a linked caregiver or doctor may do with the patient's data
+export type PermissionScope =
+  | 'view_medicines'
+  | 'view_adherence'
+  | 'log_doses'
+  | 'edit_stock'
+  | 'edit_medicines'
+  | 'view_face_scans';
+
 export interface Relationship {
   id: number;
   patientId: number;
   caregiverId?: number;
   doctorId?: number;
   relationshipType: string;
+  permissions: string; // JSON PermissionScope array
   linkedAt: string;
 }
 
+// A linked caregiver or doctor, as the patient sees them
+export interface CareTeamMember {
+  relationshipId: number;
+  userId: number;
+  name: string;
+  role: 'caregiver' | 'doctor';
+  relationshipType: string; // relation for caregivers, specialization for doctors
+  permissions: string; // JSON PermissionScope array
+  linkedAt: string;
+}
+
+export type AppointmentStatus = 'scheduled' | 'completed' | 'cancelled';
+
 export interface Appointment {
   id: number;
   patientId: number;
   doctorId: number;
-  date: string;
-  time: string;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM
+  durationMinutes: number;
   notes?: string;
-  status: 'scheduled' | 'completed' | 'cancelled';
+  status: AppointmentStatus;
+  createdAt: string;
+}
+
+export interface AppointmentWithPeople extends Appointment {
+  patientName: string;
+  doctorName: string;
+  doctorSpecialization?: string;
+}
+
+export interface ConsultationVitals {
+  bloodPressure?: string; // e.g. 120/80
+  heartRate?: number; // bpm
+  temperature?: number; // °C
+  weight?: number; // kg
+}
+
+// Notes a doctor writes for one visit, optionally tied to the appointment
+export interface Consultation {
+  id: number;
+  patientId: number;
+  doctorId: number;
+  appointmentId?: number;
+  visitDate: string; // YYYY-MM-DD
+  complaints?: string;
+  observations?: string;
+  vitals?: string; // JSON ConsultationVitals
+  plan?: string;
+  medicationChanges?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface ConsultationWithDoctor extends Consultation {
+  doctorName: string;
+  doctorSpecialization?: string;
+}
+
+export type InvitationRole = 'caregiver' | 'doctor';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+// Single-use code a patient hands out to link one caregiver or doctor
+export interface Invitation {
+  id: number;
+  patientId: number;
+  role: InvitationRole;
+  code: string;
+  status: Exclude<InvitationStatus, 'expired'>; // expired is derived from expiresAt
+  expiresAt: string;
+  acceptedBy?: number;
+  acceptedAt?: string;
   createdAt: string;
 }
 
@@ -94,6 +252,13 @@ export type PatientStackParamList = {
   PatientAdherence: undefined;
   PatientProfile: undefined;
   FaceScan: undefined;
+  Backup: undefined;
+  ChangePin: undefined;
+  Invitations: undefined;
+  CareTeam: undefined;
+  PatientAppointments: undefined;
+  PatientConsultations: undefined;
+  NotificationSettings: undefined;
 };
 
 export type CaregiverStackParamList = {
@@ -103,6 +268,8 @@ export type CaregiverStackParamList = {
   Notifications: undefined;
   Alerts: undefined;
   CaregiverProfile: undefined;
+  LinkPatient: { inviteCode?: string } | undefined;
+  NotificationSettings: undefined;
 };
 
 export type DoctorStackParamList = {
@@ -112,16 +279,22 @@ export type DoctorStackParamList = {
   PatientAdherenceReport: { patientId: number };
   DoctorAlerts: undefined;
   Appointments: undefined;
-  Consultations: undefined;
+  BookAppointment: { appointmentId?: number; patientId?: number } | undefined;
+  Consultations: { patientId: number };
+  ConsultationNote: { patientId: number; appointmentId?: number; consultationId?: number };
   DoctorProfile: undefined;
+  AddPatient: { inviteCode?: string } | undefined;
+  NotificationSettings: undefined;
 };
 
 export type AuthStackParamList = {
+  ProfilePicker: undefined;
   RoleSelection: undefined;
   PatientRegister: undefined;
-  CaregiverRegister: undefined;
-  DoctorRegister: undefined;
+  CaregiverRegister: { inviteCode?: string } | undefined;
+  DoctorRegister: { inviteCode?: string } | undefined;
   Login: undefined;
+  AuthorizePinSetup: { accountId: number; name: string };
 };
 
 export type RootTabParamList = {
@@ -0,0 +1,27 @@
+import * as Crypto from 'expo-crypto';
+
+export const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+export const randomHex = (byteCount: number): string => toHex(Crypto.getRandomBytes(byteCount));
+
+export const sha256 = (data: string): Promise<string> =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, data, {
+    encoding: Crypto.CryptoEncoding.HEX,
+  });
+
+/**
+ * Iterated SHA-256 over a secret and salt, giving a 256-bit hex key.
+ * The rounds only exist to slow down guessing short secrets such as PINs.
+ */
+export const stretchKey = async (
+  secret: string,
+  salt: string,
+  rounds: number
+): Promise<string> => {
+  let key = await sha256(`${salt}:${secret}`);
+  for (let i = 0; i < rounds; i++) {
+    key = await sha256(`${key}:${secret}:${salt}`);
+  }
+  return key;
+};
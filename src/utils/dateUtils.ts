@@ -0,0 +1,48 @@
+/**
+ * SQLite CURRENT_TIMESTAMP values are UTC without a zone marker
+ * ("2024-01-31 08:15:00"), ISO strings written by the app already have one
+ */
+export const parseDbTimestamp = (value: string): Date => {
+  if (value.includes('T')) return new Date(value);
+  return new Date(value.replace(' ', 'T') + 'Z');
+};
+
+export const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+/**
+ * A local calendar day as ISO strings, [start, end), for comparing with
+ * stored ISO scheduled times
+ */
+export const localDayRange = (date: Date): { start: string; end: string } => {
+  const start = startOfDay(date);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start: start.toISOString(), end: end.toISOString() };
+};
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export const toDateKey = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Parse a YYYY-MM-DD key as local midnight
+ */
+export const fromDateKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDaysToKey = (dateKey: string, days: number): string => {
+  const date = fromDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};